@@ -5,6 +5,7 @@ import { LandingPage } from './components/LandingPage';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Toaster } from './components/ui/sonner';
 import { ErrorNotifier } from './components/ErrorNotifier';
+import { TaskSyncConflicts } from './components/TaskSyncConflicts';
 import { FigmaErrorSuppressor } from './components/FigmaErrorSuppressor';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { useAuth } from './hooks/useAuth';
@@ -45,6 +46,7 @@ export default function App() {
           <MainApp />
         </ProtectedRoute>
         <ErrorNotifier />
+        <TaskSyncConflicts />
         <Toaster richColors position="top-center" />
       </AppProvider>
     </ErrorBoundary>
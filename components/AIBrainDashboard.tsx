@@ -24,6 +24,7 @@ import { learningEngine } from '../utils/ai-brain/learning-engine';
 import { knowledgeBase } from '../utils/ai-brain/knowledge-base';
 import { codeIntelligence } from '../utils/ai-brain/code-intelligence';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { SelectorOutcomeIngestion } from './SelectorOutcomeIngestion';
 
 export function AIBrainDashboard() {
   const [activeTab, setActiveTab] = useState('overview');
@@ -504,6 +505,8 @@ export function AIBrainDashboard() {
               </div>
             </CardContent>
           </Card>
+
+          <SelectorOutcomeIngestion />
         </TabsContent>
 
         {/* Knowledge Tab */}
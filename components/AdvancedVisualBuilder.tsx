@@ -1,6 +1,33 @@
-import type { Task } from '../types';
-import { useState } from 'react';
-import { Plus, Trash2, MoveUp, MoveDown, Save, Play, Copy, AlertTriangle, CheckCircle, Zap, GitBranch } from 'lucide-react';
+import type { Task, StepNode, StepType, StepCondition, ExtractionField, AssertionType } from '../types';
+import type { HealingSuggestion } from '../utils/selector-healing';
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, MoveUp, MoveDown, Save, Play, Copy, AlertTriangle, CheckCircle, Zap, GitBranch, Circle, Crosshair } from 'lucide-react';
+import {
+  createStep,
+  createStepGraph,
+  getDefaultStepParams,
+  readTaskStepGraph,
+  applyStepGraph,
+  getGraphTargetUrl,
+  getGraphVariables,
+  isContainerStep,
+  walkSteps,
+  findStepInTree,
+  updateStepInTree,
+  removeStepFromTree,
+  moveStepInTree,
+  insertStepInTree,
+  cloneStepWithNewIds,
+  type StepBranch,
+} from '../utils/step-graph';
+import { generateScriptFromGraph, describeAssertion, ASSERTION_LABELS, STEP_CONDITION_LABELS } from '../utils/step-codegen';
+import { parseScriptToGraph } from '../utils/step-parser';
+import { ExtractionSchemaEditor } from './EnhancedStepEditor';
+import { BrowserRecorderPanel } from './BrowserRecorderPanel';
+import { ElementPickerPanel } from './ElementPickerPanel';
+import { useApp } from '../contexts/AppContext';
+import { listVaultSecrets } from '../utils/secrets';
+import { loadHealingSuggestions, dismissHealingSuggestion, applyHealingSuggestion } from '../utils/selector-healing';
 
 type AdvancedVisualBuilderProps = {
   onTaskCreated: (task: Task) => void;
@@ -8,103 +35,163 @@ type AdvancedVisualBuilderProps = {
   onTaskUpdated?: (task: Task) => void; // callback لتحديث المهمة
 };
 
-type ActionStep = {
-  id: string;
-  type: 'navigate' | 'click' | 'type' | 'wait' | 'extract' | 'screenshot' | 'scroll' | 'video' | 'fillForm' | 'aiStep';
-  params: any;
-  fallbacks: any[];
-  conditions: any[];
-  errorHandling: {
-    ignoreErrors: boolean;
-    retryCount: number;
-  };
-};
+type ActionStep = StepNode;
 
 const actionTypes = [
   { value: 'navigate', label: 'فتح صفحة', icon: '🌐', color: 'bg-blue-100 text-blue-700' },
   { value: 'click', label: 'نقر على عنصر', icon: '👆', color: 'bg-green-100 text-green-700' },
   { value: 'type', label: 'كتابة نص', icon: '⌨️', color: 'bg-purple-100 text-purple-700' },
+  { value: 'select', label: 'اختيار من قائمة', icon: '🔽', color: 'bg-fuchsia-100 text-fuchsia-700' },
   { value: 'wait', label: 'انتظار', icon: '⏱️', color: 'bg-yellow-100 text-yellow-700' },
   { value: 'extract', label: 'استخراج بيانات', icon: '📊', color: 'bg-pink-100 text-pink-700' },
   { value: 'screenshot', label: 'التقاط صورة', icon: '📸', color: 'bg-indigo-100 text-indigo-700' },
   { value: 'scroll', label: 'تمرير الصفحة', icon: '⬇️', color: 'bg-orange-100 text-orange-700' },
   { value: 'video', label: 'تسجيل فيديو', icon: '🎥', color: 'bg-red-100 text-red-700' },
   { value: 'fillForm', label: 'ملء نموذج', icon: '📝', color: 'bg-teal-100 text-teal-700' },
-  { value: 'aiStep', label: 'خطوة ذكية AI', icon: '🤖', color: 'bg-violet-100 text-violet-700' }
+  { value: 'aiStep', label: 'خطوة ذكية AI', icon: '🤖', color: 'bg-violet-100 text-violet-700' },
+  { value: 'rawCode', label: 'كود مخصص', icon: '🧩', color: 'bg-slate-100 text-slate-700' },
+  { value: 'forEach', label: 'لكل عنصر', icon: '🔁', color: 'bg-cyan-100 text-cyan-700' },
+  { value: 'repeatUntil', label: 'تكرار حتى', icon: '🔄', color: 'bg-lime-100 text-lime-700' },
+  { value: 'if', label: 'إذا', icon: '🔀', color: 'bg-amber-100 text-amber-700' },
+  { value: 'setVariable', label: 'تعيين متغير', icon: '📌', color: 'bg-rose-100 text-rose-700' },
+  { value: 'crawl', label: 'زحف عبر الصفحات', icon: '🕸️', color: 'bg-emerald-100 text-emerald-700' },
+  { value: 'assert', label: 'تحقق', icon: '✔️', color: 'bg-sky-100 text-sky-700' }
 ];
 
+// التحققات التي لا تحتاج selector
+const PAGE_LEVEL_ASSERTIONS: AssertionType[] = ['urlMatches', 'responseStatus'];
+
+// عناوين فروع خطوات التحكم في قائمة الخطوات
+const branchLabels: Partial<Record<StepType, Partial<Record<StepBranch, string>>>> = {
+  forEach: { children: 'لكل عنصر نفّذ' },
+  repeatUntil: { children: 'كرّر' },
+  if: { children: 'إذا تحقق', elseChildren: 'وإلا' }
+};
+
+type InsertTarget = { parentId: string; branch: StepBranch };
+
 const templates = [
   { id: 'login', name: 'تسجيل دخول', icon: '🔐', description: 'قالب جاهز لتسجيل الدخول' },
   { id: 'scraping', name: 'جمع بيانات', icon: '📊', description: 'قالب لجمع البيانات من صفحة' },
   { id: 'testing', name: 'اختبار صفحة', icon: '🧪', description: 'قالب لاختبار عناصر الصفحة' }
 ];
 
+const conditionTypes = (Object.keys(STEP_CONDITION_LABELS) as StepCondition['type'][]).map(id => ({
+  id,
+  label: STEP_CONDITION_LABELS[id]
+}));
+
+// retry يعيد فحص الشرط مع كل محاولة - يحتاج عدد محاولات أكبر من صفر
+const conditionActions: { id: StepCondition['action']; label: string }[] = [
+  { id: 'skip', label: 'تخطي الخطوة إذا لم يتحقق' },
+  { id: 'fail', label: 'إيقاف المهمة إذا لم يتحقق' },
+  { id: 'retry', label: 'إعادة المحاولة حتى يتحقق' },
+  { id: 'continue', label: 'تحذير والمتابعة' }
+];
+
 export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: AdvancedVisualBuilderProps) {
   const [taskName, setTaskName] = useState(taskToEdit?.name || '');
   const [taskDescription, setTaskDescription] = useState(taskToEdit?.description || '');
-  const [steps, setSteps] = useState<ActionStep[]>(taskToEdit?.script ? parseScript(taskToEdit.script) : []);
+  const [steps, setSteps] = useState<ActionStep[]>(() => {
+    const graph = readTaskStepGraph(taskToEdit);
+    if (graph) return graph.steps;
+    return taskToEdit?.script ? parseScriptToGraph(taskToEdit.script).steps : [];
+  });
   const [selectedStep, setSelectedStep] = useState<string | null>(null);
   const [showTemplates, setShowTemplates] = useState(false);
+  const [showRecorder, setShowRecorder] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  // مكان إضافة الخطوات الجديدة: الجذر أو فرع خطوة تحكم
+  const [insertTarget, setInsertTarget] = useState<InsertTarget | null>(null);
+  const { githubAPI } = useApp();
+  // أسماء أسرار الخزنة فقط - القيم لا تصل للمتصفح
+  const [secretNames, setSecretNames] = useState<string[]>([]);
+  // محددات عالجها السكريبت المنشور ذاتياً - تصل من استيراد سجل المحددات
+  const [healingSuggestions, setHealingSuggestions] = useState<HealingSuggestion[]>(() =>
+    taskToEdit ? loadHealingSuggestions(taskToEdit.id) : []
+  );
+
+  useEffect(() => {
+    if (!githubAPI) return;
+    listVaultSecrets(githubAPI)
+      .then(secrets => setSecretNames(secrets.map(secret => secret.name)))
+      .catch(error => console.warn('Could not load vault secrets:', error.message));
+  }, [githubAPI]);
 
   const addStep = (type: ActionStep['type']) => {
-    const newStep: ActionStep = {
-      id: Date.now().toString(),
-      type,
-      params: getDefaultParams(type),
-      fallbacks: [],
-      conditions: [],
-      errorHandling: {
-        ignoreErrors: false,
-        retryCount: 3
-      }
-    };
-    setSteps([...steps, newStep]);
+    const newStep = createStep(type);
+    setSteps(insertStepInTree(steps, newStep, insertTarget));
     setSelectedStep(newStep.id);
   };
 
+  // الخطوات المسجلة تصل تباعاً أثناء التسجيل لذلك التحديث يعتمد على الحالة السابقة
+  const addRecordedStep = (step: ActionStep) => {
+    setSteps(previous => insertStepInTree(previous, step, insertTarget));
+  };
+
   const updateStep = (id: string, updates: Partial<ActionStep>) => {
-    setSteps(steps.map(step => step.id === id ? { ...step, ...updates } : step));
+    setSteps(updateStepInTree(steps, id, updates));
   };
 
   const deleteStep = (id: string) => {
-    setSteps(steps.filter(step => step.id !== id));
-    if (selectedStep === id) {
+    const newSteps = removeStepFromTree(steps, id);
+    setSteps(newSteps);
+    if (selectedStep && !findStepInTree(newSteps, selectedStep)) {
       setSelectedStep(null);
     }
+    if (insertTarget && !findStepInTree(newSteps, insertTarget.parentId)) {
+      setInsertTarget(null);
+    }
   };
 
   const duplicateStep = (id: string) => {
-    const step = steps.find(s => s.id === id);
+    let target: InsertTarget | null = null;
+    walkSteps(steps, (step, parent) => {
+      if (step.id === id && parent) {
+        target = { parentId: parent.id, branch: parent.elseChildren?.includes(step) ? 'elseChildren' : 'children' };
+      }
+    });
+
+    const step = findStepInTree(steps, id);
     if (step) {
-      const newStep = {
-        ...step,
-        id: Date.now().toString()
-      };
-      setSteps([...steps, newStep]);
+      setSteps(insertStepInTree(steps, cloneStepWithNewIds(step), target));
     }
   };
 
-  const moveStep = (index: number, direction: 'up' | 'down') => {
-    const newSteps = [...steps];
-    const targetIndex = direction === 'up' ? index - 1 : index + 1;
-    if (targetIndex >= 0 && targetIndex < newSteps.length) {
-      [newSteps[index], newSteps[targetIndex]] = [newSteps[targetIndex], newSteps[index]];
-      setSteps(newSteps);
-    }
+  const moveStep = (id: string, direction: 'up' | 'down') => {
+    setSteps(moveStepInTree(steps, id, direction));
   };
 
   const addFallback = (stepId: string) => {
-    const step = steps.find(s => s.id === stepId);
+    const step = findStepInTree(steps, stepId);
     if (step) {
-      const newFallback = { ...getDefaultParams(step.type) };
+      const newFallback = { ...getDefaultStepParams(step.type) };
       updateStep(stepId, {
         fallbacks: [...step.fallbacks, newFallback]
       });
     }
   };
 
+  const dismissSuggestion = (stepId: string) => {
+    if (taskToEdit) dismissHealingSuggestion(taskToEdit.id, stepId);
+    setHealingSuggestions(previous => previous.filter(suggestion => suggestion.stepId !== stepId));
+  };
+
+  const applySuggestion = (suggestion: HealingSuggestion) => {
+    const step = findStepInTree(steps, suggestion.stepId);
+    if (step) updateStep(step.id, applyHealingSuggestion(step, suggestion));
+    dismissSuggestion(suggestion.stepId);
+  };
+
+  const addFallbackSelector = (stepId: string, selector: string) => {
+    const step = findStepInTree(steps, stepId);
+    if (step) {
+      updateStep(stepId, { fallbacks: [...step.fallbacks, { selector }] });
+    }
+  };
+
   const updateFallback = (stepId: string, fallbackIndex: number, params: any) => {
-    const step = steps.find(s => s.id === stepId);
+    const step = findStepInTree(steps, stepId);
     if (step) {
       const newFallbacks = [...step.fallbacks];
       newFallbacks[fallbackIndex] = params;
@@ -113,7 +200,7 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
   };
 
   const removeFallback = (stepId: string, fallbackIndex: number) => {
-    const step = steps.find(s => s.id === stepId);
+    const step = findStepInTree(steps, stepId);
     if (step) {
       updateStep(stepId, {
         fallbacks: step.fallbacks.filter((_, i) => i !== fallbackIndex)
@@ -121,6 +208,34 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
     }
   };
 
+  const addCondition = (stepId: string) => {
+    const step = findStepInTree(steps, stepId);
+    if (step) {
+      const newCondition: StepCondition = { type: 'element_exists', target: '', action: 'skip' };
+      updateStep(stepId, {
+        conditions: [...step.conditions, newCondition]
+      });
+    }
+  };
+
+  const updateCondition = (stepId: string, conditionIndex: number, updates: Partial<StepCondition>) => {
+    const step = findStepInTree(steps, stepId);
+    if (step) {
+      const newConditions = [...step.conditions];
+      newConditions[conditionIndex] = { ...newConditions[conditionIndex], ...updates };
+      updateStep(stepId, { conditions: newConditions });
+    }
+  };
+
+  const removeCondition = (stepId: string, conditionIndex: number) => {
+    const step = findStepInTree(steps, stepId);
+    if (step) {
+      updateStep(stepId, {
+        conditions: step.conditions.filter((_, i) => i !== conditionIndex)
+      });
+    }
+  };
+
   const applyTemplate = (templateId: string) => {
     // تطبيق القوالب الجاهزة
     let newSteps: ActionStep[] = [];
@@ -251,113 +366,157 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
     setShowTemplates(false);
   };
 
-  const generateScript = () => {
-    let script = 'async function runTask(page) {\n';
-    script += '  try {\n';
-    
-    steps.forEach((step, index) => {
-      script += `    // Step ${index + 1}: ${actionTypes.find(a => a.value === step.type)?.label}\n`;
-      
-      // إضافة retry logic إذا كان مفعل
-      if (step.errorHandling.retryCount > 0) {
-        // استخدام اسم متغير فريد لكل خطوة لتجنب خطأ "Identifier 'retries' has already been declared"
-        script += `    let retries_step${index + 1} = ${step.errorHandling.retryCount};\n`;
-        script += `    while (retries_step${index + 1} > 0) {\n`;
-        script += `      try {\n`;
-        script += `        ${generateStepCode(step).split('\n').join('\n        ')}`;
-        script += `        break;\n`;
-        script += `      } catch (stepError) {\n`;
-        script += `        retries_step${index + 1}--;\n`;
-        script += `        if (retries_step${index + 1} === 0) {\n`;
-        if (step.errorHandling.ignoreErrors) {
-          script += `          console.warn('⚠️ تخطي الخطأ:', stepError.message);\n`;
-        } else {
-          script += `          throw stepError;\n`;
-        }
-        script += `        }\n`;
-        script += `        await page.waitForTimeout(1000);\n`;
-        script += `      }\n`;
-        script += `    }\n`;
-      } else {
-        const stepCode = generateStepCode(step);
-        script += `    ${stepCode.split('\n').join('\n    ')}`;
-      }
-      
-      script += '\n';
-    });
-    
-    script += '    console.log("✅ اكتملت المهمة بنجاح");\n';
-    script += '    return { success: true };\n';
-    script += '  } catch (error) {\n';
-    script += '    console.error("❌ خطأ:", error.message);\n';
-    script += '    return { success: false, error: error.message };\n';
-    script += '  }\n';
-    script += '}\n';
-    
-    return script;
-  };
-
-  const generateStepCode = (step: ActionStep): string => {
-    switch (step.type) {
-      case 'navigate':
-        return `await page.goto('${step.params.url}');\n`;
-      case 'click':
-        return `await page.click('${step.params.selector}');\n`;
-      case 'type':
-        return `await page.fill('${step.params.selector}', '${step.params.text}');\n`;
-      case 'wait':
-        if (step.params.type === 'time') {
-          return `await page.waitForTimeout(${step.params.duration});\n`;
-        } else {
-          return `await page.waitForSelector('${step.params.selector}');\n`;
-        }
-      case 'extract':
-        return `const data = await page.$$eval('${step.params.selector}', els => els.map(el => el.textContent));\n`;
-      case 'screenshot':
-        return `await page.screenshot({ ${step.params.fullPage ? 'fullPage: true' : ''} });\n`;
-      case 'scroll':
-        return `await page.evaluate(() => window.scrollTo(0, ${step.params.position || 'document.body.scrollHeight'}));\n`;
-      case 'video':
-        return `await page.evaluate(() => { /* كود تسجيل الفيديو هنا */ });\n`;
-      case 'fillForm':
-        return `await page.fill('${step.params.selector}', '${step.params.text}');\n`;
-      case 'aiStep':
-        return `await page.evaluate(() => { /* كود خطوة ذكية AI هنا */ });\n`;
-      default:
-        return '';
-    }
-  };
+  const generateScript = () => generateScriptFromGraph(createStepGraph(steps));
 
   const handleSave = () => {
-    const task: Task = {
+    const graph = createStepGraph(steps);
+    const task = applyStepGraph<Task>({
       id: Date.now().toString(),
       name: taskName || 'مهمة مرئية متقدمة',
       description: taskDescription || 'مهمة تم إنشاؤها بالمنشئ المرئي المتقدم',
       type: 'custom',
       status: 'idle',
-      script: generateScript(),
-      targetUrl: steps.find(s => s.type === 'navigate')?.params.url || '',
-      createdAt: new Date()
-    };
+      script: '',
+      targetUrl: getGraphTargetUrl(graph),
+      createdAt: new Date(),
+      metadata: { source: 'advanced-builder' }
+    }, graph);
     onTaskCreated(task);
   };
 
   const handleUpdate = () => {
     if (!taskToEdit) return;
-    const updatedTask: Task = {
+    const graph = createStepGraph(steps);
+    const updatedTask = applyStepGraph<Task>({
       ...taskToEdit,
       name: taskName || 'مهمة مرئية متقدمة',
       description: taskDescription || 'مهمة تم إنشاؤها بالمنشئ المرئي المتقدم',
       type: 'custom',
       status: 'idle',
-      script: generateScript(),
-      targetUrl: steps.find(s => s.type === 'navigate')?.params.url || '',
-      createdAt: new Date()
-    };
+      targetUrl: getGraphTargetUrl(graph),
+      createdAt: new Date(),
+      metadata: { ...taskToEdit.metadata, source: 'advanced-builder' }
+    }, graph);
     onTaskUpdated?.(updatedTask);
   };
 
-  const selectedStepData = steps.find(s => s.id === selectedStep);
+  const selectedStepData = selectedStep ? findStepInTree(steps, selectedStep) : undefined;
+  const selectedSuggestion = healingSuggestions.find(suggestion => suggestion.stepId === selectedStep);
+  const variables = getGraphVariables(createStepGraph(steps));
+
+  let stepCount = 0;
+  walkSteps(steps, () => stepCount++);
+
+  const insertTargetStep = insertTarget ? findStepInTree(steps, insertTarget.parentId) : undefined;
+
+  const renderStepList = (list: ActionStep[]) => (
+    <div className="space-y-2">
+      {list.map((step, index) => {
+        const actionType = actionTypes.find(a => a.value === step.type);
+        return (
+          <div key={step.id}>
+            <div
+              className={`p-4 border rounded-lg transition-all ${
+                selectedStep === step.id
+                  ? 'border-purple-500 bg-purple-50'
+                  : 'border-slate-200 hover:border-slate-300'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => moveStep(step.id, 'up')}
+                    disabled={index === 0}
+                    className="p-1 hover:bg-slate-100 rounded disabled:opacity-30"
+                  >
+                    <MoveUp className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => moveStep(step.id, 'down')}
+                    disabled={index === list.length - 1}
+                    className="p-1 hover:bg-slate-100 rounded disabled:opacity-30"
+                  >
+                    <MoveDown className="w-3 h-3" />
+                  </button>
+                </div>
+
+                <div
+                  onClick={() => setSelectedStep(step.id)}
+                  className="flex-1 cursor-pointer min-w-0"
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-lg">{actionType?.icon}</span>
+                    <span className="font-medium">{actionType?.label}</span>
+                    {step.fallbacks.length > 0 && (
+                      <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs rounded-full">
+                        {step.fallbacks.length} بديل
+                      </span>
+                    )}
+                    {step.conditions.length > 0 && (
+                      <span className="px-2 py-0.5 bg-purple-100 text-purple-700 text-xs rounded-full">
+                        {step.conditions.length} شرط
+                      </span>
+                    )}
+                    {healingSuggestions.some(suggestion => suggestion.stepId === step.id) && (
+                      <span className="px-2 py-0.5 bg-amber-100 text-amber-700 text-xs rounded-full">
+                        🩹 محدد مقترح
+                      </span>
+                    )}
+                    {!step.errorHandling.ignoreErrors && (
+                      <Zap className="w-3 h-3 text-yellow-600" />
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-600 truncate">
+                    {getStepSummary(step)}
+                  </p>
+                </div>
+
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => duplicateStep(step.id)}
+                    className="p-2 hover:bg-slate-100 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-blue-600" />
+                  </button>
+                  <button
+                    onClick={() => deleteStep(step.id)}
+                    className="p-2 hover:bg-red-50 rounded"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {isContainerStep(step) && (Object.keys(branchLabels[step.type] || {}) as StepBranch[]).map(branch => {
+              const isTarget = insertTarget?.parentId === step.id && insertTarget.branch === branch;
+              const branchSteps = step[branch] || [];
+              return (
+                <div key={branch} className="mr-6 mt-2 pr-3 border-r-2 border-dashed border-slate-300">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs text-slate-500">{branchLabels[step.type]?.[branch]}</span>
+                    <button
+                      onClick={() => setInsertTarget(isTarget ? null : { parentId: step.id, branch })}
+                      className={`text-xs px-2 py-0.5 rounded ${
+                        isTarget ? 'bg-purple-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
+                    >
+                      {isTarget ? '✓ الإضافة هنا' : '+ أضف هنا'}
+                    </button>
+                  </div>
+                  {branchSteps.length === 0 ? (
+                    <p className="text-xs text-slate-400 pb-2">لا توجد خطوات داخلية</p>
+                  ) : (
+                    renderStepList(branchSteps)
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
 
   return (
     <div className="max-w-7xl mx-auto space-y-6">
@@ -381,6 +540,22 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
             <GitBranch className="w-4 h-4" />
             <span>قوالب جاهزة</span>
           </button>
+
+          <button
+            onClick={() => setShowRecorder(!showRecorder)}
+            className="flex items-center gap-2 px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors"
+          >
+            <Circle className="w-4 h-4" />
+            <span>تسجيل من المتصفح</span>
+          </button>
+
+          <button
+            onClick={() => setShowPicker(!showPicker)}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+          >
+            <Crosshair className="w-4 h-4" />
+            <span>منتقي العناصر</span>
+          </button>
           
           <button
             onClick={taskToEdit ? handleUpdate : handleSave}
@@ -447,15 +622,43 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
         </div>
       </div>
 
+      {showRecorder && (
+        <BrowserRecorderPanel
+          initialUrl={getGraphTargetUrl(createStepGraph(steps))}
+          onStep={addRecordedStep}
+          onClose={() => setShowRecorder(false)}
+        />
+      )}
+
+      {showPicker && (
+        <ElementPickerPanel
+          initialUrl={getGraphTargetUrl(createStepGraph(steps))}
+          step={selectedStepData}
+          onUseSelector={(selector, signature) => selectedStepData && updateStep(selectedStepData.id, { params: { ...selectedStepData.params, selector }, signature })}
+          onAddFallback={(selector) => selectedStepData && addFallbackSelector(selectedStepData.id, selector)}
+          onClose={() => setShowPicker(false)}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Actions Panel */}
         <div className="bg-white rounded-xl border border-slate-200 p-6">
           <h3 className="mb-4 font-medium">أضف خطوة</h3>
+          {insertTargetStep && insertTarget && (
+            <div className="mb-3 p-2 bg-purple-50 border border-purple-200 rounded-lg text-xs text-purple-700 flex items-center justify-between">
+              <span>
+                الإضافة داخل: {actionTypes.find(a => a.value === insertTargetStep.type)?.label} ← {branchLabels[insertTargetStep.type]?.[insertTarget.branch]}
+              </span>
+              <button onClick={() => setInsertTarget(null)} className="hover:underline">
+                الجذر
+              </button>
+            </div>
+          )}
           <div className="space-y-2">
             {actionTypes.map(action => (
               <button
                 key={action.value}
-                onClick={() => addStep(action.value as any)}
+                onClick={() => addStep(action.value as StepType)}
                 className={`w-full text-right p-3 rounded-lg ${action.color} hover:shadow-md transition-all flex items-center gap-3`}
               >
                 <span className="text-xl">{action.icon}</span>
@@ -469,10 +672,13 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
         {/* Steps List */}
         <div className="lg:col-span-2 bg-white rounded-xl border border-slate-200 p-6">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="font-medium">الخطوات ({steps.length})</h3>
+            <h3 className="font-medium">الخطوات ({stepCount})</h3>
             {steps.length > 0 && (
               <button
-                onClick={() => setSteps([])}
+                onClick={() => {
+                  setSteps([]);
+                  setInsertTarget(null);
+                }}
                 className="text-sm text-red-600 hover:underline"
               >
                 مسح الكل
@@ -487,75 +693,8 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
               <p className="text-sm mt-1">ابدأ بإضافة خطوات من اللوحة اليمنى</p>
             </div>
           ) : (
-            <div className="space-y-2 max-h-[600px] overflow-y-auto">
-              {steps.map((step, index) => {
-                const actionType = actionTypes.find(a => a.value === step.type);
-                return (
-                  <div
-                    key={step.id}
-                    className={`p-4 border rounded-lg transition-all ${
-                      selectedStep === step.id
-                        ? 'border-purple-500 bg-purple-50'
-                        : 'border-slate-200 hover:border-slate-300'
-                    }`}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="flex flex-col gap-1">
-                        <button
-                          onClick={() => moveStep(index, 'up')}
-                          disabled={index === 0}
-                          className="p-1 hover:bg-slate-100 rounded disabled:opacity-30"
-                        >
-                          <MoveUp className="w-3 h-3" />
-                        </button>
-                        <button
-                          onClick={() => moveStep(index, 'down')}
-                          disabled={index === steps.length - 1}
-                          className="p-1 hover:bg-slate-100 rounded disabled:opacity-30"
-                        >
-                          <MoveDown className="w-3 h-3" />
-                        </button>
-                      </div>
-
-                      <div
-                        onClick={() => setSelectedStep(step.id)}
-                        className="flex-1 cursor-pointer"
-                      >
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="text-lg">{actionType?.icon}</span>
-                          <span className="font-medium">{actionType?.label}</span>
-                          {step.fallbacks.length > 0 && (
-                            <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs rounded-full">
-                              {step.fallbacks.length} بديل
-                            </span>
-                          )}
-                          {!step.errorHandling.ignoreErrors && (
-                            <Zap className="w-3 h-3 text-yellow-600" />
-                          )}
-                        </div>
-                        <p className="text-sm text-slate-600 truncate">
-                          {getStepSummary(step)}
-                        </p>
-                      </div>
-
-                      <div className="flex gap-1">
-                        <button
-                          onClick={() => duplicateStep(step.id)}
-                          className="p-2 hover:bg-slate-100 rounded"
-                        >
-                          <Copy className="w-4 h-4 text-blue-600" />
-                        </button>
-                        <button
-                          onClick={() => deleteStep(step.id)}
-                          className="p-2 hover:bg-red-50 rounded"
-                        >
-                          <Trash2 className="w-4 h-4 text-red-600" />
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })}
+            <div className="max-h-[600px] overflow-y-auto">
+              {renderStepList(steps)}
             </div>
           )}
         </div>
@@ -572,8 +711,62 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
                 {renderStepParams(selectedStepData, (params) => {
                   updateStep(selectedStepData.id, { params });
                 })}
+                {variables.length > 0 && (
+                  <div className="mt-2 flex flex-wrap items-center gap-1">
+                    <span className="text-xs text-slate-500">المتغيرات المتاحة:</span>
+                    {variables.map(variable => (
+                      <code
+                        key={variable.name}
+                        title={variable.type === 'object' ? 'عنصر الحلقة: .text .href .selector .index' : 'نص'}
+                        className="px-1.5 py-0.5 bg-rose-50 text-rose-700 text-xs rounded"
+                      >
+                        {`{{${variable.name}}}`}
+                      </code>
+                    ))}
+                  </div>
+                )}
+                {secretNames.length > 0 && (
+                  <div className="mt-2 flex flex-wrap items-center gap-1">
+                    <span className="text-xs text-slate-500">الأسرار:</span>
+                    {secretNames.map(name => (
+                      <code
+                        key={name}
+                        title="من خزنة الأسرار - تُمرَّر للمهمة عند التشغيل فقط"
+                        className="px-1.5 py-0.5 bg-amber-50 text-amber-700 text-xs rounded"
+                      >
+                        {`{{secrets.${name}}}`}
+                      </code>
+                    ))}
+                  </div>
+                )}
               </div>
 
+              {/* Healing Suggestion */}
+              {selectedSuggestion && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                  <p className="text-sm text-amber-800">
+                    🩹 فشل المحدد في التشغيل{selectedSuggestion.runId ? ` ${selectedSuggestion.runId}` : ''} وعالجه السكريبت بتطابق {Math.round(selectedSuggestion.score * 100)}% مع بصمة العنصر
+                  </p>
+                  <code className="block text-xs bg-white border border-amber-200 rounded p-2 break-all" dir="ltr">
+                    {selectedSuggestion.selector}
+                  </code>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => applySuggestion(selectedSuggestion)}
+                      className="text-xs px-2 py-1 bg-amber-600 text-white rounded hover:bg-amber-700"
+                    >
+                      اعتماد المحدد (القديم يصبح بديلاً)
+                    </button>
+                    <button
+                      onClick={() => dismissSuggestion(selectedSuggestion.stepId)}
+                      className="text-xs px-2 py-1 bg-white text-slate-700 border border-slate-200 rounded hover:bg-slate-100"
+                    >
+                      تجاهل
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Fallbacks */}
               <div>
                 <div className="flex items-center justify-between mb-2">
@@ -604,6 +797,57 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
                 ))}
               </div>
 
+              {/* Conditions */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium">شروط (Conditions)</label>
+                  <button
+                    onClick={() => addCondition(selectedStepData.id)}
+                    className="text-xs px-2 py-1 bg-purple-100 text-purple-700 rounded hover:bg-purple-200"
+                  >
+                    + إضافة شرط
+                  </button>
+                </div>
+                {selectedStepData.conditions.map((condition, index) => (
+                  <div key={index} className="mb-2 p-3 bg-slate-50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-slate-600">شرط {index + 1}</span>
+                      <button
+                        onClick={() => removeCondition(selectedStepData.id, index)}
+                        className="text-red-600"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <select
+                      value={condition.type}
+                      onChange={(e) => updateCondition(selectedStepData.id, index, { type: e.target.value as StepCondition['type'] })}
+                      className="w-full px-3 py-1 text-sm border border-slate-300 rounded"
+                    >
+                      {conditionTypes.map(type => (
+                        <option key={type.id} value={type.id}>{type.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={condition.target}
+                      onChange={(e) => updateCondition(selectedStepData.id, index, { target: e.target.value })}
+                      placeholder={condition.type === 'url_contains' || condition.type === 'text_contains' ? 'النص' : 'CSS Selector'}
+                      className="w-full px-3 py-1 text-sm border border-slate-300 rounded font-mono"
+                    />
+                    <select
+                      value={condition.action}
+                      onChange={(e) => updateCondition(selectedStepData.id, index, { action: e.target.value as StepCondition['action'] })}
+                      className="w-full px-3 py-1 text-sm border border-slate-300 rounded"
+                    >
+                      {conditionActions.map(action => (
+                        <option key={action.id} value={action.id}>{action.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
               {/* Error Handling */}
               <div>
                 <label className="block mb-2 text-sm font-medium">معالجة الأخطاء</label>
@@ -664,33 +908,6 @@ export function AdvancedVisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated
   );
 }
 
-function getDefaultParams(type: string): any {
-  switch (type) {
-    case 'navigate':
-      return { url: '' };
-    case 'click':
-      return { selector: '' };
-    case 'type':
-      return { selector: '', text: '' };
-    case 'wait':
-      return { type: 'time', duration: 1000 };
-    case 'extract':
-      return { selector: '' };
-    case 'screenshot':
-      return { fullPage: false };
-    case 'scroll':
-      return { position: 'end' };
-    case 'video':
-      return { duration: 30000 };
-    case 'fillForm':
-      return { selector: '', text: '' };
-    case 'aiStep':
-      return { prompt: '' };
-    default:
-      return {};
-  }
-}
-
 function getStepSummary(step: ActionStep): string {
   switch (step.type) {
     case 'navigate':
@@ -699,12 +916,16 @@ function getStepSummary(step: ActionStep): string {
       return step.params.selector || 'لم يتم تحديد selector';
     case 'type':
       return `${step.params.selector || '...'}: ${step.params.text || '...'}`;
+    case 'select':
+      return `${step.params.selector || '...'} ← ${step.params.value || '...'}`;
     case 'wait':
       return step.params.type === 'time' 
         ? `${step.params.duration}ms`
         : step.params.selector || 'selector';
     case 'extract':
-      return step.params.selector || 'لم يتم تحديد selector';
+      return step.params.schema?.length
+        ? `${step.params.selector || '...'} → ${step.params.schema.map(field => field.name).join(', ')}`
+        : step.params.selector || 'لم يتم تحديد selector';
     case 'screenshot':
       return step.params.fullPage ? 'صفحة كاملة' : 'Viewport';
     case 'scroll':
@@ -715,6 +936,20 @@ function getStepSummary(step: ActionStep): string {
       return `${step.params.selector || '...'}: ${step.params.text || '...'}`;
     case 'aiStep':
       return step.params.prompt || 'لم يتم تحديد موجهة AI';
+    case 'rawCode':
+      return step.params.code?.split('\n')[0] || 'كود فارغ';
+    case 'forEach':
+      return `${step.params.itemVariable || 'item'} في ${step.params.selector || '...'}${step.params.limit ? ` (أول ${step.params.limit})` : ''}`;
+    case 'repeatUntil':
+      return `${STEP_CONDITION_LABELS[step.params.conditionType || 'element_visible']}: ${step.params.target || '...'} - حتى ${step.params.maxIterations || 20} مرة`;
+    case 'if':
+      return `${STEP_CONDITION_LABELS[step.params.conditionType || 'element_exists']}: ${step.params.target || '...'}`;
+    case 'setVariable':
+      return `{{${step.params.name || '...'}}} ← ${step.params.source === 'value' ? step.params.value || '...' : step.params.source === 'url' ? 'رابط الصفحة' : step.params.selector || '...'}`;
+    case 'crawl':
+      return `${step.params.selector || '...'} - ${step.params.pagination === 'infiniteScroll' ? 'تمرير لا نهائي' : 'الصفحة التالية'}، حتى ${step.params.maxPages || 10} صفحة${step.params.maxItems ? ` / ${step.params.maxItems} سجل` : ''}`;
+    case 'assert':
+      return step.params.label || describeAssertion(step.params);
     default:
       return '';
   }
@@ -736,7 +971,6 @@ function renderStepParams(step: ActionStep, onChange: (params: any) => void) {
       );
 
     case 'click':
-    case 'extract':
       return (
         <input
           type="text"
@@ -747,6 +981,23 @@ function renderStepParams(step: ActionStep, onChange: (params: any) => void) {
         />
       );
 
+    case 'extract':
+      return (
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={params.selector || ''}
+            onChange={(e) => onChange({ ...params, selector: e.target.value })}
+            placeholder="selector عنصر السجل (.product, article)"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+          />
+          <ExtractionSchemaEditor
+            schema={params.schema || []}
+            onChange={(schema) => onChange({ ...params, schema })}
+          />
+        </div>
+      );
+
     case 'type':
       return (
         <div className="space-y-2">
@@ -767,6 +1018,26 @@ function renderStepParams(step: ActionStep, onChange: (params: any) => void) {
         </div>
       );
 
+    case 'select':
+      return (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={params.selector || ''}
+            onChange={(e) => onChange({ ...params, selector: e.target.value })}
+            placeholder="selector القائمة (select)"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+          />
+          <input
+            type="text"
+            value={params.value || ''}
+            onChange={(e) => onChange({ ...params, value: e.target.value })}
+            placeholder="قيمة الخيار (value) - {{متغير}} مسموح"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+          />
+        </div>
+      );
+
     case 'wait':
       return (
         <div className="space-y-2">
@@ -867,128 +1138,334 @@ function renderStepParams(step: ActionStep, onChange: (params: any) => void) {
         />
       );
 
-    default:
-      return null;
-  }
-}
+    case 'rawCode':
+      return (
+        <textarea
+          value={params.code || ''}
+          onChange={(e) => onChange({ ...params, code: e.target.value })}
+          placeholder="await page.click('.button');"
+          rows={6}
+          className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+        />
+      );
 
-function parseScript(script: string): ActionStep[] {
-  const steps: ActionStep[] = [];
-  const lines = script.split('\n');
-  let currentStep: ActionStep | null = null;
-  let currentFallbackIndex = -1;
-
-  for (const line of lines) {
-    if (line.includes('Step')) {
-      const stepNumber = parseInt(line.match(/Step (\d+)/)?.[1] || '0');
-      if (currentStep) {
-        steps.push(currentStep);
-      }
-      currentStep = {
-        id: stepNumber.toString(),
-        type: 'navigate',
-        params: {},
-        fallbacks: [],
-        conditions: [],
-        errorHandling: {
-          ignoreErrors: false,
-          retryCount: 3
-        }
+    case 'forEach':
+      return (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={params.selector || ''}
+            onChange={(e) => onChange({ ...params, selector: e.target.value })}
+            placeholder="selector العناصر (.product, li a)"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+          />
+          <input
+            type="text"
+            value={params.itemVariable || ''}
+            onChange={(e) => onChange({ ...params, itemVariable: e.target.value })}
+            placeholder="اسم متغير العنصر"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+          />
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">الحد الأقصى للعناصر (0 = الكل)</label>
+            <input
+              type="number"
+              min="0"
+              value={params.limit || 0}
+              onChange={(e) => onChange({ ...params, limit: parseInt(e.target.value) || 0 })}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+            />
+          </div>
+        </div>
+      );
+
+    case 'repeatUntil':
+    case 'if':
+      return (
+        <div className="space-y-2">
+          <select
+            value={params.conditionType || 'element_exists'}
+            onChange={(e) => onChange({ ...params, conditionType: e.target.value })}
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+          >
+            {conditionTypes.map(type => (
+              <option key={type.id} value={type.id}>{type.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={params.target || ''}
+            onChange={(e) => onChange({ ...params, target: e.target.value })}
+            placeholder={params.conditionType === 'url_contains' || params.conditionType === 'text_contains' ? 'النص' : 'CSS Selector'}
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+          />
+          {step.type === 'repeatUntil' && (
+            <>
+              <select
+                value={params.stopWhen || 'not_met'}
+                onChange={(e) => onChange({ ...params, stopWhen: e.target.value })}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              >
+                <option value="not_met">كرّر ما دام الشرط متحققاً</option>
+                <option value="met">كرّر حتى يتحقق الشرط</option>
+              </select>
+              <div>
+                <label className="block text-xs text-slate-600 mb-1">الحد الأقصى للتكرار</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="1000"
+                  value={params.maxIterations || 20}
+                  onChange={(e) => onChange({ ...params, maxIterations: parseInt(e.target.value) || 20 })}
+                  className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+                />
+              </div>
+            </>
+          )}
+        </div>
+      );
+
+    case 'setVariable':
+      return (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={params.name || ''}
+            onChange={(e) => onChange({ ...params, name: e.target.value })}
+            placeholder="اسم المتغير"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+          />
+          <select
+            value={params.source || 'text'}
+            onChange={(e) => onChange({ ...params, source: e.target.value })}
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+          >
+            <option value="text">نص عنصر</option>
+            <option value="attribute">خاصية عنصر</option>
+            <option value="url">رابط الصفحة الحالية</option>
+            <option value="value">قيمة ثابتة</option>
+          </select>
+          {(params.source === 'text' || params.source === 'attribute' || !params.source) && (
+            <input
+              type="text"
+              value={params.selector || ''}
+              onChange={(e) => onChange({ ...params, selector: e.target.value })}
+              placeholder="selector"
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+            />
+          )}
+          {params.source === 'attribute' && (
+            <input
+              type="text"
+              value={params.attribute || ''}
+              onChange={(e) => onChange({ ...params, attribute: e.target.value })}
+              placeholder="href, data-id"
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+            />
+          )}
+          {params.source === 'value' && (
+            <input
+              type="text"
+              value={params.value || ''}
+              onChange={(e) => onChange({ ...params, value: e.target.value })}
+              placeholder="القيمة ({{متغير}} مسموح)"
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+            />
+          )}
+        </div>
+      );
+
+    case 'crawl':
+      return (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={params.selector || ''}
+            onChange={(e) => onChange({ ...params, selector: e.target.value })}
+            placeholder="selector العناصر (.product, article)"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+          />
+          <select
+            value={params.pagination || 'nextLink'}
+            onChange={(e) => onChange({ ...params, pagination: e.target.value })}
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+          >
+            <option value="nextLink">رابط الصفحة التالية</option>
+            <option value="infiniteScroll">تمرير لا نهائي</option>
+          </select>
+          {params.pagination !== 'infiniteScroll' && (
+            <input
+              type="text"
+              value={params.nextSelector || ''}
+              onChange={(e) => onChange({ ...params, nextSelector: e.target.value })}
+              placeholder='a[rel="next"]'
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+            />
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-slate-600 mb-1">أقصى عدد صفحات</label>
+              <input
+                type="number"
+                min="1"
+                value={params.maxPages || 10}
+                onChange={(e) => onChange({ ...params, maxPages: parseInt(e.target.value) || 1 })}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-600 mb-1">أقصى عدد سجلات (0 = الكل)</label>
+              <input
+                type="number"
+                min="0"
+                value={params.maxItems || 0}
+                onChange={(e) => onChange({ ...params, maxItems: parseInt(e.target.value) || 0 })}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">إزالة التكرار حسب</label>
+            <select
+              value={params.dedupeKey || 'href'}
+              onChange={(e) => onChange({ ...params, dedupeKey: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+            >
+              {params.schema?.length ? (
+                params.schema.map((field: ExtractionField) => (
+                  <option key={field.name} value={field.name}>{field.name}</option>
+                ))
+              ) : (
+                <>
+                  <option value="href">الرابط</option>
+                  <option value="text">النص</option>
+                </>
+              )}
+            </select>
+          </div>
+          <ExtractionSchemaEditor
+            schema={params.schema || []}
+            onChange={(schema) => onChange({ ...params, schema })}
+          />
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={params.checkpoint !== false}
+              onChange={(e) => onChange({ ...params, checkpoint: e.target.checked })}
+              className="rounded"
+            />
+            <span className="text-sm">الاستئناف من آخر صفحة عند انتهاء الوقت</span>
+          </label>
+        </div>
+      );
+
+    case 'assert': {
+      const assertion: AssertionType = params.assertion || 'visible';
+      const expectedPlaceholders: Partial<Record<AssertionType, string>> = {
+        textEquals: 'النص المتوقع ({{متغير}} مسموح)',
+        textContains: 'جزء من النص ({{متغير}} مسموح)',
+        textMatches: 'نمط regex مثل ^\\d+ منتج$',
+        urlMatches: 'نمط regex مثل /checkout',
+        attribute: 'القيمة المتوقعة',
+        responseStatus: '200 أو 2xx',
       };
-    } else if (line.includes('await page.goto')) {
-      const url = line.match(/'([^']+)'/)?.[1] || '';
-      if (currentStep) {
-        currentStep.type = 'navigate';
-        currentStep.params = { url };
-      }
-    } else if (line.includes('await page.click')) {
-      const selector = line.match(/'([^']+)'/)?.[1] || '';
-      if (currentStep) {
-        currentStep.type = 'click';
-        currentStep.params = { selector };
-      }
-    } else if (line.includes('await page.fill')) {
-      const selector = line.match(/'([^']+)'/)?.[1] || '';
-      const text = line.match(/'([^']+)'/)?.[2] || '';
-      if (currentStep) {
-        currentStep.type = 'type';
-        currentStep.params = { selector, text };
-      }
-    } else if (line.includes('await page.waitForTimeout')) {
-      const duration = parseInt(line.match(/(\d+)/)?.[1] || '0');
-      if (currentStep) {
-        currentStep.type = 'wait';
-        currentStep.params = { type: 'time', duration };
-      }
-    } else if (line.includes('await page.waitForSelector')) {
-      const selector = line.match(/'([^']+)'/)?.[1] || '';
-      if (currentStep) {
-        currentStep.type = 'wait';
-        currentStep.params = { type: 'selector', selector };
-      }
-    } else if (line.includes('const data = await page.$$eval')) {
-      const selector = line.match(/'([^']+)'/)?.[1] || '';
-      if (currentStep) {
-        currentStep.type = 'extract';
-        currentStep.params = { selector };
-      }
-    } else if (line.includes('await page.screenshot')) {
-      const fullPage = line.includes('fullPage: true');
-      if (currentStep) {
-        currentStep.type = 'screenshot';
-        currentStep.params = { fullPage };
-      }
-    } else if (line.includes('await page.evaluate(() => window.scrollTo')) {
-      const position = line.match(/(\d+)/)?.[1] || 'end';
-      if (currentStep) {
-        currentStep.type = 'scroll';
-        currentStep.params = { position };
-      }
-    } else if (line.includes('await page.evaluate(() => { /* كود تسجيل الفيديو هنا */ })')) {
-      const duration = parseInt(line.match(/(\d+)/)?.[1] || '30000');
-      if (currentStep) {
-        currentStep.type = 'video';
-        currentStep.params = { duration };
-      }
-    } else if (line.includes('await page.fill')) {
-      const selector = line.match(/'([^']+)'/)?.[1] || '';
-      const text = line.match(/'([^']+)'/)?.[2] || '';
-      if (currentStep) {
-        currentStep.type = 'fillForm';
-        currentStep.params = { selector, text };
-      }
-    } else if (line.includes('await page.evaluate(() => { /* كود خطوة ذكية AI هنا */ })')) {
-      const prompt = line.match(/'([^']+)'/)?.[1] || '';
-      if (currentStep) {
-        currentStep.type = 'aiStep';
-        currentStep.params = { prompt };
-      }
-    } else if (line.includes('let retries_step')) {
-      const retryCount = parseInt(line.match(/(\d+)/)?.[1] || '0');
-      if (currentStep) {
-        currentStep.errorHandling.retryCount = retryCount;
-      }
-    } else if (line.includes('if (stepError)')) {
-      if (currentStep) {
-        currentStep.errorHandling.ignoreErrors = true;
-      }
-    } else if (line.includes('addFallback')) {
-      currentFallbackIndex++;
-      if (currentStep) {
-        currentStep.fallbacks.push(getDefaultParams(currentStep.type));
-      }
-    } else if (line.includes('updateFallback')) {
-      const fallbackIndex = parseInt(line.match(/(\d+)/)?.[1] || '0');
-      const fallbackParams = line.match(/'([^']+)'/)?.[1] || '';
-      if (currentStep) {
-        currentStep.fallbacks[fallbackIndex] = JSON.parse(fallbackParams);
-      }
+      return (
+        <div className="space-y-2">
+          <select
+            value={assertion}
+            onChange={(e) => onChange({ ...params, assertion: e.target.value })}
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+          >
+            {(Object.keys(ASSERTION_LABELS) as AssertionType[]).map(type => (
+              <option key={type} value={type}>{ASSERTION_LABELS[type]}</option>
+            ))}
+          </select>
+          {!PAGE_LEVEL_ASSERTIONS.includes(assertion) && (
+            <input
+              type="text"
+              value={params.selector || ''}
+              onChange={(e) => onChange({ ...params, selector: e.target.value })}
+              placeholder="selector"
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+            />
+          )}
+          {assertion === 'attribute' && (
+            <input
+              type="text"
+              value={params.attribute || ''}
+              onChange={(e) => onChange({ ...params, attribute: e.target.value })}
+              placeholder="href, aria-disabled"
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+            />
+          )}
+          {assertion === 'responseStatus' && (
+            <input
+              type="text"
+              value={params.url || ''}
+              onChange={(e) => onChange({ ...params, url: e.target.value })}
+              placeholder="الرابط (فارغ = الصفحة الحالية)"
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded font-mono"
+            />
+          )}
+          {assertion === 'count' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={params.countOperator || 'equals'}
+                onChange={(e) => onChange({ ...params, countOperator: e.target.value })}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              >
+                <option value="equals">يساوي</option>
+                <option value="atLeast">على الأقل</option>
+                <option value="atMost">على الأكثر</option>
+              </select>
+              <input
+                type="number"
+                min="0"
+                value={params.expected || '0'}
+                onChange={(e) => onChange({ ...params, expected: e.target.value })}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              />
+            </div>
+          ) : assertion !== 'visible' && (
+            <input
+              type="text"
+              value={params.expected || ''}
+              onChange={(e) => onChange({ ...params, expected: e.target.value })}
+              placeholder={expectedPlaceholders[assertion]}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              dir={assertion === 'textMatches' || assertion === 'urlMatches' ? 'ltr' : undefined}
+            />
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-slate-600 mb-1">مهلة الانتظار (ms)</label>
+              <input
+                type="number"
+                min="0"
+                value={params.timeout ?? 5000}
+                onChange={(e) => onChange({ ...params, timeout: parseInt(e.target.value) || 0 })}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-600 mb-1">اسم التحقق في التقرير</label>
+              <input
+                type="text"
+                value={params.label || ''}
+                onChange={(e) => onChange({ ...params, label: e.target.value })}
+                placeholder={describeAssertion(params)}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            فشل التحقق لا يوقف الخطوات - تُجمع النتائج في تقرير JUnit وتفشل المهمة في النهاية
+          </p>
+        </div>
+      );
     }
-  }
 
-  if (currentStep) {
-    steps.push(currentStep);
+    default:
+      return null;
   }
-
-  return steps;
 }
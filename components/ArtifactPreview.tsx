@@ -1,6 +1,9 @@
-import { X, Download, FileText, Image as ImageIcon, FileJson, File, Folder, Archive, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { X, Download, FileText, Image as ImageIcon, FileJson, File, Folder, Archive, ZoomIn, ZoomOut, Maximize2, Table2 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import JSZip from 'jszip';
+import { ResultsExportDialog } from './ResultsExportDialog';
+import { VisualCompareView } from './VisualCompareView';
+import { parseVisualScreenshotName } from '../utils/visual-regression';
 
 interface ArtifactPreviewProps {
   artifact: {
@@ -30,6 +33,8 @@ export function ArtifactPreview({ artifact, onClose, onDownload }: ArtifactPrevi
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [imageZoom, setImageZoom] = useState(100);
+  const [artifactBlob, setArtifactBlob] = useState<Blob | null>(null);
+  const [showExport, setShowExport] = useState(false);
 
   useEffect(() => {
     loadZipContents();
@@ -51,6 +56,7 @@ export function ArtifactPreview({ artifact, onClose, onDownload }: ArtifactPrevi
       const blob = await onDownload();
       
       console.log(`✓ تم التحميل: ${blob.size} بايت`);
+      setArtifactBlob(blob);
       
       // فك ضغط الملف
       console.log('📦 فك ضغط الملف...');
@@ -230,6 +236,12 @@ export function ArtifactPreview({ artifact, onClose, onDownload }: ArtifactPrevi
     }
   };
 
+  const hasJsonFiles = zipFiles.some(file => !file.isDirectory && file.name.endsWith('.json'));
+
+  // لقطة اختبار بصري - تُعرض مع خط الأساس وصورة الفرق من نفس الـ artifact
+  const visualShot = selectedFile ? parseVisualScreenshotName(selectedFile.name) : null;
+  const findVisualFile = (fileName: string) => zipFiles.find(file => file.name === fileName)?.blob;
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
       <div 
@@ -249,6 +261,15 @@ export function ArtifactPreview({ artifact, onClose, onDownload }: ArtifactPrevi
           </div>
           
           <div className="flex items-center gap-2">
+            {hasJsonFiles && (
+              <button
+                onClick={() => setShowExport(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+              >
+                <Table2 className="size-4" />
+                تصدير
+              </button>
+            )}
             <button
               onClick={handleDownloadAll}
               className="flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
@@ -340,6 +361,15 @@ export function ArtifactPreview({ artifact, onClose, onDownload }: ArtifactPrevi
                       <div className="flex items-center justify-center h-full">
                         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
                       </div>
+                    ) : visualShot?.kind === 'current' && selectedFile ? (
+                      <VisualCompareView
+                        taskId={visualShot.taskId}
+                        viewport={visualShot.viewport}
+                        current={selectedFile.blob}
+                        baseline={findVisualFile(`${visualShot.taskId}-visual-${visualShot.viewport}-baseline.png`)}
+                        diff={findVisualFile(`${visualShot.taskId}-visual-${visualShot.viewport}-diff.png`)}
+                        report={findVisualFile(`${visualShot.taskId}-visual.json`)}
+                      />
                     ) : preview?.type === 'image' && preview.content ? (
                       <>
                         <div className="flex items-center justify-center h-full overflow-auto">
@@ -412,6 +442,20 @@ export function ArtifactPreview({ artifact, onClose, onDownload }: ArtifactPrevi
           </div>
         )}
       </div>
+
+      {showExport && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <ResultsExportDialog
+            title={artifact.name}
+            sources={[{
+              id: String(artifact.id),
+              label: artifact.name,
+              load: async () => [artifactBlob || await onDownload()],
+            }]}
+            onClose={() => setShowExport(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { useState, useRef, useEffect } from 'react';
+import { Circle, Square, X, Loader } from 'lucide-react';
+import type { StepNode } from '../types';
+import { useApp } from '../contexts/AppContext';
+import { DEFAULT_LOCAL_RUNNER_URL, recordOnLocalRunner } from '../utils/local-runner-client';
+import { STEP_TYPE_LABELS } from '../utils/step-codegen';
+
+interface BrowserRecorderPanelProps {
+  initialUrl: string;
+  onStep: (step: StepNode) => void;
+  onClose: () => void;
+}
+
+type RecorderStatus = 'idle' | 'recording' | 'stopping';
+
+export function BrowserRecorderPanel({ initialUrl, onStep, onClose }: BrowserRecorderPanelProps) {
+  const { settings } = useApp();
+  const [url, setUrl] = useState(initialUrl || 'https://');
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [recorded, setRecorded] = useState<StepNode[]>([]);
+  const [message, setMessage] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // إغلاق المنشئ أثناء التسجيل يغلق نافذة المتصفح أيضاً
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('recording');
+    setRecorded([]);
+    setMessage('');
+
+    try {
+      const outcome = await recordOnLocalRunner(
+        {
+          url: settings.execution.localRunner?.url || DEFAULT_LOCAL_RUNNER_URL,
+          token: settings.execution.localRunner?.token || ''
+        },
+        { url },
+        event => {
+          if (event.type === 'recorded-step') {
+            setRecorded(previous => [...previous, event.step]);
+            onStep(event.step);
+          }
+        },
+        controller.signal
+      );
+      setMessage(outcome.success ? '✅ انتهى التسجيل - راجع الخطوات وبدائلها قبل الحفظ' : `❌ ${outcome.error}`);
+    } catch (error: any) {
+      // الإيقاف من هنا يقطع الاتصال فيغلق المشغّل المحلي المتصفح
+      setMessage(controller.signal.aborted ? '✅ أُوقف التسجيل' : `❌ ${error.message}`);
+    } finally {
+      abortRef.current = null;
+      setStatus('idle');
+    }
+  };
+
+  const handleStop = () => {
+    setStatus('stopping');
+    abortRef.current?.abort();
+  };
+
+  return (
+    <div className="border border-red-200 bg-red-50/40 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2">
+          <Circle className={`w-4 h-4 text-red-600 ${status === 'recording' ? 'fill-red-600 animate-pulse' : ''}`} />
+          <span>تسجيل من المتصفح</span>
+        </h4>
+        <button onClick={onClose} disabled={status !== 'idle'} className="p-1 hover:bg-slate-100 rounded disabled:opacity-50">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-600">
+        يفتح المشغّل المحلي متصفحاً ظاهراً على جهازك - كل نقر وكتابة واختيار وتنقل يُضاف كخطوة مع محددات بديلة.
+        كلمات المرور لا تُسجَّل وتُستبدل بـ {'{{secrets.PASSWORD}}'}.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          disabled={status !== 'idle'}
+          placeholder="https://example.com"
+          className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg font-mono"
+          dir="ltr"
+        />
+        {status === 'idle' ? (
+          <button
+            onClick={handleStart}
+            disabled={!/^https?:\/\/.+/.test(url)}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            <Circle className="w-4 h-4 fill-white" />
+            بدء التسجيل
+          </button>
+        ) : (
+          <button
+            onClick={handleStop}
+            disabled={status === 'stopping'}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition-colors disabled:opacity-50"
+          >
+            {status === 'stopping' ? <Loader className="w-4 h-4 animate-spin" /> : <Square className="w-4 h-4 fill-white" />}
+            إيقاف
+          </button>
+        )}
+      </div>
+
+      {recorded.length > 0 && (
+        <div className="max-h-40 overflow-y-auto space-y-1">
+          {recorded.map(step => (
+            <div key={step.id} className="flex items-center justify-between bg-white border border-slate-200 rounded px-3 py-1.5 text-xs">
+              <span>{STEP_TYPE_LABELS[step.type]}</span>
+              <span className="font-mono text-slate-500 truncate max-w-[60%]" dir="ltr">
+                {step.params.url || step.params.selector}
+              </span>
+              {step.fallbacks.length > 0 && (
+                <span className="text-purple-600">{step.fallbacks.length} بديل</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.startsWith('❌') ? 'text-red-600' : 'text-green-700'}`}>{message}</p>
+      )}
+    </div>
+  );
+}
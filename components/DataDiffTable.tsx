@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Plus, Minus, PenLine, AlertTriangle, GitCompare } from 'lucide-react';
+import type { DataDiff, DiffRow, DiffValue, FieldChange } from '../utils/data-diff';
+
+interface DataDiffTableProps {
+  diff: DataDiff;
+}
+
+type DiffFilter = 'all' | 'added' | 'removed' | 'changed';
+
+type DiffTableRow = {
+  kind: 'added' | 'removed' | 'changed';
+  record: DiffRow;
+  changes?: Record<string, FieldChange>;
+};
+
+const ROW_STYLES: Record<DiffTableRow['kind'], string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50 text-slate-500 line-through',
+  changed: '',
+};
+
+function formatValue(value: DiffValue): string {
+  return value == null ? '—' : String(value);
+}
+
+function formatPercent(change: FieldChange): string | null {
+  if (change.percent === undefined) return null;
+  if (change.percent === null) return 'من صفر';
+  return `${change.percent > 0 ? '+' : ''}${change.percent.toFixed(1)}%`;
+}
+
+export function DataDiffTable({ diff }: DataDiffTableProps) {
+  const [filter, setFilter] = useState<DiffFilter>('all');
+
+  const rows: DiffTableRow[] = [
+    ...diff.changed.map(item => ({
+      kind: 'changed' as const,
+      record: item.record,
+      changes: Object.fromEntries(item.changes.map(change => [change.field, change])),
+    })),
+    ...diff.added.map(record => ({ kind: 'added' as const, record })),
+    ...diff.removed.map(record => ({ kind: 'removed' as const, record })),
+  ];
+  const visibleRows = filter === 'all' ? rows : rows.filter(row => row.kind === filter);
+
+  // أعمدة المفتاح أولاً ثم باقي الأعمدة بترتيب ظهورها
+  const columns = Array.from(new Set([...diff.keyFields, ...rows.flatMap(row => Object.keys(row.record))]));
+
+  const filters: { id: DiffFilter; label: string; count: number }[] = [
+    { id: 'all', label: 'الكل', count: rows.length },
+    { id: 'changed', label: 'متغير', count: diff.summary.changed },
+    { id: 'added', label: 'مضاف', count: diff.summary.added },
+    { id: 'removed', label: 'محذوف', count: diff.summary.removed },
+  ];
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-indigo-600" />
+          <span>التغييرات منذ التشغيل السابق</span>
+        </h4>
+        <span className="text-xs text-slate-500">
+          {diff.previousArtifact ? `مقارنة مع ${diff.previousArtifact}` : 'أول تشغيل - لا يوجد تشغيل سابق'}
+        </span>
+      </div>
+
+      {/* Summary */}
+      <div className="flex flex-wrap gap-2 mb-3 text-sm">
+        <span className="flex items-center gap-1 px-2 py-1 bg-green-50 text-green-700 rounded">
+          <Plus className="w-3 h-3" /> {diff.summary.added} مضاف
+        </span>
+        <span className="flex items-center gap-1 px-2 py-1 bg-red-50 text-red-700 rounded">
+          <Minus className="w-3 h-3" /> {diff.summary.removed} محذوف
+        </span>
+        <span className="flex items-center gap-1 px-2 py-1 bg-amber-50 text-amber-700 rounded">
+          <PenLine className="w-3 h-3" /> {diff.summary.changed} متغير
+        </span>
+        <span className="px-2 py-1 bg-slate-50 text-slate-600 rounded">
+          {diff.summary.unchanged} بدون تغيير
+        </span>
+        {diff.summary.thresholdCrossed > 0 && (
+          <span className="flex items-center gap-1 px-2 py-1 bg-orange-100 text-orange-800 rounded">
+            <AlertTriangle className="w-3 h-3" /> {diff.summary.thresholdCrossed} تجاوز الحد
+          </span>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-center py-6 text-sm text-slate-500">لا توجد تغييرات في البيانات</p>
+      ) : (
+        <>
+          <div className="flex gap-1 p-1 bg-slate-100 rounded-lg w-fit mb-3">
+            {filters.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setFilter(item.id)}
+                className={`px-3 py-1 text-sm rounded-md transition-all ${
+                  filter === item.id ? 'bg-white shadow-sm' : 'text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                {item.label} ({item.count})
+              </button>
+            ))}
+          </div>
+
+          <div className="overflow-auto max-h-96 border border-slate-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 text-slate-600 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-right font-normal w-8"></th>
+                  {columns.map(column => (
+                    <th key={column} className="px-3 py-2 text-right font-normal whitespace-nowrap">
+                      {column}
+                      {diff.keyFields.includes(column) && <span className="text-xs text-indigo-500 mr-1">🔑</span>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleRows.map((row, index) => (
+                  <tr key={index} className={ROW_STYLES[row.kind]}>
+                    <td className="px-3 py-2">
+                      {row.kind === 'added' && <Plus className="w-4 h-4 text-green-600" />}
+                      {row.kind === 'removed' && <Minus className="w-4 h-4 text-red-600" />}
+                      {row.kind === 'changed' && <PenLine className="w-4 h-4 text-amber-600" />}
+                    </td>
+                    {columns.map(column => {
+                      const change = row.changes?.[column];
+                      if (!change) {
+                        return (
+                          <td key={column} className="px-3 py-2 whitespace-nowrap max-w-xs truncate" title={formatValue(row.record[column] ?? null)}>
+                            {formatValue(row.record[column] ?? null)}
+                          </td>
+                        );
+                      }
+                      const percent = formatPercent(change);
+                      return (
+                        <td
+                          key={column}
+                          className={`px-3 py-2 whitespace-nowrap ${change.thresholdCrossed ? 'bg-orange-100' : 'bg-amber-50'}`}
+                        >
+                          <span className="text-red-600 line-through">{formatValue(change.before)}</span>
+                          <span className="mx-1 text-slate-400">←</span>
+                          <span className="text-green-700">{formatValue(change.after)}</span>
+                          {percent && (
+                            <span className={`mr-2 text-xs ${change.delta! > 0 ? 'text-green-700' : 'text-red-600'}`} dir="ltr">
+                              {percent}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
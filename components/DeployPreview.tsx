@@ -1,11 +1,23 @@
 import { useState, useEffect } from 'react';
-import { FileCode, Save, X, Eye, EyeOff, Upload, Edit2, Check, AlertCircle } from 'lucide-react';
+import { FileCode, Save, X, Eye, EyeOff, Upload, Edit2, Check, AlertCircle, GitCompare } from 'lucide-react';
+import { DeployFile, DeployFileStatus, getDeployChanges } from '../utils/github';
+import { createDiffHunks, countDiffChanges, formatHunkHeader } from '../utils/text-diff';
 
-export type DeployFile = {
-  path: string;
-  content: string;
+export type { DeployFile };
+
+const STATUS_BADGES: Record<DeployFileStatus, { label: string; className: string }> = {
+  added: { label: 'جديد', className: 'bg-green-100 text-green-700' },
+  modified: { label: 'معدّل', className: 'bg-amber-100 text-amber-700' },
+  deleted: { label: 'محذوف', className: 'bg-red-100 text-red-700' },
+  unchanged: { label: 'بدون تغيير', className: 'bg-slate-100 text-slate-500' },
 };
 
+// الحالة بعد تعديلات المعاينة - تعديل ملف غير متغير يجعله معدّلاً
+function getEffectiveStatus(file: DeployFile): DeployFileStatus | undefined {
+  if (file.status === 'unchanged' && file.content !== file.previousContent) return 'modified';
+  return file.status;
+}
+
 type DeployPreviewProps = {
   files: DeployFile[];
   onConfirm: (editedFiles: DeployFile[]) => void;
@@ -15,10 +27,14 @@ type DeployPreviewProps = {
 
 export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: DeployPreviewProps) {
   const [editedFiles, setEditedFiles] = useState<DeployFile[]>(files);
-  const [selectedFileIndex, setSelectedFileIndex] = useState(0);
+  const [selectedFileIndex, setSelectedFileIndex] = useState(
+    Math.max(0, files.findIndex(file => file.status !== 'unchanged'))
+  );
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState('');
   const [showPreview, setShowPreview] = useState(true);
+  const [showDiff, setShowDiff] = useState(true);
+  const [showUnchanged, setShowUnchanged] = useState(false);
 
   useEffect(() => {
     if (editedFiles[selectedFileIndex]) {
@@ -28,7 +44,7 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
 
   const handleSaveEdit = () => {
     const newFiles = [...editedFiles];
-    newFiles[selectedFileIndex].content = editContent;
+    newFiles[selectedFileIndex] = { ...newFiles[selectedFileIndex], content: editContent };
     setEditedFiles(newFiles);
     setIsEditing(false);
   };
@@ -54,6 +70,19 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
 
   const selectedFile = editedFiles[selectedFileIndex];
   const hasChanges = JSON.stringify(files) !== JSON.stringify(editedFiles);
+  const isPlanned = files.some(file => file.status !== undefined);
+  const unchangedCount = editedFiles.filter(file => getEffectiveStatus(file) === 'unchanged').length;
+  const { uploads, deletedPaths } = getDeployChanges(editedFiles);
+  const changeCount = uploads.length + deletedPaths.length;
+
+  const selectedStatus = getEffectiveStatus(selectedFile);
+  const canShowDiff = selectedFile.previousContent !== undefined || selectedFile.status === 'added';
+  const selectedHunks = canShowDiff
+    ? createDiffHunks(
+        selectedFile.previousContent ?? '',
+        selectedFile.status === 'deleted' ? '' : selectedFile.content
+      )
+    : [];
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -83,7 +112,9 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
           <div className="w-80 border-l border-slate-200 overflow-y-auto bg-slate-50">
             <div className="p-4">
               <div className="flex items-center justify-between mb-3">
-                <span className="text-sm">الملفات ({editedFiles.length})</span>
+                <span className="text-sm">
+                  الملفات ({isPlanned ? `${editedFiles.length - unchangedCount} متغير` : editedFiles.length})
+                </span>
                 {hasChanges && (
                   <span className="flex items-center gap-1 text-xs text-orange-600 bg-orange-50 px-2 py-1 rounded">
                     <AlertCircle className="w-3 h-3" />
@@ -91,8 +122,25 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
                   </span>
                 )}
               </div>
+              {isPlanned && unchangedCount > 0 && (
+                <label className="flex items-center gap-2 mb-3 text-xs text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                    className="rounded"
+                  />
+                  عرض الملفات غير المتغيرة ({unchangedCount})
+                </label>
+              )}
               <div className="space-y-1">
-                {editedFiles.map((file, index) => (
+                {editedFiles.map((file, index) => {
+                  const status = getEffectiveStatus(file);
+                  if (status === 'unchanged' && !showUnchanged && index !== selectedFileIndex) return null;
+                  const diffCounts = status && status !== 'unchanged'
+                    ? countDiffChanges(createDiffHunks(file.previousContent ?? '', status === 'deleted' ? '' : file.content, 0))
+                    : null;
+                  return (
                   <button
                     key={index}
                     onClick={() => {
@@ -110,9 +158,21 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
                     <div className="flex items-center gap-2">
                       <span className="text-xl">{getFileIcon(file.path)}</span>
                       <div className="flex-1 min-w-0">
-                        <p className="text-sm truncate">{file.path}</p>
-                        <p className="text-xs text-slate-500">
-                          {(file.content.length / 1024).toFixed(1)} KB
+                        <p className={`text-sm truncate ${status === 'deleted' ? 'line-through text-slate-500' : ''}`}>{file.path}</p>
+                        <p className="text-xs text-slate-500 flex items-center gap-2">
+                          {status && (
+                            <span className={`px-1.5 rounded ${STATUS_BADGES[status].className}`}>
+                              {STATUS_BADGES[status].label}
+                            </span>
+                          )}
+                          {diffCounts ? (
+                            <span dir="ltr">
+                              <span className="text-green-600">+{diffCounts.added}</span>{' '}
+                              <span className="text-red-600">-{diffCounts.removed}</span>
+                            </span>
+                          ) : (
+                            <span>{(file.content.length / 1024).toFixed(1)} KB</span>
+                          )}
                         </p>
                       </div>
                       {JSON.stringify(files[index]) !== JSON.stringify(file) && (
@@ -120,7 +180,8 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
                       )}
                     </div>
                   </button>
-                ))}
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -140,6 +201,17 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  {canShowDiff && !isEditing && (
+                    <button
+                      onClick={() => setShowDiff(!showDiff)}
+                      className={`flex items-center gap-2 px-3 py-2 border rounded-lg transition-colors text-sm ${
+                        showDiff ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-300 hover:bg-slate-50'
+                      }`}
+                    >
+                      <GitCompare className="w-4 h-4" />
+                      {showDiff ? 'المحتوى' : 'الفرق'}
+                    </button>
+                  )}
                   <button
                     onClick={() => setShowPreview(!showPreview)}
                     className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors text-sm"
@@ -148,7 +220,7 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
                     {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                     {showPreview ? 'إخفاء' : 'عرض'}
                   </button>
-                  {!isEditing ? (
+                  {selectedStatus === 'deleted' ? null : !isEditing ? (
                     <button
                       onClick={() => setIsEditing(true)}
                       className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
@@ -189,9 +261,36 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
                     dir="ltr"
                     spellCheck={false}
                   />
+                ) : showDiff && canShowDiff ? (
+                  <div className="w-full h-full overflow-auto font-mono text-sm bg-slate-50" dir="ltr">
+                    {selectedHunks.length === 0 ? (
+                      <p className="p-4 text-slate-500 font-sans" dir="rtl">لا توجد فروق - الملف مطابق لما في المستودع</p>
+                    ) : (
+                      selectedHunks.map((hunk, hunkIndex) => (
+                        <div key={hunkIndex}>
+                          <div className="px-4 py-1 bg-blue-50 text-blue-700">{formatHunkHeader(hunk)}</div>
+                          {hunk.lines.map((line, lineIndex) => (
+                            <div
+                              key={lineIndex}
+                              className={`flex whitespace-pre ${
+                                line.type === 'add' ? 'bg-green-50 text-green-800' : line.type === 'remove' ? 'bg-red-50 text-red-800' : ''
+                              }`}
+                            >
+                              <span className="w-12 shrink-0 px-2 text-right text-slate-400 select-none">{line.oldLine ?? ''}</span>
+                              <span className="w-12 shrink-0 px-2 text-right text-slate-400 select-none">{line.newLine ?? ''}</span>
+                              <span className="w-4 shrink-0 select-none">
+                                {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}
+                              </span>
+                              <span>{line.text}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ))
+                    )}
+                  </div>
                 ) : (
                   <pre className="w-full h-full p-4 overflow-auto font-mono text-sm bg-slate-50" dir="ltr">
-                    <code>{selectedFile.content}</code>
+                    <code>{selectedStatus === 'deleted' ? selectedFile.previousContent : selectedFile.content}</code>
                   </pre>
                 )}
               </div>
@@ -203,7 +302,12 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
         <div className="p-6 border-t border-slate-200 bg-slate-50">
           <div className="flex items-center justify-between">
             <div className="text-sm text-slate-600">
-              {hasChanges ? (
+              {isPlanned && changeCount === 0 ? (
+                <p className="flex items-center gap-2 text-green-600">
+                  <Check className="w-4 h-4" />
+                  المستودع محدّث بالفعل - لا توجد تغييرات للنشر
+                </p>
+              ) : hasChanges ? (
                 <p className="flex items-center gap-2 text-orange-600">
                   <AlertCircle className="w-4 h-4" />
                   تم تعديل بعض الملفات - تأكد من المراجعة قبل النشر
@@ -227,10 +331,10 @@ export function DeployPreview({ files, onConfirm, onCancel, isDeploying }: Deplo
               <button
                 onClick={() => onConfirm(editedFiles)}
                 className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                disabled={isEditing || isDeploying}
+                disabled={isEditing || isDeploying || (isPlanned && changeCount === 0)}
               >
                 <Upload className="w-4 h-4" />
-                {isDeploying ? 'جاري النشر...' : 'تأكيد ونشر'}
+                {isDeploying ? 'جاري النشر...' : isPlanned ? `تأكيد ونشر (${changeCount} تغيير)` : 'تأكيد ونشر'}
               </button>
             </div>
           </div>
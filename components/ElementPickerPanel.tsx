@@ -0,0 +1,233 @@
+import { useState, useRef, useMemo } from 'react';
+import { Crosshair, X, Loader, Camera, Upload } from 'lucide-react';
+import type { StepNode } from '../types';
+import type { ElementSignature } from '../utils/ai-brain/supreme-robot-brain';
+import type { LocalPageSnapshot } from '../utils/local-runner-client';
+import type { PickedElement, ScoredSelector } from '../utils/element-picker';
+import { useApp } from '../contexts/AppContext';
+import { DEFAULT_LOCAL_RUNNER_URL, captureSnapshotOnLocalRunner } from '../utils/local-runner-client';
+import { prepareSnapshotHtml, scoreSnapshotElement, SELECTOR_SOURCE_LABELS } from '../utils/element-picker';
+import { STEP_TYPE_LABELS } from '../utils/step-codegen';
+import { toElementSignature } from '../utils/browser-recorder';
+
+interface ElementPickerPanelProps {
+  initialUrl: string;
+  step?: StepNode; // الخطوة المحددة في المنشئ - المحدد المختار يُضاف إليها
+  onUseSelector: (selector: string, signature: ElementSignature) => void; // البصمة تحل محل بصمة الخطوة للمعالجة الذاتية
+  onAddFallback: (selector: string) => void;
+  onClose: () => void;
+}
+
+type HighlightRect = { top: number; left: number; width: number; height: number };
+
+function MatchBadge({ selector }: { selector: ScoredSelector }) {
+  if (selector.matchCount === null) {
+    return <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-600">لا يُفحص في المتصفح</span>;
+  }
+  if (!selector.matchesTarget) {
+    return <span className="px-2 py-0.5 rounded bg-red-100 text-red-700">{selector.matchCount} مطابقة - ليس العنصر المختار</span>;
+  }
+  return selector.matchCount === 1 ? (
+    <span className="px-2 py-0.5 rounded bg-green-100 text-green-700">مطابقة وحيدة</span>
+  ) : (
+    <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-700">{selector.matchCount} مطابقات</span>
+  );
+}
+
+export function ElementPickerPanel({ initialUrl, step, onUseSelector, onAddFallback, onClose }: ElementPickerPanelProps) {
+  const { settings } = useApp();
+  const [url, setUrl] = useState(initialUrl || 'https://');
+  const [snapshot, setSnapshot] = useState<LocalPageSnapshot | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [scoring, setScoring] = useState(false);
+  const [picked, setPicked] = useState<PickedElement | null>(null);
+  const [hoverRect, setHoverRect] = useState<HighlightRect | null>(null);
+  const [error, setError] = useState('');
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  const snapshotHtml = useMemo(() => (snapshot ? prepareSnapshotHtml(snapshot.html, snapshot.url) : ''), [snapshot]);
+  const canInsert = !!step && 'selector' in step.params;
+
+  const loadSnapshot = (next: LocalPageSnapshot) => {
+    setSnapshot(next);
+    setPicked(null);
+    setHoverRect(null);
+    setError('');
+  };
+
+  const handleCapture = async () => {
+    setCapturing(true);
+    setError('');
+    try {
+      loadSnapshot(await captureSnapshotOnLocalRunner(
+        {
+          url: settings.execution.localRunner?.url || DEFAULT_LOCAL_RUNNER_URL,
+          token: settings.execution.localRunner?.token || ''
+        },
+        url
+      ));
+    } catch (captureError: any) {
+      setError(captureError.message);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  // صفحة محفوظة من المتصفح (Ctrl+S) بديل عن المشغّل المحلي
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(html => loadSnapshot({ url, title: file.name, html, capturedAt: new Date().toISOString() }));
+  };
+
+  const pickElement = async (doc: Document, el: Element) => {
+    setScoring(true);
+    try {
+      setPicked(await scoreSnapshotElement(doc, el, { website: snapshot?.url || url, taskType: step?.type || 'click' }));
+    } catch (scoreError: any) {
+      setError(`تعذر تحليل العنصر: ${scoreError.message}`);
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  // اللقطة لا تشغّل سكريبتات - المستمعات تُضاف من هنا وكل نقر يُلغى ليبقى على اللقطة
+  const handleFrameLoad = () => {
+    const doc = frameRef.current?.contentDocument;
+    if (!doc) return;
+
+    doc.addEventListener('mouseover', event => {
+      const target = event.target as Element;
+      if (target?.nodeType !== Node.ELEMENT_NODE) return;
+      const rect = target.getBoundingClientRect();
+      setHoverRect({ top: rect.top, left: rect.left, width: rect.width, height: rect.height });
+    });
+    doc.addEventListener('scroll', () => setHoverRect(null), true);
+    doc.addEventListener('click', event => {
+      event.preventDefault();
+      event.stopPropagation();
+      const target = event.target as Element;
+      if (target?.nodeType === Node.ELEMENT_NODE) pickElement(doc, target);
+    }, true);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-medium">
+          <Crosshair className="w-5 h-5 text-purple-600" />
+          <span>منتقي العناصر</span>
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com"
+          className="flex-1 min-w-[240px] px-3 py-2 text-sm border border-slate-300 rounded-lg font-mono"
+          dir="ltr"
+        />
+        <button
+          onClick={handleCapture}
+          disabled={capturing || !/^https?:\/\/.+/.test(url)}
+          className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          {capturing ? <Loader className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+          التقاط بالمشغّل المحلي
+        </button>
+        <label className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors cursor-pointer">
+          <Upload className="w-4 h-4" />
+          فتح ملف HTML
+          <input type="file" accept=".html,.htm,text/html" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">❌ {error}</p>}
+
+      {snapshot && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div>
+            <p className="text-xs text-slate-500 mb-1 truncate" dir="ltr">
+              {snapshot.title} - {snapshot.url}
+            </p>
+            <div className="relative h-[480px] border border-slate-200 rounded-lg overflow-hidden" onMouseLeave={() => setHoverRect(null)}>
+              <iframe
+                ref={frameRef}
+                title="لقطة الصفحة"
+                sandbox="allow-same-origin"
+                srcDoc={snapshotHtml}
+                onLoad={handleFrameLoad}
+                className="w-full h-full bg-white cursor-crosshair"
+              />
+              {hoverRect && (
+                <div
+                  className="absolute pointer-events-none border-2 border-purple-500 bg-purple-500/10"
+                  style={hoverRect}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-slate-600">
+              {canInsert
+                ? `المحدد المختار يُضاف إلى: ${STEP_TYPE_LABELS[step!.type]}`
+                : 'اختر خطوة تستخدم محدداً من قائمة الخطوات لإضافة المحدد إليها'}
+            </p>
+
+            {scoring && (
+              <p className="flex items-center gap-2 text-sm text-slate-500">
+                <Loader className="w-4 h-4 animate-spin" />
+                جاري تقييم المحددات...
+              </p>
+            )}
+
+            {!picked && !scoring && (
+              <p className="text-sm text-slate-500">انقر على عنصر في اللقطة لعرض المحددات المرشحة</p>
+            )}
+
+            {picked && (
+              <>
+                <pre className="text-xs bg-slate-50 border border-slate-200 rounded p-2 whitespace-pre-wrap break-all" dir="ltr">
+                  {picked.element.html}
+                </pre>
+                <div className="max-h-[400px] overflow-y-auto space-y-2">
+                  {picked.selectors.map(selector => (
+                    <div key={selector.selector} className="border border-slate-200 rounded-lg p-2 space-y-1">
+                      <code className="block text-xs break-all" dir="ltr">{selector.selector}</code>
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="px-2 py-0.5 rounded bg-purple-50 text-purple-700">{SELECTOR_SOURCE_LABELS[selector.source]}</span>
+                        <span className="text-slate-600">الدرجة: {Math.round(selector.score * 100)}%</span>
+                        <MatchBadge selector={selector} />
+                        <div className="flex gap-1 mr-auto">
+                          <button
+                            onClick={() => onUseSelector(selector.selector, toElementSignature(picked.element))}
+                            disabled={!canInsert}
+                            className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            استخدام
+                          </button>
+                          <button
+                            onClick={() => onAddFallback(selector.selector)}
+                            disabled={!canInsert}
+                            className="px-2 py-1 bg-slate-100 text-slate-700 rounded hover:bg-slate-200 disabled:opacity-50"
+                          >
+                            + بديل
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import type { ExtractionField, ExtractionFieldType } from '../types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -20,6 +21,7 @@ import {
   Code,
   Clock,
   Zap,
+  Table2,
 } from 'lucide-react';
 
 type StepConfig = {
@@ -48,6 +50,125 @@ type StepConfig = {
   };
 };
 
+const extractionFieldTypes: { value: ExtractionFieldType; label: string }[] = [
+  { value: 'text', label: 'نص' },
+  { value: 'number', label: 'رقم' },
+  { value: 'price', label: 'سعر' },
+  { value: 'date', label: 'تاريخ' },
+  { value: 'url', label: 'رابط' },
+];
+
+type ExtractionSchemaEditorProps = {
+  schema: ExtractionField[];
+  onChange: (schema: ExtractionField[]) => void;
+};
+
+/**
+ * محرر مخطط الاستخراج - كل حقل له selector نسبي لعنصر السجل ومصدر ونوع
+ */
+export function ExtractionSchemaEditor({ schema, onChange }: ExtractionSchemaEditorProps) {
+  const addField = () => {
+    onChange([
+      ...schema,
+      { name: `field${schema.length + 1}`, selector: '', source: 'text', type: 'text', required: false },
+    ]);
+  };
+
+  const updateField = (index: number, updates: Partial<ExtractionField>) => {
+    onChange(schema.map((field, i) => (i === index ? { ...field, ...updates } : field)));
+  };
+
+  const removeField = (index: number) => {
+    onChange(schema.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <Label className="flex items-center gap-2">
+          <Table2 className="w-4 h-4" />
+          حقول السجل ({schema.length})
+        </Label>
+        <Button onClick={addField} size="sm" variant="outline">
+          <Plus className="w-4 h-4 mr-2" />
+          إضافة حقل
+        </Button>
+      </div>
+
+      {schema.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          بدون حقول يُعاد نص كل عنصر فقط - أضف حقولاً للحصول على سجلات JSON منظمة
+        </p>
+      ) : (
+        schema.map((field, index) => (
+          <div key={index} className="p-3 border rounded-lg space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={field.name}
+                onChange={(e) => updateField(index, { name: e.target.value })}
+                placeholder="اسم الحقل"
+                className="font-mono"
+              />
+              <Button variant="ghost" size="sm" onClick={() => removeField(index)}>
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            </div>
+            <Input
+              value={field.selector}
+              onChange={(e) => updateField(index, { selector: e.target.value })}
+              placeholder="selector نسبي (.price) - فارغ = العنصر نفسه"
+              className="font-mono"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={field.source}
+                onValueChange={(value) => updateField(index, { source: value as ExtractionField['source'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="text">نص</SelectItem>
+                  <SelectItem value="attribute">خاصية</SelectItem>
+                  <SelectItem value="html">HTML</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={field.type}
+                onValueChange={(value) => updateField(index, { type: value as ExtractionFieldType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {extractionFieldTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {field.source === 'attribute' && (
+              <Input
+                value={field.attribute || ''}
+                onChange={(e) => updateField(index, { attribute: e.target.value })}
+                placeholder="href, src, data-id"
+                className="font-mono"
+              />
+            )}
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">حقل إلزامي (يُستبعد السجل بدونه)</Label>
+              <Switch
+                checked={field.required}
+                onCheckedChange={(checked) => updateField(index, { required: checked })}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
 type EnhancedStepEditorProps = {
   step: StepConfig;
   onUpdate: (step: StepConfig) => void;
@@ -122,12 +243,12 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
   };
 
   return (
-    <Card className=\"border-2\">
+    <Card className="border-2">
       <CardHeader>
-        <div className=\"flex justify-between items-start\">
+        <div className="flex justify-between items-start">
           <div>
-            <CardTitle className=\"flex items-center gap-2\">
-              <Settings className=\"w-5 h-5\" />
+            <CardTitle className="flex items-center gap-2">
+              <Settings className="w-5 h-5" />
               إعدادات الخطوة: {step.type}
             </CardTitle>
             <CardDescription>
@@ -135,65 +256,65 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
             </CardDescription>
           </div>
           {onDelete && (
-            <Button variant=\"destructive\" size=\"sm\" onClick={onDelete}>
-              <Trash2 className=\"w-4 h-4\" />
+            <Button variant="destructive" size="sm" onClick={onDelete}>
+              <Trash2 className="w-4 h-4" />
             </Button>
           )}
         </div>
       </CardHeader>
       <CardContent>
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className=\"grid w-full grid-cols-5\">
-            <TabsTrigger value=\"basic\">أساسي</TabsTrigger>
-            <TabsTrigger value=\"fallback\">بدائل ({step.fallbacks.length})</TabsTrigger>
-            <TabsTrigger value=\"errors\">معالجة الأخطاء</TabsTrigger>
-            <TabsTrigger value=\"output\">المخرجات</TabsTrigger>
-            <TabsTrigger value=\"conditions\">شروط ({step.conditions.length})</TabsTrigger>
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="basic">أساسي</TabsTrigger>
+            <TabsTrigger value="fallback">بدائل ({step.fallbacks.length})</TabsTrigger>
+            <TabsTrigger value="errors">معالجة الأخطاء</TabsTrigger>
+            <TabsTrigger value="output">المخرجات</TabsTrigger>
+            <TabsTrigger value="conditions">شروط ({step.conditions.length})</TabsTrigger>
           </TabsList>
 
           {/* Basic Settings */}
-          <TabsContent value=\"basic\" className=\"space-y-4\">
+          <TabsContent value="basic" className="space-y-4">
             {/* Type-specific parameters */}
             {step.type === 'navigate' && (
-              <div className=\"space-y-2\">
+              <div className="space-y-2">
                 <Label>رابط URL</Label>
                 <Input
-                  type=\"url\"
+                  type="url"
                   value={step.params.url || ''}
                   onChange={(e) => updateParams('url', e.target.value)}
-                  placeholder=\"https://example.com\"
+                  placeholder="https://example.com"
                 />
               </div>
             )}
 
             {(step.type === 'click' || step.type === 'type') && (
-              <div className=\"space-y-2\">
+              <div className="space-y-2">
                 <Label>المُحدد (Selector)</Label>
                 <Input
                   value={step.params.selector || ''}
                   onChange={(e) => updateParams('selector', e.target.value)}
-                  placeholder=\"#element, .class, [data-id]\"
+                  placeholder="#element, .class, [data-id]"
                 />
-                <p className=\"text-xs text-muted-foreground\">
+                <p className="text-xs text-muted-foreground">
                   استخدم CSS selector أو XPath
                 </p>
               </div>
             )}
 
             {step.type === 'type' && (
-              <div className=\"space-y-2\">
+              <div className="space-y-2">
                 <Label>النص المُدخل</Label>
                 <Input
                   value={step.params.text || ''}
                   onChange={(e) => updateParams('text', e.target.value)}
-                  placeholder=\"النص الذي سيتم كتابته\"
+                  placeholder="النص الذي سيتم كتابته"
                 />
               </div>
             )}
 
             {step.type === 'wait' && (
               <>
-                <div className=\"space-y-2\">
+                <div className="space-y-2">
                   <Label>نوع الانتظار</Label>
                   <Select
                     value={step.params.type || 'time'}
@@ -203,33 +324,33 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value=\"time\">وقت محدد</SelectItem>
-                      <SelectItem value=\"selector\">ظهور عنصر</SelectItem>
-                      <SelectItem value=\"navigation\">تحميل الصفحة</SelectItem>
+                      <SelectItem value="time">وقت محدد</SelectItem>
+                      <SelectItem value="selector">ظهور عنصر</SelectItem>
+                      <SelectItem value="navigation">تحميل الصفحة</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 {step.params.type === 'time' && (
-                  <div className=\"space-y-2\">
+                  <div className="space-y-2">
                     <Label>المدة (بالثواني)</Label>
                     <Input
-                      type=\"number\"
+                      type="number"
                       value={step.params.duration || 1}
                       onChange={(e) => updateParams('duration', parseInt(e.target.value))}
-                      min=\"0\"
-                      max=\"60\"
+                      min="0"
+                      max="60"
                     />
                   </div>
                 )}
 
                 {step.params.type === 'selector' && (
-                  <div className=\"space-y-2\">
+                  <div className="space-y-2">
                     <Label>المُحدد</Label>
                     <Input
                       value={step.params.selector || ''}
                       onChange={(e) => updateParams('selector', e.target.value)}
-                      placeholder=\".element\"
+                      placeholder=".element"
                     />
                   </div>
                 )}
@@ -238,7 +359,7 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
 
             {step.type === 'video' && (
               <>
-                <div className=\"space-y-2\">
+                <div className="space-y-2">
                   <Label>جودة الفيديو</Label>
                   <Select
                     value={step.params.quality || 'medium'}
@@ -248,29 +369,29 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value=\"low\">منخفضة (أسرع)</SelectItem>
-                      <SelectItem value=\"medium\">متوسطة</SelectItem>
-                      <SelectItem value=\"high\">عالية (أبطأ)</SelectItem>
+                      <SelectItem value="low">منخفضة (أسرع)</SelectItem>
+                      <SelectItem value="medium">متوسطة</SelectItem>
+                      <SelectItem value="high">عالية (أبطأ)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
-                <div className=\"space-y-2\">
+                <div className="space-y-2">
                   <Label>المدة (بالثواني)</Label>
-                  <div className=\"flex items-center gap-4\">
+                  <div className="flex items-center gap-4">
                     <Slider
                       value={[step.params.duration || 10]}
                       onValueChange={([value]) => updateParams('duration', value)}
                       min={1}
                       max={60}
                       step={1}
-                      className=\"flex-1\"
+                      className="flex-1"
                     />
-                    <span className=\"text-sm w-12 text-right\">{step.params.duration || 10}s</span>
+                    <span className="text-sm w-12 text-right">{step.params.duration || 10}s</span>
                   </div>
                 </div>
 
-                <div className=\"space-y-2\">
+                <div className="space-y-2">
                   <Label>معدل الإطارات (FPS)</Label>
                   <Select
                     value={String(step.params.fps || 30)}
@@ -280,14 +401,14 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value=\"15\">15 FPS</SelectItem>
-                      <SelectItem value=\"30\">30 FPS</SelectItem>
-                      <SelectItem value=\"60\">60 FPS</SelectItem>
+                      <SelectItem value="15">15 FPS</SelectItem>
+                      <SelectItem value="30">30 FPS</SelectItem>
+                      <SelectItem value="60">60 FPS</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
-                <div className=\"flex items-center justify-between\">
+                <div className="flex items-center justify-between">
                   <Label>تضمين الصوت</Label>
                   <Switch
                     checked={step.params.includeAudio || false}
@@ -298,7 +419,7 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
             )}
 
             {step.type === 'screenshot' && (
-              <div className=\"flex items-center justify-between\">
+              <div className="flex items-center justify-between">
                 <Label>صورة للصفحة كاملة</Label>
                 <Switch
                   checked={step.params.fullPage || false}
@@ -309,16 +430,16 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
 
             {step.type === 'extract' && (
               <>
-                <div className=\"space-y-2\">
+                <div className="space-y-2">
                   <Label>المُحدد الرئيسي</Label>
                   <Input
                     value={step.params.selector || ''}
                     onChange={(e) => updateParams('selector', e.target.value)}
-                    placeholder=\".item, article\"
+                    placeholder=".item, article"
                   />
                 </div>
 
-                <div className=\"space-y-2\">
+                <div className="space-y-2">
                   <Label>نوع الاستخراج</Label>
                   <Select
                     value={step.params.extractType || 'text'}
@@ -328,73 +449,77 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value=\"text\">نص</SelectItem>
-                      <SelectItem value=\"html\">HTML</SelectItem>
-                      <SelectItem value=\"attribute\">خاصية محددة</SelectItem>
-                      <SelectItem value=\"all\">الكل</SelectItem>
+                      <SelectItem value="text">نص</SelectItem>
+                      <SelectItem value="html">HTML</SelectItem>
+                      <SelectItem value="attribute">خاصية محددة</SelectItem>
+                      <SelectItem value="all">الكل</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 {step.params.extractType === 'attribute' && (
-                  <div className=\"space-y-2\">
+                  <div className="space-y-2">
                     <Label>اسم الخاصية</Label>
                     <Input
                       value={step.params.attribute || ''}
                       onChange={(e) => updateParams('attribute', e.target.value)}
-                      placeholder=\"href, src, data-id\"
+                      placeholder="href, src, data-id"
                     />
                   </div>
                 )}
+
+                <ExtractionSchemaEditor
+                  schema={step.params.schema || []}
+                  onChange={(schema) => updateParams('schema', schema)}
+                />
               </>
             )}
           </TabsContent>
 
           {/* Fallback Settings */}
-          <TabsContent value=\"fallback\" className=\"space-y-4\">
-            <div className=\"flex justify-between items-center\">
-              <p className=\"text-sm text-muted-foreground\">
+          <TabsContent value="fallback" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-muted-foreground">
                 إضافة بدائل لاستخدامها عند فشل الخطوة الأساسية
               </p>
-              <Button onClick={addFallback} size=\"sm\">
-                <Plus className=\"w-4 h-4 mr-2\" />
+              <Button onClick={addFallback} size="sm">
+                <Plus className="w-4 h-4 mr-2" />
                 إضافة بديل
               </Button>
             </div>
 
             {step.fallbacks.length === 0 ? (
-              <div className=\"text-center py-8 text-muted-foreground\">
-                <AlertTriangle className=\"w-12 h-12 mx-auto mb-4 opacity-50\" />
+              <div className="text-center py-8 text-muted-foreground">
+                <AlertTriangle className="w-12 h-12 mx-auto mb-4 opacity-50" />
                 <p>لا توجد بدائل</p>
-                <p className=\"text-sm\">أضف بدائل لزيادة موثوقية الخطوة</p>
+                <p className="text-sm">أضف بدائل لزيادة موثوقية الخطوة</p>
               </div>
             ) : (
-              <div className=\"space-y-3\">
+              <div className="space-y-3">
                 {step.fallbacks.map((fallback, index) => (
                   <Card key={index}>
-                    <CardHeader className=\"pb-3\">
-                      <div className=\"flex justify-between items-center\">
-                        <Badge variant=\"outline\">البديل {index + 1}</Badge>
+                    <CardHeader className="pb-3">
+                      <div className="flex justify-between items-center">
+                        <Badge variant="outline">البديل {index + 1}</Badge>
                         <Button
-                          variant=\"ghost\"
-                          size=\"sm\"
+                          variant="ghost"
+                          size="sm"
                           onClick={() => removeFallback(index)}
                         >
-                          <Trash2 className=\"w-4 h-4 text-red-500\" />
+                          <Trash2 className="w-4 h-4 text-red-500" />
                         </Button>
                       </div>
                     </CardHeader>
-                    <CardContent className=\"space-y-2\">
+                    <CardContent className="space-y-2">
                       {step.type === 'click' || step.type === 'type' ? (
                         <div>
-                          <Label className=\"text-xs\">Selector</Label>
+                          <Label className="text-xs">Selector</Label>
                           <Input
                             value={fallback.selector || ''}
                             onChange={(e) =>
                               updateFallback(index, 'selector', e.target.value)
                             }
-                            placeholder=\"Fallback selector\"
-                            size=\"sm\"
+                            placeholder="Fallback selector"
                           />
                         </div>
                       ) : null}
@@ -406,12 +531,12 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
           </TabsContent>
 
           {/* Error Handling */}
-          <TabsContent value=\"errors\" className=\"space-y-4\">
-            <div className=\"space-y-4\">
-              <div className=\"flex items-center justify-between p-4 border rounded-lg\">
+          <TabsContent value="errors" className="space-y-4">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between p-4 border rounded-lg">
                 <div>
                   <Label>تجاهل الأخطاء</Label>
-                  <p className=\"text-xs text-muted-foreground\">
+                  <p className="text-xs text-muted-foreground">
                     الاستمرار حتى عند فشل الخطوة
                   </p>
                 </div>
@@ -423,40 +548,40 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                 />
               </div>
 
-              <div className=\"space-y-2\">
+              <div className="space-y-2">
                 <Label>عدد محاولات إعادة التنفيذ</Label>
-                <div className=\"flex items-center gap-4\">
+                <div className="flex items-center gap-4">
                   <Slider
                     value={[step.errorHandling.retryCount]}
                     onValueChange={([value]) => updateErrorHandling('retryCount', value)}
                     min={0}
                     max={10}
                     step={1}
-                    className=\"flex-1\"
+                    className="flex-1"
                   />
-                  <span className=\"text-sm w-8 text-right\">
+                  <span className="text-sm w-8 text-right">
                     {step.errorHandling.retryCount}
                   </span>
                 </div>
               </div>
 
-              <div className=\"space-y-2\">
+              <div className="space-y-2">
                 <Label>التأخير بين المحاولات (بالثواني)</Label>
                 <Input
-                  type=\"number\"
+                  type="number"
                   value={step.errorHandling.retryDelay || 1}
                   onChange={(e) =>
                     updateErrorHandling('retryDelay', parseInt(e.target.value))
                   }
-                  min=\"0\"
-                  max=\"10\"
+                  min="0"
+                  max="10"
                 />
               </div>
 
-              <div className=\"flex items-center justify-between p-4 border rounded-lg\">
+              <div className="flex items-center justify-between p-4 border rounded-lg">
                 <div>
                   <Label>التقاط صورة عند الخطأ</Label>
-                  <p className=\"text-xs text-muted-foreground\">
+                  <p className="text-xs text-muted-foreground">
                     لتسهيل تحليل الأخطاء
                   </p>
                 </div>
@@ -468,12 +593,12 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                 />
               </div>
 
-              <div className=\"p-4 bg-yellow-50 border border-yellow-200 rounded-lg\">
-                <div className=\"flex items-start gap-2\">
-                  <AlertTriangle className=\"w-5 h-5 text-yellow-600 mt-0.5\" />
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5" />
                   <div>
-                    <p className=\"text-sm\">نصائح معالجة الأخطاء</p>
-                    <ul className=\"text-xs text-muted-foreground mt-2 space-y-1 list-disc list-inside\">
+                    <p className="text-sm">نصائح معالجة الأخطاء</p>
+                    <ul className="text-xs text-muted-foreground mt-2 space-y-1 list-disc list-inside">
                       <li>استخدم البدائل للتعامل مع selectors مختلفة</li>
                       <li>زد عدد المحاولات للخطوات الحساسة</li>
                       <li>فعّل التقاط الصور لتسهيل التشخيص</li>
@@ -485,14 +610,14 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
           </TabsContent>
 
           {/* Output Settings */}
-          <TabsContent value=\"output\" className=\"space-y-4\">
-            <div className=\"space-y-4\">
-              <div className=\"flex items-center justify-between p-4 border rounded-lg\">
-                <div className=\"flex items-center gap-2\">
-                  <ImageIcon className=\"w-5 h-5\" />
+          <TabsContent value="output" className="space-y-4">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <ImageIcon className="w-5 h-5" />
                   <div>
                     <Label>التقاط صورة بعد التنفيذ</Label>
-                    <p className=\"text-xs text-muted-foreground\">
+                    <p className="text-xs text-muted-foreground">
                       حفظ لقطة شاشة للتحقق
                     </p>
                   </div>
@@ -505,12 +630,12 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                 />
               </div>
 
-              <div className=\"flex items-center justify-between p-4 border rounded-lg\">
-                <div className=\"flex items-center gap-2\">
-                  <Video className=\"w-5 h-5\" />
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Video className="w-5 h-5" />
                   <div>
                     <Label>تسجيل فيديو للخطوة</Label>
-                    <p className=\"text-xs text-muted-foreground\">
+                    <p className="text-xs text-muted-foreground">
                       تسجيل تنفيذ الخطوة كاملة
                     </p>
                   </div>
@@ -522,9 +647,9 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
               </div>
 
               {step.output?.captureVideo && (
-                <div className=\"ml-8 space-y-3 p-3 bg-muted rounded-lg\">
-                  <div className=\"space-y-2\">
-                    <Label className=\"text-xs\">جودة الفيديو</Label>
+                <div className="ml-8 space-y-3 p-3 bg-muted rounded-lg">
+                  <div className="space-y-2">
+                    <Label className="text-xs">جودة الفيديو</Label>
                     <Select
                       value={step.output.videoQuality || 'medium'}
                       onValueChange={(value) => updateOutput('videoQuality', value)}
@@ -533,34 +658,34 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value=\"low\">منخفضة</SelectItem>
-                        <SelectItem value=\"medium\">متوسطة</SelectItem>
-                        <SelectItem value=\"high\">عالية</SelectItem>
+                        <SelectItem value="low">منخفضة</SelectItem>
+                        <SelectItem value="medium">متوسطة</SelectItem>
+                        <SelectItem value="high">عالية</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
-                  <div className=\"space-y-2\">
-                    <Label className=\"text-xs\">المدة القصوى (ثواني)</Label>
+                  <div className="space-y-2">
+                    <Label className="text-xs">المدة القصوى (ثواني)</Label>
                     <Input
-                      type=\"number\"
+                      type="number"
                       value={step.output.videoDuration || 30}
                       onChange={(e) =>
                         updateOutput('videoDuration', parseInt(e.target.value))
                       }
-                      min=\"5\"
-                      max=\"120\"
+                      min="5"
+                      max="120"
                     />
                   </div>
                 </div>
               )}
 
-              <div className=\"flex items-center justify-between p-4 border rounded-lg\">
-                <div className=\"flex items-center gap-2\">
-                  <Code className=\"w-5 h-5\" />
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Code className="w-5 h-5" />
                   <div>
                     <Label>استخراج بيانات إضافية</Label>
-                    <p className=\"text-xs text-muted-foreground\">
+                    <p className="text-xs text-muted-foreground">
                       جمع بيانات من الصفحة تلقائياً
                     </p>
                   </div>
@@ -571,12 +696,12 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
                 />
               </div>
 
-              <div className=\"p-4 bg-blue-50 border border-blue-200 rounded-lg\">
-                <div className=\"flex items-start gap-2\">
-                  <CheckCircle2 className=\"w-5 h-5 text-blue-600 mt-0.5\" />
+              <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <div className="flex items-start gap-2">
+                  <CheckCircle2 className="w-5 h-5 text-blue-600 mt-0.5" />
                   <div>
-                    <p className=\"text-sm\">فوائد التقاط المخرجات</p>
-                    <ul className=\"text-xs text-muted-foreground mt-2 space-y-1 list-disc list-inside\">
+                    <p className="text-sm">فوائد التقاط المخرجات</p>
+                    <ul className="text-xs text-muted-foreground mt-2 space-y-1 list-disc list-inside">
                       <li>سهولة التحقق من نجاح المهمة</li>
                       <li>أرشفة كاملة لكل تنفيذ</li>
                       <li>تحليل متقدم للأداء</li>
@@ -588,40 +713,40 @@ export function EnhancedStepEditor({ step, onUpdate, onDelete }: EnhancedStepEdi
           </TabsContent>
 
           {/* Conditions */}
-          <TabsContent value=\"conditions\" className=\"space-y-4\">
-            <div className=\"flex justify-between items-center\">
-              <p className=\"text-sm text-muted-foreground\">
+          <TabsContent value="conditions" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-muted-foreground">
                 إضافة شروط لتنفيذ الخطوة أو تخطيها
               </p>
-              <Button onClick={addCondition} size=\"sm\">
-                <Plus className=\"w-4 h-4 mr-2\" />
+              <Button onClick={addCondition} size="sm">
+                <Plus className="w-4 h-4 mr-2" />
                 إضافة شرط
               </Button>
             </div>
 
             {step.conditions.length === 0 ? (
-              <div className=\"text-center py-8 text-muted-foreground\">
-                <Zap className=\"w-12 h-12 mx-auto mb-4 opacity-50\" />
+              <div className="text-center py-8 text-muted-foreground">
+                <Zap className="w-12 h-12 mx-auto mb-4 opacity-50" />
                 <p>لا توجد شروط</p>
-                <p className=\"text-sm\">أضف شروط لجعل التنفيذ أكثر ذكاءً</p>
+                <p className="text-sm">أضف شروط لجعل التنفيذ أكثر ذكاءً</p>
               </div>
             ) : (
-              <div className=\"space-y-3\">
+              <div className="space-y-3">
                 {step.conditions.map((condition, index) => (
                   <Card key={index}>
-                    <CardHeader className=\"pb-3\">
-                      <div className=\"flex justify-between items-center\">
-                        <Badge variant=\"outline\">الشرط {index + 1}</Badge>
+                    <CardHeader className="pb-3">
+                      <div className="flex justify-between items-center">
+                        <Badge variant="outline">الشرط {index + 1}</Badge>
                         <Button
-                          variant=\"ghost\"
-                          size=\"sm\"
+                          variant="ghost"
+                          size="sm"
                           onClick={() => removeCondition(index)}
                         >
-                          <Trash2 className=\"w-4 h-4 text-red-500\" />
+                          <Trash2 className="w-4 h-4 text-red-500" />
                         </Button>
                       </div>
                     </CardHeader>
-                    <CardContent className=\"text-sm text-muted-foreground\">
+                    <CardContent className="text-sm text-muted-foreground">
                       الشروط قيد التطوير
                     </CardContent>
                   </Card>
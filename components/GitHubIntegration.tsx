@@ -4,7 +4,8 @@ import { useApp } from '../contexts/AppContext';
 import { GitHubTokenHelper } from './GitHubTokenHelper';
 import { GitHubOAuthButton } from './GitHubOAuthButton';
 import { DeployPreview, DeployFile } from './DeployPreview';
-import { generateDeploymentFiles, deployFiles } from '../utils/github';
+import { SecretsVault } from './SecretsVault';
+import { generateDeploymentFiles, deployFiles, planDeployment, getDeployChanges } from '../utils/github';
 import { toast } from 'sonner';
 import { GitHubTasksImporter } from './GitHubTasksImporter';
 
@@ -199,14 +200,28 @@ export function GitHubIntegration() {
     setSelectedTasks([]);
   };
 
-  const handlePreview = () => {
+  const handlePreview = async () => {
     if (selectedTasks.length === 0) {
       setMessage('⚠️ الرجاء اختيار مهمة واحدة على الأقل');
       return;
     }
 
     const tasksToGenerate = tasks.filter(t => selectedTasks.includes(t.id));
-    const files = generateDeploymentFiles(tasksToGenerate, settings.stealth);
+    let files: DeployFile[] = generateDeploymentFiles(tasksToGenerate, settings.stealth);
+
+    if (githubAPI) {
+      setLoading(true);
+      setMessage('🔍 جاري مقارنة الملفات مع المستودع...');
+      try {
+        files = await planDeployment(githubAPI, files, tasks.map(t => t.id));
+        setMessage('');
+      } catch (error: any) {
+        setMessage(`⚠️ تعذرت المقارنة مع المستودع: ${error.message}\\nسيتم عرض جميع الملفات`);
+      } finally {
+        setLoading(false);
+      }
+    }
+
     setPreviewFiles(files);
     setShowPreview(true);
   };
@@ -226,13 +241,19 @@ export function GitHubIntegration() {
     
     try {
       const tasksToGenerate = tasks.filter(t => selectedTasks.includes(t.id));
-      const files = generateDeploymentFiles(tasksToGenerate, settings.stealth);
+      setMessage('🔍 جاري مقارنة الملفات مع المستودع...');
+      const files = await planDeployment(
+        githubAPI,
+        generateDeploymentFiles(tasksToGenerate, settings.stealth),
+        tasks.map(t => t.id)
+      );
+      const { uploads, deletedPaths } = getDeployChanges(files);
       
-      setMessage(`🚀 جاري النشر إلى GitHub...\\n📦 رفع ${files.length} ملف...`);
+      setMessage(`🚀 جاري النشر إلى GitHub...\\n📦 رفع ${uploads.length} ملف، حذف ${deletedPaths.length}...`);
       
       await deployFiles(githubAPI, files);
       
-      setMessage(`🎉 تم النشر بنجاح!\\n\\n✅ تم رفع ${files.length} ملف إلى GitHub\\n📋 ${selectedTasks.length} مهمة جاهزة للتشغيل\\n\\n🔗 افتح المستودع: https://github.com/${settings.github.owner}/${settings.github.repo}\\n🎬 شغّل من: https://github.com/${settings.github.owner}/${settings.github.repo}/actions`);
+      setMessage(`🎉 تم النشر بنجاح!\\n\\n✅ تم رفع ${uploads.length} ملف متغير وحذف ${deletedPaths.length} ملف (${files.length - uploads.length - deletedPaths.length} بدون تغيير)\\n📋 ${selectedTasks.length} مهمة جاهزة للتشغيل\\n\\n🔗 افتح المستودع: https://github.com/${settings.github.owner}/${settings.github.repo}\\n🎬 شغّل من: https://github.com/${settings.github.owner}/${settings.github.repo}/actions`);
       setSelectedTasks([]);
     } catch (error: any) {
       setMessage(`❌ خطأ في النشر: ${error.message}\\n\\nجرب:\\n• تحقق من اتصال الإنترنت\\n• تأكد من صلاحيات Token\\n• حاول مرة أخرى`);
@@ -250,12 +271,13 @@ export function GitHubIntegration() {
     setIsDeploying(true);
     
     try {
-      setMessage(`🚀 جاري النشر إلى GitHub...\\\\n📦 رفع ${editedFiles.length} ملف...`);
+      const { uploads, deletedPaths } = getDeployChanges(editedFiles);
+      setMessage(`🚀 جاري النشر إلى GitHub...\\\\n📦 رفع ${uploads.length} ملف، حذف ${deletedPaths.length}...`);
       
       await deployFiles(githubAPI, editedFiles);
       
       setShowPreview(false);
-      setMessage(`🎉 تم النشر بناح!\\\\n\\\\n✅ تم رفع ${editedFiles.length} ملف إلى GitHub\\\\n📋 ${selectedTasks.length} مهمة جاهزة للتشغيل\\\\n\\\\n🔗 افتح المستودع: https://github.com/${settings.github.owner}/${settings.github.repo}\\\\n🎬 شغّل من: https://github.com/${settings.github.owner}/${settings.github.repo}/actions`);
+      setMessage(`🎉 تم النشر بناح!\\\\n\\\\n✅ تم رفع ${uploads.length} ملف متغير وحذف ${deletedPaths.length} ملف\\\\n📋 ${selectedTasks.length} مهمة جاهزة للتشغيل\\\\n\\\\n🔗 افتح المستودع: https://github.com/${settings.github.owner}/${settings.github.repo}\\\\n🎬 شغّل من: https://github.com/${settings.github.owner}/${settings.github.repo}/actions`);
       setSelectedTasks([]);
     } catch (error: any) {
       setMessage(`❌ خطأ في النشر: ${error.message}\\\\n\\\\nجرب:\\\\n• تحقق من اتصال الإنترنت\\\\n• تأكد من صلاحيات Token\\\\n• حاول مرة أخرى`);
@@ -637,6 +659,11 @@ export function GitHubIntegration() {
         />
       )}
 
+      {/* Secrets Vault */}
+      {settings.github.connected && (
+        <SecretsVault />
+      )}
+
       {/* GitHub Tasks Importer */}
       {settings.github.connected && (
         <GitHubTasksImporter />
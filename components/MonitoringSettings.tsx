@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Radar, Plus, X, Save } from 'lucide-react';
+import type { Task } from '../types';
+import { useApp } from '../contexts/AppContext';
+import { MonitoringConfig, getMonitoringConfig } from '../utils/data-diff';
+
+interface MonitoringSettingsProps {
+  task: Task;
+  columns?: string[]; // أعمدة معروفة من آخر فرق - للاقتراح فقط
+  onClose: () => void;
+}
+
+function parseFieldList(text: string): string[] {
+  return text.split(',').map(field => field.trim()).filter(Boolean);
+}
+
+export function MonitoringSettings({ task, columns = [], onClose }: MonitoringSettingsProps) {
+  const { updateTask } = useApp();
+  const initial = getMonitoringConfig(task);
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [keyFields, setKeyFields] = useState(initial.keyFields.join(', '));
+  const [ignoreFields, setIgnoreFields] = useState(initial.ignoreFields.join(', '));
+  const [thresholds, setThresholds] = useState<{ field: string; percent: string }[]>(
+    Object.entries(initial.thresholds).map(([field, percent]) => ({ field, percent: String(percent) }))
+  );
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = () => {
+    const monitoring: MonitoringConfig = {
+      enabled,
+      keyFields: parseFieldList(keyFields),
+      ignoreFields: parseFieldList(ignoreFields),
+      thresholds: Object.fromEntries(
+        thresholds
+          .filter(item => item.field.trim() && Number.isFinite(parseFloat(item.percent)))
+          .map(item => [item.field.trim(), Math.abs(parseFloat(item.percent))])
+      ),
+    };
+    updateTask(task.id, { metadata: { ...task.metadata, monitoring } });
+    setSaved(true);
+  };
+
+  return (
+    <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2">
+          <Radar className="w-5 h-5 text-indigo-600" />
+          <span>مراقبة تغيّر البيانات</span>
+        </h4>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        <span>قارن بيانات كل تشغيل بآخر تشغيل ناجح واحفظ الفرق كملف نتائج مستقل</span>
+      </label>
+
+      {enabled && (
+        <>
+          <datalist id="monitoring-columns">
+            {columns.map(column => <option key={column} value={column} />)}
+          </datalist>
+
+          <div>
+            <label className="block mb-1 text-sm">حقول المفتاح</label>
+            <input
+              type="text"
+              value={keyFields}
+              onChange={(e) => setKeyFields(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+              placeholder="href, sku"
+              dir="ltr"
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              تحدد السجل نفسه بين تشغيلين - بدونها يُقارن السجل بمحتواه كاملاً (إضافة وحذف فقط)
+            </p>
+          </div>
+
+          <div>
+            <label className="block mb-1 text-sm">حقول متجاهلة</label>
+            <input
+              type="text"
+              value={ignoreFields}
+              onChange={(e) => setIgnoreFields(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+              placeholder="timestamp"
+              dir="ltr"
+            />
+          </div>
+
+          <div>
+            <label className="block mb-1 text-sm">حدود التغيّر الرقمي</label>
+            <div className="space-y-2">
+              {thresholds.map((item, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    list="monitoring-columns"
+                    value={item.field}
+                    onChange={(e) => setThresholds(thresholds.map((other, i) => i === index ? { ...other, field: e.target.value } : other))}
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+                    placeholder="price.value"
+                    dir="ltr"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={item.percent}
+                    onChange={(e) => setThresholds(thresholds.map((other, i) => i === index ? { ...other, percent: e.target.value } : other))}
+                    className="w-24 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                  <span className="text-sm text-slate-500">%</span>
+                  <button
+                    onClick={() => setThresholds(thresholds.filter((_, i) => i !== index))}
+                    className="p-1.5 hover:bg-red-50 text-red-600 rounded"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setThresholds([...thresholds, { field: '', percent: '5' }])}
+                className="flex items-center gap-1 text-sm text-indigo-700 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                إضافة حد
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              تغيّر أقل من الحد يُتجاهل، وما يتجاوزه يُميَّز في جدول الفرق وينبّه في سجل التشغيل
+            </p>
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          حفظ
+        </button>
+        {saved && <span className="text-sm text-green-700">✅ تم الحفظ - أعد نشر المهام إلى GitHub لتطبيقه</span>}
+      </div>
+    </div>
+  );
+}
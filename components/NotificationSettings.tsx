@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { Bell, Plus, Trash2, X, Save, AlertTriangle } from 'lucide-react';
+import type { Task } from '../types';
+import { useApp } from '../contexts/AppContext';
+import { taskUsesMonitoring } from '../utils/data-diff';
+import {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationRule,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_EVENT_LABELS,
+  DATA_EVENTS,
+  SIGNATURE_HEADER,
+  SMTP_SECRET_NAMES,
+  getNotificationRules,
+  isPlainWebhookUrl,
+  validateNotificationRule,
+} from '../utils/notifications';
+
+interface NotificationSettingsProps {
+  task: Task;
+  onClose: () => void;
+}
+
+const URL_PLACEHOLDERS: Record<Exclude<NotificationChannel['type'], 'email'>, string> = {
+  webhook: '{{secrets.WEBHOOK_URL}}',
+  slack: '{{secrets.SLACK_WEBHOOK_URL}}',
+  discord: '{{secrets.DISCORD_WEBHOOK_URL}}',
+};
+
+function createChannel(type: NotificationChannel['type']): NotificationChannel {
+  if (type === 'email') return { type, to: [] };
+  if (type === 'webhook') return { type, url: '', signingSecret: '' };
+  return { type, url: '' };
+}
+
+export function NotificationSettings({ task, onClose }: NotificationSettingsProps) {
+  const { updateTask } = useApp();
+  const [rules, setRules] = useState<NotificationRule[]>(getNotificationRules(task));
+  const [message, setMessage] = useState('');
+
+  const monitoringEnabled = taskUsesMonitoring(task);
+
+  const updateRule = (id: string, updates: Partial<NotificationRule>) => {
+    setRules(rules.map(rule => rule.id === id ? { ...rule, ...updates } : rule));
+    setMessage('');
+  };
+
+  const toggleEvent = (rule: NotificationRule, event: NotificationEvent) => {
+    const events = rule.events.includes(event)
+      ? rule.events.filter(item => item !== event)
+      : [...rule.events, event];
+    updateRule(rule.id, { events });
+  };
+
+  const addRule = () => {
+    setRules([...rules, { id: Date.now().toString(), enabled: true, events: ['failure'], channel: createChannel('slack') }]);
+  };
+
+  const handleSave = () => {
+    try {
+      rules.forEach(validateNotificationRule);
+    } catch (error: any) {
+      setMessage(`❌ ${error.message}`);
+      return;
+    }
+    updateTask(task.id, { metadata: { ...task.metadata, notifications: rules } });
+    setMessage('✅ تم الحفظ - أعد نشر المهام إلى GitHub لتطبيقه');
+  };
+
+  return (
+    <div className="border border-amber-200 bg-amber-50/40 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-amber-600" />
+          <span>تنبيهات المهمة</span>
+        </h4>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {rules.length === 0 && (
+        <p className="text-sm text-slate-500">لا توجد قواعد تنبيه - أضف قاعدة لتصلك نتيجة التشغيلات المجدولة</p>
+      )}
+
+      {rules.map(rule => {
+        const channel = rule.channel;
+        const usesDataEvents = rule.events.some(event => DATA_EVENTS.includes(event));
+        return (
+          <div key={rule.id} className={`bg-white border border-slate-200 rounded-lg p-3 space-y-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-3">
+              <select
+                value={channel.type}
+                onChange={(e) => updateRule(rule.id, { channel: createChannel(e.target.value as NotificationChannel['type']) })}
+                className="px-3 py-2 text-sm border border-slate-300 rounded-lg"
+              >
+                {Object.entries(NOTIFICATION_CHANNEL_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              <div className="flex flex-wrap gap-3">
+                {(Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEvent[]).map(event => (
+                  <label key={event} className="flex items-center gap-1 text-sm">
+                    <input type="checkbox" checked={rule.events.includes(event)} onChange={() => toggleEvent(rule, event)} />
+                    {NOTIFICATION_EVENT_LABELS[event]}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-1 text-sm mr-auto">
+                <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} />
+                مفعّلة
+              </label>
+              <button
+                onClick={() => setRules(rules.filter(other => other.id !== rule.id))}
+                className="p-1.5 hover:bg-red-50 text-red-600 rounded"
+                title="حذف"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {channel.type === 'email' ? (
+              <div>
+                <input
+                  type="text"
+                  value={channel.to.join(', ')}
+                  onChange={(e) => updateRule(rule.id, {
+                    channel: { type: 'email', to: e.target.value.split(',').map(address => address.trim()).filter(Boolean) },
+                  })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  placeholder="ops@example.com, me@example.com"
+                  dir="ltr"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  يُرسل من خطوة SMTP في workflow - أضف في الخزنة: <span dir="ltr" className="font-mono">{SMTP_SECRET_NAMES.join(', ')}</span>
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={channel.url}
+                  onChange={(e) => updateRule(rule.id, { channel: { ...channel, url: e.target.value } })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+                  placeholder={URL_PLACEHOLDERS[channel.type]}
+                  dir="ltr"
+                />
+                {channel.type === 'webhook' && (
+                  <div>
+                    <input
+                      type="text"
+                      value={channel.signingSecret || ''}
+                      onChange={(e) => updateRule(rule.id, { channel: { ...channel, signingSecret: e.target.value } })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+                      placeholder="{{secrets.WEBHOOK_SIGNING_KEY}}"
+                      dir="ltr"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                      مفتاح التوقيع (اختياري): <span dir="ltr" className="font-mono">{SIGNATURE_HEADER}: sha256=HMAC(timestamp.body)</span>
+                    </p>
+                  </div>
+                )}
+                {isPlainWebhookUrl(channel.url) && (
+                  <p className="flex items-center gap-1 text-xs text-red-700">
+                    <AlertTriangle className="w-3 h-3" />
+                    الرابط سيظهر في tasks.json داخل المستودع - احفظه في خزنة الأسرار واستخدم {'{{secrets.NAME}}'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {usesDataEvents && !monitoringEnabled && (
+              <p className="flex items-center gap-1 text-xs text-amber-700">
+                <AlertTriangle className="w-3 h-3" />
+                تنبيهات تغيّر البيانات وتجاوز الحد تحتاج تفعيل مراقبة التغييرات لهذه المهمة
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={addRule}
+          className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          إضافة قاعدة
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          حفظ
+        </button>
+        {message && (
+          <span className={`text-sm ${message.startsWith('❌') ? 'text-red-600' : 'text-green-700'}`}>{message}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Database, RefreshCw, WifiOff } from 'lucide-react';
+import type { SyncQueueStatus } from '../utils/sync-queue';
+import type { LocalStorageEstimate } from '../utils/local-database';
+import { subscribeSyncQueue, processSyncQueue, retryFailedSync } from '../utils/sync-queue';
+import { getLocalStorageEstimate, requestPersistentStorage } from '../utils/local-database';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+export function OfflineStorageStatus() {
+  const [status, setStatus] = useState<SyncQueueStatus | null>(null);
+  const [estimate, setEstimate] = useState<LocalStorageEstimate | null>(null);
+
+  useEffect(() => subscribeSyncQueue(setStatus), []);
+
+  // المساحة تتغير مع كل مزامنة (الطابور يفرغ) فتُقرأ من جديد
+  useEffect(() => {
+    getLocalStorageEstimate().then(setEstimate).catch(() => setEstimate(null));
+  }, [status?.pending]);
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    setEstimate(await getLocalStorageEstimate());
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+          <Database className="w-6 h-6 text-indigo-600" />
+        </div>
+        <div>
+          <h3 className="text-lg">التخزين المحلي والمزامنة</h3>
+          <p className="text-sm text-slate-600">
+            المهام والسجلات ونتائج التشغيل تُحفظ في IndexedDB وتُرفع إلى Supabase عند توفر الاتصال
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {estimate && (
+          <div className="p-4 bg-slate-50 rounded-lg space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>المساحة المستخدمة</span>
+              <span dir="ltr">{formatBytes(estimate.usage)} / {formatBytes(estimate.quota)}</span>
+            </div>
+            <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-500"
+                style={{ width: `${estimate.quota ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0}%` }}
+              />
+            </div>
+            {!estimate.persisted && (
+              <button onClick={handlePersist} className="text-sm text-indigo-600 hover:underline">
+                طلب تخزين دائم (لا يحذفه المتصفح عند امتلاء القرص)
+              </button>
+            )}
+          </div>
+        )}
+
+        {status && (
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="p-3 border rounded-lg">
+              <p className="text-2xl">{status.pending}</p>
+              <p className="text-sm text-slate-600">بانتظار الرفع</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className={`text-2xl ${status.failed > 0 ? 'text-red-600' : ''}`}>{status.failed}</p>
+              <p className="text-sm text-slate-600">فشل رفعها</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-sm mt-2">
+                {status.lastSyncedAt ? new Date(status.lastSyncedAt).toLocaleTimeString('ar') : '—'}
+              </p>
+              <p className="text-sm text-slate-600">آخر مزامنة</p>
+            </div>
+          </div>
+        )}
+
+        {status && !status.online && (
+          <p className="flex items-center gap-2 text-sm text-amber-700">
+            <WifiOff className="w-4 h-4" />
+            غير متصل - التعديلات محفوظة محلياً وتُرفع عند عودة الاتصال
+          </p>
+        )}
+
+        {status?.lastError && <p className="text-sm text-red-600">❌ {status.lastError}</p>}
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => processSyncQueue()}
+            disabled={!status || status.processing || !status.online}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${status?.processing ? 'animate-spin' : ''}`} />
+            مزامنة الآن
+          </button>
+          {status && status.failed > 0 && (
+            <button
+              onClick={() => retryFailedSync()}
+              className="px-4 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              إعادة محاولة الفاشلة
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
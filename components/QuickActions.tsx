@@ -1,4 +1,4 @@
-import type { Task } from '../types';
+import type { Task, StepNode, StepParams, StepType } from '../types';
 import { useState } from 'react';
 import { 
   Globe, 
@@ -16,6 +16,8 @@ import {
   Sparkles,
   Zap
 } from 'lucide-react';
+import { createStep, createStepGraph, applyStepGraph } from '../utils/step-graph';
+import { generateScriptFromGraph, toJsString } from '../utils/step-codegen';
 
 type QuickActionsProps = {
   onTaskCreated: (task: Task) => void;
@@ -36,9 +38,29 @@ type QuickAction = {
     required?: boolean;
   }>;
   taskType: Task['type'];
-  generateScript: (data: any) => string;
+  buildSteps: (data: any) => StepNode[];
 };
 
+// خطوة بدون إعادة محاولة - الإجراءات السريعة تنفذ مرة واحدة كما كانت
+const quickStep = (type: StepType, params: StepParams): StepNode =>
+  createStep(type, { params, errorHandling: { ignoreErrors: false, retryCount: 0 } });
+
+const rawCode = (code: string): StepNode => quickStep('rawCode', { code });
+
+const waitForNetworkIdle = () => rawCode(`await page.waitForLoadState('networkidle');`);
+
+// بيانات النموذج تُحلل هنا ثم تُضمّن كـ JSON - لا يُحقن نص المستخدم في السكريبت مباشرة
+const parseFormData = (raw?: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const readCredentials = () =>
+  rawCode(`const credentials = JSON.parse(process.env.TASK_CREDENTIALS || '{}');`);
+
 const quickActions: QuickAction[] = [
   {
     id: 'scrape-products',
@@ -51,24 +73,19 @@ const quickActions: QuickAction[] = [
       { name: 'url', label: 'رابط المتجر', type: 'url', placeholder: 'https://store.com/products', required: true },
       { name: 'selector', label: 'محدد المنتج (اختياري)', type: 'text', placeholder: '.product-item' }
     ],
-    generateScript: (data) => `async function runTask(page) {
-  try {
-    await page.goto('${data.url}');
-    await page.waitForSelector('${data.selector || '.product'}');
-    const products = await page.evaluate(() => {
-      const items = document.querySelectorAll('${data.selector || '.product'}');
-      return Array.from(items).map(item => ({
-        title: item.querySelector('h2, h3, .title, .product-name')?.textContent?.trim(),
-        price: item.querySelector('.price, .product-price')?.textContent?.trim(),
-        image: item.querySelector('img')?.src
-      }));
-    });
-    return products;
-  } catch (error) {
-    console.error('Error:', error.message);
-    return { success: false, error: error.message };
-  }
-}`
+    buildSteps: (data) => [
+      quickStep('navigate', { url: data.url }),
+      quickStep('wait', { type: 'selector', selector: data.selector || '.product' }),
+      rawCode(`const products = await page.evaluate((selector) => {
+  const items = document.querySelectorAll(selector);
+  return Array.from(items).map(item => ({
+    title: item.querySelector('h2, h3, .title, .product-name')?.textContent?.trim(),
+    price: item.querySelector('.price, .product-price')?.textContent?.trim(),
+    image: item.querySelector('img')?.src
+  }));
+}, ${toJsString(data.selector || '.product')});
+results.push({ data: products });`)
+    ]
   },
   {
     id: 'auto-login',
@@ -83,19 +100,14 @@ const quickActions: QuickAction[] = [
       { name: 'passwordSelector', label: 'محدد كلمة المرور', type: 'text', placeholder: '#password' },
       { name: 'submitSelector', label: 'محدد زر الدخول', type: 'text', placeholder: 'button[type=\"submit\"]' }
     ],
-    generateScript: (data) => `async function runTask(page) {
-  try {
-    await page.goto('${data.url}');
-    await page.fill('${data.emailSelector || '#email, input[type=\"email\"]'}', credentials.email);
-    await page.fill('${data.passwordSelector || '#password, input[type=\"password\"]'}', credentials.password);
-    await page.click('${data.submitSelector || 'button[type=\"submit\"]'}');
-    await page.waitForNavigation();
-    return { success: true };
-  } catch (error) {
-    console.error('Error:', error.message);
-    return { success: false, error: error.message };
-  }
-}`
+    buildSteps: (data) => [
+      quickStep('navigate', { url: data.url }),
+      readCredentials(),
+      rawCode(`await page.fill(${toJsString(data.emailSelector || '#email, input[type="email"]')}, credentials.email);`),
+      rawCode(`await page.fill(${toJsString(data.passwordSelector || '#password, input[type="password"]')}, credentials.password);`),
+      quickStep('click', { selector: data.submitSelector || 'button[type="submit"]' }),
+      rawCode(`await page.waitForNavigation();`)
+    ]
   },
   {
     id: 'screenshot',
@@ -109,21 +121,19 @@ const quickActions: QuickAction[] = [
       { name: 'type', label: 'نوع اللقطة', type: 'select', options: ['صفحة كاملة', 'الشاشة المرئية', 'عنصر محدد'], required: true },
       { name: 'selector', label: 'محدد العنصر (إن وجد)', type: 'text', placeholder: '.main-content' }
     ],
-    generateScript: (data) => {
+    buildSteps: (data) => {
       if (data.type === 'عنصر محدد' && data.selector) {
-        return `await page.goto('${data.url}');
-await page.waitForSelector('${data.selector}');
-const element = await page.locator('${data.selector}');
-return await element.screenshot();`;
-      } else if (data.type === 'صفحة كاملة') {
-        return `await page.goto('${data.url}');
-await page.waitForLoadState('networkidle');
-return await page.screenshot({ fullPage: true });`;
-      } else {
-        return `await page.goto('${data.url}');
-await page.waitForLoadState('networkidle');
-return await page.screenshot();`;
+        return [
+          quickStep('navigate', { url: data.url }),
+          quickStep('wait', { type: 'selector', selector: data.selector }),
+          rawCode(`await page.locator(${toJsString(data.selector)}).screenshot();`)
+        ];
       }
+      return [
+        quickStep('navigate', { url: data.url }),
+        waitForNetworkIdle(),
+        quickStep('screenshot', { fullPage: data.type === 'صفحة كاملة' })
+      ];
     }
   },
   {
@@ -136,32 +146,26 @@ return await page.screenshot();`;
     fields: [
       { name: 'url', label: 'رابط صفحة التسجيل', type: 'url', required: true }
     ],
-    generateScript: (data) => `async function runTask(page) {
-  try {
-    await page.goto('${data.url}');
-    const fields = {
-      name: ['#name', '#fullname', 'input[name="name"]'],
-      email: ['#email', 'input[type="email"]', 'input[name="email"]'],
-      password: ['#password', 'input[type="password"]', 'input[name="password"]']
-    };
-    
-    for (const [field, selectors] of Object.entries(fields)) {
-      for (const selector of selectors) {
-        if (await page.isVisible(selector)) {
-          await page.fill(selector, credentials[field]);
-          break;
-        }
-      }
+    buildSteps: (data) => [
+      quickStep('navigate', { url: data.url }),
+      readCredentials(),
+      rawCode(`const fields = {
+  name: ['#name', '#fullname', 'input[name="name"]'],
+  email: ['#email', 'input[type="email"]', 'input[name="email"]'],
+  password: ['#password', 'input[type="password"]', 'input[name="password"]']
+};
+
+for (const [field, selectors] of Object.entries(fields)) {
+  for (const selector of selectors) {
+    if (await page.isVisible(selector)) {
+      await page.fill(selector, credentials[field]);
+      break;
     }
-    
-    await page.click('button[type="submit"]');
-    await page.waitForNavigation();
-    return { success: true };
-  } catch (error) {
-    console.error('Error:', error.message);
-    return { success: false, error: error.message };
   }
-}`
+}`),
+      quickStep('click', { selector: 'button[type="submit"]' }),
+      rawCode(`await page.waitForNavigation();`)
+    ]
   },
   {
     id: 'social-media',
@@ -175,24 +179,22 @@ return await page.screenshot();`;
       { name: 'action', label: 'الإجراء', type: 'select', options: ['إعجاب', 'متابعة', 'مشاركة', 'تعليق'], required: true },
       { name: 'comment', label: 'نص التعليق (إن وجد)', type: 'textarea', placeholder: 'محتوى رائع!' }
     ],
-    generateScript: (data) => {
-      const actions: any = {
-        'إعجاب': `    await page.click('button[aria-label*="like"], .like-button, [data-action="like"]');`,
-        'متابعة': `    await page.click('button[aria-label*="follow"], .follow-button, [data-action="follow"]');`,
-        'مشاركة': `    await page.click('button[aria-label*="share"], .share-button, [data-action="share"]');`,
-        'تعليق': `    await page.click('.comment-button');\n    await page.fill('textarea, .comment-input', '${data.comment || 'رائع!'}');\n    await page.click('.submit-comment');`
+    buildSteps: (data) => {
+      const actions: Record<string, StepNode[]> = {
+        'إعجاب': [quickStep('click', { selector: 'button[aria-label*="like"], .like-button, [data-action="like"]' })],
+        'متابعة': [quickStep('click', { selector: 'button[aria-label*="follow"], .follow-button, [data-action="follow"]' })],
+        'مشاركة': [quickStep('click', { selector: 'button[aria-label*="share"], .share-button, [data-action="share"]' })],
+        'تعليق': [
+          quickStep('click', { selector: '.comment-button' }),
+          quickStep('type', { selector: 'textarea, .comment-input', text: data.comment || 'رائع!' }),
+          quickStep('click', { selector: '.submit-comment' })
+        ]
       };
-      return `async function runTask(page) {
-  try {
-    await page.goto('${data.url}');
-    await page.waitForLoadState('networkidle');
-${actions[data.action] || ''}
-    return { success: true };
-  } catch (error) {
-    console.error('Error:', error.message);
-    return { success: false, error: error.message };
-  }
-}`;
+      return [
+        quickStep('navigate', { url: data.url }),
+        waitForNetworkIdle(),
+        ...(actions[data.action] || [])
+      ];
     }
   },
   {
@@ -206,28 +208,22 @@ ${actions[data.action] || ''}
       { name: 'url', label: 'رابط الصفحة', type: 'url', required: true },
       { name: 'fileType', label: 'نوع الملفات', type: 'select', options: ['صور', 'PDF', 'مستندات', 'الكل'], required: true }
     ],
-    generateScript: (data) => {
+    buildSteps: (data) => {
       const extensions: any = {
         'صور': '.jpg, .png, .jpeg, .gif, .webp',
         'PDF': '.pdf',
         'مستندات': '.doc, .docx, .txt, .xlsx',
         'الكل': ''
       };
-      return `async function runTask(page) {
-  try {
-    await page.goto('${data.url}');
-    const links = await page.evaluate(() => {
-      const extensions = '${extensions[data.fileType] || ''}';
-      return Array.from(document.querySelectorAll('a[href]'))
-        .map(a => a.href)
-        .filter(href => !extensions || extensions.split(',').some(ext => href.includes(ext.trim())));
-    });
-    return { files: links, count: links.length };
-  } catch (error) {
-    console.error('Error:', error.message);
-    return { success: false, error: error.message };
-  }
-}`;
+      return [
+        quickStep('navigate', { url: data.url }),
+        rawCode(`const links = await page.evaluate((extensions) => {
+  return Array.from(document.querySelectorAll('a[href]'))
+    .map(a => a.href)
+    .filter(href => !extensions || extensions.split(',').some(ext => href.includes(ext.trim())));
+}, ${toJsString(extensions[data.fileType] || '')});
+results.push({ data: { files: links, count: links.length } });`)
+      ];
     }
   },
   {
@@ -242,25 +238,20 @@ ${actions[data.action] || ''}
       { name: 'searchQuery', label: 'كلمة البحث', type: 'text', required: true },
       { name: 'searchSelector', label: 'محدد خانة البحث', type: 'text', placeholder: '#search' }
     ],
-    generateScript: (data) => `async function runTask(page) {
-  try {
-    await page.goto('${data.url}');
-    await page.fill('${data.searchSelector || 'input[type="search"], #search'}', '${data.searchQuery}');
-    await page.press('${data.searchSelector || 'input[type="search"]'}', 'Enter');
-    await page.waitForLoadState('networkidle');
-    const results = await page.evaluate(() => {
-      return Array.from(document.querySelectorAll('.result, .search-result')).map(r => ({
-        title: r.querySelector('h2, h3, .title')?.textContent?.trim(),
-        link: r.querySelector('a')?.href,
-        description: r.querySelector('p, .description')?.textContent?.trim()
-      }));
-    });
-    return results;
-  } catch (error) {
-    console.error('Error:', error.message);
-    return { success: false, error: error.message };
-  }
-}`
+    buildSteps: (data) => [
+      quickStep('navigate', { url: data.url }),
+      quickStep('type', { selector: data.searchSelector || 'input[type="search"], #search', text: data.searchQuery }),
+      rawCode(`await page.press(${toJsString(data.searchSelector || 'input[type="search"]')}, 'Enter');`),
+      waitForNetworkIdle(),
+      rawCode(`const searchResults = await page.evaluate(() => {
+  return Array.from(document.querySelectorAll('.result, .search-result')).map(r => ({
+    title: r.querySelector('h2, h3, .title')?.textContent?.trim(),
+    link: r.querySelector('a')?.href,
+    description: r.querySelector('p, .description')?.textContent?.trim()
+  }));
+});
+results.push({ data: searchResults });`)
+    ]
   },
   {
     id: 'form-fill',
@@ -273,26 +264,20 @@ ${actions[data.action] || ''}
       { name: 'url', label: 'رابط الصفحة', type: 'url', required: true },
       { name: 'formData', label: 'البيانات (JSON)', type: 'textarea', placeholder: '{"name": "أحمد", "email": "ahmad@example.com"}' }
     ],
-    generateScript: (data) => `async function runTask(page) {
-  try {
-    await page.goto('${data.url}');
-    const formData = ${data.formData || '{}'};
-    for (const [field, value] of Object.entries(formData)) {
-      const selectors = [\`#\${field}\`, \`[name="\${field}"]\`];
-      for (const sel of selectors) {
-        if (await page.isVisible(sel)) {
-          await page.fill(sel, String(value));
-          break;
-        }
-      }
+    buildSteps: (data) => [
+      quickStep('navigate', { url: data.url }),
+      rawCode(`const formData = ${JSON.stringify(parseFormData(data.formData))};
+for (const [field, value] of Object.entries(formData)) {
+  const selectors = [\`#\${field}\`, \`[name="\${field}"]\`];
+  for (const sel of selectors) {
+    if (await page.isVisible(sel)) {
+      await page.fill(sel, String(value));
+      break;
     }
-    await page.click('button[type="submit"]');
-    return { success: true };
-  } catch (error) {
-    console.error('Error:', error.message);
-    return { success: false, error: error.message };
   }
-}`
+}`),
+      quickStep('click', { selector: 'button[type="submit"]' })
+    ]
   }
 ];
 
@@ -315,19 +300,22 @@ export function QuickActions({ onTaskCreated }: QuickActionsProps) {
     setStep('confirm');
   };
 
+  const buildGraph = () => createStepGraph(selectedAction ? selectedAction.buildSteps(formData) : []);
+
   const handleExecute = (executeNow: boolean) => {
     if (!selectedAction) return;
 
-    const task: Task = {
+    const task = applyStepGraph<Task>({
       id: Date.now().toString(),
       name: selectedAction.title,
       description: selectedAction.description,
       type: selectedAction.taskType,
       status: executeNow ? 'running' : 'idle',
-      script: selectedAction.generateScript(formData),
+      script: '',
       targetUrl: formData.url || '',
-      createdAt: new Date()
-    };
+      createdAt: new Date(),
+      metadata: { source: 'template', quickAction: selectedAction.id }
+    }, buildGraph());
 
     onTaskCreated(task);
   };
@@ -471,7 +459,7 @@ export function QuickActions({ onTaskCreated }: QuickActionsProps) {
               <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
                 <h3 className="text-sm mb-2">السكريبت المُنشأ</h3>
                 <pre className="text-xs bg-white p-3 rounded overflow-x-auto" dir="ltr">
-                  {selectedAction.generateScript(formData)}
+                  {generateScriptFromGraph(buildGraph())}
                 </pre>
               </div>
             </div>
@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { X, Download, Loader, Table2, Layers } from 'lucide-react';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportRow,
+  ExportSource,
+  RUN_COLUMN,
+  FILE_COLUMN,
+  loadExportRows,
+  collectColumns,
+  dedupeRows,
+  createExportBlob,
+  getExportFileName,
+} from '../utils/results-export';
+
+interface ResultsExportDialogProps {
+  title: string;
+  sources: ExportSource[];
+  // المصادر المختارة مبدئياً - الباقي يمكن إضافته للدمج
+  initialSourceIds?: string[];
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export function ResultsExportDialog({ title, sources, initialSourceIds, onClose }: ResultsExportDialogProps) {
+  const [selectedSourceIds, setSelectedSourceIds] = useState<string[]>(
+    initialSourceIds || sources.slice(0, 1).map(source => source.id)
+  );
+  const [rows, setRows] = useState<ExportRow[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('excel-csv');
+  const [removeDuplicates, setRemoveDuplicates] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRows();
+  }, [selectedSourceIds.join(',')]);
+
+  const loadRows = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await loadExportRows(sources.filter(source => selectedSourceIds.includes(source.id)));
+      const allColumns = collectColumns(loaded);
+      setRows(loaded);
+      setColumns(allColumns);
+      // الأعمدة الجديدة تُختار تلقائياً، والتي ألغاها المستخدم تبقى ملغاة
+      setSelectedColumns(previous => {
+        const known = new Set(columns);
+        return allColumns.filter(column => previous.includes(column) || !known.has(column));
+      });
+    } catch (error: any) {
+      console.error('Error loading export rows:', error);
+      setError(`❌ فشل تحميل النتائج: ${error.message}`);
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSource = (id: string) => {
+    setSelectedSourceIds(previous =>
+      previous.includes(id) ? previous.filter(sourceId => sourceId !== id) : [...previous, id]
+    );
+  };
+
+  const toggleColumn = (column: string) => {
+    setSelectedColumns(previous =>
+      previous.includes(column)
+        ? previous.filter(name => name !== column)
+        : columns.filter(name => name === column || previous.includes(name))
+    );
+  };
+
+  const exportRows = removeDuplicates ? dedupeRows(rows, selectedColumns) : rows;
+
+  const handleExport = () => {
+    const blob = createExportBlob(exportRows, selectedColumns, format);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getExportFileName(title, format);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center gap-3">
+            <Table2 className="size-5 text-green-600" />
+            <div>
+              <h3>تصدير البيانات: {title}</h3>
+              <p className="text-sm text-gray-500">
+                {exportRows.length} صف • {selectedColumns.length} من {columns.length} عمود
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="size-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Sidebar: runs and columns */}
+          <div className="w-72 border-l overflow-y-auto bg-slate-50 p-3 space-y-4">
+            {sources.length > 1 && (
+              <div>
+                <h4 className="text-sm text-slate-600 mb-2 flex items-center gap-2">
+                  <Layers className="size-4" />
+                  دمج التشغيلات ({selectedSourceIds.length})
+                </h4>
+                <div className="space-y-1">
+                  {sources.map(source => (
+                    <label key={source.id} className="flex items-center gap-2 p-1 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedSourceIds.includes(source.id)}
+                        onChange={() => toggleSource(source.id)}
+                        disabled={loading}
+                        className="rounded"
+                      />
+                      <span>{source.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm text-slate-600">الأعمدة</h4>
+                <div className="flex gap-2 text-xs">
+                  <button onClick={() => setSelectedColumns(columns)} className="text-blue-600 hover:underline">
+                    الكل
+                  </button>
+                  <button onClick={() => setSelectedColumns([])} className="text-slate-500 hover:underline">
+                    لا شيء
+                  </button>
+                </div>
+              </div>
+              <div className="space-y-1">
+                {columns.map(column => (
+                  <label key={column} className="flex items-center gap-2 p-1 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedColumns.includes(column)}
+                      onChange={() => toggleColumn(column)}
+                      className="rounded"
+                    />
+                    <span className={`font-mono truncate ${column === RUN_COLUMN || column === FILE_COLUMN ? 'text-slate-400' : ''}`}>
+                      {column}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 overflow-auto p-4">
+            {loading ? (
+              <div className="flex items-center justify-center h-full">
+                <Loader className="size-8 animate-spin text-blue-600" />
+              </div>
+            ) : error ? (
+              <div className="flex items-center justify-center h-full text-red-600">{error}</div>
+            ) : exportRows.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-slate-500">
+                لا توجد سجلات JSON في ملفات النتائج المختارة
+              </div>
+            ) : (
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      {selectedColumns.map(column => (
+                        <th key={column} className="px-3 py-2 text-right font-mono font-medium whitespace-nowrap">
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {exportRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                      <tr key={index} className="border-t">
+                        {selectedColumns.map(column => (
+                          <td key={column} className="px-3 py-2 max-w-xs truncate">
+                            {row[column] == null ? '' : String(row[column])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {exportRows.length > PREVIEW_ROWS && (
+                  <p className="p-2 text-xs text-slate-500 border-t">
+                    و {exportRows.length - PREVIEW_ROWS} صف آخر...
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-4 p-4 border-t">
+          <div className="flex items-center gap-4">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="px-3 py-2 text-sm border border-slate-300 rounded-lg"
+            >
+              {EXPORT_FORMATS.map(item => (
+                <option key={item.id} value={item.id}>{item.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={removeDuplicates}
+                onChange={(e) => setRemoveDuplicates(e.target.checked)}
+                className="rounded"
+              />
+              <span>إزالة الصفوف المكررة</span>
+            </label>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={loading || exportRows.length === 0 || selectedColumns.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="size-4" />
+            تصدير
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
 import { useState, useEffect } from 'react';
-import { Download, Image as ImageIcon, FileText, Clock, CheckCircle, XCircle, Loader, ExternalLink, RefreshCw, Eye } from 'lucide-react';
+import { Download, Image as ImageIcon, FileText, Clock, CheckCircle, XCircle, Loader, ExternalLink, RefreshCw, Eye, Table2, Radar, Bell, ScanEye } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
 import { ArtifactPreview } from './ArtifactPreview';
+import { ResultsExportDialog } from './ResultsExportDialog';
+import { DataDiffTable } from './DataDiffTable';
+import { MonitoringSettings } from './MonitoringSettings';
+import { NotificationSettings } from './NotificationSettings';
+import { VisualRegressionSettings } from './VisualRegressionSettings';
+import { TestReportTable } from './TestReportTable';
+import { ExportSource, isExportableArtifact } from '../utils/results-export';
+import { DataDiff, isDiffArtifact, readDiffArtifact, taskUsesMonitoring } from '../utils/data-diff';
+import { getNotificationRules } from '../utils/notifications';
+import { supportsVisualRegression, taskUsesVisualRegression } from '../utils/visual-regression';
+import { CtrfReport, readTestReport, taskUsesAssertions } from '../utils/test-reports';
 
 interface ResultsViewerProps {
   taskId: string;
@@ -9,17 +20,54 @@ interface ResultsViewerProps {
 }
 
 export function ResultsViewer({ taskId, taskName }: ResultsViewerProps) {
-  const { getTaskResults, downloadArtifact, settings } = useApp();
+  const { getTaskResults, downloadArtifact, settings, tasks } = useApp();
   const [results, setResults] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedRun, setSelectedRun] = useState<any>(null);
   const [previewArtifact, setPreviewArtifact] = useState<any>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showMonitoring, setShowMonitoring] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [showVisual, setShowVisual] = useState(false);
+  const [diff, setDiff] = useState<DataDiff | null>(null);
+  const [testReport, setTestReport] = useState<CtrfReport | null>(null);
+
+  const task = tasks.find(t => t.id === taskId);
 
   useEffect(() => {
     loadResults();
   }, [taskId]);
 
+  // فرق البيانات محفوظ في artifact مستقل لكل تشغيل مراقَب
+  useEffect(() => {
+    setDiff(null);
+    const diffArtifact = selectedRun?.artifacts?.find((artifact: any) => isDiffArtifact(artifact.name));
+    if (!diffArtifact) return;
+
+    let cancelled = false;
+    downloadArtifact(diffArtifact.id)
+      .then(readDiffArtifact)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(error => console.warn('⚠️ تعذر تحميل فرق البيانات:', error.message));
+    return () => { cancelled = true; };
+  }, [selectedRun]);
+
+  // تقرير CTRF يصل مع artifact النتائج في reports/ - فقط للمهام التي فيها خطوات تحقق
+  useEffect(() => {
+    setTestReport(null);
+    if (!task || !taskUsesAssertions(task)) return;
+    const resultsArtifact = selectedRun?.artifacts?.find((artifact: any) => isExportableArtifact(artifact.name));
+    if (!resultsArtifact) return;
+
+    let cancelled = false;
+    downloadArtifact(resultsArtifact.id)
+      .then(readTestReport)
+      .then(report => { if (!cancelled) setTestReport(report); })
+      .catch(error => console.warn('⚠️ تعذر تحميل تقرير الاختبار:', error.message));
+    return () => { cancelled = true; };
+  }, [selectedRun]);
+
   const loadResults = async () => {
     setLoading(true);
     setError(null);
@@ -144,6 +192,65 @@ export function ResultsViewer({ taskId, taskName }: ResultsViewerProps) {
     }).format(date);
   };
 
+  // إعدادات المراقبة والتنبيهات والاختبار البصري تُضبط قبل أول تشغيل أيضاً - تُطبَّق عند النشر
+  const settingsButtons = task && (
+    <>
+      <button
+        onClick={() => setShowMonitoring(!showMonitoring)}
+        className={`flex items-center gap-2 px-3 py-2 border rounded-lg transition-colors ${
+          taskUsesMonitoring(task)
+            ? 'border-indigo-300 text-indigo-700 bg-indigo-50 hover:bg-indigo-100'
+            : 'border-slate-300 hover:bg-slate-50'
+        }`}
+      >
+        <Radar className="w-4 h-4" />
+        <span>مراقبة التغييرات</span>
+      </button>
+      <button
+        onClick={() => setShowNotifications(!showNotifications)}
+        className={`flex items-center gap-2 px-3 py-2 border rounded-lg transition-colors ${
+          getNotificationRules(task).some(rule => rule.enabled)
+            ? 'border-amber-300 text-amber-700 bg-amber-50 hover:bg-amber-100'
+            : 'border-slate-300 hover:bg-slate-50'
+        }`}
+      >
+        <Bell className="w-4 h-4" />
+        <span>التنبيهات</span>
+      </button>
+      {supportsVisualRegression(task) && (
+        <button
+          onClick={() => setShowVisual(!showVisual)}
+          className={`flex items-center gap-2 px-3 py-2 border rounded-lg transition-colors ${
+            taskUsesVisualRegression(task)
+              ? 'border-teal-300 text-teal-700 bg-teal-50 hover:bg-teal-100'
+              : 'border-slate-300 hover:bg-slate-50'
+          }`}
+        >
+          <ScanEye className="w-4 h-4" />
+          <span>الاختبار البصري</span>
+        </button>
+      )}
+    </>
+  );
+
+  const settingsPanels = task && (showMonitoring || showNotifications || showVisual) && (
+    <div className="space-y-4 text-right">
+      {showMonitoring && (
+        <MonitoringSettings
+          task={task}
+          columns={diff ? Array.from(new Set([...diff.added, ...diff.removed, ...diff.changed.map(item => item.record)].flatMap(Object.keys))) : []}
+          onClose={() => setShowMonitoring(false)}
+        />
+      )}
+      {showNotifications && (
+        <NotificationSettings task={task} onClose={() => setShowNotifications(false)} />
+      )}
+      {showVisual && (
+        <VisualRegressionSettings task={task} onClose={() => setShowVisual(false)} />
+      )}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -210,11 +317,27 @@ export function ResultsViewer({ taskId, taskName }: ResultsViewerProps) {
             <RefreshCw className="w-4 h-4" />
             <span>تحديث</span>
           </button>
+          {settingsButtons}
         </div>
+
+        {settingsPanels && <div className="mt-6">{settingsPanels}</div>}
       </div>
     );
   }
 
+  // كل تشغيل لديه ملفات بيانات مصدر تصدير - يمكن دمج عدة تشغيلات في ملف واحد
+  const exportSources: ExportSource[] = results.runs
+    .filter((run: any) => run.artifacts?.some((artifact: any) => isExportableArtifact(artifact.name)))
+    .map((run: any) => ({
+      id: String(run.id),
+      label: `#${run.run_number}`,
+      load: () => Promise.all(
+        run.artifacts
+          .filter((artifact: any) => isExportableArtifact(artifact.name))
+          .map((artifact: any) => downloadArtifact(artifact.id))
+      ),
+    }));
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -223,15 +346,28 @@ export function ResultsViewer({ taskId, taskName }: ResultsViewerProps) {
           <h3 className="text-xl">نتائج المهمة: {taskName}</h3>
           <p className="text-sm text-slate-600">{results.runs.length} تشغيل</p>
         </div>
-        <button
-          onClick={loadResults}
-          className="flex items-center gap-2 px-3 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
-        >
-          <RefreshCw className="w-4 h-4" />
-          <span>تحديث</span>
-        </button>
+        <div className="flex gap-2">
+          {settingsButtons}
+          <button
+            onClick={() => setShowExport(true)}
+            disabled={exportSources.length === 0}
+            className="flex items-center gap-2 px-3 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <Table2 className="w-4 h-4" />
+            <span>تصدير البيانات</span>
+          </button>
+          <button
+            onClick={loadResults}
+            className="flex items-center gap-2 px-3 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>تحديث</span>
+          </button>
+        </div>
       </div>
 
+      {settingsPanels}
+
       <div className="grid grid-cols-3 gap-6">
         {/* Runs List */}
         <div className="col-span-1 space-y-3">
@@ -303,6 +439,12 @@ export function ResultsViewer({ taskId, taskName }: ResultsViewerProps) {
               </div>
             </div>
 
+            {/* Test Report */}
+            {testReport && <TestReportTable report={testReport} />}
+
+            {/* Data Diff */}
+            {diff && <DataDiffTable diff={diff} />}
+
             {/* Artifacts */}
             {selectedRun.artifacts && selectedRun.artifacts.length > 0 && (
               <div className="border border-slate-200 rounded-lg p-4">
@@ -373,6 +515,20 @@ export function ResultsViewer({ taskId, taskName }: ResultsViewerProps) {
           onDownload={() => downloadArtifact(previewArtifact.id)}
         />
       )}
+
+      {/* Export Dialog */}
+      {showExport && (
+        <ResultsExportDialog
+          title={taskName}
+          sources={exportSources}
+          initialSourceIds={
+            selectedRun && exportSources.some(source => source.id === String(selectedRun.id))
+              ? [String(selectedRun.id)]
+              : undefined
+          }
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,256 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Activity, CheckCircle, AlertTriangle, XCircle, Loader, Timer } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../hooks/useAuth';
+import { getExecutionLogs } from '../utils/database-integration';
+import {
+  RunStability,
+  buildRunHistory,
+  getTaskRunStats,
+  getSuccessTrend,
+  getFailureClusters,
+} from '../utils/run-history';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+
+const RANGES = [7, 30, 90];
+
+const STABILITY_BADGES: Record<RunStability, { label: string; className: string }> = {
+  stable: { label: 'مستقرة', className: 'bg-green-50 text-green-700' },
+  flaky: { label: 'متذبذبة', className: 'bg-yellow-50 text-yellow-700' },
+  broken: { label: 'معطلة', className: 'bg-red-50 text-red-700' },
+  insufficient: { label: 'بيانات قليلة', className: 'bg-slate-50 text-slate-500' },
+};
+
+const trendConfig = {
+  successRate: { label: 'نسبة النجاح %', color: '#16a34a' },
+} satisfies ChartConfig;
+
+const volumeConfig = {
+  passed: { label: 'نجح', color: '#22c55e' },
+  failures: { label: 'فشل', color: '#ef4444' },
+} satisfies ChartConfig;
+
+const clusterConfig = {
+  count: { label: 'مرات الفشل', color: '#f97316' },
+} satisfies ChartConfig;
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—';
+  return seconds < 60 ? `${seconds.toFixed(1)} ث` : `${(seconds / 60).toFixed(1)} د`;
+}
+
+export function RunAnalytics() {
+  const { logs, tasks } = useApp();
+  const { syncUserId } = useAuth();
+  const [remoteLogs, setRemoteLogs] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [days, setDays] = useState(30);
+  const [taskFilter, setTaskFilter] = useState('');
+
+  useEffect(() => {
+    if (!syncUserId) return;
+    setLoading(true);
+    getExecutionLogs(syncUserId, 1000)
+      .then(result => setRemoteLogs(result.source === 'database' ? result.data : []))
+      .finally(() => setLoading(false));
+  }, [syncUserId]);
+
+  const history = useMemo(() => buildRunHistory(logs, remoteLogs), [logs, remoteLogs]);
+
+  const since = Date.now() - days * 86_400_000;
+  const inRange = history.filter(record =>
+    record.startedAt.getTime() >= since && (!taskFilter || record.taskId === taskFilter)
+  );
+
+  // الاستقرار يُحسب على كامل السجل - نافذة قصيرة قد تخفي نمط الفشل
+  const taskStats = getTaskRunStats(history)
+    .filter(stats => !taskFilter || stats.taskId === taskFilter)
+    .sort((a, b) => b.flakiness - a.flakiness || a.successRate - b.successRate);
+  const trend = getSuccessTrend(inRange, days).map(point => ({
+    ...point,
+    label: point.date.slice(5),
+    passed: point.runs - point.failures,
+    successRate: point.runs > 0 ? Math.round(point.successRate * 100) : null,
+  }));
+  const clusters = getFailureClusters(inRange);
+
+  const failures = inRange.filter(record => record.status === 'failed').length;
+  const successRate = inRange.length > 0 ? ((inRange.length - failures) / inRange.length) * 100 : 0;
+  const taskNames = new Map(history.map(record => [record.taskId, record.taskName]));
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex items-center gap-3">
+        <select
+          value={taskFilter}
+          onChange={(e) => setTaskFilter(e.target.value)}
+          className="px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white"
+        >
+          <option value="">كل المهام</option>
+          {tasks.map(task => (
+            <option key={task.id} value={task.id}>{task.name}</option>
+          ))}
+        </select>
+        <div className="flex gap-1 p-1 bg-slate-100 rounded-lg">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 text-sm rounded-md transition-all ${
+                days === range ? 'bg-white shadow-sm' : 'text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              {range} يوم
+            </button>
+          ))}
+        </div>
+        {loading && <Loader className="w-4 h-4 animate-spin text-slate-400" />}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl p-6 border border-slate-200">
+          <p className="text-sm text-slate-600 flex items-center gap-2"><Activity className="w-4 h-4" /> التشغيلات</p>
+          <p className="text-3xl mt-2">{inRange.length}</p>
+        </div>
+        <div className="bg-white rounded-xl p-6 border border-slate-200">
+          <p className="text-sm text-slate-600 flex items-center gap-2"><CheckCircle className="w-4 h-4" /> نسبة النجاح</p>
+          <p className="text-3xl mt-2">{successRate.toFixed(0)}%</p>
+        </div>
+        <div className="bg-white rounded-xl p-6 border border-slate-200">
+          <p className="text-sm text-slate-600 flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> مهام متذبذبة</p>
+          <p className="text-3xl mt-2">{taskStats.filter(stats => stats.stability === 'flaky').length}</p>
+        </div>
+        <div className="bg-white rounded-xl p-6 border border-slate-200">
+          <p className="text-sm text-slate-600 flex items-center gap-2"><XCircle className="w-4 h-4" /> مهام معطلة</p>
+          <p className="text-3xl mt-2">{taskStats.filter(stats => stats.stability === 'broken').length}</p>
+        </div>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="bg-white rounded-xl border border-slate-200 p-12 text-center text-slate-500">
+          <Activity className="w-16 h-16 mx-auto mb-4 text-slate-300" />
+          <p>لا توجد تشغيلات مسجلة بعد</p>
+        </div>
+      ) : (
+        <>
+          {/* Trends */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <h3 className="mb-4">نسبة النجاح اليومية</h3>
+              <ChartContainer config={trendConfig} className="h-64 w-full aspect-auto" dir="ltr">
+                <LineChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="successRate" stroke="var(--color-successRate)" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ChartContainer>
+            </div>
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <h3 className="mb-4">عدد التشغيلات</h3>
+              <ChartContainer config={volumeConfig} className="h-64 w-full aspect-auto" dir="ltr">
+                <BarChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="passed" stackId="runs" fill="var(--color-passed)" />
+                  <Bar dataKey="failures" stackId="runs" fill="var(--color-failures)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </div>
+
+          {/* Per-task stats */}
+          <div className="bg-white rounded-xl border border-slate-200">
+            <div className="p-6 border-b border-slate-200">
+              <h3>استقرار المهام</h3>
+              <p className="text-sm text-slate-500 mt-1">
+                التذبذب = مدى تفرق الفشل بين التشغيلات: قريب من 1 فشل متقطع، و 0 عطل متصل
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    <th className="px-4 py-3 text-right font-normal">المهمة</th>
+                    <th className="px-4 py-3 text-right font-normal">التشغيلات</th>
+                    <th className="px-4 py-3 text-right font-normal">النجاح</th>
+                    <th className="px-4 py-3 text-right font-normal"><Timer className="w-4 h-4 inline" /> p50</th>
+                    <th className="px-4 py-3 text-right font-normal">p95</th>
+                    <th className="px-4 py-3 text-right font-normal">التذبذب</th>
+                    <th className="px-4 py-3 text-right font-normal">الحالة</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {taskStats.map(stats => (
+                    <tr key={stats.taskId}>
+                      <td className="px-4 py-3">{stats.taskName}</td>
+                      <td className="px-4 py-3">{stats.runs}</td>
+                      <td className="px-4 py-3">{(stats.successRate * 100).toFixed(0)}%</td>
+                      <td className="px-4 py-3">{formatDuration(stats.p50Duration)}</td>
+                      <td className="px-4 py-3">{formatDuration(stats.p95Duration)}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <div className="w-16 h-2 bg-slate-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-yellow-500" style={{ width: `${stats.flakiness * 100}%` }} />
+                          </div>
+                          <span className="text-xs text-slate-500">{stats.flakiness.toFixed(2)}</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs ${STABILITY_BADGES[stats.stability].className}`}>
+                          {STABILITY_BADGES[stats.stability].label}
+                          {stats.failureStreak > 1 && ` (${stats.failureStreak} فشل متتالٍ)`}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Failure clusters */}
+          {clusters.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="bg-white rounded-xl border border-slate-200 p-6">
+                <h3 className="mb-4">الأخطاء حسب النوع</h3>
+                <ChartContainer config={clusterConfig} className="h-64 w-full aspect-auto" dir="ltr">
+                  <BarChart data={clusters} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="type" tickLine={false} axisLine={false} width={140} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+              <div className="bg-white rounded-xl border border-slate-200 divide-y divide-slate-100">
+                {clusters.map(cluster => (
+                  <div key={cluster.type} className="p-4">
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono text-sm">{cluster.type}</span>
+                      <span className="text-sm text-slate-500">{cluster.count} مرة</span>
+                    </div>
+                    <p className="text-sm mt-1">{cluster.message}</p>
+                    <p className="text-xs text-slate-500 mt-1 truncate" title={cluster.sampleError}>
+                      آخر خطأ: {cluster.sampleError}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      المهام: {cluster.taskIds.map(id => taskNames.get(id) || id).join('، ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import { KeyRound, Plus, Trash2, RefreshCw, Copy, Check, AlertTriangle, Loader, Pencil } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import {
+  VaultSecret,
+  listVaultSecrets,
+  saveVaultSecret,
+  deleteVaultSecret,
+  getSecretUsage,
+} from '../utils/secrets';
+
+export function SecretsVault() {
+  const { githubAPI, tasks } = useApp();
+  const [secrets, setSecrets] = useState<VaultSecret[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [copiedName, setCopiedName] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadSecrets();
+  }, [githubAPI]);
+
+  const loadSecrets = async () => {
+    if (!githubAPI) return;
+    setLoading(true);
+    try {
+      setSecrets(await listVaultSecrets(githubAPI));
+    } catch (error: any) {
+      console.error('Error loading secrets:', error);
+      setMessage(`❌ فشل تحميل الأسرار: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!githubAPI) return;
+    setSaving(true);
+    setMessage('');
+    try {
+      await saveVaultSecret(githubAPI, name, value);
+      setMessage(`✅ تم ${editingName ? 'تحديث' : 'حفظ'} السر ${name}`);
+      setName('');
+      setValue('');
+      setEditingName(null);
+      await loadSecrets();
+    } catch (error: any) {
+      setMessage(`❌ ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (secretName: string) => {
+    if (!githubAPI) return;
+    const users = usage.get(secretName) || [];
+    const warning = users.length > 0 ? `\nتستخدمه ${users.length} مهمة وستفشل خطواتها.` : '';
+    if (!confirm(`حذف السر ${secretName}؟${warning}`)) return;
+
+    try {
+      await deleteVaultSecret(githubAPI, secretName);
+      setSecrets(previous => previous.filter(secret => secret.name !== secretName));
+      setMessage(`🗑️ تم حذف السر ${secretName}`);
+    } catch (error: any) {
+      setMessage(`❌ فشل الحذف: ${error.message}`);
+    }
+  };
+
+  const handleCopy = async (secretName: string) => {
+    await navigator.clipboard.writeText(`{{secrets.${secretName}}}`);
+    setCopiedName(secretName);
+    setTimeout(() => setCopiedName(null), 1500);
+  };
+
+  const startEdit = (secretName: string) => {
+    setEditingName(secretName);
+    setName(secretName);
+    setValue('');
+  };
+
+  const usage = getSecretUsage(tasks);
+  const missing = Array.from(usage.keys()).filter(secretName => !secrets.some(secret => secret.name === secretName));
+
+  if (!githubAPI) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-amber-100 rounded-xl flex items-center justify-center">
+            <KeyRound className="w-6 h-6 text-amber-700" />
+          </div>
+          <div>
+            <h2 className="text-xl">خزنة الأسرار</h2>
+            <p className="text-sm text-slate-600">
+              تُشفَّر في المتصفح وتُحفظ في GitHub Secrets - استخدمها في الخطوات بـ{' '}
+              <code className="bg-slate-100 px-1 rounded" dir="ltr">{'{{secrets.NAME}}'}</code>
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={loadSecrets}
+          disabled={loading}
+          className="p-2 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+          title="تحديث"
+        >
+          <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* Add / update */}
+      <div className="flex items-end gap-3 mb-4">
+        <div className="w-64">
+          <label className="block mb-1 text-sm">الاسم</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value.toUpperCase().replace(/[^A-Z0-9_]/g, '_'))}
+            disabled={editingName !== null}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm disabled:bg-slate-50"
+            placeholder="SHOP_PASSWORD"
+            dir="ltr"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block mb-1 text-sm">القيمة</label>
+          <input
+            type="password"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+            placeholder={editingName ? 'القيمة الجديدة' : '••••••••'}
+            autoComplete="new-password"
+            dir="ltr"
+          />
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving || !name || !value}
+          className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          {editingName ? 'تحديث' : 'حفظ'}
+        </button>
+        {editingName && (
+          <button
+            onClick={() => { setEditingName(null); setName(''); setValue(''); }}
+            className="px-4 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            إلغاء
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`mb-4 text-sm ${message.startsWith('❌') ? 'text-red-600' : 'text-green-700'}`}>{message}</p>
+      )}
+
+      {missing.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          <p className="flex items-center gap-2 mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            أسرار مستخدمة في المهام وغير موجودة في الخزنة:
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {missing.map(secretName => (
+              <button
+                key={secretName}
+                onClick={() => { setEditingName(null); setName(secretName); }}
+                className="font-mono px-2 py-0.5 bg-white border border-red-200 rounded hover:bg-red-100"
+                title={`تستخدمه: ${usage.get(secretName)!.join('، ')}`}
+              >
+                {secretName}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* List */}
+      {secrets.length === 0 ? (
+        <p className="text-center py-6 text-sm text-slate-500">
+          {loading ? 'جاري التحميل...' : 'لا توجد أسرار بعد'}
+        </p>
+      ) : (
+        <div className="divide-y border border-slate-200 rounded-lg">
+          {secrets.map(secret => {
+            const users = usage.get(secret.name) || [];
+            return (
+              <div key={secret.name} className="flex items-center gap-3 p-3">
+                <code className="font-mono text-sm" dir="ltr">{secret.name}</code>
+                <span className="text-xs text-slate-500">
+                  {users.length > 0 ? `تستخدمه: ${users.join('، ')}` : 'غير مستخدم'}
+                </span>
+                <span className="mr-auto text-xs text-slate-400">
+                  {new Date(secret.updatedAt).toLocaleString('ar')}
+                </span>
+                <button
+                  onClick={() => handleCopy(secret.name)}
+                  className="p-1.5 hover:bg-slate-100 rounded"
+                  title="نسخ المرجع"
+                >
+                  {copiedName === secret.name ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => startEdit(secret.name)}
+                  className="p-1.5 hover:bg-slate-100 rounded"
+                  title="تحديث القيمة"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(secret.name)}
+                  className="p-1.5 hover:bg-red-50 text-red-600 rounded"
+                  title="حذف"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Download, Loader } from 'lucide-react';
+import { toast } from 'sonner';
+import type { IngestionSummary } from '../utils/selector-outcomes';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../hooks/useAuth';
+import { ingestSelectorOutcomes, taskUsesSelectorOutcomes } from '../utils/selector-outcomes';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+
+export function SelectorOutcomeIngestion() {
+  const { tasks, githubAPI } = useApp();
+  const { user } = useAuth();
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [summary, setSummary] = useState<IngestionSummary | null>(null);
+
+  const trackedTasks = tasks.filter(taskUsesSelectorOutcomes);
+
+  const handleIngest = async () => {
+    if (!githubAPI || !user) {
+      toast.error('يجب تسجيل الدخول وربط GitHub أولاً');
+      return;
+    }
+
+    setRunning(true);
+    setSummary(null);
+    try {
+      const result = await ingestSelectorOutcomes(githubAPI, trackedTasks, user.id, setProgress);
+      setSummary(result);
+      toast.success(`تم استيراد ${result.outcomes} محاولة من ${result.runs} تشغيل`);
+    } catch (error: any) {
+      toast.error(`فشل الاستيراد: ${error.message}`);
+    } finally {
+      setProgress('');
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>التعلم من التشغيلات الفعلية</CardTitle>
+        <CardDescription>
+          السكريبتات المنشورة تسجل نتيجة كل محدد (النجاح، المدة، رقم البديل) في artifact النتائج -
+          الاستيراد يعيد تشغيلها على محركات التعلم وجدول ai_experiences
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {trackedTasks.length} مهمة تسجل نتائج محدداتها
+          </p>
+          <Button onClick={handleIngest} disabled={running || trackedTasks.length === 0}>
+            {running ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            استيراد نتائج التشغيلات
+          </Button>
+        </div>
+
+        {running && progress && <p className="text-sm text-muted-foreground">{progress}</p>}
+
+        {summary && (
+          <div className="grid grid-cols-4 gap-4 text-center">
+            <div className="p-3 border rounded">
+              <p className="text-2xl">{summary.runs}</p>
+              <p className="text-sm text-muted-foreground">تشغيل جديد</p>
+            </div>
+            <div className="p-3 border rounded">
+              <p className="text-2xl">{summary.outcomes}</p>
+              <p className="text-sm text-muted-foreground">محاولة محدد</p>
+            </div>
+            <div className="p-3 border rounded">
+              <p className="text-2xl">{summary.healed}</p>
+              <p className="text-sm text-muted-foreground">محدد مُعالج مقترح</p>
+            </div>
+            <div className="p-3 border rounded">
+              <p className="text-2xl">{summary.failed}</p>
+              <p className="text-sm text-muted-foreground">تعذر تحميله</p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,28 @@
-import { Github, Server, Key, Bell, Zap, Globe } from 'lucide-react';
+import { Github, Server, Key, Bell, Zap, Globe, Monitor } from 'lucide-react';
 import { useState } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { checkLocalRunner, DEFAULT_LOCAL_RUNNER_URL } from '../utils/local-runner-client';
+import { OfflineStorageStatus } from './OfflineStorageStatus';
 
 export function Settings() {
+  const { settings: appSettings, updateExecutionSettings } = useApp();
+  const localRunner = appSettings.execution.localRunner || { url: DEFAULT_LOCAL_RUNNER_URL, token: '', headless: true };
+  const [runnerStatus, setRunnerStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const updateLocalRunner = (updates: Partial<typeof localRunner>) => {
+    updateExecutionSettings({ localRunner: { ...localRunner, ...updates } });
+    setRunnerStatus(null);
+  };
+
+  const testLocalRunner = async () => {
+    try {
+      const health = await checkLocalRunner(localRunner);
+      setRunnerStatus({ ok: true, message: `✅ متصل (الإصدار ${health.version})${health.busy ? ' - ينفذ مهمة الآن' : ''}` });
+    } catch (error: any) {
+      setRunnerStatus({ ok: false, message: `❌ ${error.message}` });
+    }
+  };
+
   const [settings, setSettings] = useState({
     githubEnabled: true,
     githubRepo: 'username/automation-scripts',
@@ -152,6 +173,77 @@ export function Settings() {
         </div>
       </div>
 
+      {/* Local Runner */}
+      <div className="bg-white rounded-xl border border-slate-200 p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+            <Monitor className="w-6 h-6 text-green-600" />
+          </div>
+          <div>
+            <h3 className="text-lg">المشغّل المحلي</h3>
+            <p className="text-sm text-slate-600">تنفيذ المهام بمتصفح حقيقي على جهازك - شغّل الخدمة بالأمر npm run local-runner</p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm mb-2">رابط الخدمة</label>
+              <input
+                type="text"
+                value={localRunner.url}
+                onChange={(e) => updateLocalRunner({ url: e.target.value })}
+                placeholder={DEFAULT_LOCAL_RUNNER_URL}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                dir="ltr"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm mb-2">الرمز (Token)</label>
+              <input
+                type="password"
+                value={localRunner.token}
+                onChange={(e) => updateLocalRunner({ token: e.target.value })}
+                placeholder="يظهر في نافذة الخدمة عند تشغيلها"
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                dir="ltr"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-4 bg-slate-50 rounded-lg">
+            <div>
+              <p>تشغيل المتصفح بدون واجهة (Headless)</p>
+              <p className="text-sm text-slate-600">أوقفه لمشاهدة المتصفح أثناء التنفيذ</p>
+            </div>
+            <input
+              type="checkbox"
+              checked={localRunner.headless}
+              onChange={(e) => updateLocalRunner({ headless: e.target.checked })}
+              className="w-5 h-5 rounded"
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={testLocalRunner}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            >
+              فحص الاتصال
+            </button>
+            {runnerStatus && (
+              <span className={`text-sm ${runnerStatus.ok ? 'text-green-700' : 'text-red-600'}`}>
+                {runnerStatus.message}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Offline Storage */}
+      <OfflineStorageStatus />
+
       {/* API Settings */}
       <div className="bg-white rounded-xl border border-slate-200 p-6">
         <div className="flex items-center gap-3 mb-6">
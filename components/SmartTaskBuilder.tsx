@@ -1,10 +1,13 @@
 import { useState } from 'react';
 import { Sparkles, Search, Filter, Grid, List, ChevronRight, Check, X, Settings, Zap } from 'lucide-react';
-import { platformTemplates, getPlatformTemplate, getTemplatesByCategory, searchTemplates, PlatformTemplate } from '../utils/platform-templates';
+import { platformTemplates, getPlatformTemplate, getTemplatesByCategory, searchTemplates, PlatformTemplate, PlatformStep } from '../utils/platform-templates';
 import { advancedTemplates, getTemplatesByCategory as getAdvancedByCategory, searchAdvancedTemplates, AdvancedTaskTemplate, categoryLabels } from '../utils/advanced-task-templates';
 import { tempMailService } from '../utils/temp-mail-service';
 import { aiDecisionEngine } from '../utils/ai-decision-engine';
 import { toast } from 'sonner';
+import type { StepGraph, StepNode, StepParams, StepType } from '../types';
+import { createStep, createStepGraph, applyStepGraph } from '../utils/step-graph';
+import { toJsString } from '../utils/step-codegen';
 
 interface SmartTaskBuilderProps {
   onTaskCreated: (task: any) => void;
@@ -55,11 +58,11 @@ export function SmartTaskBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: S
     setGeneratingTask(true);
     try {
       // إنشاء المهمة الذكية
-      const task = {
+      const task = applyStepGraph({
         id: `task-${Date.now()}`,
         name: `إنشاء حساب ${selectedTemplate.name}`,
         description: selectedTemplate.description,
-        type: 'signup',
+        type: 'registration' as const,
         targetUrl: `https://${selectedTemplate.platform}`,
         platform: selectedTemplate.id,
         template: selectedTemplate,
@@ -70,8 +73,9 @@ export function SmartTaskBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: S
         stealthMode: true,
         status: 'idle',
         createdAt: new Date(),
-        script: generateTaskScript(selectedTemplate)
-      };
+        script: '',
+        metadata: { source: 'smart-builder' as const }
+      }, buildTemplateGraph(selectedTemplate));
 
       onTaskCreated(task);
       toast.success(`تم إنشاء مهمة ${selectedTemplate.name} بنجاح!`);
@@ -82,205 +86,133 @@ export function SmartTaskBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: S
     }
   };
 
-  const generateTaskScript = (template: PlatformTemplate): string => {
-    return `
-/**
- * مهمة ذكية: ${template.name}
- * المنصة: ${template.platform}
- * تم الإنشاء: ${new Date().toISOString()}
- */
-
-async function runTask(page) {
-  const context = {
-    tempEmail: null,
-    verificationCode: null,
-    password: null,
-    userData: {}
-  };
-
-  try {
-    ${template.requirements.email ? `
-    // إنشاء بريد إلكتروني مؤقت
-    console.log('📧 إنشاء بريد إلكتروني مؤقت...');
-    const { tempMailService } = await import('./utils/temp-mail-service');
-    const emailData = await tempMailService.createTempEmail();
-    context.tempEmail = emailData.address;
-    console.log('✓ تم إنشاء البريد:', context.tempEmail);
-    ` : ''}
-
-    // وظائف توليد البيانات
-    const generateRandomName = (type) => {
-      const firstNames = ['أحمد', 'محمد', 'علي', 'فاطمة', 'سارة'];
-      const lastNames = ['العلي', 'الأحمد', 'السعيد', 'الكريم'];
-      return type === 'first' ? firstNames[Math.floor(Math.random() * firstNames.length)] : lastNames[Math.floor(Math.random() * lastNames.length)];
-    };
-    
-    const generateRandomUsername = () => {
-      return 'user' + Math.random().toString(36).substring(2, 10);
-    };
-    
-    const generateStrongPassword = () => {
-      return 'Pass' + Math.random().toString(36).substring(2, 10) + '123!';
-    };
-    
-    const generateRandomBirthday = (minAge = 18, maxAge = 65) => {
-      const year = new Date().getFullYear() - Math.floor(Math.random() * (maxAge - minAge) + minAge);
-      const month = Math.floor(Math.random() * 12) + 1;
-      const day = Math.floor(Math.random() * 28) + 1;
-      return { year, month, day };
-    };
-
-    context.generateName = () => ({
-      first: generateRandomName('first'),
-      last: generateRandomName('last')
-    });
-    context.generateFullName = () => {
-      const name = context.generateName();
-      return \`\${name.first} \${name.last}\`;
-    };
-    context.generateUsername = generateRandomUsername;
-    context.generatePassword = () => {
-      context.password = generateStrongPassword();
-      return context.password;
-    };
-    context.generateBirthday = generateRandomBirthday;
-
-    // تنفيذ الخطوات
-    ${template.steps.map((step, index) => `
-    // الخطوة ${index + 1}: ${step.name}
-    console.log('⏳ ${step.name}...');
-    await executeStep_${step.id}(page, context);
-    console.log('✓ ${step.name} - تم');
-    `).join('\n')}
-
-    console.log('✅ اكتملت المهمة بنجاح!');
-    return { success: true, context };
-    
-  } catch (error) {
-    console.error('❌ خطأ في المهمة:', error);
-    
-    // محاولة تحليل الخطأ واتخاذ قرار
-    try {
-      const pageContent = await page.content();
-      const { aiDecisionEngine } = await import('./utils/ai-decision-engine');
-      const decision = await aiDecisionEngine.handleError(error.message, {
-        url: page.url(),
-        title: await page.title(),
-        content: pageContent
+  const buildTemplateGraph = (template: PlatformTemplate): StepGraph => {
+    const step = (type: StepType, params: StepParams, platformStep?: PlatformStep): StepNode =>
+      createStep(type, {
+        params,
+        errorHandling: {
+          ignoreErrors: platformStep?.errorHandling?.skipOnError ?? false,
+          retryCount: platformStep?.errorHandling?.retry ? 2 : 0
+        }
       });
-      
-      console.log('🤔 قرار AI:', decision);
-    } catch (aiError) {
-      console.warn('ت��ذر الحصول على قرار AI:', aiError);
-    }
-    
-    throw error;
-  } finally {
-    // تنظيف
-    ${template.requirements.email ? `
-    if (context.tempEmail) {
-      try {
-        const { tempMailService } = await import('./utils/temp-mail-service');
-        await tempMailService.deleteTempEmail();
-      } catch (e) {
-        console.warn('تعذر حذف البريد المؤقت:', e);
-      }
-    }
-    ` : ''}
-  }
-}
 
-${generateStepFunctions(template)}
+    // قيمة الحقل إما نص ثابت أو دالة تُنفذ على context داخل السكريبت
+    const valueExpression = (value: PlatformStep['value']) =>
+      typeof value === 'function' ? `String((${value.toString()})(context))` : toJsString(value ?? '');
 
-export default runTask;
-`;
-  };
+    const steps: StepNode[] = [
+      step('rawCode', { code: generateContextSetup(template) })
+    ];
 
-  const generateStepFunctions = (template: PlatformTemplate): string => {
-    return template.steps.map(step => {
-      let code = '';
-      
-      switch (step.type) {
+    template.steps.forEach(platformStep => {
+      switch (platformStep.type) {
         case 'navigate':
-          code = `
-async function executeStep_${step.id}(page, context) {
-  const url = ${typeof step.value === 'string' ? `'${step.value}'` : 'context.generateValue()'};
-  await page.goto(url, { waitUntil: 'networkidle0' });
-  ${step.waitFor ? `await page.waitForSelector('${step.waitFor}', { timeout: 10000 });` : ''}
-}`;
+          steps.push(step('navigate', { url: typeof platformStep.value === 'string' ? platformStep.value : '' }, platformStep));
+          if (platformStep.waitFor) {
+            steps.push(step('wait', { type: 'selector', selector: platformStep.waitFor }, platformStep));
+          }
           break;
 
         case 'fill':
-          code = `
-async function executeStep_${step.id}(page, context) {
-  const selector = '${step.selector}';
-  const value = ${typeof step.value === 'string' ? `'${step.value}'` : `context.${step.value.name}()`};
-  
-  await page.waitForSelector(selector, { timeout: 10000 });
-  await page.type(selector, value, { delay: 100 });
-  await page.waitForTimeout(500);
-}`;
+          if (typeof platformStep.value === 'string') {
+            steps.push(step('type', { selector: platformStep.selector, text: platformStep.value }, platformStep));
+          } else {
+            steps.push(step('rawCode', {
+              code: `await page.waitForSelector(${toJsString(platformStep.selector)}, { timeout: 10000 });
+await page.type(${toJsString(platformStep.selector)}, ${valueExpression(platformStep.value)}, { delay: 100 });
+await page.waitForTimeout(500);`
+            }, platformStep));
+          }
           break;
 
         case 'click':
-          code = `
-async function executeStep_${step.id}(page, context) {
-  const selector = '${step.selector}';
-  
-  await page.waitForSelector(selector, { timeout: 10000 });
-  await page.click(selector);
-  ${step.waitFor ? `await page.waitForSelector('${step.waitFor}', { timeout: 10000 });` : 'await page.waitForTimeout(1000);'}
-}`;
+          steps.push(step('click', { selector: platformStep.selector }, platformStep));
+          steps.push(platformStep.waitFor
+            ? step('wait', { type: 'selector', selector: platformStep.waitFor }, platformStep)
+            : step('wait', { type: 'time', duration: 1000 }, platformStep));
           break;
 
         case 'verify':
-          code = `
-async function executeStep_${step.id}(page, context) {
-  console.log('⏳ انتظار كود التحقق من البريد الإلكتروني...');
-  
-  try {
-    const code = await tempMailService.waitForVerificationCode(60);
-    context.verificationCode = code;
-    console.log('✓ تم استلام الكود:', code);
-  } catch (error) {
-    console.error('❌ فشل استلام كود التحقق');
-    throw error;
-  }
-}`;
+          steps.push(step('rawCode', {
+            code: `console.log('⏳ انتظار كود التحقق من البريد الإلكتروني...');
+context.verificationCode = await (await import('./utils/temp-mail-service')).tempMailService.waitForVerificationCode(60);
+console.log('✓ تم استلام الكود:', context.verificationCode);`
+          }, platformStep));
           break;
 
         case 'custom':
-          code = `
-async function executeStep_${step.id}(page, context) {
-  // منطق مخصص للخطوة: ${step.name}
-  console.log('تنفيذ خطوة مخصصة: ${step.name}');
-  
-  ${step.value === 'solve_github_puzzle' ? `
-  // حل لغز GitHub
-  await page.waitForSelector('.js-octocaptcha-frame', { timeout: 5000 }).catch(() => {});
-  // يمكن إضافة منطق حل اللغز هنا
-  ` : ''}
-  
-  await page.waitForTimeout(1000);
-}`;
+          steps.push(step('rawCode', {
+            code: platformStep.value === 'solve_github_puzzle'
+              ? `// حل لغز GitHub
+await page.waitForSelector('.js-octocaptcha-frame', { timeout: 5000 }).catch(() => {});
+await page.waitForTimeout(1000);`
+              : `console.log(${toJsString(`تنفيذ خطوة مخصصة: ${platformStep.name}`)});
+await page.waitForTimeout(1000);`
+          }, platformStep));
           break;
 
         case 'wait':
-          code = `
-async function executeStep_${step.id}(page, context) {
-  await page.waitForTimeout(${step.value || 1000});
-}`;
+          steps.push(step('wait', { type: 'time', duration: Number(platformStep.value) || 1000 }, platformStep));
           break;
-
-        default:
-          code = `
-async function executeStep_${step.id}(page, context) {
-  console.log('تنفيذ: ${step.name}');
-}`;
       }
+    });
+
+    if (template.requirements.email) {
+      const cleanup = step('rawCode', {
+        code: `await (await import('./utils/temp-mail-service')).tempMailService.deleteTempEmail();`
+      });
+      cleanup.errorHandling.ignoreErrors = true;
+      cleanup.errorHandling.retryCount = 1;
+      steps.push(cleanup);
+    }
+
+    return createStepGraph(steps);
+  };
 
-      return code;
-    }).join('\n\n');
+  // إعداد context ودوال توليد البيانات - تعريفه على مستوى السكريبت لتراه الخطوات التالية
+  const generateContextSetup = (template: PlatformTemplate): string => {
+    return `// مهمة ذكية: ${template.name} (${template.platform})
+const context = {
+  tempEmail: null,
+  verificationCode: null,
+  password: null,
+  userData: {}
+};
+${template.requirements.email ? `
+// إنشاء بريد إلكتروني مؤقت
+console.log('📧 إنشاء بريد إلكتروني مؤقت...');
+const emailData = await (await import('./utils/temp-mail-service')).tempMailService.createTempEmail();
+context.tempEmail = emailData.address;
+console.log('✓ تم إنشاء البريد:', context.tempEmail);
+` : ''}
+// وظائف توليد البيانات
+const generateRandomName = (type) => {
+  const firstNames = ['أحمد', 'محمد', 'علي', 'فاطمة', 'سارة'];
+  const lastNames = ['العلي', 'الأحمد', 'السعيد', 'الكريم'];
+  return type === 'first' ? firstNames[Math.floor(Math.random() * firstNames.length)] : lastNames[Math.floor(Math.random() * lastNames.length)];
+};
+
+const generateRandomBirthday = (minAge = 18, maxAge = 65) => {
+  const year = new Date().getFullYear() - Math.floor(Math.random() * (maxAge - minAge) + minAge);
+  const month = Math.floor(Math.random() * 12) + 1;
+  const day = Math.floor(Math.random() * 28) + 1;
+  return { year, month, day };
+};
+
+context.generateName = () => ({
+  first: generateRandomName('first'),
+  last: generateRandomName('last')
+});
+context.generateFullName = () => {
+  const name = context.generateName();
+  return \`\${name.first} \${name.last}\`;
+};
+context.generateUsername = () => 'user' + Math.random().toString(36).substring(2, 10);
+context.generatePassword = () => {
+  context.password = 'Pass' + Math.random().toString(36).substring(2, 10) + '123!';
+  return context.password;
+};
+context.generateBirthday = generateRandomBirthday;`;
   };
 
   return (
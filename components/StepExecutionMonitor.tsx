@@ -1,4 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import type { ExecutionSession, StepStatus } from '../types';
+import { useApp } from '../contexts/AppContext';
+import { readTaskStepGraph } from '../utils/step-graph';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -17,59 +20,124 @@ import {
   Code,
   Download,
   Eye,
+  Radio,
+  RefreshCw,
 } from 'lucide-react';
 
-type StepStatus = {
-  stepId: string;
-  stepNumber: number;
-  stepType: string;
-  status: 'pending' | 'running' | 'success' | 'failed' | 'skipped';
-  startTime?: Date;
-  endTime?: Date;
-  duration?: number;
-  error?: string;
-  output?: any;
-  screenshot?: string;
-  video?: string;
-  logs: string[];
-  retryCount: number;
-  fallbackUsed?: number; // index of fallback used
-};
-
-type ExecutionSession = {
-  id: string;
-  taskName: string;
-  startTime: Date;
-  endTime?: Date;
-  status: 'running' | 'completed' | 'failed' | 'paused';
-  steps: StepStatus[];
-  totalSteps: number;
-  completedSteps: number;
-  failedSteps: number;
-};
-
 type StepExecutionMonitorProps = {
+  // بدون session تعرض المراقبة آخر تشغيل GitHub Actions للمهمة المختارة مباشرة
   session?: ExecutionSession;
   onPause?: () => void;
   onResume?: () => void;
   onStop?: () => void;
 };
 
-export function StepExecutionMonitor({ session, onPause, onResume, onStop }: StepExecutionMonitorProps) {
+export function StepExecutionMonitor({ session: sessionProp, onPause, onResume, onStop }: StepExecutionMonitorProps) {
+  const { tasks, githubAPI } = useApp();
   const [selectedStep, setSelectedStep] = useState<StepStatus | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
+  const [watchedTaskId, setWatchedTaskId] = useState('');
+  const [watchedRunId, setWatchedRunId] = useState<number | null>(null);
+  const [liveSession, setLiveSession] = useState<ExecutionSession | undefined>();
+  const [liveMessage, setLiveMessage] = useState('');
+
+  const watchedTask = tasks.find(task => task.id === watchedTaskId);
+
+  // آخر تشغيل لـ workflow المهمة
+  const findLatestRun = async () => {
+    if (!githubAPI || !watchedTask) return;
+    setLiveMessage('🔍 البحث عن آخر تشغيل...');
+    setLiveSession(undefined);
+    try {
+      const runs = await githubAPI.getLatestRun(`task-${watchedTask.id}.yml`);
+      if (runs.length === 0) {
+        setWatchedRunId(null);
+        setLiveMessage('لا توجد تشغيلات لهذه المهمة بعد');
+        return;
+      }
+      setWatchedRunId(runs[0].id);
+      setLiveMessage('');
+    } catch (error: any) {
+      setWatchedRunId(null);
+      setLiveMessage(`❌ ${error.message}`);
+    }
+  };
+
+  useEffect(() => {
+    setWatchedRunId(null);
+    setLiveSession(undefined);
+    findLatestRun();
+  }, [watchedTaskId, githubAPI]);
+
+  useEffect(() => {
+    if (!githubAPI || !watchedTask || watchedRunId === null) return;
+    return githubAPI.watchRunSession(
+      watchedRunId,
+      watchedTask.name,
+      readTaskStepGraph(watchedTask),
+      setLiveSession,
+      error => setLiveMessage(`⚠️ تعذر تحديث التشغيل: ${error.message}`)
+    );
+  }, [githubAPI, watchedRunId]);
+
+  const handleCancelRun = async () => {
+    if (!githubAPI || watchedRunId === null) return;
+    try {
+      await githubAPI.cancelRun(watchedRunId);
+      setLiveMessage('⏹️ تم طلب إلغاء التشغيل');
+    } catch (error: any) {
+      setLiveMessage(`❌ فشل الإلغاء: ${error.message}`);
+    }
+  };
+
+  const session = sessionProp ?? liveSession;
+  const handleStop = sessionProp ? onStop : liveSession?.status === 'running' ? handleCancelRun : undefined;
+
+  const livePicker = !sessionProp && githubAPI && (
+    <Card>
+      <CardContent className="py-4">
+        <div className="flex items-center gap-3">
+          <Radio className="w-5 h-5 text-red-500" />
+          <span className="text-sm">متابعة تشغيل GitHub Actions:</span>
+          <select
+            value={watchedTaskId}
+            onChange={(e) => setWatchedTaskId(e.target.value)}
+            className="flex-1 max-w-sm px-3 py-2 text-sm border rounded-md bg-background"
+          >
+            <option value="">اختر مهمة...</option>
+            {tasks.map(task => (
+              <option key={task.id} value={task.id}>{task.name}</option>
+            ))}
+          </select>
+          {watchedTask && (
+            <Button onClick={findLatestRun} variant="outline" size="sm">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              آخر تشغيل
+            </Button>
+          )}
+          {watchedRunId !== null && (
+            <span className="text-xs text-muted-foreground">#{watchedRunId}</span>
+          )}
+        </div>
+        {liveMessage && <p className="mt-2 text-sm text-muted-foreground">{liveMessage}</p>}
+      </CardContent>
+    </Card>
+  );
 
   if (!session) {
     return (
-      <Card>
-        <CardContent className="py-12">
-          <div className="text-center text-muted-foreground">
-            <Play className="w-12 h-12 mx-auto mb-4 opacity-50" />
-            <p>لا توجد جلسة تنفيذ نشطة</p>
-            <p className="text-sm">ابدأ تشغيل مهمة لمراقبة تقدمها</p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        {livePicker}
+        <Card>
+          <CardContent className="py-12">
+            <div className="text-center text-muted-foreground">
+              <Play className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>لا توجد جلسة تنفيذ نشطة</p>
+              <p className="text-sm">ابدأ تشغيل مهمة لمراقبة تقدمها</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
@@ -81,6 +149,8 @@ export function StepExecutionMonitor({ session, onPause, onResume, onStop }: Ste
 
   return (
     <div className="space-y-4">
+      {livePicker}
+
       {/* Session Header */}
       <Card>
         <CardHeader>
@@ -114,8 +184,8 @@ export function StepExecutionMonitor({ session, onPause, onResume, onStop }: Ste
                   استئناف
                 </Button>
               )}
-              {onStop && (
-                <Button onClick={onStop} variant="destructive" size="sm">
+              {handleStop && (
+                <Button onClick={handleStop} variant="destructive" size="sm">
                   إيقاف
                 </Button>
               )}
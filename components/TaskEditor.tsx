@@ -4,6 +4,8 @@ import { Save, X, Play, FileCode, Eye, Code2, Sparkles, Layers } from 'lucide-re
 import { VisualBuilder } from './VisualBuilder';
 import { AdvancedVisualBuilder } from './AdvancedVisualBuilder';
 import { SmartTaskBuilder } from './SmartTaskBuilder';
+import { readTaskStepGraph } from '../utils/step-graph';
+import { parseScriptToGraph } from '../utils/step-parser';
 
 type TaskEditorProps = {
   task: Task | null;
@@ -37,6 +39,9 @@ export function TaskEditor({ task, onSave, onCancel }: TaskEditorProps) {
         setEditorMode('advanced');
       } else if (source === 'smart-builder') {
         setEditorMode('smart');
+      } else if (readTaskStepGraph(task)) {
+        // مهام القوالب والإجراءات السريعة لها مخطط خطوات - تُفتح في المنشئ المتقدم
+        setEditorMode('advanced');
       } else {
         setEditorMode('code');
       }
@@ -45,11 +50,16 @@ export function TaskEditor({ task, onSave, onCancel }: TaskEditorProps) {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const { stepGraph, ...metadata } = formData.metadata || {};
+    // تعديل الكود يدوياً يجعل السكريبت هو المصدر - يُعاد بناء المخطط منه ليبقى قابلاً للفتح في المنشئ
+    const scriptEdited = editorMode === 'code' && formData.script !== task?.script;
+    const updatedGraph = stepGraph && scriptEdited ? parseScriptToGraph(formData.script || '') : stepGraph;
     const updatedTask = {
       ...formData,
       id: task?.id || Date.now().toString(),
       metadata: {
-        ...formData.metadata,
+        ...metadata,
+        ...(updatedGraph ? { stepGraph: updatedGraph } : {}),
         source: editorMode === 'code' ? 'task-editor' : formData.metadata?.source
       }
     } as Task;
@@ -4,9 +4,7 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Switch } from './ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { ScrollArea } from './ui/scroll-area';
 import {
   Clock,
@@ -15,322 +13,226 @@ import {
   Pause,
   Trash2,
   Plus,
-  Copy,
-  Settings,
+  Pencil,
   AlertCircle,
   CheckCircle2,
   RefreshCw,
+  Server,
 } from 'lucide-react';
 import type { Task } from '../types';
 import { toast } from 'sonner';
-
-type ScheduleConfig = {
-  id: string;
-  taskId: string;
-  taskName: string;
-  enabled: boolean;
-  type: 'once' | 'interval' | 'cron' | 'daily' | 'weekly';
-  config: {
-    time?: string; // HH:mm format
-    interval?: number; // minutes
-    cron?: string;
-    daysOfWeek?: number[]; // 0-6 (Sunday-Saturday)
-    date?: string; // YYYY-MM-DD
-  };
-  parallelInstances: number; // عدد النسخ المتوازية
-  maxRetries: number;
-  nextRun?: Date;
-  lastRun?: Date;
-  runCount: number;
-  status: 'active' | 'paused' | 'completed' | 'failed';
-};
-
-type RunningInstance = {
-  id: string;
-  scheduleId: string;
-  taskName: string;
-  instanceNumber: number;
-  startTime: Date;
-  status: 'running' | 'completed' | 'failed';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../hooks/useAuth';
+import type { SyncQueueStatus } from '../utils/sync-queue';
+import { subscribeSyncQueue, processSyncQueue } from '../utils/sync-queue';
+import {
+  buildTaskSchedule,
+  compileScheduleCron,
+  getNextCronRuns,
+  ScheduleType,
+  TaskSchedule,
+} from '../utils/schedule';
+
+type ScheduleDraft = Pick<TaskSchedule, 'type' | 'config' | 'enabled' | 'parallelInstances' | 'maxRetries'> & {
+  taskId?: string;
 };
 
 type TaskSchedulerProps = {
   tasks: Task[];
-  onExecuteTask?: (taskId: string, instanceId?: string) => Promise<void>;
 };
 
-export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
-  const [schedules, setSchedules] = useState<ScheduleConfig[]>([]);
-  const [runningInstances, setRunningInstances] = useState<RunningInstance[]>([]);
-  const [selectedSchedule, setSelectedSchedule] = useState<ScheduleConfig | null>(null);
+const DEFAULT_DRAFT: ScheduleDraft = {
+  type: 'interval',
+  enabled: true,
+  parallelInstances: 1,
+  maxRetries: 3,
+  config: {
+    interval: 60,
+  },
+};
+
+const DAY_LABELS = ['أحد', 'اثنين', 'ثلاثاء', 'أربعاء', 'خميس', 'جمعة', 'سبت'];
+
+function getTaskSchedule(task: Task): TaskSchedule | undefined {
+  return task.metadata?.schedule;
+}
+
+function describeSchedule(schedule: TaskSchedule): string {
+  switch (schedule.type) {
+    case 'once':
+      return `مرة واحدة في ${schedule.config.date} ${schedule.config.time}`;
+    case 'interval':
+      return `كل ${schedule.config.interval} دقيقة`;
+    case 'daily':
+      return `يومياً في ${schedule.config.time}`;
+    case 'weekly':
+      return `أسبوعياً (${(schedule.config.daysOfWeek || []).map(day => DAY_LABELS[day]).join('، ')}) في ${schedule.config.time}`;
+    case 'cron':
+      return `cron: ${schedule.config.cron}`;
+  }
+}
+
+export function TaskScheduler({ tasks }: TaskSchedulerProps) {
+  const { updateTask, hydrated } = useApp();
+  const { syncUserId } = useAuth();
   const [isCreating, setIsCreating] = useState(false);
+  const [draft, setDraft] = useState<ScheduleDraft>(DEFAULT_DRAFT);
+  const [syncStatus, setSyncStatus] = useState<SyncQueueStatus | null>(null);
 
-  // New schedule form state
-  const [newSchedule, setNewSchedule] = useState<Partial<ScheduleConfig>>({
-    type: 'interval',
-    enabled: true,
-    parallelInstances: 1,
-    maxRetries: 3,
-    config: {
-      interval: 60,
-    },
-  });
-
-  // تحميل الجداول المحفوظة
-  useEffect(() => {
-    const saved = localStorage.getItem('taskSchedules');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setSchedules(parsed.map((s: any) => ({
-          ...s,
-          nextRun: s.nextRun ? new Date(s.nextRun) : undefined,
-          lastRun: s.lastRun ? new Date(s.lastRun) : undefined,
-        })));
-      } catch (error) {
-        console.error('Failed to load schedules:', error);
-      }
-    }
-  }, []);
+  const scheduledTasks = tasks.filter(task => getTaskSchedule(task));
+
+  // الجداول تصل للخادم عبر طابور المزامنة - حالته تبيّن هل وصلت
+  // (حالة الخادم نفسه: nextRun / lastRun تصل مع مزامنة المهام)
+  useEffect(() => subscribeSyncQueue(setSyncStatus), []);
 
-  // حفظ الجداول
+  // نقل الجداول القديمة المحفوظة في localStorage إلى المهام - بعد تحميل المهام
+  // الحفظ محلي وطابور المزامنة يكمل الرفع، فالمفتاح يُحذف بعد النقل مباشرة
   useEffect(() => {
-    if (schedules.length > 0) {
-      localStorage.setItem('taskSchedules', JSON.stringify(schedules));
+    if (!hydrated) return;
+    const saved = localStorage.getItem('taskSchedules');
+    if (!saved) return;
+
+    migrateLegacySchedules(saved);
+    localStorage.removeItem('taskSchedules');
+  }, [hydrated]);
+
+  const migrateLegacySchedules = (saved: string) => {
+    let legacySchedules: any[];
+    try {
+      legacySchedules = JSON.parse(saved);
+    } catch (error) {
+      // قيمة تالفة لن ينجح نقلها أبداً
+      console.error('Failed to migrate schedules:', error);
+      return;
     }
-  }, [schedules]);
 
-  // تشغيل الجداول
-  useEffect(() => {
-    const interval = setInterval(() => {
-      checkAndRunSchedules();
-    }, 10000); // فحص كل 10 ثواني
-
-    return () => clearInterval(interval);
-  }, [schedules]);
-
-  const checkAndRunSchedules = async () => {
-    const now = new Date();
-    
-    for (const schedule of schedules) {
-      if (!schedule.enabled || schedule.status === 'paused') continue;
-      
-      if (shouldRun(schedule, now)) {
-        await executeSchedule(schedule);
+    legacySchedules.forEach((legacy: any) => {
+      const task = tasks.find(t => t.id === legacy.taskId);
+      if (!task || getTaskSchedule(task)) return;
+      try {
+        saveSchedule(task, buildTaskSchedule({
+          type: legacy.type,
+          config: legacy.config || {},
+          enabled: legacy.enabled && legacy.status !== 'completed',
+          parallelInstances: legacy.parallelInstances || 1,
+          maxRetries: legacy.maxRetries ?? 3,
+        }));
+      } catch (error) {
+        // تعبير cron غير صالح - لن ينجح نقله في أي محاولة لاحقة
+        console.error('Failed to migrate schedule:', legacy.taskId, error);
       }
-    }
+    });
   };
 
-  const shouldRun = (schedule: ScheduleConfig, now: Date): boolean => {
-    if (!schedule.nextRun) {
-      // حساب وقت التشغيل التالي
-      updateNextRun(schedule);
-      return false;
+  // حفظ محلي فقط - AppContext يضيف المهمة لطابور المزامنة الذي يرفعها للخادم
+  // next_run في قاعدة البيانات هو ما يشغّل المهمة
+  const saveSchedule = (task: Task, schedule: TaskSchedule | undefined) => {
+    const metadata = { ...task.metadata };
+    if (schedule) {
+      metadata.schedule = schedule;
+    } else {
+      delete metadata.schedule;
     }
 
-    return now >= schedule.nextRun;
+    updateTask({ ...task, schedule: schedule?.cron, metadata });
   };
 
-  const updateNextRun = (schedule: ScheduleConfig) => {
-    const now = new Date();
-    let nextRun: Date | undefined;
-
-    switch (schedule.type) {
-      case 'once':
-        if (schedule.config.date && schedule.config.time) {
-          nextRun = new Date(`${schedule.config.date}T${schedule.config.time}`);
-        }
-        break;
+  const validateDraft = (): string | null => {
+    if (!draft.taskId) return 'الرجاء اختيار مهمة';
 
+    switch (draft.type) {
       case 'interval':
-        if (schedule.config.interval) {
-          nextRun = new Date(now.getTime() + schedule.config.interval * 60000);
-        }
-        break;
-
+        return draft.config.interval && draft.config.interval >= 1 ? null : 'الفترة يجب أن تكون دقيقة واحدة على الأقل';
+      case 'once':
+        return draft.config.date && draft.config.time ? null : 'الرجاء تحديد التاريخ والوقت';
       case 'daily':
-        if (schedule.config.time) {
-          nextRun = new Date(now);
-          const [hours, minutes] = schedule.config.time.split(':').map(Number);
-          nextRun.setHours(hours, minutes, 0, 0);
-          if (nextRun <= now) {
-            nextRun.setDate(nextRun.getDate() + 1);
-          }
-        }
-        break;
-
+        return draft.config.time ? null : 'الرجاء تحديد الوقت';
       case 'weekly':
-        if (schedule.config.time && schedule.config.daysOfWeek?.length) {
-          nextRun = getNextWeeklyRun(now, schedule.config.time, schedule.config.daysOfWeek);
-        }
-        break;
-    }
-
-    if (nextRun) {
-      setSchedules(prev =>
-        prev.map(s => s.id === schedule.id ? { ...s, nextRun } : s)
-      );
+        return draft.config.time && draft.config.daysOfWeek?.length ? null : 'الرجاء تحديد الوقت وأيام الأسبوع';
+      case 'cron':
+        return draft.config.cron ? null : 'الرجاء إدخال تعبير cron';
     }
   };
 
-  const getNextWeeklyRun = (from: Date, time: string, daysOfWeek: number[]): Date => {
-    const [hours, minutes] = time.split(':').map(Number);
-    const result = new Date(from);
-    result.setHours(hours, minutes, 0, 0);
-
-    // البحث عن اليوم التالي المطابق
-    for (let i = 0; i < 7; i++) {
-      const testDate = new Date(result);
-      testDate.setDate(result.getDate() + i);
-      
-      if (daysOfWeek.includes(testDate.getDay()) && testDate > from) {
-        return testDate;
-      }
+  const createSchedule = () => {
+    const validationError = validateDraft();
+    if (validationError) {
+      toast.error(validationError);
+      return;
     }
 
-    // إذا لم نجد، نبحث في الأسبوع التالي
-    result.setDate(result.getDate() + 7);
-    return result;
-  };
+    const task = tasks.find(t => t.id === draft.taskId);
+    if (!task) return;
 
-  const executeSchedule = async (schedule: ScheduleConfig) => {
-    // تنفيذ نسخ متوازية
-    const instances: RunningInstance[] = [];
-    
-    for (let i = 0; i < schedule.parallelInstances; i++) {
-      const instance: RunningInstance = {
-        id: `${schedule.id}-${Date.now()}-${i}`,
-        scheduleId: schedule.id,
-        taskName: schedule.taskName,
-        instanceNumber: i + 1,
-        startTime: new Date(),
-        status: 'running',
-      };
-      
-      instances.push(instance);
+    let schedule: TaskSchedule;
+    try {
+      const { taskId, ...settings } = draft;
+      schedule = buildTaskSchedule(settings, getTaskSchedule(task));
+    } catch (error: any) {
+      toast.error(`تعبير cron غير صالح: ${error.message}`);
+      return;
     }
 
-    setRunningInstances(prev => [...prev, ...instances]);
-
-    // تنفيذ كل نسخة
-    const promises = instances.map(async (instance) => {
-      try {
-        if (onExecuteTask) {
-          await onExecuteTask(schedule.taskId, instance.id);
-        }
-        
-        // تحديث حالة النسخة
-        setRunningInstances(prev =>
-          prev.map(i => i.id === instance.id ? { ...i, status: 'completed' } : i)
-        );
-        
-        return true;
-      } catch (error) {
-        setRunningInstances(prev =>
-          prev.map(i => i.id === instance.id ? { ...i, status: 'failed' } : i)
-        );
-        return false;
-      }
-    });
-
-    await Promise.all(promises);
-
-    // تحديث الجدول
-    setSchedules(prev =>
-      prev.map(s => {
-        if (s.id === schedule.id) {
-          const updated = {
-            ...s,
-            lastRun: new Date(),
-            runCount: s.runCount + 1,
-          };
-          
-          // تحديث وقت التشغيل التالي
-          if (s.type === 'once') {
-            updated.status = 'completed';
-            updated.enabled = false;
-          } else {
-            updateNextRun(updated);
-          }
-          
-          return updated;
-        }
-        return s;
-      })
-    );
-
-    // إزالة النسخ المكتملة بعد 30 ثانية
-    setTimeout(() => {
-      setRunningInstances(prev =>
-        prev.filter(i => !instances.find(inst => inst.id === i.id))
-      );
-    }, 30000);
-  };
-
-  const createSchedule = () => {
-    if (!newSchedule.taskId) {
-      toast.error('الرجاء اختيار مهمة');
+    if (schedule.enabled && !schedule.nextRun) {
+      toast.error('لا يوجد موعد تشغيل قادم لهذه الجدولة');
       return;
     }
 
-    const task = tasks.find(t => t.id === newSchedule.taskId);
-    if (!task) return;
+    saveSchedule(task, schedule);
+    setIsCreating(false);
+    setDraft(DEFAULT_DRAFT);
+    toast.success('تم حفظ الجدولة بنجاح');
+  };
 
-    const schedule: ScheduleConfig = {
-      id: Date.now().toString(),
+  const editSchedule = (task: Task) => {
+    const schedule = getTaskSchedule(task)!;
+    setDraft({
       taskId: task.id,
-      taskName: task.name,
-      enabled: newSchedule.enabled ?? true,
-      type: newSchedule.type as any,
-      config: newSchedule.config!,
-      parallelInstances: newSchedule.parallelInstances ?? 1,
-      maxRetries: newSchedule.maxRetries ?? 3,
-      runCount: 0,
-      status: 'active',
-    };
-
-    updateNextRun(schedule);
-    setSchedules(prev => [...prev, schedule]);
-    setIsCreating(false);
-    setNewSchedule({
-      type: 'interval',
-      enabled: true,
-      parallelInstances: 1,
-      maxRetries: 3,
-      config: { interval: 60 },
+      type: schedule.type,
+      enabled: schedule.enabled,
+      parallelInstances: schedule.parallelInstances,
+      maxRetries: schedule.maxRetries,
+      config: { ...schedule.config },
     });
-    
-    toast.success('تم إنشاء الجدول بنجاح');
+    setIsCreating(true);
   };
 
-  const deleteSchedule = (id: string) => {
-    setSchedules(prev => prev.filter(s => s.id !== id));
+  const deleteSchedule = (task: Task) => {
+    saveSchedule(task, undefined);
     toast.success('تم حذف الجدول');
   };
 
-  const toggleSchedule = (id: string) => {
-    setSchedules(prev =>
-      prev.map(s => s.id === id ? { ...s, enabled: !s.enabled } : s)
-    );
+  const toggleSchedule = (task: Task) => {
+    const schedule = getTaskSchedule(task)!;
+    try {
+      saveSchedule(task, buildTaskSchedule({ ...schedule, enabled: !schedule.enabled }, { ...schedule, status: 'active' }));
+    } catch (error: any) {
+      toast.error(error.message);
+    }
   };
 
-  const duplicateSchedule = (id: string) => {
-    const schedule = schedules.find(s => s.id === id);
-    if (schedule) {
-      const duplicate: ScheduleConfig = {
-        ...schedule,
-        id: Date.now().toString(),
-        taskName: `${schedule.taskName} (نسخة)`,
-        runCount: 0,
-        lastRun: undefined,
-        nextRun: undefined,
-      };
-      updateNextRun(duplicate);
-      setSchedules(prev => [...prev, duplicate]);
-      toast.success('تم نسخ الجدول');
-    }
+  const toggleDay = (day: number) => {
+    const days = draft.config.daysOfWeek || [];
+    setDraft(prev => ({
+      ...prev,
+      config: {
+        ...prev.config,
+        daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort(),
+      },
+    }));
   };
 
+  // معاينة cron المولَّد ومواعيد التشغيل القادمة أثناء التحرير
+  let draftCron: string | undefined;
+  let draftPreview: Date[] = [];
+  let draftError: string | null = null;
+  try {
+    draftCron = compileScheduleCron(draft.type, draft.config);
+    draftPreview = draftCron ? getNextCronRuns(draftCron, 3) : [];
+  } catch (error: any) {
+    draftError = error.message;
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -340,63 +242,47 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
             <Clock className="w-8 h-8 text-primary" />
             جدولة المهام المتقدمة
           </h2>
-          <p className="text-muted-foreground">
-            جدولة تلقائية مع دعم التنفيذ المتوازي والتكرار
+          <p className="text-muted-foreground flex items-center gap-1">
+            <Server className="w-4 h-4" />
+            تُنفَّذ الجداول على الخادم وتُضاف إلى workflow المهمة - لا حاجة لإبقاء المتصفح مفتوحاً
           </p>
+          {!syncUserId ? (
+            <p className="text-sm text-amber-600 flex items-center gap-1 mt-1">
+              <AlertCircle className="w-4 h-4" />
+              بدون جلسة Supabase تبقى الجداول محلية ولا يشغّلها الخادم - سجّل الدخول بحساب الخادم
+            </p>
+          ) : syncStatus && syncStatus.failed > 0 ? (
+            <p className="text-sm text-red-600 flex items-center gap-1 mt-1">
+              <AlertCircle className="w-4 h-4" />
+              تعذر رفع {syncStatus.failed} تعديل - الخادم لن يشغّل الجداول الجديدة حتى تنجح المزامنة
+            </p>
+          ) : syncStatus && syncStatus.pending > 0 ? (
+            <p className="text-sm text-amber-600 flex items-center gap-1 mt-1">
+              <Clock className="w-4 h-4" />
+              {syncStatus.online ? 'بانتظار رفع التعديلات للخادم...' : 'غير متصل - تُرفع التعديلات عند عودة الاتصال'}
+            </p>
+          ) : null}
         </div>
 
-        <Button onClick={() => setIsCreating(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          جدولة جديدة
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => processSyncQueue()} disabled={syncStatus?.processing || !syncUserId}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${syncStatus?.processing ? 'animate-spin' : ''}`} />
+            مزامنة الآن
+          </Button>
+          <Button onClick={() => { setDraft(DEFAULT_DRAFT); setIsCreating(true); }}>
+            <Plus className="w-4 h-4 mr-2" />
+            جدولة جديدة
+          </Button>
+        </div>
       </div>
 
-      {/* Running Instances */}
-      {runningInstances.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <RefreshCw className="w-5 h-5 animate-spin" />
-              التنفيذات الجارية ({runningInstances.length})
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-              {runningInstances.map(instance => (
-                <div
-                  key={instance.id}
-                  className="p-3 border rounded-lg bg-blue-50 border-blue-200"
-                >
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm">{instance.taskName}</span>
-                    <Badge variant="outline">نسخة {instance.instanceNumber}</Badge>
-                  </div>
-                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                    {instance.status === 'running' && (
-                      <RefreshCw className="w-3 h-3 animate-spin" />
-                    )}
-                    {instance.status === 'completed' && (
-                      <CheckCircle2 className="w-3 h-3 text-green-500" />
-                    )}
-                    {instance.status === 'failed' && (
-                      <AlertCircle className="w-3 h-3 text-red-500" />
-                    )}
-                    <span>{instance.startTime.toLocaleTimeString('ar')}</span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
       {/* Create Schedule Dialog */}
       {isCreating && (
         <Card className="border-primary">
           <CardHeader>
-            <CardTitle>إنشاء جدولة جديدة</CardTitle>
+            <CardTitle>{draft.taskId && tasks.find(t => t.id === draft.taskId && getTaskSchedule(t)) ? 'تعديل الجدولة' : 'إنشاء جدولة جديدة'}</CardTitle>
             <CardDescription>
-              قم بتكوين جدولة تلقائية للمهمة
+              لكل مهمة جدولة واحدة - الأوقات بتوقيتك المحلي وتُحوَّل إلى UTC
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -404,8 +290,8 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
             <div className="space-y-2">
               <Label>المهمة</Label>
               <Select
-                value={newSchedule.taskId}
-                onValueChange={(value) => setNewSchedule(prev => ({ ...prev, taskId: value }))}
+                value={draft.taskId}
+                onValueChange={(value) => setDraft(prev => ({ ...prev, taskId: value }))}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="اختر مهمة" />
@@ -413,7 +299,7 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
                 <SelectContent>
                   {tasks.map(task => (
                     <SelectItem key={task.id} value={task.id}>
-                      {task.name}
+                      {task.name}{getTaskSchedule(task) ? ' (مجدولة)' : ''}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -424,8 +310,8 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
             <div className="space-y-2">
               <Label>نوع الجدولة</Label>
               <Select
-                value={newSchedule.type}
-                onValueChange={(value: any) => setNewSchedule(prev => ({ ...prev, type: value }))}
+                value={draft.type}
+                onValueChange={(value: ScheduleType) => setDraft(prev => ({ ...prev, type: value }))}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -435,33 +321,39 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
                   <SelectItem value="interval">كل فترة زمنية</SelectItem>
                   <SelectItem value="daily">يومياً</SelectItem>
                   <SelectItem value="weekly">أسبوعياً</SelectItem>
+                  <SelectItem value="cron">تعبير cron</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             {/* Type-specific Configuration */}
-            {newSchedule.type === 'interval' && (
+            {draft.type === 'interval' && (
               <div className="space-y-2">
                 <Label>الفترة (بالدقائق)</Label>
                 <Input
                   type="number"
-                  value={newSchedule.config?.interval || 60}
-                  onChange={(e) => setNewSchedule(prev => ({
+                  value={draft.config.interval || 60}
+                  onChange={(e) => setDraft(prev => ({
                     ...prev,
                     config: { ...prev.config, interval: parseInt(e.target.value) }
                   }))}
                   min="1"
                 />
+                {!draftCron && (
+                  <p className="text-xs text-muted-foreground">
+                    هذه الفترة لا تُكتب كـ cron - سيشغّلها الخادم فقط دون جدولة GitHub
+                  </p>
+                )}
               </div>
             )}
 
-            {(newSchedule.type === 'daily' || newSchedule.type === 'weekly') && (
+            {(draft.type === 'daily' || draft.type === 'weekly') && (
               <div className="space-y-2">
                 <Label>الوقت</Label>
                 <Input
                   type="time"
-                  value={newSchedule.config?.time || '09:00'}
-                  onChange={(e) => setNewSchedule(prev => ({
+                  value={draft.config.time || ''}
+                  onChange={(e) => setDraft(prev => ({
                     ...prev,
                     config: { ...prev.config, time: e.target.value }
                   }))}
@@ -469,14 +361,52 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
               </div>
             )}
 
-            {newSchedule.type === 'once' && (
+            {draft.type === 'weekly' && (
+              <div className="space-y-2">
+                <Label>أيام الأسبوع</Label>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_LABELS.map((label, day) => (
+                    <Button
+                      key={day}
+                      type="button"
+                      size="sm"
+                      variant={draft.config.daysOfWeek?.includes(day) ? 'default' : 'outline'}
+                      onClick={() => toggleDay(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {draft.type === 'cron' && (
+              <div className="space-y-2">
+                <Label>تعبير cron (UTC)</Label>
+                <Input
+                  value={draft.config.cron || ''}
+                  onChange={(e) => setDraft(prev => ({
+                    ...prev,
+                    config: { ...prev.config, cron: e.target.value }
+                  }))}
+                  placeholder="0 9 * * 1-5"
+                  className="font-mono"
+                  dir="ltr"
+                />
+                <p className="text-xs text-muted-foreground">
+                  دقيقة ساعة يوم-الشهر شهر يوم-الأسبوع - يدعم * , - / والاختصارات مثل @daily
+                </p>
+              </div>
+            )}
+
+            {draft.type === 'once' && (
               <>
                 <div className="space-y-2">
                   <Label>التاريخ</Label>
                   <Input
                     type="date"
-                    value={newSchedule.config?.date || ''}
-                    onChange={(e) => setNewSchedule(prev => ({
+                    value={draft.config.date || ''}
+                    onChange={(e) => setDraft(prev => ({
                       ...prev,
                       config: { ...prev.config, date: e.target.value }
                     }))}
@@ -486,8 +416,8 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
                   <Label>الوقت</Label>
                   <Input
                     type="time"
-                    value={newSchedule.config?.time || '09:00'}
-                    onChange={(e) => setNewSchedule(prev => ({
+                    value={draft.config.time || ''}
+                    onChange={(e) => setDraft(prev => ({
                       ...prev,
                       config: { ...prev.config, time: e.target.value }
                     }))}
@@ -496,13 +426,32 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
               </>
             )}
 
+            {/* Cron Preview */}
+            {draftError ? (
+              <div className="flex items-center gap-2 p-3 text-sm rounded-lg bg-red-50 text-red-700">
+                <AlertCircle className="w-4 h-4" />
+                {draftError}
+              </div>
+            ) : draftCron && (
+              <div className="p-3 text-sm rounded-lg bg-slate-50 space-y-1">
+                <div>
+                  cron (UTC): <code className="font-mono" dir="ltr">{draftCron}</code>
+                </div>
+                {draftPreview.length > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    التشغيلات القادمة: {draftPreview.map(date => date.toLocaleString('ar')).join(' • ')}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Parallel Instances */}
             <div className="space-y-2">
               <Label>عدد النسخ المتوازية</Label>
               <Input
                 type="number"
-                value={newSchedule.parallelInstances || 1}
-                onChange={(e) => setNewSchedule(prev => ({
+                value={draft.parallelInstances || 1}
+                onChange={(e) => setDraft(prev => ({
                   ...prev,
                   parallelInstances: parseInt(e.target.value)
                 }))}
@@ -519,8 +468,8 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
               <Label>عدد المحاولات عند الفشل</Label>
               <Input
                 type="number"
-                value={newSchedule.maxRetries || 3}
-                onChange={(e) => setNewSchedule(prev => ({
+                value={draft.maxRetries ?? 3}
+                onChange={(e) => setDraft(prev => ({
                   ...prev,
                   maxRetries: parseInt(e.target.value)
                 }))}
@@ -531,9 +480,9 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
 
             {/* Actions */}
             <div className="flex gap-2">
-              <Button onClick={createSchedule}>
+              <Button onClick={createSchedule} disabled={!!draftError}>
                 <CheckCircle2 className="w-4 h-4 mr-2" />
-                إنشاء الجدولة
+                حفظ الجدولة
               </Button>
               <Button variant="outline" onClick={() => setIsCreating(false)}>
                 إلغاء
@@ -546,10 +495,12 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
       {/* Schedules List */}
       <Card>
         <CardHeader>
-          <CardTitle>الجداول المُفعلة ({schedules.filter(s => s.enabled).length}/{schedules.length})</CardTitle>
+          <CardTitle>
+            الجداول المُفعلة ({scheduledTasks.filter(t => getTaskSchedule(t)!.enabled).length}/{scheduledTasks.length})
+          </CardTitle>
         </CardHeader>
         <CardContent>
-          {schedules.length === 0 ? (
+          {scheduledTasks.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
               <p>لا توجد جداول بعد</p>
@@ -558,82 +509,89 @@ export function TaskScheduler({ tasks, onExecuteTask }: TaskSchedulerProps) {
           ) : (
             <ScrollArea className="h-96">
               <div className="space-y-3">
-                {schedules.map(schedule => (
-                  <div
-                    key={schedule.id}
-                    className={`p-4 border rounded-lg ${
-                      schedule.enabled ? 'bg-white' : 'bg-gray-50 opacity-60'
-                    }`}
-                  >
-                    <div className="flex items-start justify-between mb-3">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <h4>{schedule.taskName}</h4>
-                          <Badge variant={schedule.enabled ? 'default' : 'secondary'}>
-                            {schedule.enabled ? 'نشط' : 'متوقف'}
-                          </Badge>
-                          {schedule.parallelInstances > 1 && (
-                            <Badge variant="outline">
-                              {schedule.parallelInstances}× متوازي
+                {scheduledTasks.map(task => {
+                  const schedule = getTaskSchedule(task)!;
+                  return (
+                    <div
+                      key={task.id}
+                      className={`p-4 border rounded-lg ${
+                        schedule.enabled ? 'bg-white' : 'bg-gray-50 opacity-60'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between mb-3">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h4>{task.name}</h4>
+                            <Badge variant={schedule.enabled ? 'default' : 'secondary'}>
+                              {schedule.status === 'completed' ? 'مكتمل' : schedule.enabled ? 'نشط' : 'متوقف'}
                             </Badge>
-                          )}
-                        </div>
-                        <div className="text-sm text-muted-foreground space-y-1">
-                          <div className="flex items-center gap-2">
-                            <Calendar className="w-3 h-3" />
-                            <span>
-                              {schedule.type === 'once' && 'مرة واحدة'}
-                              {schedule.type === 'interval' && `كل ${schedule.config.interval} دقيقة`}
-                              {schedule.type === 'daily' && `يومياً في ${schedule.config.time}`}
-                              {schedule.type === 'weekly' && `أسبوعياً في ${schedule.config.time}`}
-                            </span>
+                            {schedule.parallelInstances > 1 && (
+                              <Badge variant="outline">
+                                {schedule.parallelInstances}× متوازي
+                              </Badge>
+                            )}
                           </div>
-                          {schedule.nextRun && (
+                          <div className="text-sm text-muted-foreground space-y-1">
                             <div className="flex items-center gap-2">
-                              <Clock className="w-3 h-3" />
-                              <span>
-                                التشغيل التالي: {schedule.nextRun.toLocaleString('ar')}
-                              </span>
-                            </div>
-                          )}
-                          {schedule.lastRun && (
-                            <div className="flex items-center gap-2 text-xs">
-                              آخر تشغيل: {schedule.lastRun.toLocaleString('ar')} | عدد المرات: {schedule.runCount}
+                              <Calendar className="w-3 h-3" />
+                              <span>{describeSchedule(schedule)}</span>
+                              {schedule.cron && (
+                                <code className="text-xs font-mono" dir="ltr">{schedule.cron}</code>
+                              )}
                             </div>
-                          )}
+                            {schedule.enabled && schedule.nextRun && (
+                              <div className="flex items-center gap-2">
+                                <Clock className="w-3 h-3" />
+                                <span>
+                                  التشغيل التالي: {new Date(schedule.nextRun).toLocaleString('ar')}
+                                </span>
+                              </div>
+                            )}
+                            {schedule.lastRun && (
+                              <div className="flex items-center gap-2 text-xs">
+                                آخر تشغيل: {new Date(schedule.lastRun).toLocaleString('ar')} | عدد المرات: {schedule.runCount}
+                              </div>
+                            )}
+                            {schedule.lastError && (
+                              <div className="flex items-center gap-2 text-xs text-red-600">
+                                <AlertCircle className="w-3 h-3" />
+                                {schedule.lastError}
+                              </div>
+                            )}
+                          </div>
                         </div>
-                      </div>
 
-                      <div className="flex gap-1">
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => toggleSchedule(schedule.id)}
-                        >
-                          {schedule.enabled ? (
-                            <Pause className="w-4 h-4" />
-                          ) : (
-                            <Play className="w-4 h-4" />
-                          )}
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => duplicateSchedule(schedule.id)}
-                        >
-                          <Copy className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => deleteSchedule(schedule.id)}
-                        >
-                          <Trash2 className="w-4 h-4 text-red-500" />
-                        </Button>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => toggleSchedule(task)}
+                          >
+                            {schedule.enabled ? (
+                              <Pause className="w-4 h-4" />
+                            ) : (
+                              <Play className="w-4 h-4" />
+                            )}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => editSchedule(task)}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => deleteSchedule(task)}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </Button>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </ScrollArea>
           )}
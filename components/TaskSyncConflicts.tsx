@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, X, Monitor, Cloud } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TaskConflict, TaskConflictChoice } from '../utils/task-sync';
+import { subscribeTaskConflicts, resolveTaskConflict } from '../utils/task-sync';
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function ConflictCard({ conflict }: { conflict: TaskConflict }) {
+  const [choices, setChoices] = useState<Record<string, TaskConflictChoice>>({});
+  const [saving, setSaving] = useState(false);
+
+  const choose = (field: string, choice: TaskConflictChoice) => {
+    setChoices(prev => ({ ...prev, [field]: choice }));
+  };
+
+  const resolve = async (resolved: Record<string, TaskConflictChoice>) => {
+    setSaving(true);
+    try {
+      await resolveTaskConflict(conflict.taskId, resolved);
+      toast.success(`تم حل تعارض "${conflict.taskName}"`);
+    } catch (error: any) {
+      toast.error(`فشل حل التعارض: ${error.message}`);
+      setSaving(false);
+    }
+  };
+
+  const chooseAll = (choice: TaskConflictChoice) =>
+    resolve(Object.fromEntries(conflict.fields.map(field => [field.field, choice])));
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="font-medium">{conflict.taskName}</h4>
+        <p className="text-xs text-slate-500">
+          {conflict.base ? 'عُدلت هنا وعلى جهاز آخر منذ آخر مزامنة' : 'أول مزامنة - النسختان مختلفتان'}
+          {' · '}
+          {new Date(conflict.detectedAt).toLocaleString('ar')}
+        </p>
+      </div>
+
+      {conflict.fields.map(field => {
+        const choice = choices[field.field] || 'local';
+        return (
+          <div key={field.field} className="space-y-1">
+            <p className="text-sm text-slate-700">{field.label}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {(['local', 'remote'] as const).map(side => (
+                <button
+                  key={side}
+                  onClick={() => choose(field.field, side)}
+                  className={`text-right p-2 rounded-lg border transition-colors ${
+                    choice === side ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="flex items-center gap-1 text-xs text-slate-500 mb-1">
+                    {side === 'local' ? <Monitor className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+                    {side === 'local' ? 'هذا الجهاز' : 'الخادم'}
+                  </span>
+                  <pre className="text-xs whitespace-pre-wrap break-all max-h-40 overflow-y-auto" dir="auto">
+                    {formatValue(field[side])}
+                  </pre>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        <button
+          onClick={() => chooseAll('local')}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+        >
+          الإبقاء على نسختي
+        </button>
+        <button
+          onClick={() => chooseAll('remote')}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+        >
+          اعتماد نسخة الخادم
+        </button>
+        <button
+          onClick={() => resolve(choices)}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          تطبيق الاختيار
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function TaskSyncConflicts() {
+  const [conflicts, setConflicts] = useState<TaskConflict[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => subscribeTaskConflicts(setConflicts), []);
+
+  useEffect(() => {
+    if (conflicts.length === 0) setOpen(false);
+  }, [conflicts.length]);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 left-4 z-40 flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-lg shadow-lg hover:bg-amber-600 transition-colors"
+      >
+        <AlertTriangle className="w-4 h-4" />
+        {conflicts.length} تعارض في المزامنة
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50" onClick={() => setOpen(false)}>
+          <div
+            className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-4 border-b">
+              <div className="flex items-center gap-3">
+                <AlertTriangle className="size-5 text-amber-500" />
+                <div>
+                  <h3>تعارضات مزامنة المهام</h3>
+                  <p className="text-sm text-gray-500">
+                    الحقول التالية عُدلت على هذا الجهاز وعلى جهاز آخر بقيم مختلفة - اختر النسخة التي تبقى لكل حقل
+                  </p>
+                </div>
+              </div>
+              <button onClick={() => setOpen(false)} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="size-5" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4 overflow-y-auto">
+              {conflicts.map(conflict => (
+                <ConflictCard key={`${conflict.taskId}-${conflict.detectedAt}`} conflict={conflict} />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { FlaskConical, CheckCircle, XCircle } from 'lucide-react';
+import type { CtrfReport } from '../utils/test-reports';
+
+interface TestReportTableProps {
+  report: CtrfReport;
+}
+
+type TestFilter = 'all' | 'failed';
+
+function formatValue(value: string | number | null | undefined): string {
+  return value == null || value === '' ? '—' : String(value);
+}
+
+export function TestReportTable({ report }: TestReportTableProps) {
+  const { summary, tests } = report.results;
+  const [filter, setFilter] = useState<TestFilter>(summary.failed > 0 ? 'failed' : 'all');
+  const visibleTests = filter === 'all' ? tests : tests.filter(test => test.status === 'failed');
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-sky-600" />
+          <span>تقرير الاختبار</span>
+        </h4>
+        <span className="text-xs text-slate-500">{((summary.stop - summary.start) / 1000).toFixed(1)} ثانية</span>
+      </div>
+
+      {/* Summary */}
+      <div className="flex flex-wrap gap-2 mb-3 text-sm">
+        <span className="flex items-center gap-1 px-2 py-1 bg-green-50 text-green-700 rounded">
+          <CheckCircle className="w-3 h-3" /> {summary.passed} ناجح
+        </span>
+        <span className="flex items-center gap-1 px-2 py-1 bg-red-50 text-red-700 rounded">
+          <XCircle className="w-3 h-3" /> {summary.failed} فاشل
+        </span>
+        <span className="px-2 py-1 bg-slate-50 text-slate-600 rounded">
+          {summary.tests} تحقق
+        </span>
+      </div>
+
+      {summary.failed > 0 && (
+        <div className="flex gap-1 p-1 bg-slate-100 rounded-lg w-fit mb-3">
+          {([['failed', 'الفاشلة'], ['all', 'الكل']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={`px-3 py-1 text-sm rounded-md transition-all ${
+                filter === id ? 'bg-white shadow-sm' : 'text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-auto max-h-96 border border-slate-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-right font-normal w-8"></th>
+              <th className="px-3 py-2 text-right font-normal">التحقق</th>
+              <th className="px-3 py-2 text-right font-normal">المتوقع</th>
+              <th className="px-3 py-2 text-right font-normal">الفعلي</th>
+              <th className="px-3 py-2 text-right font-normal">المدة</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visibleTests.map((test, index) => (
+              <tr key={index} className={test.status === 'failed' ? 'bg-red-50' : ''}>
+                <td className="px-3 py-2">
+                  {test.status === 'failed'
+                    ? <XCircle className="w-4 h-4 text-red-600" />
+                    : <CheckCircle className="w-4 h-4 text-green-600" />}
+                </td>
+                <td className="px-3 py-2">
+                  <p>{test.name}</p>
+                  {test.status === 'failed' && test.message && (
+                    <p className="text-xs text-red-700 mt-0.5">{test.message}</p>
+                  )}
+                </td>
+                <td className="px-3 py-2 font-mono text-xs max-w-xs truncate" title={formatValue(test.extra?.expected)}>
+                  {formatValue(test.extra?.expected)}
+                </td>
+                <td className="px-3 py-2 font-mono text-xs max-w-xs truncate" title={formatValue(test.extra?.actual)}>
+                  {formatValue(test.extra?.actual)}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-slate-500">{(test.duration / 1000).toFixed(2)}s</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
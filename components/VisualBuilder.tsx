@@ -1,6 +1,14 @@
-import type { Task } from '../types';
+import type { Task, StepNode, StepParams } from '../types';
 import { useState, useEffect } from 'react';
 import { Plus, Trash2, MoveUp, MoveDown, Play, Save } from 'lucide-react';
+import {
+  createStep,
+  createStepGraph,
+  readTaskStepGraph,
+  applyStepGraph,
+  getGraphTargetUrl,
+} from '../utils/step-graph';
+import { STEP_TYPE_LABELS } from '../utils/step-codegen';
 
 type VisualBuilderProps = {
   onTaskCreated: (task: Task) => void;
@@ -8,11 +16,8 @@ type VisualBuilderProps = {
   onTaskUpdated?: (task: Task) => void;
 };
 
-type Step = {
-  id: string;
-  type: 'navigate' | 'click' | 'type' | 'wait' | 'extract' | 'screenshot';
-  params: any;
-};
+type Step = StepNode;
+type SimpleStepType = 'navigate' | 'click' | 'type' | 'wait' | 'extract' | 'screenshot';
 
 const stepTypes = [
   { value: 'navigate', label: 'فتح صفحة', icon: '🌐' },
@@ -30,48 +35,18 @@ export function VisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: Visu
   const [steps, setSteps] = useState<Step[]>([]);
 
   useEffect(() => {
-    if (taskToEdit?.script) {
-      // محاولة تحليل السكريبت إلى خطوات
-      try {
-        const parsed = JSON.parse(taskToEdit.script);
-        if (Array.isArray(parsed.steps)) {
-          setSteps(parsed.steps);
-        }
-      } catch {
-        // إذا فشل التحليل، ابدأ بخطوات فارغة
-        setSteps([]);
-      }
-    }
+    // قراءة الخطوات من المخطط الموحد - حتى لو أُنشئت المهمة في منشئ آخر
+    const graph = readTaskStepGraph(taskToEdit);
+    setSteps(graph ? graph.steps : []);
   }, [taskToEdit]);
 
-  const addStep = (type: Step['type']) => {
-    const newStep: Step = {
-      id: Date.now().toString(),
-      type,
-      params: getDefaultParams(type)
-    };
+  const addStep = (type: SimpleStepType) => {
+    const newStep = createStep(type, { errorHandling: { ignoreErrors: false, retryCount: 0 } });
+    if (type === 'extract') newStep.params = { ...newStep.params, attribute: 'textContent' };
+    if (type === 'screenshot') newStep.params = { fullPage: true };
     setSteps([...steps, newStep]);
   };
 
-  const getDefaultParams = (type: Step['type']) => {
-    switch (type) {
-      case 'navigate':
-        return { url: '' };
-      case 'click':
-        return { selector: '' };
-      case 'type':
-        return { selector: '', text: '' };
-      case 'wait':
-        return { duration: 1000 };
-      case 'extract':
-        return { selector: '', attribute: 'textContent' };
-      case 'screenshot':
-        return { fullPage: true };
-      default:
-        return {};
-    }
-  };
-
   const removeStep = (id: string) => {
     setSteps(steps.filter(step => step.id !== id));
   };
@@ -90,31 +65,29 @@ export function VisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: Visu
     setSteps(newSteps);
   };
 
-  const updateStepParams = (id: string, params: any) => {
+  const updateStepParams = (id: string, params: StepParams) => {
     setSteps(steps.map(step => 
-      step.id === id ? { ...step, params } : step
+      step.id === id ? { ...step, params: { ...step.params, ...params } } : step
     ));
   };
 
-  const generateScript = () => {
-    return JSON.stringify({ steps }, null, 2);
-  };
-
   const handleSave = () => {
-    const task: Task = {
+    const graph = createStepGraph(steps);
+    const task = applyStepGraph<Task>({
       id: taskToEdit?.id || Date.now().toString(),
       name: taskName,
       description: taskDescription,
       type: 'custom',
       status: 'idle',
-      script: generateScript(),
-      targetUrl,
+      script: '',
+      targetUrl: targetUrl || getGraphTargetUrl(graph),
       createdAt: taskToEdit?.createdAt || new Date(),
       metadata: {
+        ...taskToEdit?.metadata,
         source: 'visual-builder',
         lastModified: new Date()
       }
-    };
+    }, graph);
 
     if (taskToEdit && onTaskUpdated) {
       onTaskUpdated(task);
@@ -169,7 +142,7 @@ export function VisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: Visu
             {stepTypes.map(type => (
               <button
                 key={type.value}
-                onClick={() => addStep(type.value as Step['type'])}
+                onClick={() => addStep(type.value as SimpleStepType)}
                 className="flex items-center gap-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors text-sm"
               >
                 <span>{type.icon}</span>
@@ -191,11 +164,11 @@ export function VisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: Visu
                 <div className="flex items-start justify-between mb-3">
                   <div className="flex items-center gap-2">
                     <span className="text-2xl">
-                      {stepTypes.find(t => t.value === step.type)?.icon}
+                      {stepTypes.find(t => t.value === step.type)?.icon || '🧩'}
                     </span>
                     <div>
                       <h4 className="font-medium">
-                        {stepTypes.find(t => t.value === step.type)?.label}
+                        {stepTypes.find(t => t.value === step.type)?.label || STEP_TYPE_LABELS[step.type]}
                       </h4>
                       <p className="text-xs text-slate-500">الخطوة {index + 1}</p>
                     </div>
@@ -265,16 +238,26 @@ export function VisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: Visu
                     </div>
                   )}
 
-                  {step.type === 'wait' && (
+                  {step.type === 'wait' && step.params.type !== 'selector' && (
                     <input
                       type="number"
                       value={step.params.duration}
-                      onChange={(e) => updateStepParams(step.id, { duration: parseInt(e.target.value) })}
+                      onChange={(e) => updateStepParams(step.id, { type: 'time', duration: parseInt(e.target.value) })}
                       className="w-full px-3 py-2 border border-slate-300 rounded text-sm"
                       placeholder="المدة بالميلي ثانية"
                     />
                   )}
 
+                  {step.type === 'wait' && step.params.type === 'selector' && (
+                    <input
+                      type="text"
+                      value={step.params.selector}
+                      onChange={(e) => updateStepParams(step.id, { selector: e.target.value })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded text-sm"
+                      placeholder="CSS Selector"
+                    />
+                  )}
+
                   {step.type === 'extract' && (
                     <div className="space-y-2">
                       <input
@@ -308,6 +291,12 @@ export function VisualBuilder({ onTaskCreated, taskToEdit, onTaskUpdated }: Visu
                       <span className="text-sm">التقاط الصفحة كاملة</span>
                     </label>
                   )}
+
+                  {!stepTypes.some(t => t.value === step.type) && (
+                    <p className="text-xs text-slate-500">
+                      هذه الخطوة تُحرَّر في المنشئ المتقدم وستُحفظ كما هي
+                    </p>
+                  )}
                 </div>
               </div>
             ))
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { Columns2, SplitSquareHorizontal, Layers, BadgeCheck, Loader } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { VisualCheckResult, VisualReport, approveBaseline, getBaselinePath } from '../utils/visual-regression';
+
+interface VisualCompareViewProps {
+  taskId: string;
+  viewport: string;
+  current: Blob;
+  baseline?: Blob;
+  diff?: Blob;
+  report?: Blob; // <taskId>-visual.json من نفس الـ artifact
+}
+
+type CompareMode = 'side-by-side' | 'slider' | 'diff';
+
+const STATUS_STYLES: Record<VisualCheckResult['status'], { label: string; className: string }> = {
+  passed: { label: 'مطابق', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'مختلف', className: 'bg-red-100 text-red-800' },
+  'no-baseline': { label: 'بدون خط أساس', className: 'bg-slate-100 text-slate-700' },
+};
+
+function useObjectUrl(blob?: Blob): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+}
+
+export function VisualCompareView({ taskId, viewport, current, baseline, diff, report }: VisualCompareViewProps) {
+  const { githubAPI } = useApp();
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const [result, setResult] = useState<VisualCheckResult | null>(null);
+  const [approving, setApproving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const currentUrl = useObjectUrl(current);
+  const baselineUrl = useObjectUrl(baseline);
+  const diffUrl = useObjectUrl(diff);
+
+  useEffect(() => {
+    setResult(null);
+    setMessage('');
+    if (!report) return;
+    report.text()
+      .then(text => {
+        const parsed = JSON.parse(text) as VisualReport;
+        setResult(parsed.results.find(item => item.viewport === viewport) || null);
+      })
+      .catch(() => console.warn('⚠️ تعذر قراءة تقرير الاختبار البصري'));
+  }, [report, viewport]);
+
+  const handleApprove = async () => {
+    if (!githubAPI) return;
+    if (baseline && !confirm(`استبدال خط الأساس الحالي لمقاس ${viewport} بهذه اللقطة؟`)) return;
+    setApproving(true);
+    setMessage('');
+    try {
+      await approveBaseline(githubAPI, taskId, viewport, current);
+      setMessage(`✅ اعتُمدت كخط أساس في ${getBaselinePath(taskId, viewport)} - التشغيل التالي سيقارن بها`);
+    } catch (error: any) {
+      setMessage(`❌ فشل الاعتماد: ${error.message}`);
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const modes: { id: CompareMode; label: string; icon: typeof Columns2; available: boolean }[] = [
+    { id: 'side-by-side', label: 'جنباً إلى جنب', icon: Columns2, available: !!baseline },
+    { id: 'slider', label: 'شريط مقارنة', icon: SplitSquareHorizontal, available: !!baseline },
+    { id: 'diff', label: 'الفرق', icon: Layers, available: !!diff },
+  ];
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        {result && (
+          <span className={`px-2 py-1 rounded text-sm ${STATUS_STYLES[result.status].className}`}>
+            {STATUS_STYLES[result.status].label}
+            {result.status !== 'no-baseline' && (
+              <span className="mr-1" dir="ltr">{result.diffPercent}% / {result.threshold}%</span>
+            )}
+          </span>
+        )}
+        {result?.sizeChanged && (
+          <span className="px-2 py-1 rounded text-sm bg-orange-100 text-orange-800">تغيّرت أبعاد الصفحة</span>
+        )}
+
+        {baseline && (
+          <div className="flex gap-1 p-1 bg-slate-100 rounded-lg">
+            {modes.filter(item => item.available).map(item => {
+              const Icon = item.icon;
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => setMode(item.id)}
+                  className={`flex items-center gap-1 px-3 py-1 text-sm rounded-md transition-all ${
+                    mode === item.id ? 'bg-white shadow-sm' : 'text-slate-600 hover:text-slate-900'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {item.label}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <button
+          onClick={handleApprove}
+          disabled={!githubAPI || approving}
+          title={githubAPI ? undefined : 'اتصل بـ GitHub أولاً'}
+          className="flex items-center gap-2 px-3 py-2 mr-auto bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+        >
+          {approving ? <Loader className="w-4 h-4 animate-spin" /> : <BadgeCheck className="w-4 h-4" />}
+          اعتماد كخط أساس
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.startsWith('❌') ? 'text-red-600' : 'text-green-700'}`}>{message}</p>
+      )}
+
+      <div className="flex-1 overflow-auto" dir="ltr">
+        {!baseline || !baselineUrl ? (
+          currentUrl && <img src={currentUrl} alt="current" className="max-w-full rounded-lg shadow" />
+        ) : mode === 'side-by-side' ? (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs text-slate-500 mb-1 text-center">خط الأساس</p>
+              <img src={baselineUrl} alt="baseline" className="w-full rounded-lg shadow" />
+            </div>
+            <div>
+              <p className="text-xs text-slate-500 mb-1 text-center">التشغيل الحالي</p>
+              {currentUrl && <img src={currentUrl} alt="current" className="w-full rounded-lg shadow" />}
+            </div>
+          </div>
+        ) : mode === 'slider' ? (
+          <div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={sliderPosition}
+              onChange={(e) => setSliderPosition(parseInt(e.target.value))}
+              className="w-full mb-2"
+            />
+            <div className="relative inline-block max-w-full">
+              <img src={baselineUrl} alt="baseline" className="max-w-full rounded-lg shadow block" />
+              {currentUrl && (
+                <img
+                  src={currentUrl}
+                  alt="current"
+                  className="absolute top-0 left-0 max-w-full rounded-lg"
+                  style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+                />
+              )}
+              <div className="absolute top-0 bottom-0 w-0.5 bg-teal-500 pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+            </div>
+            <div className="flex justify-between text-xs text-slate-500 mt-1">
+              <span>← التشغيل الحالي</span>
+              <span>خط الأساس →</span>
+            </div>
+          </div>
+        ) : (
+          diffUrl && <img src={diffUrl} alt="diff" className="max-w-full rounded-lg shadow" />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { ScanEye, Plus, X, Save, Trash2, Loader } from 'lucide-react';
+import type { Task } from '../types';
+import { useApp } from '../contexts/AppContext';
+import {
+  Baseline,
+  IgnoreRegion,
+  VisualConfig,
+  VisualViewport,
+  VIEWPORT_PRESETS,
+  deleteBaseline,
+  getVisualConfig,
+  listBaselines,
+  sanitizeViewportName,
+  validateVisualConfig,
+} from '../utils/visual-regression';
+
+interface VisualRegressionSettingsProps {
+  task: Task;
+  onClose: () => void;
+}
+
+export function VisualRegressionSettings({ task, onClose }: VisualRegressionSettingsProps) {
+  const { updateTask, githubAPI } = useApp();
+  const initial = getVisualConfig(task);
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [viewports, setViewports] = useState<VisualViewport[]>(initial.viewports);
+  const [threshold, setThreshold] = useState(String(initial.threshold));
+  const [pixelThreshold, setPixelThreshold] = useState(String(initial.pixelThreshold));
+  const [ignoreRegions, setIgnoreRegions] = useState<IgnoreRegion[]>(initial.ignoreRegions);
+  const [ignoreSelectors, setIgnoreSelectors] = useState(initial.ignoreSelectors.join('\n'));
+  const [baselines, setBaselines] = useState<Baseline[] | null>(null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!githubAPI) return;
+    listBaselines(githubAPI, task.id)
+      .then(setBaselines)
+      .catch(error => {
+        console.error('Error loading baselines:', error);
+        setBaselines([]);
+      });
+  }, [githubAPI, task.id]);
+
+  const updateViewport = (index: number, updates: Partial<VisualViewport>) => {
+    setViewports(viewports.map((viewport, i) => i === index ? { ...viewport, ...updates } : viewport));
+  };
+
+  const updateRegion = (index: number, field: keyof IgnoreRegion, value: string) => {
+    setIgnoreRegions(ignoreRegions.map((region, i) => i === index ? { ...region, [field]: parseInt(value) || 0 } : region));
+  };
+
+  const addViewport = () => {
+    const preset = VIEWPORT_PRESETS.find(item => !viewports.some(viewport => viewport.name === item.name));
+    setViewports([...viewports, preset || { name: `viewport_${viewports.length + 1}`, width: 1280, height: 720 }]);
+  };
+
+  const handleSave = () => {
+    const visual: VisualConfig = {
+      enabled,
+      viewports,
+      threshold: parseFloat(threshold),
+      pixelThreshold: parseFloat(pixelThreshold),
+      ignoreRegions: ignoreRegions.filter(region => region.width > 0 && region.height > 0),
+      ignoreSelectors: ignoreSelectors.split('\n').map(selector => selector.trim()).filter(Boolean),
+    };
+    try {
+      validateVisualConfig(visual);
+    } catch (error: any) {
+      setMessage(`❌ ${error.message}`);
+      return;
+    }
+    updateTask(task.id, { metadata: { ...task.metadata, visual } });
+    setMessage('✅ تم الحفظ - أعد نشر المهام إلى GitHub لتطبيقه');
+  };
+
+  const handleDeleteBaseline = async (baseline: Baseline) => {
+    if (!githubAPI || !confirm(`حذف خط الأساس لمقاس ${baseline.viewport}؟`)) return;
+    try {
+      await deleteBaseline(githubAPI, baseline);
+      setBaselines((baselines || []).filter(item => item.path !== baseline.path));
+    } catch (error: any) {
+      setMessage(`❌ فشل الحذف: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="border border-teal-200 bg-teal-50/40 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2">
+          <ScanEye className="w-5 h-5 text-teal-600" />
+          <span>الاختبار البصري</span>
+        </h4>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        <span>قارن لقطة الصفحة الكاملة لكل مقاس بخط الأساس المعتمد وأفشل المهمة عند تجاوز الحد</span>
+      </label>
+
+      {enabled && (
+        <>
+          <div>
+            <label className="block mb-1 text-sm">المقاسات</label>
+            <div className="space-y-2">
+              {viewports.map((viewport, index) => (
+                <div key={index} className="flex items-center gap-2" dir="ltr">
+                  <input
+                    type="text"
+                    value={viewport.name}
+                    onChange={(e) => updateViewport(index, { name: sanitizeViewportName(e.target.value) })}
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+                    placeholder="desktop"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    value={viewport.width}
+                    onChange={(e) => updateViewport(index, { width: parseInt(e.target.value) || 0 })}
+                    className="w-24 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                  <span className="text-slate-400">×</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={viewport.height}
+                    onChange={(e) => updateViewport(index, { height: parseInt(e.target.value) || 0 })}
+                    className="w-24 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                  <button
+                    onClick={() => setViewports(viewports.filter((_, i) => i !== index))}
+                    className="p-1.5 hover:bg-red-50 text-red-600 rounded"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={addViewport}
+                className="flex items-center gap-1 text-sm text-teal-700 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                إضافة مقاس
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block mb-1 text-sm">نسبة الاختلاف المسموحة %</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.05"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              />
+              <p className="text-xs text-slate-500 mt-1">من مجموع بكسلات الصفحة</p>
+            </div>
+            <div>
+              <label className="block mb-1 text-sm">حساسية البكسل</label>
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                value={pixelThreshold}
+                onChange={(e) => setPixelThreshold(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              />
+              <p className="text-xs text-slate-500 mt-1">0 = أي فرق في اللون، 1 = تجاهل فروق الألوان</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block mb-1 text-sm">عناصر متجاهلة</label>
+            <textarea
+              value={ignoreSelectors}
+              onChange={(e) => setIgnoreSelectors(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm"
+              rows={2}
+              placeholder={'.ad-banner\n#current-time'}
+              dir="ltr"
+            />
+            <p className="text-xs text-slate-500 mt-1">selector في كل سطر - تُغطّى عند الالتقاط فلا يؤثر محتواها المتغير</p>
+          </div>
+
+          <div>
+            <label className="block mb-1 text-sm">مناطق متجاهلة (x, y, العرض, الارتفاع)</label>
+            <div className="space-y-2">
+              {ignoreRegions.map((region, index) => (
+                <div key={index} className="flex items-center gap-2" dir="ltr">
+                  {(['x', 'y', 'width', 'height'] as const).map(field => (
+                    <input
+                      key={field}
+                      type="number"
+                      min="0"
+                      value={region[field]}
+                      onChange={(e) => updateRegion(index, field, e.target.value)}
+                      className="w-24 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                      placeholder={field}
+                    />
+                  ))}
+                  <button
+                    onClick={() => setIgnoreRegions(ignoreRegions.filter((_, i) => i !== index))}
+                    className="p-1.5 hover:bg-red-50 text-red-600 rounded"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setIgnoreRegions([...ignoreRegions, { x: 0, y: 0, width: 100, height: 50 }])}
+                className="flex items-center gap-1 text-sm text-teal-700 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                إضافة منطقة
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block mb-1 text-sm">خطوط الأساس في المستودع</label>
+            {!githubAPI ? (
+              <p className="text-xs text-slate-500">اتصل بـ GitHub لعرض خطوط الأساس</p>
+            ) : baselines === null ? (
+              <Loader className="w-4 h-4 animate-spin text-teal-600" />
+            ) : baselines.length === 0 ? (
+              <p className="text-xs text-slate-500">
+                لا توجد خطوط أساس بعد - شغّل المهمة ثم اعتمد لقطة كل مقاس من معاينة ملفات النتائج
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {baselines.map(baseline => (
+                  <div key={baseline.path} className="flex items-center justify-between bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm">
+                    <span className="font-mono" dir="ltr">{baseline.path}</span>
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-slate-500">{(baseline.size / 1024).toFixed(1)} KB</span>
+                      <button
+                        onClick={() => handleDeleteBaseline(baseline)}
+                        className="p-1 hover:bg-red-50 text-red-600 rounded"
+                        title="حذف"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          حفظ
+        </button>
+        {message && (
+          <span className={`text-sm ${message.startsWith('❌') ? 'text-red-600' : 'text-green-700'}`}>{message}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,26 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import type { Task, ExecutionLog } from '../types';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import type { Task, ExecutionLog, LocalArtifact } from '../types';
 import { verifyGitHubToken, deployTasksToGitHub, GitHubAPI } from '../utils/github';
+import JSZip from 'jszip';
+import {
+  runOnLocalRunner,
+  localArtifactToBlob,
+  saveLocalRunResult,
+  loadLocalRunResults,
+  DEFAULT_LOCAL_RUNNER_URL
+} from '../utils/local-runner-client';
+import type { LocalRunnerEvent } from '../utils/local-runner-client';
+import {
+  getAllRecords,
+  getLocalValue,
+  setLocalValue,
+  persistCollectionChanges,
+  deleteLocalResults,
+  LOCAL_SETTINGS_KEY
+} from '../utils/local-database';
+import { enqueueSync, startSyncQueue } from '../utils/sync-queue';
+import { filterUnsyncedTasks, startTaskSync } from '../utils/task-sync';
+import { useAuth } from './AuthContext';
 
 // ========== أنواع البيانات ==========
 
@@ -43,6 +63,11 @@ export type AppSettings = {
     mode: 'github' | 'cloud' | 'hybrid';
     cloudProvider?: 'browserless' | 'apify' | 'brightdata';
     cloudToken?: string;
+    localRunner?: {
+      url: string;
+      token: string;
+      headless: boolean;
+    };
   };
 };
 
@@ -104,6 +129,7 @@ type AppContextType = {
   // حالة التحميل
   loading: boolean;
   setLoading: (loading: boolean) => void;
+  hydrated: boolean; // اكتمل تحميل المهام والسجلات من IndexedDB
   
   // GitHub API instance
   githubAPI: GitHubAPI | null;
@@ -124,15 +150,13 @@ export type LocalTaskResult = {
   html_url: string;
 };
 
-export type LocalArtifact = {
-  id: number;
-  name: string;
-  size_in_bytes: number;
-  data: any; // البيانات الفعلية
-};
+export type { LocalArtifact };
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// نتائج التشغيل المحلي المحفوظة مع صورها - الأقدم تُحذف من IndexedDB
+const MAX_PERSISTED_LOCAL_RESULTS = 50;
+
 // ========== الإعدادات الافتراضية ==========
 
 const DEFAULT_STEALTH_CONFIG: StealthConfig = {
@@ -166,7 +190,12 @@ const DEFAULT_SETTINGS: AppSettings = {
   stealth: DEFAULT_STEALTH_CONFIG,
   github: DEFAULT_GITHUB_CONFIG,
   execution: {
-    mode: 'hybrid'
+    mode: 'hybrid',
+    localRunner: {
+      url: DEFAULT_LOCAL_RUNNER_URL,
+      token: '',
+      headless: true
+    }
   }
 };
 
@@ -179,63 +208,154 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(false);
   const [githubAPI, setGithubAPI] = useState<GitHubAPI | null>(null);
   const [localResults, setLocalResults] = useState<LocalTaskResult[]>([]);
-
-  // ========== تحميل من localStorage ==========
+  const [hydrated, setHydrated] = useState(false);
+  const tasksRef = useRef<Task[]>([]);
+  tasksRef.current = tasks;
+  // user يختار القاعدة المحلية، وsyncUserId (جلسة Supabase) يفعّل المزامنة
+  const { user, syncUserId } = useAuth();
+  // آخر نسخة محفوظة من كل قائمة - الحفظ يكتب الفرق عنها فقط
+  const persisted = useRef<{
+    tasks: Task[];
+    logs: ExecutionLog[];
+    localResults: LocalTaskResult[];
+    settings: AppSettings;
+  }>({ tasks: [], logs: [], localResults: [], settings: DEFAULT_SETTINGS });
+
+  // ========== تحميل من IndexedDB ==========
+  // لكل مستخدم قاعدته (AuthProvider يختارها) - تغيير المستخدم يعيد التحميل من قاعدته
+  // الحفظ يتوقف حتى يكتمل التحميل فلا تُكتب قوائم المستخدم السابق في قاعدة التالي
   useEffect(() => {
-    const savedTasks = localStorage.getItem('automation-tasks');
-    const savedLogs = localStorage.getItem('automation-logs');
-    const savedSettings = localStorage.getItem('automation-settings');
-
-    if (savedTasks) {
-      try {
-        const parsed = JSON.parse(savedTasks);
-        // تويل التواريخ
-        const tasksWithDates = parsed.map((t: any) => ({
+    setHydrated(false);
+    setGithubAPI(null);
+    if (!user) return;
+    let cancelled = false;
+
+    Promise.all([
+      getAllRecords<any>('tasks'),
+      getAllRecords<any>('logs'),
+      getLocalValue<AppSettings>('settings', LOCAL_SETTINGS_KEY),
+      loadLocalRunResults<LocalTaskResult>()
+    ])
+      .then(([savedTasks, savedLogs, savedSettings, savedResults]) => {
+        if (cancelled) return;
+
+        // الترحيل من localStorage ينقل التواريخ كنصوص
+        const tasksWithDates: Task[] = savedTasks.map((t: any) => ({
           ...t,
           createdAt: new Date(t.createdAt),
           lastRun: t.lastRun ? new Date(t.lastRun) : undefined
         }));
+        const logsWithDates: ExecutionLog[] = savedLogs
+          .map((l: any) => ({
+            ...l,
+            startTime: new Date(l.startTime),
+            endTime: l.endTime ? new Date(l.endTime) : undefined
+          }))
+          .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+        const results = savedResults.slice(0, MAX_PERSISTED_LOCAL_RESULTS);
+
+        persisted.current = {
+          tasks: tasksWithDates,
+          logs: logsWithDates,
+          localResults: results,
+          settings: savedSettings || DEFAULT_SETTINGS
+        };
         setTasks(tasksWithDates);
-      } catch (e) {
-        console.error('Error loading tasks:', e);
-      }
-    }
-
-    if (savedLogs) {
-      try {
-        const parsed = JSON.parse(savedLogs);
-        const logsWithDates = parsed.map((l: any) => ({
-          ...l,
-          startTime: new Date(l.startTime),
-          endTime: l.endTime ? new Date(l.endTime) : undefined
-        }));
         setLogs(logsWithDates);
-      } catch (e) {
-        console.error('Error loading logs:', e);
-      }
-    }
+        setLocalResults(results);
+        setSettings(savedSettings || DEFAULT_SETTINGS);
+      })
+      .catch(e => console.error('Error loading local database:', e))
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
 
-    if (savedSettings) {
-      try {
-        setSettings(JSON.parse(savedSettings));
-      } catch (e) {
-        console.error('Error loading settings:', e);
-      }
-    }
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // ========== حفظ في IndexedDB وطابور المزامنة ==========
+  // الحفظ يبدأ بعد التحميل فقط - وإلا تحذف القوائم الفارغة الأولى البيانات المحفوظة
+  // كل تغيير يُحفظ محلياً ثم يُضاف لطابور Supabase الذي يرفعه عند توفر الاتصال
 
-  // ========== حفظ في localStorage ==========
   useEffect(() => {
-    localStorage.setItem('automation-tasks', JSON.stringify(tasks));
-  }, [tasks]);
+    if (!hydrated) return;
+    const previous = persisted.current.tasks;
+    persisted.current.tasks = tasks;
+    persistCollectionChanges('tasks', previous, tasks).catch(e => console.error('Error saving tasks:', e));
+
+    // المهام القادمة من الخادم تطابق آخر نسخة متزامنة فلا تُعاد إليه
+    if (!syncUserId) return;
+    const previousById = new Map(previous.map(t => [t.id, t]));
+    const currentIds = new Set(tasks.map(t => t.id));
+    filterUnsyncedTasks(tasks.filter(t => previousById.get(t.id) !== t))
+      .then(unsynced => unsynced.forEach(task => enqueueSync(syncUserId, { type: 'task-upsert', task })))
+      .catch(e => console.error('Error queueing task sync:', e));
+    previous
+      .filter(t => !currentIds.has(t.id))
+      .forEach(t => enqueueSync(syncUserId, { type: 'task-delete', taskId: t.id }));
+  }, [tasks, hydrated, syncUserId]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const previous = persisted.current.logs;
+    persisted.current.logs = logs;
+    persistCollectionChanges('logs', previous, logs).catch(e => console.error('Error saving logs:', e));
+
+    // السجل يُرفع مرة واحدة عند اكتماله - تحديثات التقدم أثناء التشغيل محلية فقط
+    if (!syncUserId) return;
+    const previousById = new Map(previous.map(l => [l.id, l]));
+    logs
+      .filter(l => l.status !== 'running' && (!previousById.has(l.id) || previousById.get(l.id)!.status === 'running'))
+      .forEach(log => enqueueSync(syncUserId, { type: 'log-insert', log }));
+  }, [logs, hydrated, syncUserId]);
+
+  useEffect(() => {
+    if (!hydrated || persisted.current.settings === settings) return;
+    persisted.current.settings = settings;
+    setLocalValue('settings', LOCAL_SETTINGS_KEY, settings).catch(e => console.error('Error saving settings:', e));
+    if (syncUserId) enqueueSync(syncUserId, { type: 'settings-save', settings });
+  }, [settings, hydrated, syncUserId]);
+
+  // نتائج التشغيل المحلي تُحفظ عند انتهائها مع صورها كـ Blob، والأقدم من الحد تُحذف مع ملفاتها
+  useEffect(() => {
+    if (!hydrated) return;
+    const previousById = new Map(persisted.current.localResults.map(r => [r.id, r]));
+    persisted.current.localResults = localResults;
+
+    const finished = localResults.filter(r => r.status !== 'running' && previousById.get(r.id) !== r);
+    if (finished.length === 0) return;
 
+    Promise.all(finished.map(saveLocalRunResult))
+      .then(() => deleteLocalResults(localResults.slice(MAX_PERSISTED_LOCAL_RESULTS).map(r => r.id)))
+      .catch(e => console.error('Error saving local results:', e));
+  }, [localResults, hydrated]);
+
+  // العمليات المعلقة من جلسات سابقة تُرفع عند الدخول وعند عودة الاتصال
   useEffect(() => {
-    localStorage.setItem('automation-logs', JSON.stringify(logs));
-  }, [logs]);
+    if (!syncUserId) return;
+    return startSyncQueue();
+  }, [syncUserId]);
 
+  // المزامنة الثنائية تبدأ بعد تحميل المهام المحلية - وإلا بدت كل مهام الخادم جديدة
   useEffect(() => {
-    localStorage.setItem('automation-settings', JSON.stringify(settings));
-  }, [settings]);
+    if (!syncUserId || !hydrated) return;
+    return startTaskSync(syncUserId, {
+      getLocalTasks: () => tasksRef.current,
+      applyTasks: (updated, removedIds) => {
+        const updatedById = new Map(updated.map(t => [t.id, t]));
+        setTasks(prev => {
+          const kept = prev
+            .filter(t => !removedIds.includes(t.id))
+            .map(t => updatedById.get(t.id) || t);
+          const existing = new Set(prev.map(t => t.id));
+          return [...kept, ...updated.filter(t => !existing.has(t.id))];
+        });
+      },
+      queuePush: task => enqueueSync(syncUserId, { type: 'task-upsert', task })
+    });
+  }, [syncUserId, hydrated]);
 
   // ========== إدارة المهام ==========
 
@@ -472,7 +592,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         }
       }
       
-      await deployTasksToGitHub(githubAPI, selectedTasks, settings.stealth);
+      await deployTasksToGitHub(githubAPI, selectedTasks, settings.stealth, tasks.map(t => t.id));
       
       // إنشاء PR إذا طُلب
       if (deploySettings?.createPR && deploySettings.baseBranch) {
@@ -614,67 +734,65 @@ export function AppProvider({ children }: { children: ReactNode }) {
     addLog(log);
     updateTask({ ...task, status: 'running', lastRun: new Date() });
 
-    try {
-      // محاكاة تنفيذ خطوات المهمة
-      const steps = [
-        { name: 'تطبيق إعدادات التخفي', duration: 300 },
-        { name: `المستوى: ${settings.stealth.level}`, duration: 200 },
-        { name: 'إخفاء Webdriver', duration: 400 },
-        { name: 'تغيير User Agent', duration: 300 },
-        { name: 'تهيئة إعدادات العرض', duration: 300 },
-        { name: 'الاتصال بالموقع...', duration: 1000 },
-        { name: 'تنفيذ سكريبت المهمة...', duration: 1500 },
-        { name: 'التقاط لقطات الشاشة...', duration: 800 },
-        { name: 'جمع البيانات...', duration: 600 },
-      ];
-      
-      const executionLogs: string[] = [localResult.logs[0]];
-      
-      for (const step of steps) {
-        await new Promise(resolve => setTimeout(resolve, step.duration));
-        executionLogs.push(`✓ ${step.name}`);
-        
-        // تحديث النتيجة المحلية في كل خطوة
-        setLocalResults(prev => prev.map(r =>
-          r.id === localResult.id
-            ? { ...r, logs: executionLogs, updated_at: new Date().toISOString() }
-            : r
-        ));
+    const executionLogs: string[] = [...localResult.logs];
+    const artifacts: LocalArtifact[] = [];
+
+    // كل حدث من المشغّل المحلي يُعرض فوراً في النتائج والسجل
+    const publishProgress = () => {
+      const updatedAt = new Date().toISOString();
+      setLocalResults(prev => prev.map(r =>
+        r.id === localResult.id
+          ? { ...r, logs: [...executionLogs], artifacts: [...artifacts], updated_at: updatedAt }
+          : r
+      ));
+      setLogs(prev => prev.map(l => l.id === log.id ? { ...l, logs: [...executionLogs] } : l));
+    };
+
+    const handleEvent = (event: LocalRunnerEvent) => {
+      switch (event.type) {
+        case 'log':
+          executionLogs.push(event.message);
+          break;
+        case 'step':
+          executionLogs.push(`▶️ الخطوة ${event.index + 1}: ${event.label}`);
+          break;
+        case 'artifact':
+          artifacts.push(event.artifact);
+          break;
+        case 'done':
+          return;
       }
-      
-      // إنشاء artifacts وهمية
-      const artifacts: LocalArtifact[] = [
+      publishProgress();
+    };
+
+    try {
+      const outcome = await runOnLocalRunner(
         {
-          id: Date.now(),
-          name: 'screenshot-result.png',
-          size_in_bytes: 245678,
-          data: {
-            type: 'screenshot',
-            url: task.targetUrl,
-            timestamp: new Date().toISOString()
-          }
+          url: settings.execution.localRunner?.url || DEFAULT_LOCAL_RUNNER_URL,
+          token: settings.execution.localRunner?.token || ''
         },
         {
-          id: Date.now() + 1,
-          name: 'extracted-data.json',
-          size_in_bytes: 12345,
-          data: {
-            type: 'data',
-            items: [
-              { id: 1, title: 'عنصر 1', description: 'وصف العنصر 1' },
-              { id: 2, title: 'عنصر 2', description: 'وصف العنصر 2' },
-              { id: 3, title: 'عنصر 3', description: 'وصف العنصر 3' }
-            ],
-            count: 3
-          }
-        }
-      ];
-      
+          task: {
+            id: task.id,
+            name: task.name,
+            type: task.type,
+            script: task.script,
+            targetUrl: task.targetUrl,
+            metadata: task.metadata
+          },
+          options: { headless: settings.execution.localRunner?.headless !== false }
+        },
+        handleEvent
+      );
+
+      if (!outcome.success) {
+        throw new Error(outcome.error || 'فشلت المهمة');
+      }
+
       const endTime = new Date();
-      const duration = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
       
       executionLogs.push('');
-      executionLogs.push(`✅ اكتملت المهمة بنجاح في ${duration} ثانية`);
+      executionLogs.push(`✅ اكتملت المهمة بنجاح في ${outcome.duration} ثانية`);
       executionLogs.push(`📊 تم جمع ${artifacts.length} ملف نتائج`);
       
       // تحديث النتيجة النهائية
@@ -696,7 +814,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         ...log,
         status: 'success',
         endTime: endTime,
-        duration: duration,
+        duration: outcome.duration,
         logs: executionLogs
       };
 
@@ -708,18 +826,19 @@ export function AppProvider({ children }: { children: ReactNode }) {
     } catch (error: any) {
       const endTime = new Date();
       const errorLogs = [
-        ...localResult.logs,
+        ...executionLogs,
         '',
         `❌ خطأ: ${error.message}`
       ];
       
+      // صور الخطأ والبيانات الجزئية تبقى متاحة للتشخيص
       const errorResult: LocalTaskResult = {
         ...localResult,
         status: 'failed',
         conclusion: 'failure',
         updated_at: endTime.toISOString(),
         logs: errorLogs,
-        artifacts: []
+        artifacts
       };
       
       setLocalResults(prev => prev.map(r =>
@@ -778,7 +897,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         }
       }
       
-      await deployTasksToGitHub(githubAPI, selectedTasks, settings.stealth);
+      await deployTasksToGitHub(githubAPI, selectedTasks, settings.stealth, tasks.map(t => t.id));
       
       // إنشاء PR إذا طُلب
       if (settings.github?.createPR && settings.github.baseBranch) {
@@ -893,6 +1012,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   // تحميل artifact
   const downloadArtifact = async (artifactId: number) => {
+    // ملفات التشغيل المحلي تُجمع في ZIP بنفس شكل GitHub artifacts
+    const localArtifact = localResults
+      .flatMap(r => r.artifacts)
+      .find(a => a.id === artifactId);
+    if (localArtifact) {
+      const zip = new JSZip();
+      zip.file(localArtifact.name, localArtifactToBlob(localArtifact));
+      return zip.generateAsync({ type: 'blob' });
+    }
+
     if (!githubAPI) {
       throw new Error('غير متصل بـ GitHub');
     }
@@ -930,6 +1059,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     downloadArtifact,
     loading,
     setLoading,
+    hydrated,
     githubAPI
   };
 
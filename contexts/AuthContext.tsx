@@ -0,0 +1,170 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { User, Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { setLocalDatabaseUser } from '../utils/local-database';
+
+// نظام مصادقة محلي كامل مُحسّن للأداء
+const localAuth = {
+  signUp: (email: string, password: string, fullName: string) => {
+    const users = JSON.parse(localStorage.getItem('demo_users') || '[]');
+    if (users.some((u: any) => u.email === email)) {
+      return { data: null, error: { message: 'البريد مستخدم' } };
+    }
+    const newUser = {
+      id: 'user_' + Date.now(),
+      email,
+      password,
+      full_name: fullName,
+      created_at: new Date().toISOString(),
+    };
+    users.push(newUser);
+    localStorage.setItem('demo_users', JSON.stringify(users));
+    localStorage.setItem('current_user', JSON.stringify({ id: newUser.id, email: newUser.email, full_name: newUser.full_name }));
+    return { data: { user: newUser }, error: null };
+  },
+
+  signIn: (email: string, password: string) => {
+    const users = JSON.parse(localStorage.getItem('demo_users') || '[]');
+    const user = users.find((u: any) => u.email === email && u.password === password);
+    if (user) {
+      localStorage.setItem('current_user', JSON.stringify({ id: user.id, email: user.email, full_name: user.full_name }));
+      return { data: { user }, error: null };
+    }
+    return { data: null, error: { message: 'بيانات خاطئة' } };
+  },
+};
+
+// جلسة Supabase بنفس بيانات الدخول - لا تؤخر الدخول المحلي، وتصل عبر onAuthStateChange
+// الحساب المحلي فقط (تجريبي أو بلا اتصال) يعمل بدونها
+const remoteAuth = {
+  signIn: async (email: string, password: string) => {
+    try {
+      await supabase.auth.signInWithPassword({ email, password });
+    } catch {
+      // بدون جلسة تبقى البيانات محلية
+    }
+  },
+
+  signUp: async (email: string, password: string, fullName: string) => {
+    try {
+      const { data } = await supabase.auth.signUp({ email, password, options: { data: { full_name: fullName } } });
+      // الحساب موجود على الخادم مسبقاً (أُنشئ من جهاز آخر)
+      if (!data.session) await remoteAuth.signIn(email, password);
+    } catch {
+      // بدون جلسة تبقى البيانات محلية
+    }
+  },
+
+  signOut: async () => {
+    try {
+      await supabase.auth.signOut();
+    } catch {
+      // الجلسة المحفوظة تُمسح محلياً حتى بدون اتصال
+    }
+  },
+};
+
+type AuthResult = { data: { user: any } | null; error: { message: string } | null };
+
+type AuthContextType = {
+  user: User | null;
+  session: Session | null; // جلسة Supabase لنفس بريد المستخدم المحلي
+  // معرّف auth.uid() للمزامنة مع Supabase - null بدون جلسة فتبقى البيانات محلية
+  syncUserId: string | null;
+  loading: boolean;
+  signUp: (email: string, password: string, fullName: string) => Promise<AuthResult>;
+  signIn: (email: string, password: string) => Promise<AuthResult>;
+  signOut: () => Promise<{ error: null }>;
+  resetPassword: (email: string) => Promise<{ error: { message: string } }>;
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * حالة المصادقة مشتركة لكل التطبيق - الدخول من شاشة تسجيل الدخول يصل فوراً
+ * لـ AppContext وباقي المكونات بدل نسخة مستقلة في كل استدعاء لـ useAuth
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [remoteSession, setRemoteSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // قاعدة المستخدم المحلية تُختار قبل أن يراه أي مكوّن
+  const applyUser = (nextUser: any) => {
+    setLocalDatabaseUser(nextUser?.id ?? null);
+    setUser(nextUser);
+  };
+
+  // جلسة محفوظة لحساب آخر لا تُستخدم - وإلا رُفعت مهام هذا المستخدم لحساب غيره
+  const session = user && remoteSession?.user.email === user.email ? remoteSession : null;
+  const syncUserId = session?.user.id ?? null;
+
+  useEffect(() => {
+    // تحميل فوري للمستخدم من localStorage بدون تأخير
+    const currentUser = localStorage.getItem('current_user');
+    if (currentUser) {
+      try {
+        applyUser(JSON.parse(currentUser));
+      } catch (e) {
+        console.error('Error:', e);
+      }
+    }
+    setLoading(false);
+
+    // supabase-js يستعيد الجلسة من localStorage ويجددها - تبقى متاحة بدون اتصال
+    supabase.auth.getSession()
+      .then(({ data }) => setRemoteSession(data.session))
+      .catch(() => undefined);
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setRemoteSession(nextSession);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signUp = async (email: string, password: string, fullName: string) => {
+    // تنفيذ فوري بدون تأخير
+    const result = localAuth.signUp(email, password, fullName);
+    if (result.data) {
+      applyUser(result.data.user);
+      remoteAuth.signUp(email, password, fullName);
+    }
+    return result;
+  };
+
+  const signIn = async (email: string, password: string) => {
+    // تنفيذ فوري بدون تأخير
+    const result = localAuth.signIn(email, password);
+    if (result.data) {
+      applyUser(result.data.user);
+      remoteAuth.signIn(email, password);
+    }
+    return result;
+  };
+
+  const signOut = async () => {
+    // تنفيذ فوري بدون تأخير
+    localStorage.removeItem('current_user');
+    applyUser(null);
+    setRemoteSession(null);
+    remoteAuth.signOut();
+    return { error: null };
+  };
+
+  const resetPassword = async (email: string) => {
+    return { error: { message: 'تواصل مع الدعم لإعادة تعيين كلمة المرور' } };
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, session, syncUserId, loading, signUp, signIn, signOut, resetPassword }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+}
@@ -50,6 +50,7 @@ export type Database = {
           created_at: string;
           updated_at: string;
           last_run: string | null;
+          next_run: string | null;
           metadata: any;
         };
         Insert: {
@@ -65,6 +66,7 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           last_run?: string | null;
+          next_run?: string | null;
           metadata?: any;
         };
         Update: {
@@ -80,6 +82,7 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           last_run?: string | null;
+          next_run?: string | null;
           metadata?: any;
         };
       };
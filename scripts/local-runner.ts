@@ -0,0 +1,15 @@
+/**
+ * تشغيل خدمة المشغّل المحلي
+ * npm run local-runner
+ *
+ * المتغيرات:
+ * - LOCAL_RUNNER_PORT: المنفذ (الافتراضي 4777)
+ * - LOCAL_RUNNER_TOKEN: رمز ثابت بدل توليد رمز جديد في كل تشغيل
+ */
+
+import { startLocalRunnerService } from '../utils/local-runner-service';
+
+startLocalRunnerService({
+  port: Number(process.env.LOCAL_RUNNER_PORT) || undefined,
+  token: process.env.LOCAL_RUNNER_TOKEN || undefined,
+});
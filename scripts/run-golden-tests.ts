@@ -0,0 +1,56 @@
+/**
+ * تشغيل جميع اختبارات golden
+ * npm test
+ *
+ * يحمّل كل ملف utils/*-golden.ts ويشغّل دوال run*GoldenTests المصدّرة منه بالترتيب.
+ * فشل مجموعة لا يوقف البقية - رمز الخروج 1 إن فشلت أي مجموعة.
+ */
+
+import { readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { GoldenTestError } from '../utils/golden';
+
+const UTILS_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'utils');
+const GOLDEN_RUNNER_PATTERN = /^run\w+GoldenTests$/;
+
+// utils/github.ts يقرأ window.location عند التحميل (إعداد OAuth)
+(globalThis as any).window ??= { location: { origin: 'http://localhost', href: 'http://localhost/' } };
+
+async function runAllGoldenTests() {
+  const files = readdirSync(UTILS_DIR)
+    .filter(file => file.endsWith('-golden.ts'))
+    .sort();
+
+  let failedSuites = 0;
+  let passedCases = 0;
+
+  for (const file of files) {
+    const module = await import(pathToFileURL(join(UTILS_DIR, file)).href);
+    const runners = Object.entries(module).filter(([name, value]) => GOLDEN_RUNNER_PATTERN.test(name) && typeof value === 'function');
+
+    if (runners.length === 0) {
+      console.log(`⚠️ ${file}: لا توجد دالة run*GoldenTests`);
+      failedSuites++;
+      continue;
+    }
+
+    for (const [, runner] of runners) {
+      try {
+        const { passed } = await (runner as () => Promise<{ passed: number }>)();
+        passedCases += passed;
+      } catch (error: any) {
+        failedSuites++;
+        // GoldenTestError طبع تفاصيله بالفعل
+        if (!(error instanceof GoldenTestError)) {
+          console.log(`   ✗ ${file}: ${error?.stack || error}`);
+        }
+      }
+    }
+  }
+
+  console.log(failedSuites === 0 ? `\n✅ ${passedCases} حالة نجحت` : `\n❌ فشلت ${failedSuites} مجموعة`);
+  process.exitCode = failedSuites === 0 ? 0 : 1;
+}
+
+runAllGoldenTests();
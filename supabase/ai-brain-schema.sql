@@ -54,7 +54,7 @@ create table if not exists public.ai_knowledge (
   id uuid default gen_random_uuid() primary key,
   user_id uuid references auth.users on delete cascade not null,
   knowledge_id text unique not null,
-  category text not null check (category in ('selector', 'workflow', 'error_pattern', 'best_practice', 'code_fixes', 'error_fixes')),
+  category text not null check (category in ('selector', 'workflow', 'pattern', 'solution', 'insight', 'error_pattern', 'best_practice', 'code_fixes', 'error_fixes')),
   domain text not null,
   content jsonb not null,
   tags text[] default array[]::text[],
@@ -473,6 +473,18 @@ begin
 end;
 $$ language plpgsql security definer;
 
+-- ============================================
+-- 10. مخزن المعرفة الموحد (Unified Knowledge Store)
+-- ============================================
+-- المخزن يرفع فئات قاعدة المعرفة كلها (pattern, solution, insight) - للقواعد المنشأة قبل توسيع القيد
+alter table public.ai_knowledge drop constraint if exists ai_knowledge_category_check;
+alter table public.ai_knowledge add constraint ai_knowledge_category_check
+  check (category in ('selector', 'workflow', 'pattern', 'solution', 'insight', 'error_pattern', 'best_practice', 'code_fixes', 'error_fixes'));
+
+-- السحب يقارن updated_at لكل سجل (الأحدث يفوز)
+create index if not exists ai_knowledge_updated_at_idx on public.ai_knowledge(user_id, updated_at desc);
+create index if not exists ai_patterns_last_seen_idx on public.ai_patterns(user_id, last_seen desc);
+
 -- ============================================
 -- منح الصلاحيات
 -- ============================================
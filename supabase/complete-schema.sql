@@ -515,3 +515,44 @@ values
   ('anti-detection', 'timing', 'التوقيت الطبيعي', 'إضافة تأخيرات عشوائية بين الإجراءات لمحاكاة السلوك البشري', 8, 0.85),
   ('anti-detection', 'mouse', 'حركة الفأرة البشرية', 'استخدام مسارات عشوائية وطبيعية لحركة الفأرة', 7, 0.80),
   ('selectors', 'dynamic', 'محددات ديناميكية', 'استخدام XPath وCSS selectors الذكية للعناصر المتغيرة', 8, 0.88);
+
+-- =====================================================
+-- 13. جدولة المهام على الخادم (Server-side Scheduler)
+-- =====================================================
+-- تستدعي pg_cron دالة الخادم كل دقيقة لتشغيل المهام التي حان next_run لها
+-- الدالة ترفض كل طلب بدون SCHEDULER_SECRET مُعدّ وترويسة مطابقة له، لذلك المهمة معطّلة هنا
+-- ولا تُفعَّل إلا بعد إعداد القيمتين. للتفعيل:
+--   1. اضبط سر الدالة:   supabase secrets set SCHEDULER_SECRET=<قيمة عشوائية طويلة>
+--   2. خزّن القيمتين في Vault (لا تُكتبان في هذا الملف ولا في cron.job):
+--        select vault.create_secret('<service-role-key>', 'scheduler_service_role_key');
+--        select vault.create_secret('<نفس قيمة SCHEDULER_SECRET>', 'scheduler_secret');
+--   3. نفّذ الكتلة التالية بعد إزالة التعليق
+--   للإيقاف: select cron.unschedule('task-scheduler-tick');
+-- بدون هذه المهمة تبقى الجدولة على on.schedule في workflows المهام (GitHub)
+
+-- create extension if not exists pg_cron;
+-- create extension if not exists pg_net;
+--
+-- select cron.schedule(
+--   'task-scheduler-tick',
+--   '* * * * *',
+--   $$
+--   select net.http_post(
+--     url := 'https://uynclowpzanosjutanpl.supabase.co/functions/v1/make-server-5e44901d/scheduler/tick',
+--     headers := jsonb_build_object(
+--       'Content-Type', 'application/json',
+--       'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'scheduler_service_role_key'),
+--       'X-Scheduler-Secret', (select decrypted_secret from vault.decrypted_secrets where name = 'scheduler_secret')
+--     ),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
+
+-- =====================================================
+-- 14. المزامنة اللحظية للمهام (Realtime)
+-- =====================================================
+-- الواجهة تشترك في تعديلات جدول tasks لتظهر تعديلات الأجهزة الأخرى فوراً
+-- والرفع مشروط بـ updated_at (يحدّثه set_updated_at_tasks) لاكتشاف التعارضات
+
+alter publication supabase_realtime add table public.tasks;
@@ -0,0 +1,341 @@
+/**
+ * جدولة المهام - محلل cron وتحويل إعدادات الجدولة إلى cron بتوقيت UTC
+ * يُستخدم في دالة الخادم supabase/functions/server وفي المتصفح عبر utils/schedule.ts
+ * (واجهة الجدولة وتوليد workflows) - دوال Supabase تُنشر من supabase/functions فقط
+ * لذلك يبقى هنا ولا يستورد أي وحدة أخرى
+ */
+
+export type ScheduleType = 'once' | 'interval' | 'cron' | 'daily' | 'weekly';
+
+export type ScheduleConfig = {
+  time?: string; // HH:mm بالتوقيت المحلي للمستخدم
+  interval?: number; // دقائق
+  cron?: string;
+  daysOfWeek?: number[]; // 0-6 (الأحد-السبت)
+  date?: string; // YYYY-MM-DD
+};
+
+// الجدولة المحفوظة في task.metadata.schedule - الخادم يحدّث nextRun/lastRun/runCount
+export type TaskSchedule = {
+  enabled: boolean;
+  type: ScheduleType;
+  config: ScheduleConfig;
+  cron?: string; // cron بتوقيت UTC - غير موجود لـ once والفترات التي لا يعبّر عنها cron
+  parallelInstances: number;
+  maxRetries: number;
+  nextRun?: string; // ISO
+  lastRun?: string; // ISO
+  runCount: number;
+  status: 'active' | 'paused' | 'completed' | 'failed';
+  lastError?: string; // آخر خطأ تشغيل من الخادم
+};
+
+export class CronParseError extends Error {
+  constructor(message: string, public expression: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+type CronField = {
+  values: Set<number>;
+  restricted: boolean; // false عندما يبدأ الحقل بـ * - مهم لدمج يوم الشهر ويوم الأسبوع
+};
+
+export type CronExpression = {
+  source: string;
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+// القيم القديمة لـ task.schedule ما زالت مقبولة
+export const SCHEDULE_PRESETS: Record<string, string> = {
+  hourly: '0 * * * *',
+  'every-6-hours': '0 */6 * * *',
+  'every-12-hours': '0 */12 * * *',
+  daily: '0 0 * * *',
+  weekly: '0 0 * * 0',
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS: { name: string; min: number; max: number; names?: string[]; nameOffset?: number }[] = [
+  { name: 'الدقيقة', min: 0, max: 59 },
+  { name: 'الساعة', min: 0, max: 23 },
+  { name: 'يوم الشهر', min: 1, max: 31 },
+  { name: 'الشهر', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'يوم الأسبوع', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(text: string, field: typeof FIELDS[number], expression: string): number {
+  const name = text.toLowerCase();
+  if (field.names && field.names.includes(name)) {
+    return field.names.indexOf(name) + (field.nameOffset || 0);
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new CronParseError(`قيمة غير صالحة في ${field.name}: "${text}"`, expression);
+  }
+  const value = Number(text);
+  if (value < field.min || value > field.max) {
+    throw new CronParseError(`${field.name} خارج النطاق ${field.min}-${field.max}: ${value}`, expression);
+  }
+  return value;
+}
+
+function parseField(text: string, field: typeof FIELDS[number], expression: string): CronField {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new CronParseError(`جزء غير صالح في ${field.name}: "${part}"`, expression);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`خطوة غير صالحة في ${field.name}: "${stepText}"`, expression);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field, expression);
+      end = parseValue(to, field, expression);
+      if (start > end) {
+        throw new CronParseError(`نطاق معكوس في ${field.name}: "${range}"`, expression);
+      }
+    } else {
+      start = parseValue(range, field, expression);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: !text.startsWith('*') };
+}
+
+/**
+ * تحليل تعبير cron من 5 حقول (دقيقة ساعة يوم شهر يوم-أسبوع)
+ * يدعم * و , و - و / وأسماء الأشهر والأيام والاختصارات مثل @daily
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = resolveCronExpression(expression);
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(`يجب أن يحتوي التعبير على 5 حقول، وُجد ${parts.length}`, expression);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression)
+  );
+
+  // 7 = الأحد مثل 0
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return { source, minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+export function resolveCronExpression(expression: string): string {
+  const trimmed = expression.trim();
+  return SCHEDULE_PRESETS[trimmed.toLowerCase()] || trimmed;
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.dayOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = cron.dayOfWeek.values.has(date.getUTCDay());
+
+  // مثل cron التقليدي: إذا قُيّد الحقلان يكفي تطابق أحدهما
+  if (cron.dayOfMonth.restricted && cron.dayOfWeek.restricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * موعد التشغيل التالي بعد from (بتوقيت UTC) - null إذا لم يكن للتعبير موعد
+ * خلال السنوات القادمة (مثل 30 فبراير)
+ */
+export function getNextCronRun(expression: string | CronExpression, from: Date = new Date()): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(from.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const lastYear = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= lastYear) {
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
+
+export function getNextCronRuns(expression: string, count: number, from: Date = new Date()): Date[] {
+  const cron = parseCron(expression);
+  const runs: Date[] = [];
+  let cursor: Date | null = from;
+
+  while (runs.length < count && (cursor = getNextCronRun(cron, cursor))) {
+    runs.push(cursor);
+  }
+  return runs;
+}
+
+// ========== تحويل إعدادات الجدولة ==========
+
+/**
+ * تحويل وقت محلي HH:mm إلى UTC - dayShift يوضح إن عبر الوقت منتصف الليل
+ * timezoneOffset بنفس معنى Date.getTimezoneOffset() (UTC = المحلي + الفرق)
+ */
+function localTimeToUtc(time: string, timezoneOffset: number): { hour: number; minute: number; dayShift: number } {
+  const [hours, minutes] = time.split(':').map(Number);
+  const total = hours * 60 + minutes + timezoneOffset;
+  const utc = ((total % 1440) + 1440) % 1440;
+  return { hour: Math.floor(utc / 60), minute: utc % 60, dayShift: Math.floor(total / 1440) };
+}
+
+function intervalToCron(minutes: number): string | undefined {
+  if (minutes < 60 && 60 % minutes === 0) return `*/${minutes} * * * *`;
+  if (minutes === 60) return '0 * * * *';
+  if (minutes === 1440) return '0 0 * * *';
+  if (minutes % 60 === 0 && 24 % (minutes / 60) === 0) return `0 */${minutes / 60} * * *`;
+  return undefined;
+}
+
+/**
+ * cron بتوقيت UTC لإعدادات الجدولة - undefined لـ once وللفترات غير المنتظمة
+ * (مثل كل 45 دقيقة) التي يحسبها الخادم بإضافة الفترة لآخر تشغيل.
+ * الأوقات المحلية تُحوَّل بفرق التوقيت الحالي - تغيّر التوقيت الصيفي يتطلب إعادة الحفظ
+ */
+export function compileScheduleCron(
+  type: ScheduleType,
+  config: ScheduleConfig,
+  timezoneOffset: number = new Date().getTimezoneOffset()
+): string | undefined {
+  switch (type) {
+    case 'cron':
+      return config.cron ? parseCron(config.cron).source : undefined;
+
+    case 'interval':
+      return config.interval ? intervalToCron(config.interval) : undefined;
+
+    case 'daily': {
+      if (!config.time) return undefined;
+      const { hour, minute } = localTimeToUtc(config.time, timezoneOffset);
+      return `${minute} ${hour} * * *`;
+    }
+
+    case 'weekly': {
+      if (!config.time || !config.daysOfWeek?.length) return undefined;
+      const { hour, minute, dayShift } = localTimeToUtc(config.time, timezoneOffset);
+      const days = Array.from(new Set(config.daysOfWeek.map(day => (((day + dayShift) % 7) + 7) % 7)));
+      return `${minute} ${hour} * * ${days.sort((a, b) => a - b).join(',')}`;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * موعد التشغيل التالي للجدولة بعد from - null عندما لا يوجد تشغيل آخر
+ */
+export function getNextScheduleRun(schedule: TaskSchedule, from: Date = new Date()): Date | null {
+  if (schedule.type === 'once') {
+    // التاريخ والوقت محليان - يُحسب في المتصفح فقط، والخادم يُنهي الجدولة بعد تشغيلها
+    if (!schedule.config.date || !schedule.config.time) return null;
+    const runAt = new Date(`${schedule.config.date}T${schedule.config.time}`);
+    const alreadyRan = schedule.lastRun && new Date(schedule.lastRun) >= runAt;
+    return runAt > from && !alreadyRan ? runAt : null;
+  }
+
+  if (schedule.cron) {
+    return getNextCronRun(schedule.cron, from);
+  }
+
+  if (schedule.type === 'interval' && schedule.config.interval) {
+    return new Date(from.getTime() + schedule.config.interval * 60000);
+  }
+
+  return null;
+}
+
+/**
+ * إنشاء جدولة جاهزة للحفظ من إعدادات الواجهة - يرمي CronParseError لتعبير غير صالح
+ */
+export function buildTaskSchedule(
+  draft: Pick<TaskSchedule, 'type' | 'config' | 'enabled' | 'parallelInstances' | 'maxRetries'>,
+  previous?: TaskSchedule
+): TaskSchedule {
+  const schedule: TaskSchedule = {
+    runCount: 0,
+    status: 'active',
+    ...previous,
+    ...draft,
+    cron: compileScheduleCron(draft.type, draft.config),
+  };
+
+  const nextRun = schedule.enabled ? getNextScheduleRun(schedule) : null;
+  schedule.nextRun = nextRun?.toISOString();
+  return schedule;
+}
+
+/**
+ * cron مناسب لكتلة on.schedule في GitHub Actions - GitHub لا يدعم الاختصارات مثل @daily
+ */
+export function getWorkflowCron(schedule: TaskSchedule | undefined, legacySchedule?: string): string | undefined {
+  if (schedule) {
+    return schedule.enabled && schedule.status === 'active' && schedule.cron
+      ? resolveCronExpression(schedule.cron)
+      : undefined;
+  }
+  return legacySchedule && isValidCron(legacySchedule) ? resolveCronExpression(legacySchedule) : undefined;
+}
@@ -2,6 +2,7 @@ import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import * as kv from "./kv_store.tsx";
+import { runSchedulerTick } from "./scheduler.tsx";
 const app = new Hono();
 
 // Enable logger
@@ -24,4 +25,24 @@ app.get("/make-server-5e44901d/health", (c) => {
   return c.json({ status: "ok" });
 });
 
+// Scheduler tick - يستدعيه pg_cron كل دقيقة لتشغيل المهام المستحقة
+app.post("/make-server-5e44901d/scheduler/tick", async (c) => {
+  // بدون سر مُعدّ يرفض الطلب - وإلا يستطيع أي أحد تشغيل المهام المستحقة
+  const secret = Deno.env.get("SCHEDULER_SECRET");
+  if (!secret) {
+    console.error("Scheduler tick rejected: SCHEDULER_SECRET is not configured");
+    return c.json({ error: "scheduler secret not configured" }, 500);
+  }
+  if (c.req.header("X-Scheduler-Secret") !== secret) {
+    return c.json({ error: "unauthorized" }, 401);
+  }
+
+  try {
+    return c.json(await runSchedulerTick());
+  } catch (error) {
+    console.error("Scheduler tick failed:", error);
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
+
 Deno.serve(app.fetch);
\ No newline at end of file
@@ -0,0 +1,171 @@
+// Server-side task scheduler - يشغّل المهام المستحقة (tasks.next_run <= الآن)
+// عبر workflow_dispatch ثم يحسب next_run التالي من cron الجدولة.
+// يُستدعى كل دقيقة من pg_cron (انظر supabase/complete-schema.sql - القسم 13)
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import { getNextScheduleRun, type TaskSchedule } from "../_shared/schedule.ts";
+
+const GITHUB_API = "https://api.github.com";
+// عند وجود الخادم تتجاهل workflows أحداث on.schedule لتجنب التشغيل المزدوج
+const SERVER_SCHEDULER_VARIABLE = "SERVER_SCHEDULER";
+const MAX_TASKS_PER_TICK = 100;
+
+type DueTask = {
+  id: string;
+  user_id: string;
+  name: string;
+  next_run: string;
+  metadata: Record<string, any> | null;
+};
+
+type GitHubSettings = {
+  github_token: string | null;
+  github_owner: string | null;
+  github_repo: string | null;
+  github_branch: string | null;
+};
+
+export type SchedulerTickResult = {
+  checked: number;
+  dispatched: string[];
+  failed: { taskId: string; error: string }[];
+};
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+async function githubRequest(settings: GitHubSettings, path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${GITHUB_API}/repos/${settings.github_owner}/${settings.github_repo}${path}`, {
+    ...init,
+    headers: {
+      "Authorization": `Bearer ${settings.github_token}`,
+      "Accept": "application/vnd.github+json",
+      "Content-Type": "application/json",
+      "X-GitHub-Api-Version": "2022-11-28",
+    },
+  });
+}
+
+async function ensureServerSchedulerVariable(settings: GitHubSettings): Promise<void> {
+  const body = JSON.stringify({ name: SERVER_SCHEDULER_VARIABLE, value: "true" });
+  const updated = await githubRequest(settings, `/actions/variables/${SERVER_SCHEDULER_VARIABLE}`, { method: "PATCH", body });
+  if (updated.status !== 404) return;
+
+  const created = await githubRequest(settings, "/actions/variables", { method: "POST", body });
+  if (!created.ok) {
+    // ليس خطأ قاتلاً - أسوأ الحالات تشغيل إضافي من cron GitHub
+    console.warn(`⚠️ تعذر إنشاء متغير ${SERVER_SCHEDULER_VARIABLE}: ${created.status}`);
+  }
+}
+
+async function dispatchTaskWorkflow(settings: GitHubSettings, taskId: string): Promise<void> {
+  const response = await githubRequest(settings, `/actions/workflows/task-${taskId}.yml/dispatches`, {
+    method: "POST",
+    body: JSON.stringify({ ref: settings.github_branch || "main" }),
+  });
+  if (!response.ok) {
+    throw new Error(`GitHub ${response.status}: ${await response.text()}`);
+  }
+}
+
+/**
+ * تنفيذ دورة واحدة: حجز كل مهمة مستحقة بتحديث next_run شرطياً ثم تشغيلها.
+ * الحجز يمنع دورتين متداخلتين من تشغيل نفس المهمة مرتين
+ */
+export async function runSchedulerTick(now: Date = new Date()): Promise<SchedulerTickResult> {
+  const supabase = client();
+  const result: SchedulerTickResult = { checked: 0, dispatched: [], failed: [] };
+
+  const { data: tasks, error } = await supabase
+    .from("tasks")
+    .select("id, user_id, name, next_run, metadata")
+    .not("next_run", "is", null)
+    .lte("next_run", now.toISOString())
+    .order("next_run", { ascending: true })
+    .limit(MAX_TASKS_PER_TICK);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const settingsByUser = new Map<string, GitHubSettings | null>();
+  const preparedRepos = new Set<string>();
+
+  for (const task of (tasks || []) as DueTask[]) {
+    result.checked++;
+    const schedule = task.metadata?.schedule as TaskSchedule | undefined;
+
+    if (!schedule?.enabled || schedule.status === "paused") {
+      await supabase.from("tasks").update({ next_run: null }).eq("id", task.id);
+      continue;
+    }
+
+    // مرة واحدة تنتهي بعد تشغيلها - الباقي يُحسب من cron أو الفترة
+    const nextRun = schedule.type === "once" ? null : getNextScheduleRun(schedule, now);
+    const updatedSchedule: TaskSchedule = {
+      ...schedule,
+      lastRun: now.toISOString(),
+      nextRun: nextRun?.toISOString(),
+      runCount: (schedule.runCount || 0) + 1,
+      lastError: undefined,
+      status: nextRun ? schedule.status : "completed",
+      enabled: nextRun ? schedule.enabled : false,
+    };
+
+    const { data: claimed, error: claimError } = await supabase
+      .from("tasks")
+      .update({
+        next_run: nextRun?.toISOString() ?? null,
+        last_run: now.toISOString(),
+        metadata: { ...task.metadata, schedule: updatedSchedule },
+      })
+      .eq("id", task.id)
+      .eq("next_run", task.next_run)
+      .select("id");
+
+    if (claimError || !claimed?.length) continue;
+
+    try {
+      if (!settingsByUser.has(task.user_id)) {
+        const { data: settings } = await supabase
+          .from("settings")
+          .select("github_token, github_owner, github_repo, github_branch")
+          .eq("user_id", task.user_id)
+          .maybeSingle();
+        settingsByUser.set(task.user_id, settings);
+      }
+
+      const settings = settingsByUser.get(task.user_id);
+      if (!settings?.github_token || !settings.github_owner || !settings.github_repo) {
+        throw new Error("إعدادات GitHub غير مكتملة لهذا المستخدم");
+      }
+
+      const repoKey = `${settings.github_owner}/${settings.github_repo}`;
+      if (!preparedRepos.has(repoKey)) {
+        await ensureServerSchedulerVariable(settings);
+        preparedRepos.add(repoKey);
+      }
+
+      // الـ workflow يحمل المعرّف المحلي للمهمة - id صفها uuid مشتق منه
+      const workflowTaskId = task.metadata?.localId ?? task.id;
+      for (let instance = 0; instance < Math.max(1, schedule.parallelInstances || 1); instance++) {
+        await dispatchTaskWorkflow(settings, workflowTaskId);
+      }
+
+      console.log(`▶️ Dispatched scheduled task: ${task.name} (${task.id})`);
+      result.dispatched.push(task.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Scheduled dispatch failed for ${task.id}: ${message}`);
+      result.failed.push({ taskId: task.id, error: message });
+
+      await supabase
+        .from("tasks")
+        .update({ metadata: { ...task.metadata, schedule: { ...updatedSchedule, lastError: message } } })
+        .eq("id", task.id);
+    }
+  }
+
+  return result;
+}
@@ -3,6 +3,8 @@
  * These types are used across multiple components and contexts
  */
 
+import type { ElementSignature } from './utils/ai-brain/supreme-robot-brain';
+
 export type Task = {
   id: string;
   name: string;
@@ -16,7 +18,9 @@ export type Task = {
   lastRun?: Date;
   metadata?: {
     source?: 'visual-builder' | 'advanced-builder' | 'smart-builder' | 'task-editor' | 'template';
-    stepsData?: string; // JSON string of steps for visual builders
+    stepGraph?: StepGraph; // تمثيل الخطوات الموحد - المصدر الذي يُولَّد منه script
+    /** @deprecated JSON string of steps from older builders - read via readTaskStepGraph */
+    stepsData?: string;
     [key: string]: any;
   };
 };
@@ -33,3 +37,188 @@ export type ExecutionLog = {
   screenshot?: string;
   data?: any;
 };
+
+// حالة خطوة واحدة في جلسة تنفيذ - تعرضها StepExecutionMonitor
+export type StepStatus = {
+  stepId: string;
+  stepNumber: number;
+  stepType: string;
+  status: 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+  startTime?: Date;
+  endTime?: Date;
+  duration?: number;
+  error?: string;
+  output?: any;
+  screenshot?: string;
+  video?: string;
+  logs: string[];
+  retryCount: number;
+  fallbackUsed?: number; // index of fallback used
+};
+
+export type ExecutionSession = {
+  id: string;
+  taskName: string;
+  startTime: Date;
+  endTime?: Date;
+  status: 'running' | 'completed' | 'failed' | 'paused';
+  steps: StepStatus[];
+  totalSteps: number;
+  completedSteps: number;
+  failedSteps: number;
+};
+
+// حدث خطوة يطبعه السكريبت المنشور كسطر JSON في سجل التشغيل (انظر STEP_EVENTS_RUNTIME)
+export type StepEvent = {
+  stepId: string;
+  stepNumber: number;
+  stepType: string;
+  status: 'running' | 'success' | 'failed' | 'skipped';
+  duration?: number;
+  error?: string;
+  retryCount: number;
+  fallbackUsed?: number;
+  timestamp: string;
+};
+
+// محتوى ملف نتائج من المشغّل المحلي - الصور تُنقل base64 لأنها تُبث كسطور JSON
+export type LocalArtifactData =
+  | { type: 'screenshot'; mimeType: 'image/png'; base64: string; stepId?: string; timestamp: string }
+  | { type: 'data'; items: any[]; count: number };
+
+export type LocalArtifact = {
+  id: number;
+  name: string;
+  size_in_bytes: number;
+  data: LocalArtifactData;
+};
+
+// ========== Step Graph IR ==========
+// التمثيل الوسيط الموحد للخطوات - تقرأه وتكتبه جميع المنشئات
+// ويُولَّد منه Task.script عبر utils/step-codegen.ts
+
+export type StepType =
+  | 'navigate'
+  | 'click'
+  | 'type'
+  | 'select'
+  | 'wait'
+  | 'extract'
+  | 'screenshot'
+  | 'scroll'
+  | 'video'
+  | 'fillForm'
+  | 'aiStep'
+  | 'rawCode'
+  // خطوات التحكم - تحتوي خطوات داخلية في children
+  | 'forEach'
+  | 'repeatUntil'
+  | 'if'
+  | 'setVariable'
+  | 'crawl'
+  | 'assert';
+
+export type StepParams = {
+  url?: string;
+  selector?: string;
+  text?: string;
+  type?: 'time' | 'selector'; // نوع الانتظار لخطوة wait
+  duration?: number;
+  fullPage?: boolean;
+  position?: string;
+  attribute?: string; // الخاصية المستخرجة لخطوة extract (textContent, href...)
+  prompt?: string;
+  code?: string; // كود خام لخطوة rawCode
+  itemVariable?: string; // اسم متغير العنصر الحالي في forEach
+  limit?: number; // أقصى عدد عناصر في forEach (0 = بلا حد)
+  conditionType?: StepCondition['type']; // شرط if و repeatUntil
+  target?: string;
+  stopWhen?: 'met' | 'not_met'; // repeatUntil يتوقف عند تحقق الشرط أو عند عدم تحققه
+  maxIterations?: number;
+  name?: string; // اسم المتغير في setVariable
+  source?: 'text' | 'attribute' | 'url' | 'value'; // مصدر قيمة setVariable
+  value?: string;
+  pagination?: 'nextLink' | 'infiniteScroll'; // طريقة الانتقال للصفحة التالية في crawl
+  nextSelector?: string;
+  maxPages?: number;
+  maxItems?: number; // 0 = بلا حد
+  dedupeKey?: string; // الحقل الذي تُزال به السجلات المكررة
+  checkpoint?: boolean; // حفظ نقطة استئناف بعد كل صفحة
+  schema?: ExtractionField[]; // حقول السجل المنظم في extract و crawl
+  assertion?: AssertionType; // نوع التحقق في خطوة assert
+  expected?: string; // القيمة المتوقعة (نص، نمط regex، عدد، أو رمز حالة مثل 200 و 2xx)
+  countOperator?: 'equals' | 'atLeast' | 'atMost'; // مقارنة عدد العناصر
+  timeout?: number; // مهلة انتظار تحقق الشرط بالميلي ثانية
+  label?: string; // اسم التحقق في تقرير الاختبار
+  [key: string]: any;
+};
+
+export type AssertionType =
+  | 'visible'
+  | 'textEquals'
+  | 'textContains'
+  | 'textMatches'
+  | 'urlMatches'
+  | 'count'
+  | 'attribute'
+  | 'responseStatus';
+
+// نتيجة تحقق واحد كما يجمعها السكريبت في assertions - حالة testcase في تقرير JUnit
+export type AssertionResult = {
+  stepId: string;
+  name: string;
+  assertion: AssertionType;
+  status: 'passed' | 'failed';
+  expected: string | null;
+  actual: string | number | null;
+  duration: number;
+  error?: string;
+};
+
+export type ExtractionFieldType = 'text' | 'number' | 'price' | 'date' | 'url';
+
+// حقل واحد في مخطط الاستخراج - selector نسبي لعنصر السجل (فارغ = العنصر نفسه)
+export type ExtractionField = {
+  name: string;
+  selector: string;
+  source: 'text' | 'attribute' | 'html';
+  attribute?: string;
+  type: ExtractionFieldType;
+  required: boolean;
+};
+
+// حقل لم يُحوَّل لنوعه أو حقل إلزامي فارغ - index هو ترتيب العنصر في الصفحة
+export type ExtractionFieldError = {
+  index: number;
+  field: string;
+  value: string | null;
+  reason: string;
+};
+
+export type StepCondition = {
+  type: 'element_exists' | 'element_visible' | 'url_contains' | 'text_contains';
+  target: string;
+  action: 'continue' | 'skip' | 'retry' | 'fail';
+};
+
+export type StepErrorHandling = {
+  ignoreErrors: boolean;
+  retryCount: number;
+};
+
+export type StepNode = {
+  id: string;
+  type: StepType;
+  params: StepParams;
+  fallbacks: StepParams[];
+  conditions: StepCondition[];
+  errorHandling: StepErrorHandling;
+  children?: StepNode[]; // جسم forEach / repeatUntil / فرع then في if
+  elseChildren?: StepNode[]; // فرع else في if
+  signature?: ElementSignature; // بصمة العنصر المستهدف - يعالج بها السكريبت المنشور المحدد المكسور
+};
+
+export type StepGraph = {
+  version: number;
+  steps: StepNode[];
+};
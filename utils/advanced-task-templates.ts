@@ -3,6 +3,8 @@
  * تشمل أنواع متعددة من المهام: جمع البيانات، الاختبار، المراقبة، التحليل
  */
 
+import type { MonitoringConfig } from './data-diff';
+
 export type TaskCategory = 
   | 'data-collection' 
   | 'testing' 
@@ -30,6 +32,7 @@ export interface AdvancedTaskTemplate {
   parameters: TemplateParameter[];
   script: string;
   aiInstructions?: string;
+  monitoring?: MonitoringConfig; // إعداد metadata.monitoring الافتراضي للمهام المنشأة من القالب
 }
 
 export interface TemplateParameter {
@@ -74,6 +77,23 @@ export const advancedTemplates: AdvancedTaskTemplate[] = [
         defaultValue: 50,
         description: 'الحد الأقصى لعدد المنتجات المراد جمعها'
       },
+      {
+        id: 'maxPages',
+        name: 'عدد الصفحات',
+        type: 'number',
+        required: false,
+        defaultValue: 5,
+        description: 'الحد الأقصى لصفحات النتائج التي يتم التنقل بينها'
+      },
+      {
+        id: 'nextSelector',
+        name: 'رابط الصفحة التالية',
+        type: 'text',
+        required: false,
+        defaultValue: 'a[rel="next"], .pagination .next a, a.next',
+        description: 'Selector زر أو رابط الصفحة التالية',
+        placeholder: 'a[rel="next"]'
+      },
       {
         id: 'fields',
         name: 'الحقول المطلوبة',
@@ -85,6 +105,9 @@ export const advancedTemplates: AdvancedTaskTemplate[] = [
     ],
     script: `async function run(page, params) {
   const products = [];
+  const seen = new Set();
+  const maxProducts = params.maxProducts || 50;
+  const maxPages = params.maxPages || 5;
   let currentPage = 1;
   
   console.log('🛒 بدء جمع بيانات المنتجات...');
@@ -103,9 +126,11 @@ export const advancedTemplates: AdvancedTaskTemplate[] = [
   ];
   
   let productElements = null;
+  let productSelector = null;
   for (const selector of productSelectors) {
     productElements = await page.$$(selector);
     if (productElements.length > 0) {
+      productSelector = selector;
       console.log(\`✓ تم العثور على \${productElements.length} منتج باستخدام: \${selector}\`);
       break;
     }
@@ -130,47 +155,68 @@ export const advancedTemplates: AdvancedTaskTemplate[] = [
     console.log('📊 تحليل البنية:', pageStructure);
   }
   
-  // جمع البيانات
-  for (const element of productElements.slice(0, params.maxProducts || 50)) {
-    try {
-      const product = await element.evaluate((el, fields) => {
-        const data = {};
-        
-        // جمع البيانات بذكاء
-        if (fields.includes('name')) {
-          data.name = el.querySelector('h1, h2, h3, .title, .name, [data-name]')?.textContent?.trim();
-        }
-        
-        if (fields.includes('price')) {
-          const priceEl = el.querySelector('.price, [data-price], .cost, .amount');
-          data.price = priceEl?.textContent?.trim();
-        }
-        
-        if (fields.includes('rating')) {
-          const ratingEl = el.querySelector('.rating, [data-rating], .stars');
-          data.rating = ratingEl?.textContent?.trim() || ratingEl?.getAttribute('aria-label');
-        }
-        
-        if (fields.includes('image')) {
-          const img = el.querySelector('img');
-          data.image = img?.src || img?.getAttribute('data-src');
-        }
+  // جمع البيانات صفحة بصفحة حتى الحد الأقصى للصفحات أو المنتجات
+  while (productSelector && productElements.length > 0) {
+    let added = 0;
+
+    for (const element of productElements) {
+      if (products.length >= maxProducts) break;
+      try {
+        // نفس المنتج قد يظهر في أكثر من صفحة - المفتاح رابطه أو نصه
+        const key = await element.evaluate(el => el.querySelector('a')?.href || el.textContent.trim());
+        if (seen.has(key)) continue;
+
+        const product = await element.evaluate((el, fields) => {
+          const data = {};
+          
+          // جمع البيانات بذكاء
+          if (fields.includes('name')) {
+            data.name = el.querySelector('h1, h2, h3, .title, .name, [data-name]')?.textContent?.trim();
+          }
+          
+          if (fields.includes('price')) {
+            const priceEl = el.querySelector('.price, [data-price], .cost, .amount');
+            data.price = priceEl?.textContent?.trim();
+          }
+          
+          if (fields.includes('rating')) {
+            const ratingEl = el.querySelector('.rating, [data-rating], .stars');
+            data.rating = ratingEl?.textContent?.trim() || ratingEl?.getAttribute('aria-label');
+          }
+          
+          if (fields.includes('image')) {
+            const img = el.querySelector('img');
+            data.image = img?.src || img?.getAttribute('data-src');
+          }
+          
+          if (fields.includes('link')) {
+            const link = el.querySelector('a');
+            data.link = link?.href;
+          }
+          
+          return data;
+        }, params.fields);
         
-        if (fields.includes('link')) {
-          const link = el.querySelector('a');
-          data.link = link?.href;
+        if (product.name) {
+          seen.add(key);
+          products.push(product);
+          added++;
+          console.log(\`✓ تم جمع: \${product.name}\`);
         }
-        
-        return data;
-      }, params.fields);
-      
-      if (product.name) {
-        products.push(product);
-        console.log(\`✓ تم جمع: \${product.name}\`);
+      } catch (err) {
+        console.warn('⚠️ خطأ في جمع منتج:', err.message);
       }
-    } catch (err) {
-      console.warn('⚠️ خطأ في جمع منتج:', err.message);
     }
+
+    console.log(\`📄 الصفحة \${currentPage}: \${added} منتج جديد\`);
+    if (added === 0 || products.length >= maxProducts || currentPage >= maxPages) break;
+
+    const nextLink = await page.$(params.nextSelector || 'a[rel="next"]');
+    if (!nextLink) break;
+    await nextLink.click();
+    await page.waitForLoadState('networkidle');
+    currentPage++;
+    productElements = await page.$$(productSelector);
   }
   
   console.log(\`✅ تم جمع \${products.length} منتج بنجاح\`);
@@ -180,6 +226,7 @@ export const advancedTemplates: AdvancedTaskTemplate[] = [
     data: products,
     summary: {
       total: products.length,
+      pages: currentPage,
       source: params.targetUrl,
       timestamp: new Date().toISOString()
     }
@@ -272,7 +319,13 @@ export const advancedTemplates: AdvancedTaskTemplate[] = [
     }
   };
 }`,
-    aiInstructions: 'قم باكتشاف السعر تلقائياً من أي موقع. تعلم من أنماط مختلفة للعملات والأسعار.'
+    aiInstructions: 'قم باكتشاف السعر تلقائياً من أي موقع. تعلم من أنماط مختلفة للعملات والأسعار.',
+    monitoring: {
+      enabled: true,
+      keyFields: [],
+      ignoreFields: ['timestamp', 'alert', 'price.formatted'],
+      thresholds: { 'price.value': 1 }
+    }
   },
 
   {
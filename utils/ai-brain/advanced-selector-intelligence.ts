@@ -6,9 +6,9 @@
  * Improves selector detection, ranking, and fallback strategies
  */
 
-import { LearningEngine } from './learning-engine';
+import { LearningEngine, learningEngine } from './learning-engine';
 import { getErrorLogger } from './error-telemetry-system';
-import { AdaptiveWeightScorer, SelectorPerformanceData } from './adaptive-weight-scorer';
+import { AdaptiveWeightScorer, SelectorPerformanceData, adaptiveWeightScorer } from './adaptive-weight-scorer';
 
 export interface SelectorCandidate {
   selector: string;
@@ -1217,5 +1217,5 @@ export class AdvancedSelectorIntelligence {
   }
 }
 
-// Export singleton instance
-export const advancedSelectorIntelligence = new AdvancedSelectorIntelligence();
+// Export singleton instance - يشارك محركات التعلم العامة ليظهر فيه ما استُورد من التشغيلات الفعلية
+export const advancedSelectorIntelligence = new AdvancedSelectorIntelligence(learningEngine, adaptiveWeightScorer);
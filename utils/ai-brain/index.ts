@@ -16,6 +16,9 @@ export * from './code-intelligence';
 // Database sync is browser-safe (uses Supabase client SDK)
 export * from './database-sync';
 
+// Unified knowledge store (IndexedDB in the browser, memory elsewhere)
+export * from './knowledge-store';
+
 // NEW: Advanced Robot Brain Systems (Browser-safe)
 export * from './advanced-robot-logic';
 export * from './lightning-fast-discovery';
@@ -59,6 +62,7 @@ import { adaptiveIntelligence } from './adaptive-intelligence';
 import { knowledgeBase } from './knowledge-base';
 import { codeIntelligence } from './code-intelligence';
 import { databaseSync } from './database-sync';
+import { knowledgeStore } from './knowledge-store';
 
 // NEW: Robot Brain Systems
 import { createRobotBrain, RobotTools, RobotHelpers } from './robot-brain-exports';
@@ -120,6 +124,7 @@ export const AIBrain = {
     try {
       // 1. تهيئة نظام قاعدة البيانات
       await databaseSync.initialize(userId);
+      await knowledgeStore.initialize(userId);
       console.log('✅ قاعدة البيانات جاهزة');
 
       // 2. تحميل البيانات المحفوظة
@@ -145,40 +150,13 @@ export const AIBrain = {
     try {
       // تحميل التجارب
       const experiences = await databaseSync.loadExperiences(undefined, 500);
-      for (const exp of experiences) {
-        learningEngine.recordExperience({
-          id: exp.experience_id,
-          taskType: exp.task_type,
-          website: exp.website,
-          action: exp.action,
-          selector: exp.selector,
-          success: exp.success,
-          timestamp: new Date(exp.timestamp),
-          context: exp.context,
-          metadata: exp.metadata,
-        });
-      }
+      await learningEngine.restoreExperiences(experiences);
       console.log(`📚 تم تحميل ${experiences.length} تجربة`);
 
-      // تحميل المعرفة
-      const knowledge = await databaseSync.loadKnowledge();
-      for (const know of knowledge) {
-        knowledgeBase.addKnowledge({
-          category: know.category,
-          domain: know.domain,
-          content: know.content,
-          tags: know.tags,
-          confidence: know.confidence,
-          usage_count: know.usage_count,
-          success_rate: know.success_rate,
-          metadata: know.metadata,
-        });
-      }
-      console.log(`📖 تم تحميل ${knowledge.length} معرفة`);
-
-      // تحميل الأنماط
-      const patterns = await databaseSync.loadPatterns();
-      console.log(`🔍 تم تحميل ${patterns.length} نمط`);
+      // تحميل المعرفة والأنماط - المخزن الموحد يسحب ai_knowledge و ai_patterns
+      await knowledgeStore.refresh();
+      console.log(`📖 تم تحميل ${knowledgeStore.queryKnowledge().length} معرفة`);
+      console.log(`🔍 تم تحميل ${knowledgeStore.queryPatterns().length} نمط`);
 
       // تحميل النماذج
       const models = await databaseSync.loadModels();
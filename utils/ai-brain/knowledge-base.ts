@@ -1,8 +1,12 @@
 /**
  * قاعدة المعرفة - تخزين واسترجاع المعرفة المكتسبة
  * Knowledge Base - Store and retrieve acquired knowledge
+ *
+ * الإدخالات والفهارس في مخزن المعرفة الموحد - نفس السجلات التي تقرؤها باقي المحركات
  */
 
+import { knowledgeStore, KnowledgeRecord } from './knowledge-store';
+
 export interface KnowledgeEntry {
   id: string;
   category: 'selector' | 'workflow' | 'pattern' | 'solution' | 'insight';
@@ -46,11 +50,7 @@ export interface Insight {
  * قاعدة المعرفة الذكية
  */
 export class KnowledgeBase {
-  private entries: Map<string, KnowledgeEntry> = new Map();
   private insights: Map<string, Insight> = new Map();
-  private indexByCategory: Map<string, Set<string>> = new Map();
-  private indexByDomain: Map<string, Set<string>> = new Map();
-  private indexByTags: Map<string, Set<string>> = new Map();
 
   /**
    * إضافة معرفة جديدة
@@ -65,16 +65,11 @@ export class KnowledgeBase {
       updated_at: new Date(),
     };
 
-    this.entries.set(id, fullEntry);
-
-    // تحديث الفهارس
-    this.updateIndexes(fullEntry);
+    // الفهارس والحفظ في المخزن الموحد
+    knowledgeStore.putKnowledge(this.toRecord(fullEntry));
 
     console.log(`📚 تم إضافة معرفة جديدة: ${id} (${entry.category})`);
 
-    // حفظ في قاعدة البيانات
-    await this.persistKnowledge(fullEntry);
-
     return id;
   }
 
@@ -82,49 +77,15 @@ export class KnowledgeBase {
    * البحث عن معرفة
    */
   async search(query: Query): Promise<KnowledgeEntry[]> {
-    let resultIds = new Set<string>(this.entries.keys());
-
-    // تصفية حسب الفئة
-    if (query.category) {
-      const categoryIds = this.indexByCategory.get(query.category);
-      if (categoryIds) {
-        resultIds = new Set([...resultIds].filter((id) => categoryIds.has(id)));
-      } else {
-        return [];
-      }
-    }
-
-    // تصفية حسب المجال
-    if (query.domain) {
-      const domainIds = this.indexByDomain.get(query.domain);
-      if (domainIds) {
-        resultIds = new Set([...resultIds].filter((id) => domainIds.has(id)));
-      } else {
-        return [];
-      }
-    }
-
-    // تصفية حسب الوسوم
-    if (query.tags && query.tags.length > 0) {
-      const tagIds = new Set<string>();
-      query.tags.forEach((tag) => {
-        const ids = this.indexByTags.get(tag);
-        if (ids) {
-          ids.forEach((id) => tagIds.add(id));
-        }
-      });
-      resultIds = new Set([...resultIds].filter((id) => tagIds.has(id)));
-    }
-
-    // تحويل إلى مصفوفة
-    let results = Array.from(resultIds)
-      .map((id) => this.entries.get(id))
-      .filter((entry): entry is KnowledgeEntry => entry !== undefined);
-
-    // تصفية حسب الثقة
-    if (query.minConfidence !== undefined) {
-      results = results.filter((entry) => entry.confidence >= query.minConfidence!);
-    }
+    // تصفية حسب الفئة والمجال والوسوم والثقة من فهارس المخزن
+    let results = knowledgeStore
+      .queryKnowledge({
+        category: query.category,
+        domain: query.domain,
+        tags: query.tags,
+        minConfidence: query.minConfidence,
+      })
+      .map((record) => this.toEntry(record));
 
     // بحث نصي
     if (query.searchText) {
@@ -187,24 +148,20 @@ export class KnowledgeBase {
     id: string,
     updates: Partial<KnowledgeEntry>
   ): Promise<boolean> {
-    const entry = this.entries.get(id);
+    const record = knowledgeStore.getKnowledge(id);
 
-    if (!entry) {
+    if (!record) {
       return false;
     }
 
     const updatedEntry = {
-      ...entry,
+      ...this.toEntry(record),
       ...updates,
+      id,
       updated_at: new Date(),
     };
 
-    this.entries.set(id, updatedEntry);
-
-    // إعادة بناء الفهارس
-    this.rebuildIndexes();
-
-    await this.persistKnowledge(updatedEntry);
+    knowledgeStore.putKnowledge(this.toRecord(updatedEntry));
 
     return true;
   }
@@ -213,12 +170,13 @@ export class KnowledgeBase {
    * تسجيل اس��خدام معرفة
    */
   async recordUsage(id: string, success: boolean): Promise<void> {
-    const entry = this.entries.get(id);
+    const record = knowledgeStore.getKnowledge(id);
 
-    if (!entry) {
+    if (!record) {
       return;
     }
 
+    const entry = this.toEntry(record);
     entry.usage_count++;
 
     // تحديث معدل النجاح
@@ -234,8 +192,7 @@ export class KnowledgeBase {
 
     entry.updated_at = new Date();
 
-    this.entries.set(id, entry);
-    await this.persistKnowledge(entry);
+    knowledgeStore.putKnowledge({ ...this.toRecord(entry), lastUsed: entry.updated_at.toISOString() });
   }
 
   /**
@@ -281,25 +238,20 @@ export class KnowledgeBase {
     averageSuccessRate: number;
     mostUsedEntries: KnowledgeEntry[];
   } {
-    const totalEntries = this.entries.size;
+    const entries = this.exportKnowledge();
+    const totalEntries = entries.length;
 
-    // إحصاء حسب الفئة
+    // إحصاء حسب الفئة والمجال
     const byCategory = new Map<string, number>();
-    this.indexByCategory.forEach((ids, category) => {
-      byCategory.set(category, ids.size);
-    });
-
-    // إحصاء حسب المجال
     const byDomain = new Map<string, number>();
-    this.indexByDomain.forEach((ids, domain) => {
-      byDomain.set(domain, ids.size);
-    });
 
     // حساب المتوسطات
     let totalConfidence = 0;
     let totalSuccessRate = 0;
 
-    this.entries.forEach((entry) => {
+    entries.forEach((entry) => {
+      byCategory.set(entry.category, (byCategory.get(entry.category) || 0) + 1);
+      byDomain.set(entry.domain, (byDomain.get(entry.domain) || 0) + 1);
       totalConfidence += entry.confidence;
       totalSuccessRate += entry.success_rate;
     });
@@ -308,7 +260,7 @@ export class KnowledgeBase {
     const averageSuccessRate = totalEntries > 0 ? totalSuccessRate / totalEntries : 0;
 
     // أكثر الإدخالات استخداماً
-    const mostUsedEntries = Array.from(this.entries.values())
+    const mostUsedEntries = entries
       .sort((a, b) => b.usage_count - a.usage_count)
       .slice(0, 10);
 
@@ -326,13 +278,7 @@ export class KnowledgeBase {
    * تصدير قاعدة المعرفة
    */
   exportKnowledge(domain?: string): KnowledgeEntry[] {
-    let entries = Array.from(this.entries.values());
-
-    if (domain) {
-      entries = entries.filter((entry) => entry.domain === domain);
-    }
-
-    return entries;
+    return knowledgeStore.queryKnowledge({ domain }).map((record) => this.toEntry(record));
   }
 
   /**
@@ -342,8 +288,7 @@ export class KnowledgeBase {
     let imported = 0;
 
     for (const entry of entries) {
-      this.entries.set(entry.id, entry);
-      this.updateIndexes(entry);
+      knowledgeStore.putKnowledge(this.toRecord(entry));
       imported++;
     }
 
@@ -354,36 +299,39 @@ export class KnowledgeBase {
 
   // ====== وظائف مساعدة خاصة ======
 
-  private updateIndexes(entry: KnowledgeEntry): void {
-    // فهرس الفئة
-    if (!this.indexByCategory.has(entry.category)) {
-      this.indexByCategory.set(entry.category, new Set());
-    }
-    this.indexByCategory.get(entry.category)!.add(entry.id);
-
-    // فهرس المجال
-    if (!this.indexByDomain.has(entry.domain)) {
-      this.indexByDomain.set(entry.domain, new Set());
-    }
-    this.indexByDomain.get(entry.domain)!.add(entry.id);
-
-    // فهرس الوسوم
-    entry.tags.forEach((tag) => {
-      if (!this.indexByTags.has(tag)) {
-        this.indexByTags.set(tag, new Set());
-      }
-      this.indexByTags.get(tag)!.add(entry.id);
-    });
+  private toEntry(record: KnowledgeRecord): KnowledgeEntry {
+    return {
+      id: record.id,
+      category: record.category as KnowledgeEntry['category'],
+      domain: record.domain,
+      content: record.content,
+      tags: record.tags,
+      confidence: record.confidence,
+      usage_count: record.usageCount,
+      success_rate: record.successRate,
+      created_at: new Date(record.createdAt),
+      updated_at: new Date(record.updatedAt),
+      metadata: record.metadata,
+    };
   }
 
-  private rebuildIndexes(): void {
-    this.indexByCategory.clear();
-    this.indexByDomain.clear();
-    this.indexByTags.clear();
-
-    this.entries.forEach((entry) => {
-      this.updateIndexes(entry);
-    });
+  // الإدخالات المستوردة من JSON تحمل التواريخ كنصوص
+  private toRecord(entry: KnowledgeEntry): KnowledgeRecord {
+    const existing = knowledgeStore.getKnowledge(entry.id);
+    return {
+      id: entry.id,
+      category: entry.category,
+      domain: entry.domain,
+      content: entry.content,
+      tags: entry.tags || [],
+      confidence: entry.confidence,
+      usageCount: entry.usage_count || 0,
+      successRate: entry.success_rate || 0,
+      lastUsed: existing?.lastUsed || null,
+      metadata: entry.metadata || {},
+      createdAt: new Date(entry.created_at || Date.now()).toISOString(),
+      updatedAt: new Date(entry.updated_at || Date.now()).toISOString(),
+    };
   }
 
   private calculateRelevanceScore(
@@ -430,9 +378,7 @@ export class KnowledgeBase {
   private async analyzePerformance(domain?: string): Promise<Insight[]> {
     const insights: Insight[] = [];
 
-    const allEntries = domain
-      ? Array.from(this.entries.values()).filter((e) => e.domain === domain)
-      : Array.from(this.entries.values());
+    const allEntries = this.exportKnowledge(domain);
 
     const lowPerformance = allEntries.filter((e) => e.success_rate < 0.5 && e.usage_count > 5);
 
@@ -460,7 +406,7 @@ export class KnowledgeBase {
     const categoryCounts = new Map<string, number>();
 
     categories.forEach((cat) => {
-      const count = this.indexByCategory.get(cat)?.size || 0;
+      const count = knowledgeStore.queryKnowledge({ category: cat }).length;
       categoryCounts.set(cat, count);
     });
 
@@ -492,7 +438,7 @@ export class KnowledgeBase {
     const insights: Insight[] = [];
 
     // تحليل الاتجاهات الزمنية
-    const recentEntries = Array.from(this.entries.values()).filter(
+    const recentEntries = this.exportKnowledge().filter(
       (e) => Date.now() - e.created_at.getTime() < 7 * 24 * 60 * 60 * 1000
     );
 
@@ -517,11 +463,6 @@ export class KnowledgeBase {
 
     return insights;
   }
-
-  private async persistKnowledge(entry: KnowledgeEntry): Promise<void> {
-    // حفظ في قاعدة البيانات (Supabase)
-    console.log('💾 حفظ المعرفة:', entry.id);
-  }
 }
 
 // مثيل مشترك
@@ -0,0 +1,846 @@
+/**
+ * مخزن المعرفة الموحد - مستودع واحد لكل ما تتعلمه محركات العقل عن المحددات والأنماط
+ * Unified Knowledge Store - one persistent, indexed repository shared by all brain engines
+ *
+ * السجلات بنفس أعمدة ai_knowledge و ai_patterns:
+ * - القراءة من نسخة مفهرسة في الذاكرة (واجهات المحركات متزامنة)
+ * - الحفظ في قاعدة المستخدم المحلية (local-database) بالمتصفح، وفي الذاكرة فقط حيث لا يوجد IndexedDB
+ * - الرفع لـ Supabase على دفعات والسحب منه عند التهيئة (الأحدث يفوز)
+ * - ترحيل الأشكال القديمة (localStorage التجريبي، ai_experiences) مرة واحدة لكل مستخدم
+ */
+
+import { supabase } from '../../lib/supabase';
+import { isLocalDatabaseAvailable, requestToPromise, runLocalTransaction } from '../local-database';
+import { databaseSync } from './database-sync';
+
+export type KnowledgeCategory =
+  | 'selector'
+  | 'workflow'
+  | 'pattern'
+  | 'solution'
+  | 'insight'
+  | 'error_pattern'
+  | 'best_practice'
+  | 'code_fixes'
+  | 'error_fixes';
+
+export interface KnowledgeRecord {
+  id: string;
+  category: KnowledgeCategory;
+  domain: string;
+  content: any;
+  tags: string[];
+  confidence: number;
+  usageCount: number;
+  successRate: number;
+  lastUsed: string | null;
+  metadata: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PatternType = 'selector' | 'workflow' | 'error' | 'timing' | 'behavior';
+
+export interface PatternRecord {
+  id: string;
+  website: string;
+  taskType: string;
+  patternType: PatternType;
+  data: any;
+  occurrenceCount: number;
+  successRate: number;
+  confidence: number;
+  lastSeen: string;
+}
+
+/**
+ * حقيقة محدد: كل محاولات محدد واحد على نطاق وهدف (نوع العنصر أو نوع المهمة)
+ * الشكل المشترك الذي تكتبه وتقرؤه كل المحركات بدل خرائطها الخاصة
+ */
+export interface SelectorFact {
+  domain: string;
+  target: string;
+  selector: string;
+  successes: number;
+  failures: number;
+  totalTime: number; // ms مجموع أوقات المحاولات
+  lastSuccess: string | null;
+  sources: string[]; // المحركات التي سجلت محاولات
+  updatedAt: string;
+}
+
+export interface SelectorOutcomeInput {
+  domain: string;
+  target: string;
+  selector: string;
+  success: boolean;
+  duration?: number;
+  source: string;
+  timestamp?: Date | string;
+}
+
+export interface KnowledgeFilter {
+  category?: string;
+  domain?: string;
+  tags?: string[]; // أي وسم منها
+  minConfidence?: number;
+  limit?: number;
+}
+
+export interface PatternFilter {
+  website?: string;
+  taskType?: string;
+  patternType?: PatternType;
+  limit?: number;
+}
+
+/**
+ * واجهة المستودع - كل المحركات تمر من هنا ولا تعرف مكان التخزين الفعلي
+ */
+export interface KnowledgeRepository {
+  initialize(userId?: string): Promise<void>;
+  getKnowledge(id: string): KnowledgeRecord | undefined;
+  queryKnowledge(filter?: KnowledgeFilter): KnowledgeRecord[];
+  putKnowledge(record: KnowledgeRecord): void;
+  deleteKnowledge(id: string): void;
+  getPattern(id: string): PatternRecord | undefined;
+  queryPatterns(filter?: PatternFilter): PatternRecord[];
+  putPattern(record: PatternRecord): void;
+  recordSelectorOutcome(outcome: SelectorOutcomeInput): SelectorFact;
+  getSelectorFacts(domain: string, target?: string): SelectorFact[];
+  listDomains(): string[];
+  flush(): Promise<void>;
+}
+
+/**
+ * التخزين المحلي الدائم للمستودع
+ */
+export interface KnowledgeBackend {
+  load(): Promise<{ knowledge: KnowledgeRecord[]; patterns: PatternRecord[] }>;
+  save(knowledge: KnowledgeRecord[], patterns: PatternRecord[]): Promise<void>;
+  remove(knowledgeIds: string[], patternIds: string[]): Promise<void>;
+}
+
+// هدف عام للحقائق المستوردة بلا نوع عنصر معروف
+export const ANY_TARGET = '*';
+
+
+const FLUSH_DELAY = 2000;
+const REMOTE_BATCH_SIZE = 200;
+
+// سجلات داخلية للمستودع نفسه - لا تظهر في الاستعلامات
+const META_PREFIX = 'meta:';
+const MIGRATIONS_RECORD_ID = `${META_PREFIX}migrations`;
+
+/**
+ * IndexedDB - مخزنا knowledge و patterns في قاعدة المستخدم المحلية (ترحيل LOCAL_DB_MIGRATIONS الثالث)
+ * القاعدة تُحدد بـ userId صراحة: المخزن قد يُهيأ لمستخدم قبل أن تنتقل له بقية التطبيق
+ */
+export class IndexedDBKnowledgeBackend implements KnowledgeBackend {
+  private userId: string;
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  load() {
+    return runLocalTransaction(
+      ['knowledge', 'patterns'],
+      'readonly',
+      async (transaction) => {
+        const [knowledge, patterns] = await Promise.all([
+          requestToPromise(transaction.objectStore('knowledge').getAll()),
+          requestToPromise(transaction.objectStore('patterns').getAll()),
+        ]);
+        return { knowledge: knowledge as KnowledgeRecord[], patterns: patterns as PatternRecord[] };
+      },
+      this.userId
+    );
+  }
+
+  async save(knowledge: KnowledgeRecord[], patterns: PatternRecord[]): Promise<void> {
+    if (knowledge.length === 0 && patterns.length === 0) return;
+    await runLocalTransaction(
+      ['knowledge', 'patterns'],
+      'readwrite',
+      (transaction) => {
+        knowledge.forEach((record) => transaction.objectStore('knowledge').put(record));
+        patterns.forEach((record) => transaction.objectStore('patterns').put(record));
+      },
+      this.userId
+    );
+  }
+
+  async remove(knowledgeIds: string[], patternIds: string[]): Promise<void> {
+    if (knowledgeIds.length === 0 && patternIds.length === 0) return;
+    await runLocalTransaction(
+      ['knowledge', 'patterns'],
+      'readwrite',
+      (transaction) => {
+        knowledgeIds.forEach((id) => transaction.objectStore('knowledge').delete(id));
+        patternIds.forEach((id) => transaction.objectStore('patterns').delete(id));
+      },
+      this.userId
+    );
+  }
+}
+
+/**
+ * بدون IndexedDB (Node) أو قبل تسجيل الدخول - الذاكرة فقط و Supabase إن وُجد مستخدم
+ */
+export class MemoryKnowledgeBackend implements KnowledgeBackend {
+  async load() {
+    return { knowledge: [], patterns: [] };
+  }
+
+  async save(): Promise<void> {}
+
+  async remove(): Promise<void> {}
+}
+
+// قاعدة المستخدم المحلية - حسابان على نفس المتصفح لا يتشاركان المعرفة
+function createDefaultBackend(userId: string | null): KnowledgeBackend {
+  return userId && isLocalDatabaseAvailable()
+    ? new IndexedDBKnowledgeBackend(userId)
+    : new MemoryKnowledgeBackend();
+}
+
+// ====== تحويل صفوف Supabase ======
+
+function toIso(value: any, fallback: string): string {
+  if (!value) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+function rowToKnowledge(row: any, userId: string | null): KnowledgeRecord {
+  const now = new Date().toISOString();
+  return {
+    id: unscopeId(row.knowledge_id || row.id, userId),
+    category: row.category,
+    domain: row.domain,
+    content: row.content,
+    tags: row.tags || [],
+    confidence: row.confidence ?? 0.5,
+    usageCount: row.usage_count ?? 0,
+    successRate: row.success_rate ?? 0,
+    lastUsed: row.last_used ? toIso(row.last_used, now) : null,
+    metadata: row.metadata || {},
+    createdAt: toIso(row.created_at, now),
+    updatedAt: toIso(row.updated_at, now),
+  };
+}
+
+function knowledgeToRow(record: KnowledgeRecord, userId: string) {
+  return {
+    user_id: userId,
+    knowledge_id: scopeId(record.id, userId),
+    category: record.category,
+    domain: record.domain,
+    content: record.content,
+    tags: record.tags,
+    confidence: record.confidence,
+    usage_count: record.usageCount,
+    success_rate: record.successRate,
+    last_used: record.lastUsed,
+    metadata: record.metadata,
+    updated_at: record.updatedAt,
+  };
+}
+
+function rowToPattern(row: any, userId: string | null): PatternRecord {
+  return {
+    id: unscopeId(row.pattern_id || row.id, userId),
+    website: row.website,
+    taskType: row.task_type,
+    patternType: row.pattern_type,
+    data: row.pattern_data,
+    occurrenceCount: row.occurrence_count ?? 1,
+    successRate: row.success_rate ?? 0,
+    confidence: row.confidence ?? 0.5,
+    lastSeen: toIso(row.last_seen, new Date().toISOString()),
+  };
+}
+
+function patternToRow(record: PatternRecord, userId: string) {
+  return {
+    user_id: userId,
+    pattern_id: scopeId(record.id, userId),
+    website: record.website,
+    task_type: record.taskType,
+    pattern_type: record.patternType,
+    pattern_data: record.data,
+    occurrence_count: record.occurrenceCount,
+    success_rate: record.successRate,
+    confidence: record.confidence,
+    last_seen: record.lastSeen,
+  };
+}
+
+// knowledge_id و pattern_id فريدان على مستوى الجدول كله - المعرفات الثابتة تُسبق بالمستخدم عند الرفع
+function scopeId(id: string, userId: string): string {
+  return `${userId}:${id}`;
+}
+
+function unscopeId(id: string, userId: string | null): string {
+  return userId && id.startsWith(`${userId}:`) ? id.slice(userId.length + 1) : id;
+}
+
+function selectorFactId(domain: string, target: string, selector: string): string {
+  return `selector:${domain}:${target}:${selector}`;
+}
+
+function factFromRecord(record: KnowledgeRecord): SelectorFact {
+  return {
+    domain: record.domain,
+    target: record.content.target,
+    selector: record.content.selector,
+    successes: record.content.successes || 0,
+    failures: record.content.failures || 0,
+    totalTime: record.content.totalTime || 0,
+    lastSuccess: record.content.lastSuccess || null,
+    sources: record.content.sources || [],
+    updatedAt: record.updatedAt,
+  };
+}
+
+function isSelectorFact(record: KnowledgeRecord): boolean {
+  return record.category === 'selector' && record.id.startsWith('selector:');
+}
+
+/**
+ * معدل نجاح الحقيقة مع تمهيد لابلاس - محاولة واحدة ناجحة لا تساوي 100%
+ */
+export function selectorFactSuccessRate(fact: SelectorFact): number {
+  return (fact.successes + 1) / (fact.successes + fact.failures + 2);
+}
+
+export function selectorFactAverageTime(fact: SelectorFact): number {
+  const attempts = fact.successes + fact.failures;
+  return attempts > 0 ? fact.totalTime / attempts : 0;
+}
+
+// ====== الترحيل من الأشكال القديمة ======
+
+type KnowledgeMigration = {
+  id: string;
+  run: (store: KnowledgeStore, userId: string) => Promise<void>;
+};
+
+const MIGRATIONS: KnowledgeMigration[] = [
+  {
+    // المستخدم التجريبي كان يحفظ صفوف ai_knowledge و ai_patterns في localStorage
+    id: 'demo-local-storage',
+    async run(store, userId) {
+      if (!userId.startsWith('demo_') || typeof localStorage === 'undefined') return;
+      const read = (key: string): any[] => {
+        try {
+          return JSON.parse(localStorage.getItem(key) || '[]');
+        } catch {
+          return [];
+        }
+      };
+      read(`ai_brain_knowledge_${userId}`).forEach((row) => store.mergeKnowledge(rowToKnowledge(row, userId)));
+      read(`ai_brain_patterns_${userId}`).forEach((row) => store.mergePattern(rowToPattern(row, userId)));
+    },
+  },
+  {
+    // التجارب المحفوظة قبل المخزن تصبح حقائق محددات - taskType هو الهدف كما في learningEngine
+    id: 'ai-experiences',
+    async run(store) {
+      const experiences = await databaseSync.loadExperiences(undefined, 10000);
+      for (const experience of experiences) {
+        if (!experience.selector || !experience.website) continue;
+        store.recordSelectorOutcome({
+          domain: experience.website,
+          target: experience.task_type || ANY_TARGET,
+          selector: experience.selector,
+          success: !!experience.success,
+          duration: experience.execution_time || 0,
+          source: 'ai_experiences',
+          timestamp: experience.timestamp,
+        });
+      }
+    },
+  },
+];
+
+/**
+ * المستودع الموحد
+ */
+export class KnowledgeStore implements KnowledgeRepository {
+  private knowledge: Map<string, KnowledgeRecord> = new Map();
+  private patterns: Map<string, PatternRecord> = new Map();
+  private indexByCategory: Map<string, Set<string>> = new Map();
+  private indexByDomain: Map<string, Set<string>> = new Map();
+  private indexByTags: Map<string, Set<string>> = new Map();
+
+  // تغييرات لم تُحفظ محلياً / لم تُرفع لـ Supabase
+  private dirtyKnowledge = new Set<string>();
+  private dirtyPatterns = new Set<string>();
+  private unsyncedKnowledge = new Set<string>();
+  private unsyncedPatterns = new Set<string>();
+  private removedKnowledge = new Set<string>();
+
+  private createBackend: (userId: string | null) => KnowledgeBackend;
+  private backend: KnowledgeBackend;
+  private userId: string | null = null;
+  private localLoad: Promise<void> | null = null;
+  private ready: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(createBackend: (userId: string | null) => KnowledgeBackend = createDefaultBackend) {
+    this.createBackend = createBackend;
+    this.backend = createBackend(null);
+  }
+
+  /**
+   * تحميل المخزن المحلي، ثم (مع مستخدم) السحب من Supabase وتشغيل الترحيلات
+   * آمن للاستدعاء المتكرر - كل مستخدم يُهيأ مرة واحدة، وما سُجل قبل الدخول يُضاف لمعرفته
+   */
+  initialize(userId?: string): Promise<void> {
+    if (userId && userId !== this.userId) {
+      if (this.userId) this.reset();
+      this.userId = userId;
+      this.backend = this.createBackend(userId);
+      this.localLoad = null;
+      this.ready = null;
+    }
+    if (!this.ready) {
+      this.ready = this.load().catch((error) => {
+        console.warn('⚠️ تعذر تحميل مخزن المعرفة:', error.message);
+        this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * إعادة السحب من Supabase - بعد استيراد بيانات خارج المخزن
+   */
+  async refresh(): Promise<void> {
+    await this.initialize();
+    await this.pullRemote();
+  }
+
+  getKnowledge(id: string): KnowledgeRecord | undefined {
+    return this.knowledge.get(id);
+  }
+
+  queryKnowledge(filter: KnowledgeFilter = {}): KnowledgeRecord[] {
+    let ids: Set<string> | null = null;
+    const narrow = (candidates: Set<string> | undefined) => {
+      const next = candidates || new Set<string>();
+      ids = ids ? new Set([...ids].filter((id) => next.has(id))) : new Set(next);
+    };
+
+    if (filter.category) narrow(this.indexByCategory.get(filter.category));
+    if (filter.domain) narrow(this.indexByDomain.get(filter.domain));
+    if (filter.tags && filter.tags.length > 0) {
+      const tagged = new Set<string>();
+      filter.tags.forEach((tag) => this.indexByTags.get(tag)?.forEach((id) => tagged.add(id)));
+      narrow(tagged);
+    }
+
+    let results = Array.from(ids ?? this.knowledge.keys())
+      .filter((id) => !id.startsWith(META_PREFIX))
+      .map((id) => this.knowledge.get(id)!)
+      .filter(Boolean);
+
+    if (filter.minConfidence !== undefined) {
+      results = results.filter((record) => record.confidence >= filter.minConfidence!);
+    }
+    return filter.limit ? results.slice(0, filter.limit) : results;
+  }
+
+  putKnowledge(record: KnowledgeRecord): void {
+    this.setKnowledge(record);
+    this.markKnowledge(record.id);
+  }
+
+  deleteKnowledge(id: string): void {
+    const record = this.knowledge.get(id);
+    if (!record) return;
+    this.unindex(record);
+    this.knowledge.delete(id);
+    this.dirtyKnowledge.delete(id);
+    this.unsyncedKnowledge.delete(id);
+    this.removedKnowledge.add(id);
+    this.scheduleFlush();
+  }
+
+  getPattern(id: string): PatternRecord | undefined {
+    return this.patterns.get(id);
+  }
+
+  queryPatterns(filter: PatternFilter = {}): PatternRecord[] {
+    const results = Array.from(this.patterns.values()).filter(
+      (record) =>
+        (!filter.website || record.website === filter.website) &&
+        (!filter.taskType || record.taskType === filter.taskType) &&
+        (!filter.patternType || record.patternType === filter.patternType)
+    );
+    return filter.limit ? results.slice(0, filter.limit) : results;
+  }
+
+  putPattern(record: PatternRecord): void {
+    this.patterns.set(record.id, record);
+    this.dirtyPatterns.add(record.id);
+    this.unsyncedPatterns.add(record.id);
+    this.scheduleFlush();
+  }
+
+  /**
+   * تسجيل محاولة محدد - نقطة الكتابة الوحيدة لحقائق المحددات من كل المحركات
+   */
+  recordSelectorOutcome(outcome: SelectorOutcomeInput): SelectorFact {
+    const target = outcome.target || ANY_TARGET;
+    const id = selectorFactId(outcome.domain, target, outcome.selector);
+    const at = toIso(outcome.timestamp, new Date().toISOString());
+    const existing = this.knowledge.get(id);
+    const fact: SelectorFact = existing
+      ? factFromRecord(existing)
+      : {
+          domain: outcome.domain,
+          target,
+          selector: outcome.selector,
+          successes: 0,
+          failures: 0,
+          totalTime: 0,
+          lastSuccess: null,
+          sources: [],
+          updatedAt: at,
+        };
+
+    if (outcome.success) {
+      fact.successes++;
+      if (!fact.lastSuccess || fact.lastSuccess < at) fact.lastSuccess = at;
+    } else {
+      fact.failures++;
+    }
+    fact.totalTime += outcome.duration || 0;
+    if (!fact.sources.includes(outcome.source)) fact.sources.push(outcome.source);
+    fact.updatedAt = new Date().toISOString();
+
+    this.putKnowledge(this.factToRecord(fact, existing));
+    return fact;
+  }
+
+  getSelectorFacts(domain: string, target?: string): SelectorFact[] {
+    return this.queryKnowledge({ category: 'selector', domain })
+      .filter(isSelectorFact)
+      .map(factFromRecord)
+      .filter((fact) => !target || fact.target === target);
+  }
+
+  listDomains(): string[] {
+    return Array.from(this.indexByDomain.keys()).filter((domain) => domain !== ANY_TARGET);
+  }
+
+  /**
+   * حفظ التغييرات محلياً ثم رفعها - المرفوض يبقى معلّماً للمحاولة التالية
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flushing = this.flushing.then(() => this.flushNow());
+    return this.flushing;
+  }
+
+  /**
+   * دمج سجل من مصدر آخر (IndexedDB، Supabase، ترحيل) - الأحدث يفوز
+   * حقائق المحددات المسجلة قبل اكتمال التحميل تُجمع مع المحفوظة بدل أن تحل محلها
+   */
+  mergeKnowledge(incoming: KnowledgeRecord, pendingCounts = false): boolean {
+    const current = this.knowledge.get(incoming.id);
+    if (current && pendingCounts && isSelectorFact(current) && isSelectorFact(incoming)) {
+      const local = factFromRecord(current);
+      const stored = factFromRecord(incoming);
+      const merged: SelectorFact = {
+        ...local,
+        successes: local.successes + stored.successes,
+        failures: local.failures + stored.failures,
+        totalTime: local.totalTime + stored.totalTime,
+        lastSuccess: [local.lastSuccess, stored.lastSuccess].filter(Boolean).sort().pop() || null,
+        sources: Array.from(new Set([...stored.sources, ...local.sources])),
+      };
+      this.putKnowledge(this.factToRecord(merged, incoming));
+      return true;
+    }
+    if (current && current.updatedAt >= incoming.updatedAt) return false;
+    this.setKnowledge(incoming);
+    return true;
+  }
+
+  mergePattern(incoming: PatternRecord): boolean {
+    const current = this.patterns.get(incoming.id);
+    if (current && current.lastSeen >= incoming.lastSeen) return false;
+    this.patterns.set(incoming.id, incoming);
+    return true;
+  }
+
+  // ====== وظائف مساعدة خاصة ======
+
+  private async load(): Promise<void> {
+    await this.ensureLocalLoaded();
+
+    if (!this.userId) return;
+    await this.pullRemote();
+    await this.runMigrations(this.userId);
+    await this.flush();
+  }
+
+  // الحفظ قبل التحميل يكتب فوق الحقائق المحفوظة - كل كتابة تنتظره أولاً
+  private ensureLocalLoaded(): Promise<void> {
+    if (!this.localLoad) this.localLoad = this.loadLocal();
+    return this.localLoad;
+  }
+
+  private async loadLocal(): Promise<void> {
+    const pending = new Set(this.dirtyKnowledge);
+    const stored = await this.backend.load();
+    stored.knowledge.forEach((record) => {
+      if (!this.removedKnowledge.has(record.id)) this.mergeKnowledge(record, pending.has(record.id));
+    });
+    stored.patterns.forEach((record) => this.mergePattern(record));
+    console.log(`📚 مخزن المعرفة: ${this.knowledge.size} معرفة، ${this.patterns.size} نمط`);
+  }
+
+  private get remoteEnabled(): boolean {
+    return !!this.userId && !this.userId.startsWith('demo_');
+  }
+
+  /**
+   * السحب من Supabase - السجلات المحلية الأحدث أو الغائبة عن الجدول تُعلّم للرفع
+   */
+  private async pullRemote(): Promise<void> {
+    if (!this.remoteEnabled) return;
+    const userId = this.userId!;
+
+    try {
+      const [knowledgeResult, patternsResult] = await Promise.all([
+        supabase.from('ai_knowledge').select('*').eq('user_id', userId),
+        supabase.from('ai_patterns').select('*').eq('user_id', userId),
+      ]);
+      if (knowledgeResult.error) throw knowledgeResult.error;
+      if (patternsResult.error) throw patternsResult.error;
+
+      const remoteKnowledge = new Map<string, string>(); // id -> updatedAt
+      for (const row of knowledgeResult.data || []) {
+        const record = rowToKnowledge(row, userId);
+        if ((remoteKnowledge.get(record.id) || '') < record.updatedAt) remoteKnowledge.set(record.id, record.updatedAt);
+        if (this.mergeKnowledge(record)) this.dirtyKnowledge.add(record.id);
+      }
+      const remotePatterns = new Set<string>();
+      for (const row of patternsResult.data || []) {
+        const record = rowToPattern(row, userId);
+        remotePatterns.add(record.id);
+        if (this.mergePattern(record)) this.dirtyPatterns.add(record.id);
+      }
+
+      for (const record of this.knowledge.values()) {
+        const remoteUpdatedAt = remoteKnowledge.get(record.id);
+        if (!remoteUpdatedAt || remoteUpdatedAt < record.updatedAt) this.unsyncedKnowledge.add(record.id);
+      }
+      for (const record of this.patterns.values()) {
+        if (!remotePatterns.has(record.id)) this.unsyncedPatterns.add(record.id);
+      }
+    } catch (error: any) {
+      console.warn('⚠️ تعذر سحب المعرفة من قاعدة البيانات:', error.message);
+    }
+  }
+
+  private async runMigrations(userId: string): Promise<void> {
+    const record = this.knowledge.get(MIGRATIONS_RECORD_ID);
+    const applied: string[] = record?.content?.applied || [];
+    const pending = MIGRATIONS.filter((migration) => !applied.includes(migration.id));
+    if (pending.length === 0) return;
+
+    for (const migration of pending) {
+      try {
+        await migration.run(this, userId);
+        applied.push(migration.id);
+        console.log(`✅ ترحيل المعرفة: ${migration.id}`);
+      } catch (error: any) {
+        // يُعاد في التهيئة التالية
+        console.warn(`⚠️ فشل ترحيل ${migration.id}:`, error.message);
+      }
+    }
+
+    const now = new Date().toISOString();
+    this.putKnowledge({
+      id: MIGRATIONS_RECORD_ID,
+      category: 'insight',
+      domain: ANY_TARGET,
+      content: { applied },
+      tags: [],
+      confidence: 1,
+      usageCount: 0,
+      successRate: 0,
+      lastUsed: null,
+      metadata: { source: 'knowledge-store' },
+      createdAt: record?.createdAt || now,
+      updatedAt: now,
+    });
+  }
+
+  private async flushNow(): Promise<void> {
+    // قبل تسجيل الدخول تبقى التغييرات معلّمة لتُجمع مع معرفة المستخدم عند التهيئة
+    if (!this.userId) return;
+
+    try {
+      await this.ensureLocalLoaded();
+    } catch (error: any) {
+      console.warn('⚠️ تعذر تحميل مخزن المعرفة قبل الحفظ:', error.message);
+      this.localLoad = null;
+      return;
+    }
+
+    const knowledge = [...this.dirtyKnowledge].map((id) => this.knowledge.get(id)).filter((r): r is KnowledgeRecord => !!r);
+    const patterns = [...this.dirtyPatterns].map((id) => this.patterns.get(id)).filter((r): r is PatternRecord => !!r);
+    const removed = [...this.removedKnowledge];
+    this.dirtyKnowledge.clear();
+    this.dirtyPatterns.clear();
+
+    try {
+      await this.backend.save(knowledge, patterns);
+      await this.backend.remove(removed, []);
+    } catch (error: any) {
+      knowledge.forEach((record) => this.dirtyKnowledge.add(record.id));
+      patterns.forEach((record) => this.dirtyPatterns.add(record.id));
+      console.warn('⚠️ تعذر حفظ المعرفة محلياً:', error.message);
+    }
+
+    if (!this.remoteEnabled) {
+      this.removedKnowledge.clear();
+      return;
+    }
+    await this.pushRemote(removed);
+  }
+
+  private async pushRemote(removed: string[]): Promise<void> {
+    const userId = this.userId!;
+    const knowledge = [...this.unsyncedKnowledge].map((id) => this.knowledge.get(id)).filter((r): r is KnowledgeRecord => !!r);
+    const patterns = [...this.unsyncedPatterns].map((id) => this.patterns.get(id)).filter((r): r is PatternRecord => !!r);
+
+    try {
+      for (let i = 0; i < knowledge.length; i += REMOTE_BATCH_SIZE) {
+        const batch = knowledge.slice(i, i + REMOTE_BATCH_SIZE);
+        const { error } = await supabase
+          .from('ai_knowledge')
+          .upsert(batch.map((record) => knowledgeToRow(record, userId)), { onConflict: 'knowledge_id' });
+        if (error) throw error;
+        batch.forEach((record) => this.unsyncedKnowledge.delete(record.id));
+      }
+
+      for (let i = 0; i < patterns.length; i += REMOTE_BATCH_SIZE) {
+        const batch = patterns.slice(i, i + REMOTE_BATCH_SIZE);
+        const { error } = await supabase
+          .from('ai_patterns')
+          .upsert(batch.map((record) => patternToRow(record, userId)), { onConflict: 'pattern_id' });
+        if (error) throw error;
+        batch.forEach((record) => this.unsyncedPatterns.delete(record.id));
+      }
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('ai_knowledge')
+          .delete()
+          .eq('user_id', userId)
+          .in('knowledge_id', [...removed.map((id) => scopeId(id, userId)), ...removed]);
+        if (error) throw error;
+        removed.forEach((id) => this.removedKnowledge.delete(id));
+      }
+    } catch (error: any) {
+      console.warn('⚠️ تعذر رفع المعرفة لقاعدة البيانات:', error.message);
+    }
+  }
+
+  private reset(): void {
+    this.knowledge.clear();
+    this.patterns.clear();
+    this.indexByCategory.clear();
+    this.indexByDomain.clear();
+    this.indexByTags.clear();
+    this.dirtyKnowledge.clear();
+    this.dirtyPatterns.clear();
+    this.unsyncedKnowledge.clear();
+    this.unsyncedPatterns.clear();
+    this.removedKnowledge.clear();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_DELAY);
+  }
+
+  private markKnowledge(id: string): void {
+    this.dirtyKnowledge.add(id);
+    this.unsyncedKnowledge.add(id);
+    this.removedKnowledge.delete(id);
+    this.scheduleFlush();
+  }
+
+  private setKnowledge(record: KnowledgeRecord): void {
+    const current = this.knowledge.get(record.id);
+    if (current) this.unindex(current);
+    this.knowledge.set(record.id, record);
+    this.index(record);
+  }
+
+  private factToRecord(fact: SelectorFact, existing?: KnowledgeRecord): KnowledgeRecord {
+    const attempts = fact.successes + fact.failures;
+    return {
+      id: selectorFactId(fact.domain, fact.target, fact.selector),
+      category: 'selector',
+      domain: fact.domain,
+      content: {
+        target: fact.target,
+        selector: fact.selector,
+        successes: fact.successes,
+        failures: fact.failures,
+        totalTime: fact.totalTime,
+        lastSuccess: fact.lastSuccess,
+        sources: fact.sources,
+      },
+      tags: ['selector-fact', fact.target],
+      confidence: selectorFactSuccessRate(fact),
+      usageCount: attempts,
+      successRate: attempts > 0 ? fact.successes / attempts : 0,
+      lastUsed: fact.updatedAt,
+      metadata: existing?.metadata || {},
+      createdAt: existing?.createdAt || fact.updatedAt,
+      updatedAt: fact.updatedAt,
+    };
+  }
+
+  private index(record: KnowledgeRecord): void {
+    const add = (index: Map<string, Set<string>>, key: string) => {
+      if (!index.has(key)) index.set(key, new Set());
+      index.get(key)!.add(record.id);
+    };
+    add(this.indexByCategory, record.category);
+    add(this.indexByDomain, record.domain);
+    record.tags.forEach((tag) => add(this.indexByTags, tag));
+  }
+
+  private unindex(record: KnowledgeRecord): void {
+    const remove = (index: Map<string, Set<string>>, key: string) => {
+      const ids = index.get(key);
+      ids?.delete(record.id);
+      if (ids && ids.size === 0) index.delete(key);
+    };
+    remove(this.indexByCategory, record.category);
+    remove(this.indexByDomain, record.domain);
+    record.tags.forEach((tag) => remove(this.indexByTags, tag));
+  }
+}
+
+// مثيل مشترك - كل المحركات تقرأ وتكتب نفس الحقائق
+export const knowledgeStore = new KnowledgeStore();
@@ -4,6 +4,7 @@
  */
 
 import { databaseSync } from './database-sync';
+import { knowledgeStore, selectorFactSuccessRate } from './knowledge-store';
 
 export interface Experience {
   id: string;
@@ -84,33 +85,14 @@ export class LearningEngine {
       // Initialize database sync
       await databaseSync.initialize(userId);
 
+      // Shared knowledge store (selector facts used by getBestSelector)
+      await knowledgeStore.initialize(userId);
+
       // Load experiences from database
       const loadedExperiences = await databaseSync.loadExperiences(undefined, this.maxExperiences);
-      if (loadedExperiences.length > 0) {
-        // Convert database format to Experience format
-        this.experiences = loadedExperiences.map((exp: any) => ({
-          id: exp.experience_id,
-          taskType: exp.task_type,
-          website: exp.website,
-          action: exp.action,
-          selector: exp.selector,
-          success: exp.success,
-          timestamp: new Date(exp.timestamp),
-          context: exp.context,
-          metadata: {
-            executionTime: exp.execution_time,
-            retryCount: exp.retry_count,
-            confidence: exp.confidence,
-          },
-        }));
-
-        // Rebuild patterns from loaded experiences
-        for (const exp of this.experiences) {
-          await this.updatePatterns(exp);
-          await this.updateModel(exp.website, exp);
-        }
-
-        console.log(`✅ Loaded ${this.experiences.length} experiences from database`);
+      const restored = await this.restoreExperiences(loadedExperiences);
+      if (restored > 0) {
+        console.log(`✅ Loaded ${restored} experiences from database`);
       }
 
       this.isInitialized = true;
@@ -122,6 +104,41 @@ export class LearningEngine {
     }
   }
 
+  /**
+   * استعادة تجارب محفوظة (صفوف ai_experiences) بدون إعادة حفظها
+   * حقائق المحددات الخاصة بها موجودة في مخزن المعرفة فلا تُسجل مرة أخرى
+   */
+  async restoreExperiences(rows: any[]): Promise<number> {
+    const known = new Set(this.experiences.map((e) => e.id));
+    const restored: Experience[] = rows
+      .filter((exp) => !known.has(exp.experience_id))
+      .map((exp) => ({
+        id: exp.experience_id,
+        taskType: exp.task_type,
+        website: exp.website,
+        action: exp.action,
+        selector: exp.selector,
+        success: exp.success,
+        timestamp: new Date(exp.timestamp),
+        context: exp.context,
+        metadata: {
+          executionTime: exp.execution_time,
+          retryCount: exp.retry_count,
+          confidence: exp.confidence,
+        },
+      }));
+
+    this.experiences = [...this.experiences, ...restored].slice(-this.maxExperiences);
+
+    // Rebuild patterns from loaded experiences
+    for (const exp of restored) {
+      await this.updatePatterns(exp);
+      await this.updateModel(exp.website, exp);
+    }
+
+    return restored.length;
+  }
+
   /**
    * تسجيل تجربة جديدة
    */
@@ -139,6 +156,17 @@ export class LearningEngine {
     // تحديث النموذج للموقع
     await this.updateModel(experience.website, experience);
 
+    // حقيقة المحدد في المخزن الموحد - نوع المهمة هو الهدف
+    knowledgeStore.recordSelectorOutcome({
+      domain: experience.website,
+      target: experience.taskType,
+      selector: experience.selector,
+      success: experience.success,
+      duration: experience.metadata.executionTime,
+      source: 'learning-engine',
+      timestamp: experience.timestamp,
+    });
+
     // حفظ في قاعدة البيانات
     await this.persistExperience(experience);
   }
@@ -151,15 +179,12 @@ export class LearningEngine {
     website: string,
     context: any
   ): Promise<{ selector: string; confidence: number }> {
-    // البحث في التجارب السابقة
-    const relevantExperiences = this.experiences.filter(
-      (e) =>
-        e.taskType === taskType &&
-        e.website === website &&
-        e.success === true
-    );
+    // البحث في حقائق المحددات من كل المحركات
+    const facts = knowledgeStore
+      .getSelectorFacts(website, taskType)
+      .filter((fact) => fact.successes > 0);
 
-    if (relevantExperiences.length === 0) {
+    if (facts.length === 0) {
       // لا توجد تجارب - استخدام القيم الافتراضية
       return {
         selector: this.getDefaultSelector(taskType),
@@ -167,31 +192,14 @@ export class LearningEngine {
       };
     }
 
-    // حساب معدل النجاح لكل selector
-    const selectorStats = new Map<string, { success: number; total: number }>();
-
-    relevantExperiences.forEach((exp) => {
-      const stats = selectorStats.get(exp.selector) || { success: 0, total: 0 };
-      stats.total++;
-      if (exp.success) stats.success++;
-      selectorStats.set(exp.selector, stats);
-    });
-
     // العثور على أفضل selector
-    let bestSelector = '';
-    let bestSuccessRate = 0;
-
-    selectorStats.forEach((stats, selector) => {
-      const successRate = stats.success / stats.total;
-      if (successRate > bestSuccessRate) {
-        bestSuccessRate = successRate;
-        bestSelector = selector;
-      }
-    });
+    const best = facts.reduce((winner, fact) =>
+      selectorFactSuccessRate(fact) > selectorFactSuccessRate(winner) ? fact : winner
+    );
 
     return {
-      selector: bestSelector,
-      confidence: bestSuccessRate,
+      selector: best.selector,
+      confidence: selectorFactSuccessRate(best),
     };
   }
 
@@ -3,13 +3,15 @@
  * Learning Engine Persistence Layer
  *
  * يحفظ ويسترجع بيانات التعلم من قاعدة البيانات
- * يدعم: Supabase, Firebase, Custom API
+ * يدعم: Supabase, Firebase, Custom API, IndexedDB
  */
 
 import { AdaptiveWeightScorer, SelectorPerformanceData, DomainWeights } from './adaptive-weight-scorer';
+import { getLocalValue, setLocalValue, deleteLocalValue } from '../local-database';
 
 export interface PersistenceConfig {
-  type: 'supabase' | 'firebase' | 'api' | 'localStorage'; // نوع التخزين
+  type: 'supabase' | 'firebase' | 'api' | 'localStorage' | 'indexedDB'; // نوع التخزين
+  storageKey?: string; // مفتاح الحفظ المحلي - لكل مقيّم مفتاحه بدل مفتاح واحد مشترك
   endpoint?: string; // للـ API
   apiKey?: string;
   projectId?: string;
@@ -29,6 +31,8 @@ export interface PersistedLearningData {
   };
 }
 
+const DEFAULT_STORAGE_KEY = 'robot_brain_learning_data_v1';
+
 /**
  * طبقة الحفظ والاسترجاع
  */
@@ -36,11 +40,12 @@ export class LearningPersistence {
   private config: PersistenceConfig;
   private adaptiveScorer: AdaptiveWeightScorer;
   private syncTimer?: NodeJS.Timer;
-  private readonly STORAGE_KEY = 'robot_brain_learning_data_v1';
+  private readonly STORAGE_KEY: string;
 
   constructor(config: PersistenceConfig, scorer: AdaptiveWeightScorer) {
     this.config = config;
     this.adaptiveScorer = scorer;
+    this.STORAGE_KEY = config.storageKey || DEFAULT_STORAGE_KEY;
 
     // تفعيل المزامنة التلقائية إذا كانت مفعلة
     if (config.autoSync && config.syncInterval > 0) {
@@ -99,6 +104,9 @@ export class LearningPersistence {
         case 'localStorage':
           await this.saveToLocalStorage(persistedData);
           break;
+        case 'indexedDB':
+          await this.saveToIndexedDB(persistedData);
+          break;
         case 'supabase':
           await this.saveToSupabase(persistedData);
           break;
@@ -133,6 +141,9 @@ export class LearningPersistence {
         case 'localStorage':
           persistedData = await this.loadFromLocalStorage();
           break;
+        case 'indexedDB':
+          persistedData = await this.loadFromIndexedDB();
+          break;
         case 'supabase':
           persistedData = await this.loadFromSupabase();
           break;
@@ -210,6 +221,33 @@ export class LearningPersistence {
     }
   }
 
+  /**
+   * حفظ إلى IndexedDB (مخزن brain) - بلا حد الـ 5MB الذي يملأه سجل الأداء الطويل
+   */
+  private async saveToIndexedDB(data: PersistedLearningData): Promise<void> {
+    await setLocalValue('brain', this.STORAGE_KEY, data);
+  }
+
+  /**
+   * تحميل من IndexedDB - البيانات المحفوظة سابقاً في localStorage تُنقل عند أول تحميل
+   */
+  private async loadFromIndexedDB(): Promise<PersistedLearningData | null> {
+    try {
+      const data = await getLocalValue<PersistedLearningData>('brain', this.STORAGE_KEY);
+      if (data) return data;
+
+      const legacy = await this.loadFromLocalStorage();
+      if (legacy) {
+        await this.saveToIndexedDB(legacy);
+        window.localStorage.removeItem(this.STORAGE_KEY);
+      }
+      return legacy;
+    } catch (error: any) {
+      console.error('❌ خطأ في تحميل من IndexedDB:', error.message);
+      return null;
+    }
+  }
+
   /**
    * حفظ إلى Supabase (مثال - يحتاج تكوين إضافي)
    */
@@ -367,6 +405,8 @@ export class LearningPersistence {
         if (typeof window !== 'undefined' && window.localStorage) {
           window.localStorage.removeItem(this.STORAGE_KEY);
         }
+      } else if (this.config.type === 'indexedDB') {
+        await deleteLocalValue('brain', this.STORAGE_KEY);
       }
       // للأنواع الأخرى، قد تحتاج إلى تنفيذ آلية الحذف
 
@@ -649,3 +649,6 @@ export class MLSelectorPredictor {
 export function createMLSelectorPredictor(): MLSelectorPredictor {
   return new MLSelectorPredictor();
 }
+
+// نسخة مشتركة - تتدرب على نتائج المحددات المستوردة من التشغيلات
+export const mlSelectorPredictor = createMLSelectorPredictor();
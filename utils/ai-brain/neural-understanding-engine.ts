@@ -7,8 +7,12 @@
  * - قرارات ذكية وسريعة جداً
  * - توقع نجاح العمليات
  * - تعديل سريع حسب النتائج
+ *
+ * دقة القرارات المتعلمة أنماط سلوك (behavior) في مخزن المعرفة الموحد
  */
 
+import { knowledgeStore } from './knowledge-store';
+
 export interface ContextSignature {
   pageType: string; // 'login', 'form', 'product', 'search', etc
   elementType: string; // 'input', 'button', 'link', etc
@@ -51,7 +55,7 @@ export class NeuralUnderstandingEngine {
   private domainKnowledge: Map<string, DomainExpertise> = new Map();
 
   // مقاييس الأداء والدقة
-  private predictionAccuracy: Map<string, number> = new Map();
+  private readonly MIN_LEARNED_OCCURRENCES = 5;
   private executionStats: ExecutionStatistics = {
     totalExecutions: 0,
     successfulExecutions: 0,
@@ -274,6 +278,12 @@ export class NeuralUnderstandingEngine {
       }
     }
 
+    // أضف ما تعلمناه من نتائج نفس الإجراء على نفس نوع العنصر والموقع
+    const learned = knowledgeStore.getPattern(this.decisionPatternId(context, action));
+    if (learned && learned.occurrenceCount >= this.MIN_LEARNED_OCCURRENCES) {
+      successProbability = successProbability * 0.5 + learned.successRate * 0.5;
+    }
+
     // أضف معرفة السياق
     if (context.isVisible && context.isInteractive) {
       successProbability += 0.1;
@@ -327,10 +337,22 @@ export class NeuralUnderstandingEngine {
       this.executionStats.totalExecutions;
 
     // تحديث دقة التنبؤ
-    const patternKey = `${context.elementType}:${action}`;
-    const currentAccuracy = this.predictionAccuracy.get(patternKey) || 0.5;
-    const newAccuracy = currentAccuracy + (success ? 0.05 : -0.05);
-    this.predictionAccuracy.set(patternKey, Math.max(0, Math.min(1, newAccuracy)));
+    const id = this.decisionPatternId(context, action);
+    const learned = knowledgeStore.getPattern(id);
+    const occurrences = (learned?.occurrenceCount || 0) + 1;
+    const successes = (learned?.data.successes || 0) + (success ? 1 : 0);
+    const currentAccuracy = learned?.confidence ?? 0.5;
+    knowledgeStore.putPattern({
+      id,
+      website: context.domainType,
+      taskType: context.elementType,
+      patternType: 'behavior',
+      data: { action, elementType: context.elementType, successes, lastError: errorMessage },
+      occurrenceCount: occurrences,
+      successRate: successes / occurrences,
+      confidence: Math.max(0, Math.min(1, currentAccuracy + (success ? 0.05 : -0.05))),
+      lastSeen: new Date().toISOString(),
+    });
 
     // تحديث الأنماط إذا لزم الأمر
     if (success && executionTime < 1000) {
@@ -338,6 +360,10 @@ export class NeuralUnderstandingEngine {
     }
   }
 
+  private decisionPatternId(context: ContextSignature, action: string): string {
+    return `decision:${context.domainType}:${context.elementType}:${action}`;
+  }
+
   /**
    * ابحث عن نمط سريع
    */
@@ -7,8 +7,12 @@
  * 2. أنماط الصفحات المختلفة
  * 3. الأخطاء الشائعة والحلول
  * 4. السياق والبيئة
+ *
+ * معرفة المجالات (المحددات الناجحة والفاشلة لكل نوع عنصر) في مخزن المعرفة الموحد
  */
 
+import { knowledgeStore, ANY_TARGET, selectorFactSuccessRate } from './knowledge-store';
+
 export interface SelectorLearningRecord {
   id: string;
   selector: string;
@@ -44,21 +48,11 @@ export interface SelectorPattern {
   recommendations: string;
 }
 
-export interface DomainKnowledge {
-  domain: string;
-  successfulSelectors: Map<string, number>; // Selector -> success count
-  failedSelectors: Set<string>;
-  commonPatterns: SelectorPattern[];
-  elementTypeStrategies: Map<string, string[]>; // Element type -> best selectors
-  lastUpdated: Date;
-}
-
 /**
  * محرك التعلم المتقدم للمحددات
  */
 export class SelectorLearningEngine {
   private learningRecords: SelectorLearningRecord[] = [];
-  private domainKnowledge: Map<string, DomainKnowledge> = new Map();
   private globalPatterns: SelectorPattern[] = [];
   private successCluster: Map<string, string[]> = new Map(); // Cluster successful selectors
   private failureCluster: Map<string, string[]> = new Map(); // Cluster failed selectors
@@ -177,37 +171,15 @@ export class SelectorLearningEngine {
    * تحديث معرفة المجال
    */
   private updateDomainKnowledge(record: SelectorLearningRecord): void {
-    let knowledge = this.domainKnowledge.get(record.domain);
-
-    if (!knowledge) {
-      knowledge = {
-        domain: record.domain,
-        successfulSelectors: new Map(),
-        failedSelectors: new Set(),
-        commonPatterns: [],
-        elementTypeStrategies: new Map(),
-        lastUpdated: new Date(),
-      };
-    }
-
-    if (record.success) {
-      const count = knowledge.successfulSelectors.get(record.selector) || 0;
-      knowledge.successfulSelectors.set(record.selector, count + 1);
-    } else {
-      knowledge.failedSelectors.add(record.selector);
-    }
-
-    // تحديث استراتيجيات نوع العنصر
-    const elementType = record.context.elementType;
-    let strategies = knowledge.elementTypeStrategies.get(elementType) || [];
-
-    if (record.success && !strategies.includes(record.selector)) {
-      strategies = [record.selector, ...strategies].slice(0, 5); // احفظ أفضل 5
-      knowledge.elementTypeStrategies.set(elementType, strategies);
-    }
-
-    knowledge.lastUpdated = new Date();
-    this.domainKnowledge.set(record.domain, knowledge);
+    knowledgeStore.recordSelectorOutcome({
+      domain: record.domain,
+      target: record.context.elementType,
+      selector: record.selector,
+      success: record.success,
+      duration: record.executionTime,
+      source: 'selector-learning',
+      timestamp: record.context.timestamp,
+    });
   }
 
   /**
@@ -276,13 +248,10 @@ export class SelectorLearningEngine {
    * الحصول على أفضل استراتيجية لنوع عنصر معين
    */
   getBestStrategyForElementType(domain: string, elementType: string): string[] {
-    const knowledge = this.domainKnowledge.get(domain);
+    const strategies = this.getLearnedStrategies(domain, elementType);
 
-    if (knowledge) {
-      const strategies = knowledge.elementTypeStrategies.get(elementType);
-      if (strategies && strategies.length > 0) {
-        return strategies;
-      }
+    if (strategies.length > 0) {
+      return strategies;
     }
 
     // إذا لم نجد في المجال، استخدم الأنماط العامة
@@ -292,6 +261,18 @@ export class SelectorLearningEngine {
       .map((p) => p.name);
   }
 
+  /**
+   * أفضل 5 محددات ناجحة لنوع العنصر في المجال
+   */
+  private getLearnedStrategies(domain: string, elementType: string): string[] {
+    return knowledgeStore
+      .getSelectorFacts(domain, elementType)
+      .filter((fact) => fact.successes > 0)
+      .sort((a, b) => selectorFactSuccessRate(b) - selectorFactSuccessRate(a))
+      .slice(0, 5)
+      .map((fact) => fact.selector);
+  }
+
   /**
    * التنبؤ بنجاح المحدد
    */
@@ -350,17 +331,15 @@ export class SelectorLearningEngine {
     }
 
     // استخراج من المعرفة المجال
-    const knowledge = this.domainKnowledge.get(domain);
-    if (knowledge) {
-      const bestSelectors = Array.from(knowledge.successfulSelectors.entries())
-        .filter(([sel]) => sel !== selector)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 3)
-        .map(([sel]) => sel);
+    const bestSelectors = knowledgeStore
+      .getSelectorFacts(domain)
+      .filter((fact) => fact.selector !== selector && fact.successes > 0)
+      .sort((a, b) => b.successes - a.successes)
+      .slice(0, 3)
+      .map((fact) => fact.selector);
 
-      if (bestSelectors.length > 0) {
-        recommendations.push(`💡 جرب هذه المحددات الناجحة: ${bestSelectors.join(', ')}`);
-      }
+    if (bestSelectors.length > 0) {
+      recommendations.push(`💡 جرب هذه المحددات الناجحة: ${Array.from(new Set(bestSelectors)).join(', ')}`);
     }
 
     return recommendations;
@@ -402,7 +381,7 @@ export class SelectorLearningEngine {
         selector: sel,
         failureCount: count,
       })),
-      totalDomains: this.domainKnowledge.size,
+      totalDomains: knowledgeStore.listDomains().length,
       totalPatterns: this.globalPatterns.length,
       bestPatterns: this.globalPatterns
         .slice(0, 3)
@@ -430,43 +409,68 @@ export class SelectorLearningEngine {
    * تصدير معرفة المجال
    */
   exportDomainKnowledge(domain: string): any {
-    const knowledge = this.domainKnowledge.get(domain);
+    const facts = knowledgeStore.getSelectorFacts(domain);
 
-    if (!knowledge) {
+    if (facts.length === 0) {
       return null;
     }
 
+    const successfulSelectors = new Map<string, number>();
+    for (const fact of facts.filter((fact) => fact.successes > 0)) {
+      successfulSelectors.set(fact.selector, (successfulSelectors.get(fact.selector) || 0) + fact.successes);
+    }
+    const elementTypes = Array.from(new Set(facts.map((fact) => fact.target)));
+
     return {
       domain,
-      successfulSelectors: Array.from(knowledge.successfulSelectors.entries()),
-      failedSelectors: Array.from(knowledge.failedSelectors),
-      elementTypeStrategies: Array.from(knowledge.elementTypeStrategies.entries()),
-      lastUpdated: knowledge.lastUpdated,
+      successfulSelectors: Array.from(successfulSelectors.entries()),
+      failedSelectors: Array.from(new Set(facts.filter((fact) => fact.failures > 0).map((fact) => fact.selector))),
+      elementTypeStrategies: elementTypes.map((type) => [type, this.getLearnedStrategies(domain, type)]),
+      lastUpdated: new Date(facts.map((fact) => fact.updatedAt).sort().pop()!),
     };
   }
 
   /**
-   * استيراد معرفة المجال
+   * استيراد معرفة المجال - صيغة التصدير القديمة تتحول لحقائق في المخزن الموحد
+   * المحددات بلا نوع عنصر معروف تُحفظ على الهدف العام
    */
   importDomainKnowledge(knowledgeData: any): void {
-    const knowledge: DomainKnowledge = {
-      domain: knowledgeData.domain,
-      successfulSelectors: new Map(knowledgeData.successfulSelectors || []),
-      failedSelectors: new Set(knowledgeData.failedSelectors || []),
-      commonPatterns: knowledgeData.commonPatterns || [],
-      elementTypeStrategies: new Map(knowledgeData.elementTypeStrategies || []),
-      lastUpdated: new Date(knowledgeData.lastUpdated || new Date()),
-    };
+    const domain = knowledgeData.domain;
+    const timestamp = knowledgeData.lastUpdated || new Date();
+    const typeOf = new Map<string, string>();
+    for (const [elementType, selectors] of knowledgeData.elementTypeStrategies || []) {
+      (selectors as string[]).forEach((selector) => typeOf.set(selector, elementType));
+    }
 
-    this.domainKnowledge.set(knowledge.domain, knowledge);
+    for (const [selector, count] of knowledgeData.successfulSelectors || []) {
+      for (let i = 0; i < count; i++) {
+        knowledgeStore.recordSelectorOutcome({
+          domain,
+          target: typeOf.get(selector) || ANY_TARGET,
+          selector,
+          success: true,
+          source: 'selector-learning',
+          timestamp,
+        });
+      }
+    }
+    for (const selector of knowledgeData.failedSelectors || []) {
+      knowledgeStore.recordSelectorOutcome({
+        domain,
+        target: typeOf.get(selector) || ANY_TARGET,
+        selector,
+        success: false,
+        source: 'selector-learning',
+        timestamp,
+      });
+    }
   }
 
   /**
-   * إعادة تعيين النظام
+   * إعادة تعيين النظام - معرفة المجالات مشتركة في المخزن الموحد فلا تُمسح من هنا
    */
   reset(): void {
     this.learningRecords = [];
-    this.domainKnowledge.clear();
     this.successCluster.clear();
     this.failureCluster.clear();
     this.initializeGlobalPatterns();
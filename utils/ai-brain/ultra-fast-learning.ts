@@ -4,8 +4,11 @@
  * 
  * يتعلم النظام من كل محاولة ويتحسن تلقائياً
  * مع الاحتفاظ بأفضل الاستراتيجيات للمستقبل
+ * التجارب تُحفظ كحقائق محددات في مخزن المعرفة الموحد (المجال + الهدف)
  */
 
+import { knowledgeStore, SelectorFact, selectorFactSuccessRate, selectorFactAverageTime } from './knowledge-store';
+
 export interface LearningExperience {
   id: string;
   timestamp: number;
@@ -45,32 +48,23 @@ export interface DomainKnowledge {
  * محرك الذاكرة الذكية
  */
 class SmartMemoryEngine {
-  private memories: Map<string, LearningExperience[]> = new Map();
   private patterns: Map<string, PatternRecognition> = new Map();
-  private domainKnowledge: Map<string, DomainKnowledge> = new Map();
-  private readonly MAX_MEMORIES_PER_KEY = 1000;
   private readonly PATTERN_THRESHOLD = 5; // minimum experiences to form pattern
 
   /**
    * تسجيل تجربة جديدة وتعلم منها فوراً
    */
   recordExperience(experience: LearningExperience): void {
-    const key = `${experience.domain}:${experience.target}`;
-    
-    // حفظ في الذاكرة
-    if (!this.memories.has(key)) {
-      this.memories.set(key, []);
-    }
-    
-    const memories = this.memories.get(key)!;
-    memories.unshift(experience); // الأحدث أولاً
-    
-    if (memories.length > this.MAX_MEMORIES_PER_KEY) {
-      memories.pop();
-    }
-
-    // تحديث معرفة المجال
-    this.updateDomainKnowledge(experience);
+    // حفظ في المخزن الموحد
+    knowledgeStore.recordSelectorOutcome({
+      domain: experience.domain,
+      target: experience.target,
+      selector: experience.selector,
+      success: experience.success,
+      duration: experience.timeMs,
+      source: 'ultra-fast',
+      timestamp: new Date(experience.timestamp),
+    });
 
     // البحث عن أنماط جديدة
     this.detectNewPatterns(experience);
@@ -79,56 +73,17 @@ class SmartMemoryEngine {
     this.adjustWeights(experience);
   }
 
-  /**
-   * تحديث معرفة المجال
-   */
-  private updateDomainKnowledge(experience: LearningExperience): void {
-    let domain = this.domainKnowledge.get(experience.domain);
-    
-    if (!domain) {
-      domain = {
-        domain: experience.domain,
-        totalAttempts: 0,
-        successRate: 0,
-        commonPatterns: [],
-        difficultElements: new Map(),
-        averageTime: 0,
-        lastUpdated: Date.now(),
-      };
-      this.domainKnowledge.set(experience.domain, domain);
-    }
-
-    const oldCount = domain.totalAttempts;
-    domain.totalAttempts++;
-    
-    // تحديث معدل النجاح
-    const successes = Math.floor(domain.successRate * oldCount) + (experience.success ? 1 : 0);
-    domain.successRate = successes / domain.totalAttempts;
-
-    // تحديث متوسط الوقت
-    domain.averageTime = (domain.averageTime * oldCount + experience.timeMs) / domain.totalAttempts;
-
-    // تتبع العناصر الصعبة
-    if (!experience.success) {
-      const elem = domain.difficultElements.get(experience.target) || { attempts: 0, successRate: 0 };
-      elem.attempts++;
-      domain.difficultElements.set(experience.target, elem);
-    }
-
-    domain.lastUpdated = Date.now();
-  }
-
   /**
    * كشف أنماط جديدة من التجارب
    */
   private detectNewPatterns(experience: LearningExperience): void {
     const key = `${experience.domain}:${experience.target}`;
-    const memories = this.memories.get(key) || [];
+    const facts = knowledgeStore.getSelectorFacts(experience.domain, experience.target);
+    const attempts = facts.reduce((sum, f) => sum + f.successes + f.failures, 0);
 
-    if (memories.length >= this.PATTERN_THRESHOLD) {
-      const successCount = memories.filter(m => m.success).length;
-      const successRate = successCount / memories.length;
-      const avgTime = memories.reduce((sum, m) => sum + m.timeMs, 0) / memories.length;
+    if (attempts >= this.PATTERN_THRESHOLD) {
+      const successRate = facts.reduce((sum, f) => sum + f.successes, 0) / attempts;
+      const avgTime = facts.reduce((sum, f) => sum + f.totalTime, 0) / attempts;
 
       const pattern: PatternRecognition = {
         pattern: key,
@@ -136,7 +91,7 @@ class SmartMemoryEngine {
         successRate,
         averageTime: avgTime,
         domain: experience.domain,
-        contexts: memories.map(m => m.target),
+        contexts: facts.map(f => f.selector),
         weight: successRate * 0.7 + (1 - avgTime / 1000) * 0.3, // مزيج من النجاح والسرعة
       };
 
@@ -175,26 +130,48 @@ class SmartMemoryEngine {
    * الحصول على أفضل الاستراتيجيات للهدف
    */
   getBestStrategies(domain: string, target: string): string[] {
-    const key = `${domain}:${target}`;
-    const memories = this.memories.get(key) || [];
-
     // ترتيب حسب النجاح والسرعة
-    return memories
-      .filter(m => m.success)
-      .sort((a, b) => {
-        const scoreA = (a.confidence * 0.7) + ((1000 - a.timeMs) / 1000 * 0.3);
-        const scoreB = (b.confidence * 0.7) + ((1000 - b.timeMs) / 1000 * 0.3);
-        return scoreB - scoreA;
-      })
-      .map(m => m.selector)
+    const score = (fact: SelectorFact) =>
+      selectorFactSuccessRate(fact) * 0.7 + ((1000 - selectorFactAverageTime(fact)) / 1000) * 0.3;
+
+    return knowledgeStore
+      .getSelectorFacts(domain, target)
+      .filter(f => f.successes > 0)
+      .sort((a, b) => score(b) - score(a))
+      .map(f => f.selector)
       .slice(0, 5);
   }
 
   /**
-   * الحصول على معرفة المجال
+   * الحصول على معرفة المجال - تُحسب من حقائق المخزن الموحد
    */
   getDomainKnowledge(domain: string): DomainKnowledge | undefined {
-    return this.domainKnowledge.get(domain);
+    const facts = knowledgeStore.getSelectorFacts(domain);
+    if (facts.length === 0) return undefined;
+
+    const totalAttempts = facts.reduce((sum, f) => sum + f.successes + f.failures, 0);
+    const successes = facts.reduce((sum, f) => sum + f.successes, 0);
+
+    // تتبع العناصر الصعبة
+    const difficultElements = new Map<string, { attempts: number; successRate: number }>();
+    for (const target of new Set(facts.filter(f => f.failures > 0).map(f => f.target))) {
+      const targetFacts = facts.filter(f => f.target === target);
+      const attempts = targetFacts.reduce((sum, f) => sum + f.successes + f.failures, 0);
+      difficultElements.set(target, {
+        attempts,
+        successRate: targetFacts.reduce((sum, f) => sum + f.successes, 0) / attempts,
+      });
+    }
+
+    return {
+      domain,
+      totalAttempts,
+      successRate: totalAttempts > 0 ? successes / totalAttempts : 0,
+      commonPatterns: Array.from(this.patterns.values()).filter(p => p.domain === domain),
+      difficultElements,
+      averageTime: totalAttempts > 0 ? facts.reduce((sum, f) => sum + f.totalTime, 0) / totalAttempts : 0,
+      lastUpdated: Math.max(...facts.map(f => new Date(f.updatedAt).getTime())),
+    };
   }
 
   /**
@@ -217,11 +194,16 @@ class SmartMemoryEngine {
   }
 
   getStats() {
+    const domains = knowledgeStore
+      .listDomains()
+      .map(domain => this.getDomainKnowledge(domain))
+      .filter((d): d is DomainKnowledge => !!d);
+
     return {
-      totalMemories: this.memories.size,
+      totalMemories: knowledgeStore.queryKnowledge({ category: 'selector', tags: ['selector-fact'] }).length,
       totalPatterns: this.patterns.size,
-      totalDomains: this.domainKnowledge.size,
-      topDomains: Array.from(this.domainKnowledge.values())
+      totalDomains: domains.length,
+      topDomains: domains
         .sort((a, b) => b.successRate - a.successRate)
         .slice(0, 5)
         .map(d => ({
@@ -0,0 +1,446 @@
+/**
+ * مسجّل المتصفح - يحوّل تفاعلات المستخدم اليدوية (نقر، كتابة، اختيار، تنقل) إلى خطوات المنشئ
+ * سكريبت الصفحة يصف العنصر المستهدف، ثم تُجمع محددات مرشحة من XPathSelectorGenerator
+ * و AdvancedSelectorIntelligence وتُفحص على الصفحة الحية: الأول محدد الخطوة والباقي بدائلها
+ */
+
+import type { StepNode, StepParams } from '../types';
+import type { ElementSignature } from './ai-brain/supreme-robot-brain';
+import { createStep } from './step-graph';
+import { XPathSelectorGenerator } from './ai-brain/xpath-selector-generator';
+import { advancedSelectorIntelligence } from './ai-brain/advanced-selector-intelligence';
+
+// وصف العنصر كما يقرؤه سكريبت الصفحة - يكفي لتوليد المحددات دون الرجوع للصفحة
+export type ElementDescription = {
+  tag: string;
+  id: string | null;
+  text: string;
+  dataTestId: string | null;
+  ariaLabel: string | null;
+  name: string | null;
+  placeholder: string | null;
+  class: string | null;
+  type: string | null;
+  role: string | null;
+  absolutePath: string; // XPath مطلق - آخر بديل
+  relatedElement: { text: string; id: string | null } | null; // label العنصر إن وجد
+  parent: { tag: string; id: string | null; class: string | null; text: string } | null; // الأب المباشر - جزء من بصمة العنصر
+  html: string; // الوسم الافتتاحي فقط
+  candidates: { selector: string; score: number }[]; // محددات CSS فريدة في الصفحة وقت الوصف
+};
+
+export type RecordedElement = ElementDescription & {
+  seq: number; // مرجع العنصر في الصفحة لفحص المحددات لاحقاً
+};
+
+export type RecordedAction =
+  | { kind: 'click'; element: RecordedElement }
+  | { kind: 'type'; element: RecordedElement; value: string; sensitive: boolean }
+  | { kind: 'select'; element: RecordedElement; value: string }
+  | { kind: 'navigate'; url: string };
+
+export type RankedSelector = {
+  selector: string;
+  score: number;
+  source: 'recorder' | 'xpath' | 'intelligence' | 'proximity';
+  verified: boolean; // يطابق العنصر المسجَّل وحده
+};
+
+// اسم الدالة المعرّضة للصفحة - السكريبت يرسل كل تفاعل عبرها
+export const RECORDER_BINDING = '__recordAction';
+
+// قيمة حقول كلمات المرور لا تُسجَّل - تُقرأ من الخزنة وقت التشغيل
+export const RECORDED_PASSWORD_TEXT = '{{secrets.PASSWORD}}';
+
+const MAX_SELECTORS_PER_STEP = 5;
+
+// تنقل يحدث بعد نقر خلال هذه المدة يُعتبر نتيجة له فلا يُسجَّل كخطوة مستقلة
+const NAVIGATION_GRACE_MS = 2500;
+
+/**
+ * دالة وصف العنصر كنص - تُقيَّم في سياق الصفحة (document و CSS هناك) وتعيد ElementDescription
+ */
+export const DESCRIBE_ELEMENT_SCRIPT = `(el) => {
+  const TEXT_INPUTS = ['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', ''];
+  const TEST_ATTRIBUTES = ['data-testid', 'data-test', 'data-cy', 'data-qa'];
+
+  const isTextInput = (node) => node.tagName === 'TEXTAREA' || (node.tagName === 'INPUT' && TEXT_INPUTS.includes((node.getAttribute('type') || '').toLowerCase()));
+  const quote = (value) => '"' + value.replace(/\\\\/g, '\\\\\\\\').replace(/"/g, '\\\\"') + '"';
+  const isUnique = (selector, node) => {
+    try {
+      const matches = document.querySelectorAll(selector);
+      return matches.length === 1 && matches[0] === node;
+    } catch {
+      return false;
+    }
+  };
+  const textOf = (node) => (node.innerText || node.textContent || '').trim().replace(/\\s+/g, ' ').slice(0, 80);
+  const absolutePathOf = (node) => {
+    const parts = [];
+    for (; node && node.nodeType === 1; node = node.parentElement) {
+      let index = 1;
+      for (let sibling = node.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+        if (sibling.tagName === node.tagName) index++;
+      }
+      parts.unshift(node.tagName.toLowerCase() + '[' + index + ']');
+    }
+    return '/' + parts.join('/');
+  };
+  const cssPathOf = (node) => {
+    const parts = [];
+    for (; node && node.nodeType === 1 && node !== document.body; node = node.parentElement) {
+      if (node.id && isUnique('#' + CSS.escape(node.id), node)) {
+        parts.unshift('#' + CSS.escape(node.id));
+        break;
+      }
+      let part = node.tagName.toLowerCase();
+      const sameTag = node.parentElement ? Array.from(node.parentElement.children).filter(child => child.tagName === node.tagName) : [];
+      if (sameTag.length > 1) part += ':nth-of-type(' + (sameTag.indexOf(node) + 1) + ')';
+      parts.unshift(part);
+    }
+    return parts.join(' > ');
+  };
+  const labelOf = (node) => {
+    const label = (node.id && document.querySelector('label[for=' + quote(node.id) + ']')) || node.closest('label');
+    return label && label !== node ? { text: textOf(label), id: label.id || null } : null;
+  };
+
+  const tag = el.tagName.toLowerCase();
+  const candidates = [];
+  const add = (selector, score) => {
+    if (isUnique(selector, el)) candidates.push({ selector, score });
+  };
+  for (const attribute of TEST_ATTRIBUTES) {
+    const value = el.getAttribute(attribute);
+    if (value) add('[' + attribute + '=' + quote(value) + ']', 0.98);
+  }
+  // المعرفات التي تحتوي أرقاماً طويلة غالباً مولّدة وتتغير بين التحميلات
+  if (el.id) add('#' + CSS.escape(el.id), /\\d{4,}/.test(el.id) ? 0.6 : 0.95);
+  for (const [attribute, score] of [['name', 0.9], ['aria-label', 0.85], ['placeholder', 0.8], ['href', 0.7]]) {
+    const value = el.getAttribute(attribute);
+    if (value && value.length <= 120) add(tag + '[' + attribute + '=' + quote(value) + ']', score);
+  }
+  add(cssPathOf(el), 0.5);
+
+  const html = el.outerHTML;
+  const parent = el.parentElement && el.parentElement !== document.body ? el.parentElement : null;
+  return {
+    tag,
+    id: el.id || null,
+    text: isTextInput(el) ? '' : textOf(el),
+    dataTestId: el.getAttribute('data-testid'),
+    ariaLabel: el.getAttribute('aria-label'),
+    name: el.getAttribute('name'),
+    placeholder: el.getAttribute('placeholder'),
+    class: typeof el.className === 'string' && el.className ? el.className : null,
+    type: el.getAttribute('type'),
+    role: el.getAttribute('role'),
+    absolutePath: absolutePathOf(el),
+    relatedElement: labelOf(el),
+    parent: parent ? {
+      tag: parent.tagName.toLowerCase(),
+      id: parent.id || null,
+      class: typeof parent.className === 'string' && parent.className ? parent.className : null,
+      text: textOf(parent),
+    } : null,
+    html: html.slice(0, Math.min(html.indexOf('>') + 1 || 500, 500)),
+    candidates,
+  };
+}`;
+
+/**
+ * سكريبت الصفحة - يُحقن في كل تنقل عبر addInitScript ويعمل في الإطار الرئيسي فقط
+ */
+export const RECORDER_INIT_SCRIPT = `(() => {
+  if (window.top !== window || window.__recorderInstalled) return;
+  window.__recorderInstalled = true;
+
+  const targets = new Map();
+  let seq = 0;
+  window.__recorderTargets = targets;
+
+  const TEXT_INPUTS = ['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', ''];
+  const ACTIONABLE = 'a, button, input, select, textarea, label, summary, [role="button"], [role="link"], [role="menuitem"], [role="tab"], [role="checkbox"], [onclick]';
+
+  const isTextInput = (el) => el.tagName === 'TEXTAREA' || (el.tagName === 'INPUT' && TEXT_INPUTS.includes((el.getAttribute('type') || '').toLowerCase()));
+  const describeElement = ${DESCRIBE_ELEMENT_SCRIPT};
+  const describe = (el) => {
+    const id = ++seq;
+    targets.set(id, el);
+    if (targets.size > 50) targets.delete(targets.keys().next().value);
+    return { seq: id, ...describeElement(el) };
+  };
+
+  const send = (action) => {
+    window.${RECORDER_BINDING}(action).catch(() => {});
+  };
+
+  // قيمة آخر إرسال لكل حقل - Enter ثم change لا يسجلان الكتابة مرتين
+  const sentValues = new WeakMap();
+  const sendTyping = (el) => {
+    if (sentValues.get(el) === el.value) return;
+    sentValues.set(el, el.value);
+    send({ kind: 'type', element: describe(el), value: el.value, sensitive: el.type === 'password' });
+  };
+
+  document.addEventListener('click', (event) => {
+    if (!event.isTrusted || !(event.target instanceof Element)) return;
+    const el = event.target.closest(ACTIONABLE) || event.target;
+    // الحقول والقوائم تُسجَّل عند تغيّر قيمتها
+    if (isTextInput(el) || el.tagName === 'SELECT' || el.tagName === 'OPTION') return;
+    send({ kind: 'click', element: describe(el) });
+  }, true);
+
+  document.addEventListener('change', (event) => {
+    const el = event.target;
+    if (!event.isTrusted || !(el instanceof Element)) return;
+    if (el.tagName === 'SELECT') {
+      send({ kind: 'select', element: describe(el), value: el.value });
+    } else if (isTextInput(el)) {
+      sendTyping(el);
+    }
+  }, true);
+
+  document.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter' && event.target instanceof Element && isTextInput(event.target)) {
+      sendTyping(event.target);
+    }
+  }, true);
+})();`;
+
+/**
+ * فحص المحددات على الصفحة - true إذا طابق المحدد العنصر المسجَّل وحده، null إذا غادرت الصفحة
+ */
+const VERIFY_SELECTORS_SCRIPT = `(({ seq, selectors }) => {
+  const el = window.__recorderTargets && window.__recorderTargets.get(seq);
+  if (!el || !el.isConnected) return null;
+  return selectors.map(selector => {
+    try {
+      if (selector.startsWith('xpath=') || selector.startsWith('//')) {
+        const result = document.evaluate(selector.replace(/^xpath=/, ''), document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+        return result.snapshotLength === 1 && result.snapshotItem(0) === el;
+      }
+      const matches = document.querySelectorAll(selector);
+      return matches.length === 1 && matches[0] === el;
+    } catch {
+      return false;
+    }
+  });
+})`;
+
+// نطاق الرابط كما يسجله السكريبت المنشور في سجل المحددات - مفتاح التعلم لكل موقع
+function getSelectorDomain(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+// Playwright يتعرف تلقائياً على XPath الذي يبدأ بـ // فقط
+function toPlaywrightXPath(xpath: string): string {
+  return xpath.startsWith('//') ? xpath : `xpath=${xpath}`;
+}
+
+/**
+ * جمع المحددات المرشحة لعنصر من وصفه: محددات الصفحة ثم XPathSelectorGenerator ثم AdvancedSelectorIntelligence
+ * المكرر يبقى بأعلى درجة، ولا شيء منها مفحوص على الصفحة إلا محددات الصفحة
+ */
+export async function collectSelectorCandidates(
+  element: ElementDescription,
+  context: { website: string; taskType: string }
+): Promise<RankedSelector[]> {
+  const bySelector = new Map<string, RankedSelector>();
+  const add = (candidate: RankedSelector) => {
+    const existing = bySelector.get(candidate.selector);
+    if (!existing || candidate.score > existing.score) {
+      bySelector.set(candidate.selector, { ...candidate, verified: candidate.verified || !!existing?.verified });
+    }
+  };
+
+  element.candidates.forEach(candidate => add({ ...candidate, source: 'recorder', verified: true }));
+
+  XPathSelectorGenerator.generateXPathOptions(element, { targetElement: element.tag, maxOptions: 8 })
+    .forEach(option => add({ selector: toPlaywrightXPath(option.xpath), score: option.score, source: 'xpath', verified: false }));
+
+  try {
+    const strategy = await advancedSelectorIntelligence.selectBestSelectors(
+      // نفس مفتاح الموقع في سجلات التشغيلات المستوردة - ليظهر ما تعلمته المحركات من التشغيل الفعلي
+      { website: getSelectorDomain(context.website), taskType: context.taskType, elementType: element.tag, elementText: element.text || undefined },
+      element.html
+    );
+    [...strategy.primary, ...strategy.fallbacks].forEach(candidate =>
+      add({
+        selector: candidate.type === 'text' ? toPlaywrightXPath(candidate.selector) : candidate.selector,
+        score: candidate.score,
+        source: 'intelligence',
+        verified: false,
+      })
+    );
+  } catch (error: any) {
+    console.warn('⚠️ تعذر توليد محددات ذكية:', error.message);
+  }
+
+  return Array.from(bySelector.values());
+}
+
+/**
+ * جمع المحددات المرشحة لعنصر مسجَّل وترتيبها - المؤكدة على الصفحة أولاً ثم حسب الدرجة
+ */
+export async function rankSelectorCandidates(
+  page: any,
+  element: RecordedElement,
+  context: { website: string; taskType: string }
+): Promise<RankedSelector[]> {
+  const candidates = await collectSelectorCandidates(element, context);
+  const unverified = candidates.filter(candidate => !candidate.verified);
+  let checks: (boolean | null)[] | null = null;
+  if (unverified.length > 0) {
+    try {
+      checks = await page.evaluate(
+        `${VERIFY_SELECTORS_SCRIPT}(${JSON.stringify({ seq: element.seq, selectors: unverified.map(candidate => candidate.selector) })})`
+      );
+    } catch {
+      // الصفحة انتقلت أثناء الفحص - تبقى المحددات غير مؤكدة
+    }
+  }
+
+  // المحددات التي طابقت عناصر أخرى تُستبعد، وغير المفحوصة (الصفحة غادرت) تُخفض درجتها
+  const ranked: RankedSelector[] = [];
+  for (const candidate of candidates) {
+    if (!candidate.verified) {
+      const check = checks ? checks[unverified.indexOf(candidate)] : null;
+      if (check === false) continue;
+      if (check === true) candidate.verified = true;
+      else candidate.score *= 0.6;
+    }
+    ranked.push(candidate);
+  }
+
+  return ranked.sort((a, b) => Number(b.verified) - Number(a.verified) || b.score - a.score);
+}
+
+/**
+ * بصمة العنصر من وصف المسجّل أو المنتقي - label الحقل يقوم مقام نصه
+ */
+export function toElementSignature(element: ElementDescription): ElementSignature {
+  const attributes: Record<string, string> = {};
+  const attributeValues: [string, string | null][] = [
+    ['data-testid', element.dataTestId],
+    ['name', element.name],
+    ['placeholder', element.placeholder],
+    ['type', element.type],
+  ];
+  for (const [name, value] of attributeValues) {
+    if (value) attributes[name] = value;
+  }
+  const classesOf = (value: string | null) => (value ? value.split(/\s+/).filter(Boolean) : undefined);
+
+  return {
+    tag: element.tag,
+    id: element.id || undefined,
+    classes: classesOf(element.class),
+    text: element.text || element.relatedElement?.text || undefined,
+    attributes,
+    role: element.role || undefined,
+    ariaLabel: element.ariaLabel || undefined,
+    parentSignature: element.parent
+      ? {
+          tag: element.parent.tag,
+          id: element.parent.id || undefined,
+          classes: classesOf(element.parent.class),
+          text: element.parent.text || undefined,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * تحويل تفاعل مسجَّل إلى خطوة - المحدد الأفضل في params والباقي في fallbacks، وبصمة العنصر للمعالجة الذاتية
+ */
+export function recordedActionToStep(action: RecordedAction, selectors: RankedSelector[] = []): StepNode {
+  if (action.kind === 'navigate') {
+    return createStep('navigate', { params: { url: action.url } });
+  }
+
+  const chosen = selectors.slice(0, MAX_SELECTORS_PER_STEP).map(candidate => candidate.selector);
+  if (chosen.length === 0) chosen.push(toPlaywrightXPath(action.element.absolutePath));
+  const [selector, ...fallbackSelectors] = chosen;
+  const fallbacks: StepParams[] = fallbackSelectors.map(fallback => ({ selector: fallback }));
+
+  const signature = toElementSignature(action.element);
+
+  switch (action.kind) {
+    case 'click':
+      return createStep('click', { params: { selector }, fallbacks, signature });
+    case 'type':
+      return createStep('type', { params: { selector, text: action.sensitive ? RECORDED_PASSWORD_TEXT : action.value }, fallbacks, signature });
+    case 'select':
+      return createStep('select', { params: { selector, value: action.value }, fallbacks, signature });
+  }
+}
+
+/**
+ * جلسة تسجيل على صفحة Playwright - الخطوات تُرسل لـ onStep بترتيب حدوثها
+ */
+export class BrowserRecorder {
+  private chain: Promise<void> = Promise.resolve();
+  private lastUrl = '';
+  private lastClickAt = 0;
+  private count = 0;
+
+  constructor(
+    private page: any,
+    private onStep: (step: StepNode) => void,
+    private website: string
+  ) {}
+
+  get stepCount(): number {
+    return this.count;
+  }
+
+  async start(url: string): Promise<void> {
+    await this.page.exposeBinding(RECORDER_BINDING, (_source: any, action: RecordedAction) => this.enqueue(action));
+    await this.page.addInitScript({ content: RECORDER_INIT_SCRIPT });
+    this.page.on('framenavigated', (frame: any) => {
+      if (frame === this.page.mainFrame()) this.enqueue({ kind: 'navigate', url: frame.url() });
+    });
+    await this.page.goto(url);
+  }
+
+  /**
+   * انتظار معالجة كل التفاعلات المستلمة
+   */
+  async flush(): Promise<void> {
+    await this.chain;
+  }
+
+  private enqueue(action: RecordedAction): Promise<void> {
+    // النقر يُسجَّل وقت حدوثه لا وقت معالجته حتى لا يُسجَّل التنقل الناتج عنه
+    if (action.kind === 'click') this.lastClickAt = Date.now();
+    const receivedAt = Date.now();
+    this.chain = this.chain
+      .then(() => this.handle(action, receivedAt))
+      .catch(error => console.warn('⚠️ تعذر تسجيل التفاعل:', error.message));
+    return this.chain;
+  }
+
+  private async handle(action: RecordedAction, receivedAt: number): Promise<void> {
+    if (action.kind === 'navigate') {
+      if (action.url === this.lastUrl || action.url === 'about:blank') return;
+      const causedByClick = this.lastUrl !== '' && receivedAt - this.lastClickAt < NAVIGATION_GRACE_MS;
+      this.lastUrl = action.url;
+      if (causedByClick) return;
+      this.emit(recordedActionToStep(action));
+      return;
+    }
+
+    const selectors = await rankSelectorCandidates(this.page, action.element, { website: this.website, taskType: action.kind });
+    this.emit(recordedActionToStep(action, selectors));
+  }
+
+  private emit(step: StepNode): void {
+    this.count++;
+    this.onStep(step);
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * اختبارات golden لمقارنة بيانات المراقبة
+ * Data Diff Golden Tests
+ *
+ * المقارنة تعمل داخل السكريبت المنشور (DATA_DIFF_RUNTIME) فيُحمَّل وقت التشغيل نفسه
+ * بـ new Function وتُثبَّت نتيجته لكل حالة: المفاتيح، العتبات، الأرقام المنسقة، والحقول المتجاهلة.
+ */
+
+import type { DiffRow, FieldChange, MonitoringConfig } from './data-diff';
+import { DATA_DIFF_RUNTIME, DEFAULT_MONITORING } from './data-diff';
+import type { GoldenCheck, GoldenResult } from './golden';
+import { runGoldenCases, goldenDiff } from './golden';
+
+type DiffGoldenCase = {
+  name: string;
+  config: Partial<MonitoringConfig>;
+  previous: DiffRow[];
+  current: DiffRow[];
+  summary: { added: number; removed: number; changed: number; unchanged: number; thresholdCrossed: number };
+  changes?: FieldChange[]; // تغييرات أول سجل متغير
+};
+
+export const DATA_DIFF_GOLDEN_CASES: DiffGoldenCase[] = [
+  {
+    name: 'مفتاح: إضافة وحذف وتغيير سعر',
+    config: { keyFields: ['id'] },
+    previous: [{ id: 1, price: '$10' }, { id: 2, price: '$5' }],
+    current: [{ id: 1, price: '$12' }, { id: 3, price: '$1' }],
+    summary: { added: 1, removed: 1, changed: 1, unchanged: 0, thresholdCrossed: 0 },
+    changes: [{ field: 'price', before: '$10', after: '$12', delta: 2, percent: 20 }],
+  },
+  {
+    name: 'تغيير أقل من العتبة يُتجاهل',
+    config: { keyFields: ['id'], thresholds: { price: 25 } },
+    previous: [{ id: 1, price: 100 }],
+    current: [{ id: 1, price: 120 }],
+    summary: { added: 0, removed: 0, changed: 0, unchanged: 1, thresholdCrossed: 0 },
+  },
+  {
+    name: 'تغيير يتجاوز العتبة',
+    config: { keyFields: ['id'], thresholds: { price: 10 } },
+    previous: [{ id: 1, price: 100 }],
+    current: [{ id: 1, price: 85 }],
+    summary: { added: 0, removed: 0, changed: 1, unchanged: 0, thresholdCrossed: 1 },
+    changes: [{ field: 'price', before: 100, after: 85, delta: -15, percent: -15, thresholdCrossed: true }],
+  },
+  {
+    name: 'نفس الرقم بتنسيق مختلف',
+    config: { keyFields: ['id'] },
+    previous: [{ id: 1, price: '1,299.00 SAR' }],
+    current: [{ id: 1, price: 1299 }],
+    summary: { added: 0, removed: 0, changed: 0, unchanged: 1, thresholdCrossed: 0 },
+  },
+  {
+    name: 'الحقول المتجاهلة لا تُحتسب',
+    config: { keyFields: ['id'] },
+    previous: [{ id: 1, title: 'A', timestamp: '2026-01-01' }],
+    current: [{ id: 1, title: 'A', timestamp: '2026-01-02' }],
+    summary: { added: 0, removed: 0, changed: 0, unchanged: 1, thresholdCrossed: 0 },
+  },
+  {
+    name: 'سجل واحد بدون مفتاح يُقارن بسجل واحد',
+    config: {},
+    previous: [{ title: 'A', stock: 'متوفر' }],
+    current: [{ title: 'A', stock: 'نفد' }],
+    summary: { added: 0, removed: 0, changed: 1, unchanged: 0, thresholdCrossed: 0 },
+    changes: [{ field: 'stock', before: 'متوفر', after: 'نفد' }],
+  },
+  {
+    name: 'عدة سجلات بدون مفتاح تُقارن بالمحتوى',
+    config: {},
+    previous: [{ title: 'A' }, { title: 'B' }],
+    current: [{ title: 'A' }, { title: 'C' }],
+    summary: { added: 1, removed: 1, changed: 0, unchanged: 1, thresholdCrossed: 0 },
+  },
+  {
+    name: 'مفتاح مكرر يُرقّم',
+    config: { keyFields: ['id'] },
+    previous: [{ id: 1, size: 'S' }, { id: 1, size: 'M' }],
+    current: [{ id: 1, size: 'S' }],
+    summary: { added: 0, removed: 1, changed: 0, unchanged: 1, thresholdCrossed: 0 },
+  },
+];
+
+export const DATA_DIFF_EXTRACT_GOLDEN_CASES: Array<{ name: string; input: any; expected: DiffRow[] }> = [
+  {
+    name: 'نتائج الخطوات',
+    input: [{ stepId: 'extract', data: [{ title: 'A', meta: { price: 10 }, tags: ['x', 'y'] }] }],
+    expected: [{ title: 'A', 'meta.price': 10, tags: 'x; y' }],
+  },
+  {
+    name: 'ملف نتائج كامل',
+    input: { success: true, results: [{ title: 'A' }, 'نص'] },
+    expected: [{ title: 'A' }, { value: 'نص' }],
+  },
+  {
+    name: 'تشغيل فاشل بلا بيانات',
+    input: { status: 'failed', error: 'timeout' },
+    expected: [],
+  },
+];
+
+type DataDiffRuntime = {
+  extractRecords: (value: any) => any[];
+  flattenRecord: (record: any) => DiffRow;
+  diffDatasets: (previousRows: DiffRow[], currentRows: DiffRow[], config: MonitoringConfig) => any;
+};
+
+function loadRuntime(): DataDiffRuntime {
+  try {
+    return new Function(`${DATA_DIFF_RUNTIME}\nreturn { extractRecords, flattenRecord, diffDatasets };`)();
+  } catch (error: any) {
+    throw new Error(`DATA_DIFF_RUNTIME: كود غير صالح - ${error.message}`);
+  }
+}
+
+/**
+ * تشغيل جميع الحالات - يرمي خطأ عند أي اختلاف
+ * وقت التشغيل غير الصالح يُفشل كل الحالات برسالة التحليل نفسها
+ */
+export function runDataDiffGoldenTests(): Promise<GoldenResult> {
+  let runtime: DataDiffRuntime | null = null;
+  const getRuntime = () => (runtime ??= loadRuntime());
+
+  return runGoldenCases('Data diff golden', [
+    ...DATA_DIFF_GOLDEN_CASES.map((diffCase): GoldenCheck => ({
+      name: diffCase.name,
+      run: () => {
+        const failures: string[] = [];
+        const diff = getRuntime().diffDatasets(diffCase.previous, diffCase.current, { ...DEFAULT_MONITORING, ...diffCase.config });
+        const { added, removed, changed, unchanged, thresholdCrossed } = diff.summary;
+        const summary = goldenDiff(diffCase.summary, { added, removed, changed, unchanged, thresholdCrossed });
+        if (summary) failures.push(`summary${summary}`);
+        if (diffCase.changes) {
+          const changes = goldenDiff(diffCase.changes, diff.changed[0]?.changes);
+          if (changes) failures.push(`changes${changes}`);
+        }
+        return failures;
+      },
+    })),
+    ...DATA_DIFF_EXTRACT_GOLDEN_CASES.map((extractCase): GoldenCheck => ({
+      name: extractCase.name,
+      run: () => {
+        const rows = getRuntime().extractRecords(extractCase.input).map(record => getRuntime().flattenRecord(record));
+        const diff = goldenDiff(extractCase.expected, rows);
+        return diff && `rows${diff}`;
+      },
+    })),
+  ]);
+}
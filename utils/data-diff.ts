@@ -0,0 +1,367 @@
+/**
+ * مراقبة تغيّر البيانات بين التشغيلات - كل تشغيل يقارن سجلاته المستخرجة بسجلات
+ * artifact آخر تشغيل ناجح سابق، ويحفظ الفرق في artifact مستقل diff-<taskId>-<run>
+ * المقارنة تتم داخل GitHub Actions (scripts/monitor-diff.js) والواجهة تقرأ الناتج فقط
+ */
+
+import JSZip from 'jszip';
+import { NOTIFY_RUNTIME } from './notifications';
+
+export type MonitoringConfig = {
+  enabled: boolean;
+  keyFields: string[]; // أعمدة تعرّف السجل بعد التسطيح (مثل href أو sku) - فارغة = محتوى السجل كاملاً
+  ignoreFields: string[]; // أعمدة تتغير في كل تشغيل دون أن تعني تغيّراً
+  thresholds: Record<string, number>; // أقل نسبة تغيّر % لحقل رقمي حتى يُعد تغيّراً
+};
+
+export type DiffValue = string | number | boolean | null;
+export type DiffRow = Record<string, DiffValue>;
+
+export type FieldChange = {
+  field: string;
+  before: DiffValue;
+  after: DiffValue;
+  delta?: number; // للحقول الرقمية فقط
+  percent?: number | null; // null عندما القيمة السابقة صفر
+  thresholdCrossed?: boolean; // للحقول التي لها حد في thresholds
+};
+
+export type ChangedRecord = {
+  key: string;
+  record: DiffRow;
+  changes: FieldChange[];
+};
+
+export type DataDiff = {
+  taskId: string;
+  generatedAt: string;
+  previousArtifact: string | null; // null = لا يوجد تشغيل سابق للمقارنة
+  keyFields: string[];
+  summary: {
+    previous: number;
+    current: number;
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    thresholdCrossed: number;
+  };
+  added: DiffRow[];
+  removed: DiffRow[];
+  changed: ChangedRecord[];
+};
+
+export const DEFAULT_MONITORING: MonitoringConfig = {
+  enabled: false,
+  keyFields: [],
+  ignoreFields: ['timestamp'],
+  thresholds: {},
+};
+
+export const DIFF_ARTIFACT_PREFIX = 'diff-';
+export const MONITOR_DIFF_SCRIPT_PATH = 'scripts/monitor-diff.js';
+
+export function getMonitoringConfig(task: any): MonitoringConfig {
+  return { ...DEFAULT_MONITORING, ...(task?.metadata?.monitoring || {}) };
+}
+
+export function taskUsesMonitoring(task: any): boolean {
+  return getMonitoringConfig(task).enabled;
+}
+
+export function isDiffArtifact(name: string): boolean {
+  return name.startsWith(DIFF_ARTIFACT_PREFIX);
+}
+
+/**
+ * قراءة ملف الفرق من artifact (ZIP) - null إذا لم يحتوِ ملف فرق صالحاً
+ */
+export async function readDiffArtifact(blob: Blob): Promise<DataDiff | null> {
+  const zip = await JSZip.loadAsync(blob);
+  const entry = Object.values(zip.files).find(file => !file.dir && /-diff-\d+\.json$/.test(file.name));
+  if (!entry) return null;
+  try {
+    return JSON.parse(await entry.async('string')) as DataDiff;
+  } catch {
+    console.warn(`⚠️ تعذر قراءة ${entry.name}`);
+    return null;
+  }
+}
+
+/**
+ * وقت تشغيل المقارنة - نفس قواعد results-export في استخراج السجلات وتسطيحها
+ * (ملفات -data- أولاً، ثم ملفات النتائج الكاملة) حتى تطابق الأعمدة ما يراه المستخدم في التصدير
+ */
+export const DATA_DIFF_RUNTIME = `// استخراج السجلات من ملفات النتائج وتسطيحها (مثل results-export)
+const extractRecords = (value) => {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(item => item && typeof item === 'object' && 'stepId' in item && 'data' in item)) {
+      return value.flatMap(item => extractRecords(item.data));
+    }
+    return value.map(item => (item && typeof item === 'object' && !Array.isArray(item) ? item : { value: item }));
+  }
+  if (value && typeof value === 'object') {
+    if (value.status === 'failed' && !('data' in value)) return [];
+    if (Array.isArray(value.results)) return extractRecords(value.results);
+    if ('data' in value) return value.data == null ? [] : extractRecords(value.data);
+    return [value];
+  }
+  return value == null ? [] : [{ value }];
+};
+
+const flattenRecord = (record, prefix = '', row = {}) => {
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? prefix + '.' + key : key;
+    if (value == null) row[column] = null;
+    else if (Array.isArray(value)) {
+      row[column] = value.every(item => item == null || typeof item !== 'object') ? value.join('; ') : JSON.stringify(value);
+    } else if (typeof value === 'object') flattenRecord(value, column, row);
+    else row[column] = value;
+  }
+  return row;
+};
+
+// مقارنة سجلات تشغيلين - المفتاح من keyFields، وبدونها يُقارن سجل واحد بسجل واحد أو بالمحتوى كاملاً
+const diffDatasets = (previousRows, currentRows, config) => {
+  const ignored = new Set(config.ignoreFields || []);
+  const thresholds = config.thresholds || {};
+  const keyFields = config.keyFields || [];
+  const single = keyFields.length === 0 && previousRows.length === 1 && currentRows.length === 1;
+  const keyOf = (row) => single ? '' : JSON.stringify(keyFields.length > 0
+    ? keyFields.map(field => row[field] ?? null)
+    : Object.keys(row).sort().filter(field => !ignored.has(field)).map(field => [field, row[field]]));
+  const index = (rows) => {
+    const map = new Map();
+    const counts = new Map();
+    rows.forEach(row => {
+      const base = keyOf(row);
+      const count = (counts.get(base) || 0) + 1;
+      counts.set(base, count);
+      map.set(count > 1 ? base + '#' + count : base, row);
+    });
+    return map;
+  };
+  // رقم مع رمز عملة أو وحدة قصيرة ("$1,299.00" أو "45 SAR") يُقارن كرقم
+  const toNumber = (value) => {
+    if (typeof value === 'number') return value;
+    const match = typeof value === 'string' && value.trim().match(/^[^\\d+-]{0,4}([+-]?[\\d,]*\\.?\\d+)[^\\d]{0,4}$/);
+    return match ? Number(match[1].replace(/,/g, '')) : NaN;
+  };
+
+  const previous = index(previousRows);
+  const current = index(currentRows);
+  const added = [];
+  const removed = [];
+  const changed = [];
+  let unchanged = 0;
+  let thresholdCrossed = 0;
+
+  for (const [key, row] of current) {
+    const before = previous.get(key);
+    if (!before) {
+      added.push(row);
+      continue;
+    }
+    const changes = [];
+    const fields = new Set([...Object.keys(before), ...Object.keys(row)]);
+    for (const field of fields) {
+      if (ignored.has(field)) continue;
+      const oldValue = before[field] ?? null;
+      const newValue = row[field] ?? null;
+      if (oldValue === newValue) continue;
+      const oldNumber = toNumber(oldValue);
+      const newNumber = toNumber(newValue);
+      const change = { field, before: oldValue, after: newValue };
+      if (Number.isFinite(oldNumber) && Number.isFinite(newNumber)) {
+        if (oldNumber === newNumber) continue; // نفس الرقم بتنسيق مختلف
+        change.delta = newNumber - oldNumber;
+        change.percent = oldNumber === 0 ? null : (change.delta / Math.abs(oldNumber)) * 100;
+        if (field in thresholds) {
+          change.thresholdCrossed = change.percent === null || Math.abs(change.percent) >= thresholds[field];
+          if (!change.thresholdCrossed) continue;
+          thresholdCrossed++;
+        }
+      }
+      changes.push(change);
+    }
+    if (changes.length > 0) changed.push({ key, record: row, changes });
+    else unchanged++;
+  }
+  for (const [key, row] of previous) {
+    if (!current.has(key)) removed.push(row);
+  }
+
+  return {
+    summary: {
+      previous: previousRows.length,
+      current: currentRows.length,
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+      unchanged,
+      thresholdCrossed,
+    },
+    added,
+    removed,
+    changed,
+  };
+};`;
+
+/**
+ * سكريبت المقارنة المنشور - يُشغَّل بعد المهمة: node scripts/monitor-diff.js <taskId>
+ * يبحث عن artifacts المهمة السابقة (من workflow المهمة أو الرئيسي) ويتخطى التشغيلات الفاشلة
+ * ويكتب مخرجات الخطوة (changed, threshold, summary) لخطوات البريد ويرسل تنبيهات المهمة المراقبة
+ * (أحداث البيانات والنجاح معاً - سكريبت المهمة يرسل الفشل فقط)
+ */
+export function generateMonitorDiffScript(): string {
+  return `// مقارنة بيانات التشغيل الحالي بآخر تشغيل ناجح سابق - monitor-diff.js
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { execFileSync } from 'child_process';
+
+${DATA_DIFF_RUNTIME}
+
+${NOTIFY_RUNTIME}
+
+const taskId = process.argv[2];
+const tasks = JSON.parse(await fs.readFile('tasks.json', 'utf-8'));
+const task = tasks.find(item => String(item.id) === taskId);
+const config = { ...${JSON.stringify(DEFAULT_MONITORING)}, ...(task?.metadata?.monitoring || {}) };
+// أقصى عدد artifacts سابقة نفحصها بحثاً عن تشغيل ناجح
+const MAX_CANDIDATES = 5;
+
+const listJsonFiles = async (dir) => {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await listJsonFiles(fullPath));
+    else if (entry.name.endsWith('.json')) files.push(fullPath);
+  }
+  return files;
+};
+
+// سجلات المهمة في مجلد نتائج - null إذا لم يكن فيه تشغيل ناجح
+const readDataset = async (dir) => {
+  const files = (await listJsonFiles(dir)).filter(file => {
+    const name = path.basename(file);
+    return name.startsWith(taskId + '-') && !/-(diff-\\d+|visual|ctrf|selectors)\\.json$/.test(name);
+  });
+  const dataFiles = files.filter(file => /-data-\\d+\\.json$/.test(file));
+  let succeeded = dataFiles.length > 0;
+  const rows = [];
+  for (const file of dataFiles.length > 0 ? dataFiles : files) {
+    try {
+      const json = JSON.parse(await fs.readFile(file, 'utf-8'));
+      if (json?.status === 'success') succeeded = true;
+      extractRecords(json).forEach(record => rows.push(flattenRecord(record)));
+    } catch {
+      console.warn('⚠️ تعذر قراءة', file);
+    }
+  }
+  return succeeded ? rows : null;
+};
+
+const github = async (url) => {
+  const response = await fetch(url, {
+    headers: { Authorization: 'Bearer ' + process.env.GITHUB_TOKEN, Accept: 'application/vnd.github+json' },
+  });
+  if (!response.ok) throw new Error('GitHub API ' + response.status + ': ' + url);
+  return response;
+};
+
+const findPreviousDataset = async () => {
+  if (!process.env.GITHUB_TOKEN) {
+    console.log('⚠️ GITHUB_TOKEN غير متوفر - لا يمكن تحميل التشغيل السابق');
+    return null;
+  }
+  const api = (process.env.GITHUB_API_URL || 'https://api.github.com') + '/repos/' + process.env.GITHUB_REPOSITORY;
+  const namePattern = new RegExp('^(results-)?' + taskId.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&') + '-\\\\d+$');
+  const { artifacts } = await (await github(api + '/actions/artifacts?per_page=100')).json();
+  const candidates = artifacts
+    .filter(artifact => namePattern.test(artifact.name) && !artifact.expired)
+    .filter(artifact => String(artifact.workflow_run?.id) !== process.env.GITHUB_RUN_ID)
+    .slice(0, MAX_CANDIDATES);
+
+  for (const artifact of candidates) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'previous-'));
+    const zipFile = path.join(dir, 'artifact.zip');
+    await fs.writeFile(zipFile, Buffer.from(await (await github(artifact.archive_download_url)).arrayBuffer()));
+    execFileSync('unzip', ['-o', '-q', zipFile, '-d', dir]);
+    const rows = await readDataset(dir);
+    if (rows) return { name: artifact.name, rows };
+    console.log('⏭️ تخطي', artifact.name, '- تشغيل فاشل');
+  }
+  return null;
+};
+
+// أحداث بيانات التشغيل (الأهم أولاً) مع ملخص الفرق - لا أحداث إن لم تتغير البيانات
+const run = async () => {
+  const currentRows = await readDataset('results');
+  if (!currentRows) {
+    console.log('ℹ️ لا توجد نتائج ناجحة للمقارنة');
+    return { events: [] };
+  }
+
+  const previous = await findPreviousDataset();
+  const diff = previous
+    ? diffDatasets(previous.rows, currentRows, config)
+    : diffDatasets([], currentRows, config);
+  const report = {
+    taskId,
+    generatedAt: new Date().toISOString(),
+    previousArtifact: previous ? previous.name : null,
+    keyFields: config.keyFields,
+    ...diff,
+  };
+
+  await fs.mkdir('diffs', { recursive: true });
+  const file = path.join('diffs', taskId + '-diff-' + Date.now() + '.json');
+  await fs.writeFile(file, JSON.stringify(report, null, 2));
+
+  const { summary } = report;
+  console.log(previous ? '🔍 مقارنة مع ' + previous.name : '🆕 أول تشغيل - لا يوجد تشغيل سابق للمقارنة');
+  console.log('➕ مضاف:', summary.added, '➖ محذوف:', summary.removed, '✏️ متغير:', summary.changed, '= بدون تغيير:', summary.unchanged);
+  if (summary.thresholdCrossed > 0) {
+    console.log('::warning title=تغيّر البيانات::' + summary.thresholdCrossed + ' تغيّر تجاوز الحد المحدد');
+  }
+  console.log('💾 تم حفظ الفرق:', file);
+
+  // أول تشغيل ليس تغيّراً - كل سجلاته "مضافة" فقط لعدم وجود ما يُقارن به
+  if (!previous) return { events: [] };
+  const changed = summary.added + summary.removed + summary.changed > 0;
+  if (process.env.GITHUB_OUTPUT) {
+    await fs.appendFile(process.env.GITHUB_OUTPUT, [
+      'changed=' + changed,
+      'threshold=' + (summary.thresholdCrossed > 0),
+      'summary=+' + summary.added + ' -' + summary.removed + ' ~' + summary.changed,
+    ].join('\\n') + '\\n');
+  }
+  return {
+    events: [
+      ...(summary.thresholdCrossed > 0 ? ['threshold'] : []),
+      ...(changed ? ['dataChange'] : []),
+    ],
+    diff: summary,
+  };
+};
+
+if (!config.enabled) {
+  // مهمة أخرى في workflow الرئيسي - سكريبتها يرسل تنبيهاتها بنفسه
+  console.log('ℹ️ مراقبة التغييرات غير مفعّلة لهذه المهمة');
+} else {
+  const result = await run().catch(error => {
+    // فشل المقارنة لا يُفشل المهمة - البيانات نفسها محفوظة
+    console.error('⚠️ فشلت المقارنة:', error.message);
+    return { events: [] };
+  });
+  // الخطوة لا تعمل بعد فشل المهمة - سكريبت المهمة المراقبة يترك حدث النجاح لهنا
+  // فتُرسل كل قاعدة تنبيهاً واحداً بأهم أحداث التشغيل
+  const rules = (task?.metadata?.notifications || []).filter(rule => rule.enabled && rule.events.length > 0 && rule.channel.type !== 'email');
+  if (rules.length > 0) {
+    await sendNotifications(rules, [...result.events, 'success'], { task: { id: taskId, name: task.name }, diff: result.diff });
+  }
+}
+`;
+}
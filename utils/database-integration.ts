@@ -5,6 +5,7 @@
 
 import { supabase } from '../lib/supabase';
 import type { Task, ExecutionLog } from '../App';
+import { getAllRecords, getLocalValue, setLocalValue, LOCAL_SETTINGS_KEY } from './local-database';
 
 // ========== التحقق من حالة Supabase ==========
 export const checkSupabaseStatus = async () => {
@@ -12,41 +13,152 @@ export const checkSupabaseStatus = async () => {
     const { data, error } = await supabase.from('profiles').select('count').limit(1);
     return { connected: !error, error };
   } catch (error) {
-    console.log('⚠️ Supabase غير متصل - استخدام localStorage');
+    console.log('⚠️ Supabase غير متصل - استخدام التخزين المحلي');
     return { connected: false, error };
   }
 };
 
+// ========== النسخة المحلية (IndexedDB) ==========
+
+const loadLocalLogs = async (limit: number): Promise<ExecutionLog[]> => {
+  try {
+    const logs = await getAllRecords<ExecutionLog>('logs');
+    return logs
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+      .slice(0, limit);
+  } catch {
+    return [];
+  }
+};
+
+const loadLocalSettings = async () => {
+  try {
+    return (await getLocalValue('settings', LOCAL_SETTINGS_KEY)) || {};
+  } catch {
+    return {};
+  }
+};
+
+const saveLocalSettings = async (settings: any) => {
+  try {
+    await setLocalValue('settings', LOCAL_SETTINGS_KEY, settings);
+  } catch (error: any) {
+    console.error('خطأ في حفظ الإعدادات محلياً:', error.message);
+  }
+};
+
 // ========== إدارة المهام Tasks ==========
 
-export const syncTasksWithDatabase = async (userId: string, localTasks: Task[]) => {
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// تجزئة 128 بت متزامنة (cyrb128) - تكفي لاشتقاق معرّف، لا للتشفير
+function hash128(text: string): number[] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ code, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ code, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ code, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ code, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  return [h1, h2 ^ h1, h3 ^ h1, h4 ^ h1].map(part => part >>> 0);
+}
+
+/**
+ * معرّف المهمة في جدول tasks (عمود uuid) - المعرّفات المحلية (task-<timestamp>) تُحوّل
+ * لـ uuid ثابت (الإصدار 8) من المستخدم والمعرّف، فيتطابق على كل جهاز دون جدول ربط
+ * المعرّف المحلي يُحفظ في metadata.localId ويعود منه عند القراءة
+ */
+export const remoteTaskId = (userId: string, taskId: string): string => {
+  if (UUID_PATTERN.test(taskId)) return taskId;
+
+  const hex = hash128(`${userId}:${taskId}`).map(part => part.toString(16).padStart(8, '0')).join('');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+// صف جدول tasks ⇄ مهمة محلية
+export const taskToRow = (userId: string, task: Task) => ({
+  id: remoteTaskId(userId, task.id),
+  user_id: userId,
+  name: task.name,
+  description: task.description,
+  type: task.type,
+  status: task.status,
+  script: task.script,
+  target_url: task.targetUrl,
+  schedule: task.schedule,
+  created_at: task.createdAt.toISOString(),
+  last_run: task.lastRun?.toISOString(),
+  // الخادم يشغّل المهام التي حان next_run لها
+  next_run: task.metadata?.schedule?.enabled ? task.metadata.schedule.nextRun ?? null : null,
+  // المجدول على الخادم يشغّل workflow باسم المعرّف المحلي (task-<localId>.yml)
+  metadata: { ...task.metadata, localId: task.id },
+});
+
+export const rowToTask = (row: any): Task => {
+  const { localId, ...metadata } = row.metadata || {};
+  return {
+    id: localId ?? row.id,
+    name: row.name,
+    description: row.description,
+    type: row.type,
+    status: row.status,
+    script: row.script,
+    targetUrl: row.target_url,
+    schedule: row.schedule ?? undefined,
+    createdAt: new Date(row.created_at),
+    lastRun: row.last_run ? new Date(row.last_run) : undefined,
+    metadata,
+  };
+};
+
+export const getRemoteTasks = async (userId: string) => {
   try {
     const { connected } = await checkSupabaseStatus();
     if (!connected) {
-      console.log('📦 حفظ محلي: localStorage فقط');
-      return { success: true, source: 'local' };
+      return { success: true, data: [], source: 'local' };
     }
 
-    // جلب المهام من قاعدة البيانات
-    const { data: remoteTasks, error } = await supabase
+    const { data, error } = await supabase
       .from('tasks')
       .select('*')
       .eq('user_id', userId);
 
     if (error) throw error;
 
-    // دمج المهام المحلية مع البيانات البعيدة
-    const mergedTasks = mergeTasks(localTasks, remoteTasks || []);
+    return { success: true, data: data || [], source: 'database' };
+  } catch (error: any) {
+    console.error('خطأ في جلب المهام:', error.message);
+    return { success: false, data: [], error: error.message, source: 'local' };
+  }
+};
 
-    // تحديث قاعدة البيانات
-    for (const task of mergedTasks) {
-      await upsertTask(userId, task);
+export const getRemoteTask = async (userId: string, taskId: string) => {
+  try {
+    const { connected } = await checkSupabaseStatus();
+    if (!connected) {
+      return { success: true, data: null, source: 'local' };
     }
 
-    return { success: true, source: 'database', tasks: mergedTasks };
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', remoteTaskId(userId, taskId))
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return { success: true, data, source: 'database' };
   } catch (error: any) {
-    console.error('خطأ في مزامنة المهام:', error.message);
-    return { success: false, error: error.message, source: 'local' };
+    console.error('خطأ في جلب المهمة:', error.message);
+    return { success: false, data: null, error: error.message, source: 'local' };
   }
 };
 
@@ -59,20 +171,7 @@ export const upsertTask = async (userId: string, task: Task) => {
 
     const { data, error } = await supabase
       .from('tasks')
-      .upsert({
-        id: task.id,
-        user_id: userId,
-        name: task.name,
-        description: task.description,
-        type: task.type,
-        status: task.status,
-        script: task.script,
-        target_url: task.targetUrl,
-        schedule: task.schedule,
-        created_at: task.createdAt.toISOString(),
-        last_run: task.lastRun?.toISOString(),
-        metadata: task.metadata || {},
-      })
+      .upsert(taskToRow(userId, task))
       .select()
       .single();
 
@@ -85,6 +184,71 @@ export const upsertTask = async (userId: string, task: Task) => {
   }
 };
 
+/**
+ * تحديث مشروط بـ updated_at - ينجح فقط إن لم يُعدّل الصف منذ آخر مزامنة
+ * data = null يعني أن جهازاً آخر سبقنا بتعديل (أو حذف) والمهمة تحتاج دمجاً
+ */
+export const updateTaskIfUnchanged = async (userId: string, task: Task, expectedUpdatedAt: string) => {
+  try {
+    const { connected } = await checkSupabaseStatus();
+    if (!connected) {
+      return { success: true, data: null, source: 'local' };
+    }
+
+    const { id, user_id, created_at, ...changes } = taskToRow(userId, task);
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', user_id)
+      .eq('updated_at', expectedUpdatedAt)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return { success: true, data, source: 'database' };
+  } catch (error: any) {
+    console.error('خطأ في تحديث المهمة:', error.message);
+    return { success: false, data: null, error: error.message, source: 'local' };
+  }
+};
+
+export type RemoteTaskChange =
+  | { type: 'upsert'; row: any }
+  | { type: 'delete'; remoteId: string };
+
+/**
+ * الاشتراك في تعديلات جدول tasks لحظياً (Supabase Realtime) - يعيد دالة الإلغاء
+ * أحداث الحذف لا تقبل فلتر user_id فتصل بمعرّف الخادم فقط - المهام غير المعروفة محلياً تُتجاهل
+ */
+export const subscribeToTaskChanges = (userId: string, onChange: (change: RemoteTaskChange) => void) => {
+  const channel = supabase
+    .channel(`tasks:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'tasks', filter: `user_id=eq.${userId}` },
+      (payload: any) => onChange({ type: 'upsert', row: payload.new })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'tasks', filter: `user_id=eq.${userId}` },
+      (payload: any) => onChange({ type: 'upsert', row: payload.new })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'tasks' },
+      (payload: any) => {
+        if (payload.old?.id) onChange({ type: 'delete', remoteId: payload.old.id });
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
 export const deleteTaskFromDatabase = async (userId: string, taskId: string) => {
   try {
     const { connected } = await checkSupabaseStatus();
@@ -95,7 +259,7 @@ export const deleteTaskFromDatabase = async (userId: string, taskId: string) =>
     const { error } = await supabase
       .from('tasks')
       .delete()
-      .eq('id', taskId)
+      .eq('id', remoteTaskId(userId, taskId))
       .eq('user_id', userId);
 
     if (error) throw error;
@@ -120,7 +284,7 @@ export const saveExecutionLog = async (userId: string, log: ExecutionLog) => {
       .from('execution_logs')
       .insert({
         user_id: userId,
-        task_id: log.taskId,
+        task_id: remoteTaskId(userId, log.taskId),
         task_name: log.taskName,
         status: log.status,
         start_time: log.startTime.toISOString(),
@@ -147,24 +311,24 @@ export const getExecutionLogs = async (userId: string, limit: number = 100) => {
     const { connected } = await checkSupabaseStatus();
     if (!connected) {
       // إرجاع السجلات المحلية
-      const localLogs = JSON.parse(localStorage.getItem('automation-logs') || '[]');
-      return { success: true, data: localLogs, source: 'local' };
+      return { success: true, data: await loadLocalLogs(limit), source: 'local' };
     }
 
+    // task_id عمود uuid - المعرّف المحلي للمهمة من metadata.localId ليطابق السجلات المحلية
     const { data, error } = await supabase
       .from('execution_logs')
-      .select('*')
+      .select('*, task:tasks(local_id:metadata->>localId)')
       .eq('user_id', userId)
       .order('created_at', { ascending: false })
       .limit(limit);
 
     if (error) throw error;
 
-    return { success: true, data: data || [], source: 'database' };
+    const logs = (data || []).map(({ task, ...row }: any) => ({ ...row, task_id: task?.local_id ?? row.task_id }));
+    return { success: true, data: logs, source: 'database' };
   } catch (error: any) {
     console.error('خطأ في جلب السجلات:', error.message);
-    const localLogs = JSON.parse(localStorage.getItem('automation-logs') || '[]');
-    return { success: false, data: localLogs, error: error.message, source: 'local' };
+    return { success: false, data: await loadLocalLogs(limit), error: error.message, source: 'local' };
   }
 };
 
@@ -375,8 +539,7 @@ export const getUserSettings = async (userId: string) => {
   try {
     const { connected } = await checkSupabaseStatus();
     if (!connected) {
-      const localSettings = JSON.parse(localStorage.getItem('automation-settings') || '{}');
-      return { success: true, data: localSettings, source: 'local' };
+      return { success: true, data: await loadLocalSettings(), source: 'local' };
     }
 
     const { data, error } = await supabase
@@ -390,8 +553,7 @@ export const getUserSettings = async (userId: string) => {
     return { success: true, data: data || {}, source: 'database' };
   } catch (error: any) {
     console.error('خطأ في جلب الإعدادات:', error.message);
-    const localSettings = JSON.parse(localStorage.getItem('automation-settings') || '{}');
-    return { success: false, data: localSettings, error: error.message, source: 'local' };
+    return { success: false, data: await loadLocalSettings(), error: error.message, source: 'local' };
   }
 };
 
@@ -399,7 +561,7 @@ export const saveUserSettings = async (userId: string, settings: any) => {
   try {
     const { connected } = await checkSupabaseStatus();
     if (!connected) {
-      localStorage.setItem('automation-settings', JSON.stringify(settings));
+      await saveLocalSettings(settings);
       return { success: true, source: 'local' };
     }
 
@@ -423,7 +585,7 @@ export const saveUserSettings = async (userId: string, settings: any) => {
     return { success: true, data, source: 'database' };
   } catch (error: any) {
     console.error('خطأ في حفظ الإعدادات:', error.message);
-    localStorage.setItem('automation-settings', JSON.stringify(settings));
+    await saveLocalSettings(settings);
     return { success: false, error: error.message, source: 'local' };
   }
 };
@@ -456,44 +618,13 @@ export const getPerformanceStats = async (userId: string, days: number = 30) =>
   }
 };
 
-// ========== دوال مساعدة ==========
-
-const mergeTasks = (localTasks: Task[], remoteTasks: any[]): Task[] => {
-  const merged = new Map<string, Task>();
-
-  // إضافة المهام المحلية
-  localTasks.forEach(task => merged.set(task.id, task));
-
-  // دمج مع المهام البعيدة (الأحدث يفوز)
-  remoteTasks.forEach(remoteTask => {
-    const local = merged.get(remoteTask.id);
-    const remoteDate = new Date(remoteTask.updated_at);
-    const localDate = local?.metadata?.updatedAt ? new Date(local.metadata.updatedAt) : new Date(0);
-
-    if (!local || remoteDate > localDate) {
-      merged.set(remoteTask.id, {
-        id: remoteTask.id,
-        name: remoteTask.name,
-        description: remoteTask.description,
-        type: remoteTask.type,
-        status: remoteTask.status,
-        script: remoteTask.script,
-        targetUrl: remoteTask.target_url,
-        schedule: remoteTask.schedule,
-        createdAt: new Date(remoteTask.created_at),
-        lastRun: remoteTask.last_run ? new Date(remoteTask.last_run) : undefined,
-        metadata: remoteTask.metadata,
-      });
-    }
-  });
-
-  return Array.from(merged.values());
-};
-
 export default {
   checkSupabaseStatus,
-  syncTasksWithDatabase,
+  getRemoteTasks,
+  getRemoteTask,
   upsertTask,
+  updateTaskIfUnchanged,
+  subscribeToTaskChanges,
   deleteTaskFromDatabase,
   saveExecutionLog,
   getExecutionLogs,
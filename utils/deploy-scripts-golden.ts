@@ -0,0 +1,116 @@
+/**
+ * اختبار تحليل سكريبتات النشر
+ * Deploy Scripts Parse Check
+ *
+ * السكريبتات المنشورة تُبنى كنصوص داخل template literals، فخطأ هروب واحد
+ * (مثل '\n' بدل '\\n') ينتج سكريبتاً لا يُحلل ولا يظهر إلا عند تشغيل GitHub Actions.
+ * هنا يُولّد نشر كامل لمهام تفعّل كل الأجزاء الاختيارية ويُحلل كل ملف .js بـ node --check.
+ * ويُتحقق أن workflow المهمة يمرر الأسرار التي تقرؤها خطواتها فقط.
+ * يعمل في Node فقط (child_process).
+ */
+
+import { execFileSync } from 'node:child_process';
+import { generateDeploymentFiles } from './github';
+import { createStepGraph, applyStepGraph } from './step-graph';
+import type { GoldenCheck, GoldenResult } from './golden';
+import { runGoldenCases, goldenDiff } from './golden';
+
+// مهام تغطي: مخطط خطوات مع بصمة (معالجة المحددات) وسر، مراقبة البيانات مع تنبيه، وسكريبت قديم
+const DEPLOY_GOLDEN_TASKS = [
+  applyStepGraph(
+    {
+      id: 'golden-graph',
+      name: 'Golden graph task',
+      targetUrl: 'https://example.com',
+      metadata: {
+        monitoring: { enabled: true, keyFields: ['id'], ignoreFields: ['timestamp'], thresholds: { price: 5 } },
+        notifications: [
+          { id: 'notify', enabled: true, events: ['success', 'dataChange'], channel: { type: 'slack', url: 'https://hooks.example.com/golden' } },
+        ],
+      },
+    },
+    createStepGraph([
+      {
+        id: 'open',
+        type: 'navigate',
+        params: { url: 'https://example.com/login' },
+        fallbacks: [],
+        conditions: [],
+        errorHandling: { ignoreErrors: false, retryCount: 0 },
+      },
+      {
+        id: 'login',
+        type: 'click',
+        params: { selector: "button:has-text('Log in')" },
+        signature: { tag: 'button', text: 'Log in', attributes: {} },
+        fallbacks: [],
+        conditions: [],
+        errorHandling: { ignoreErrors: false, retryCount: 2 },
+      } as any,
+      {
+        id: 'password',
+        type: 'type',
+        params: { selector: '#password', text: '{{secrets.SHOP_PASSWORD}}' },
+        fallbacks: [],
+        conditions: [],
+        errorHandling: { ignoreErrors: false, retryCount: 0 },
+      },
+    ])
+  ),
+  {
+    id: 'golden-legacy',
+    name: 'Golden legacy task',
+    targetUrl: 'https://example.com',
+    script: "await page.goto('https://example.com');",
+  },
+];
+
+function parseModule(source: string): string | null {
+  try {
+    execFileSync(process.execPath, ['--check', '--input-type=module', '-'], { input: source, stdio: 'pipe' });
+    return null;
+  } catch (error: any) {
+    return String(error.stderr || error.message).trim().split('\n').slice(0, 5).join('\n');
+  }
+}
+
+/**
+ * توليد ملفات النشر وتحليل كل سكريبت - يرمي خطأ عند أي سكريبت غير صالح
+ */
+export function runDeployScriptsGoldenTests(): Promise<GoldenResult> {
+  const files = generateDeploymentFiles(DEPLOY_GOLDEN_TASKS, {});
+  const scripts = files.filter(file => file.path.endsWith('.js'));
+
+  return runGoldenCases('Deploy scripts', [
+    // كل جزء اختياري يجب أن يُولّد فعلاً - وإلا فالاختبار لا يغطيه
+    ...['scripts/monitor-diff.js', 'scripts/selector-healing.js'].map((path): GoldenCheck => ({
+      name: path,
+      run: () => (scripts.some(file => file.path === path) ? null : 'لم يُولّد'),
+    })),
+    ...scripts.map((file): GoldenCheck => ({
+      name: file.path,
+      run: () => {
+        const error = parseModule(file.content);
+        return error && `سكريبت غير صالح\n${error}`;
+      },
+    })),
+    {
+      // المهمة مراقبة: النجاح يُرسل من monitor-diff.js مع أحداث البيانات فلا يصل تنبيهان لنفس القاعدة
+      name: 'scripts/task-golden-graph.js: تنبيه النجاح',
+      run: () => {
+        const script = scripts.find(file => file.path === 'scripts/task-golden-graph.js')?.content || '';
+        if (!script.includes("['failure']")) return 'لا يُرسل تنبيه الفشل';
+        if (script.includes("['success']")) return 'يُرسل النجاح رغم أن monitor-diff.js يرسله';
+      },
+    },
+    {
+      // workflow المهمة يمرر الأسرار التي تقرؤها خطواتها فقط - لا أسماء من تعليقات السكريبت
+      name: 'task-golden-graph.yml: الأسرار',
+      run: () => {
+        const workflow = files.find(file => file.path === '.github/workflows/task-golden-graph.yml')?.content || '';
+        const secretEnv = Array.from(new Set(Array.from(workflow.matchAll(/^\s+(SECRET_\w+):/gm), match => match[1])));
+        return goldenDiff(['SECRET_SHOP_PASSWORD'], secretEnv);
+      },
+    },
+  ]);
+}
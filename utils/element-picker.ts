@@ -0,0 +1,116 @@
+/**
+ * منتقي العناصر - يفحص المحددات المرشحة على لقطة HTML للصفحة داخل iframe معزول
+ * وصف العنصر والمحددات من نفس مصادر مسجّل المتصفح، مع محددات القرب من ProximitySelectorSystem
+ * وكل محدد يُحسب عدد مطابقاته على اللقطة وهل العنصر المختار بينها
+ */
+
+import type { ElementDescription, RankedSelector } from './browser-recorder';
+import { DESCRIBE_ELEMENT_SCRIPT, collectSelectorCandidates } from './browser-recorder';
+import { ProximitySelectorSystem } from './ai-brain/proximity-selector-system';
+
+export type ScoredSelector = RankedSelector & {
+  matchCount: number | null; // null: صيغة خاصة بـ Playwright (مثل :has-text) لا يفحصها المتصفح
+  matchesTarget: boolean; // العنصر المختار ضمن المطابقات
+};
+
+export type PickedElement = {
+  element: ElementDescription;
+  selectors: ScoredSelector[];
+};
+
+export const SELECTOR_SOURCE_LABELS: Record<RankedSelector['source'], string> = {
+  recorder: 'الصفحة',
+  xpath: 'XPath',
+  intelligence: 'ذكي',
+  proximity: 'القرب',
+};
+
+/**
+ * تجهيز اللقطة للعرض: حذف السكريبتات وإعادة التوجيه، وإضافة base لتعمل الروابط النسبية للصور والأنماط
+ */
+export function prepareSnapshotHtml(html: string, baseUrl: string): string {
+  const cleaned = html
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, '')
+    .replace(/<meta[^>]+http-equiv=["']?refresh[^>]*>/gi, '');
+  if (!/^https?:\/\//.test(baseUrl) || /<base\s/i.test(cleaned)) return cleaned;
+
+  const base = `<base href="${baseUrl.replace(/"/g, '&quot;')}">`;
+  return /<head[^>]*>/i.test(cleaned)
+    ? cleaned.replace(/<head[^>]*>/i, match => `${match}${base}`)
+    : `${base}${cleaned}`;
+}
+
+/**
+ * وصف عنصر من اللقطة بنفس سكريبت مسجّل المتصفح - document يُستبدل بمستند اللقطة
+ */
+export function describeSnapshotElement(doc: Document, el: Element): ElementDescription {
+  const describe = new Function('document', `return ${DESCRIBE_ELEMENT_SCRIPT};`)(doc);
+  return describe(el);
+}
+
+/**
+ * بديل page لـ ProximitySelectorSystem - دوال evaluate تُنفذ على مستند اللقطة بدل الصفحة الحية
+ */
+function createSnapshotPage(doc: Document): { evaluate: (fn: Function, ...args: any[]) => Promise<any> } {
+  const view = doc.defaultView as (Window & typeof globalThis) | null;
+  return {
+    evaluate: async (fn, ...args) =>
+      new Function('document', 'HTMLInputElement', 'args', `return (${fn.toString()})(...args);`)(
+        doc,
+        view?.HTMLInputElement || HTMLInputElement,
+        args
+      ),
+  };
+}
+
+function countMatches(doc: Document, selector: string, target: Element): Pick<ScoredSelector, 'matchCount' | 'matchesTarget'> {
+  try {
+    if (selector.startsWith('xpath=') || selector.startsWith('//') || selector.startsWith('(//')) {
+      const result = doc.evaluate(selector.replace(/^xpath=/, ''), doc, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      const nodes = Array.from({ length: result.snapshotLength }, (_, index) => result.snapshotItem(index));
+      return { matchCount: nodes.length, matchesTarget: nodes.includes(target) };
+    }
+    const matches = Array.from(doc.querySelectorAll(selector));
+    return { matchCount: matches.length, matchesTarget: matches.includes(target) };
+  } catch {
+    return { matchCount: null, matchesTarget: false };
+  }
+}
+
+// الترتيب: يطابق العنصر وحده، لا يمكن فحصه، يطابقه مع غيره، لا يطابقه
+function matchRank(selector: ScoredSelector): number {
+  if (selector.matchCount === null) return 1;
+  if (!selector.matchesTarget) return 3;
+  return selector.matchCount === 1 ? 0 : 2;
+}
+
+/**
+ * جمع المحددات المرشحة لعنصر في اللقطة وفحصها عليها
+ */
+export async function scoreSnapshotElement(
+  doc: Document,
+  el: Element,
+  context: { website: string; taskType: string }
+): Promise<PickedElement> {
+  const element = describeSnapshotElement(doc, el);
+  const candidates = await collectSelectorCandidates(element, context);
+
+  // محددات القرب تحتاج محدداً فريداً للعنصر نفسه كنقطة بداية
+  const anchor = element.candidates[0]?.selector;
+  if (anchor) {
+    const proximity = await ProximitySelectorSystem.generateProximitySelectors(createSnapshotPage(doc), anchor);
+    proximity
+      .filter(candidate => !candidates.some(existing => existing.selector === candidate.selector))
+      .forEach(candidate => candidates.push({ selector: candidate.selector, score: candidate.score, source: 'proximity', verified: false }));
+  }
+
+  const selectors = candidates.map(candidate => {
+    const matches = countMatches(doc, candidate.selector, el);
+    return { ...candidate, ...matches, verified: matches.matchCount === 1 && matches.matchesTarget };
+  });
+
+  return {
+    element,
+    selectors: selectors.sort((a, b) => matchRank(a) - matchRank(b) || b.score - a.score),
+  };
+}
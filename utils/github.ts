@@ -2,6 +2,32 @@
  * GitHub API Integration - اتصال حقيقي مع GitHub
  */
 
+import type { ExecutionSession, StepGraph } from '../types';
+import { readTaskStepGraph, createStep, createStepGraph, getDefaultStepParams } from './step-graph';
+import { generateScriptFromGraph, graphUsesAssertions, graphUsesCrawl, graphTracksSelectors } from './step-codegen';
+import { getWorkflowCron } from './schedule';
+import { encryptSecretValue, getTaskSecretNames, toGitHubSecretName } from './secrets';
+import { buildExecutionSession, parseStepEventLog, RunSummary, WorkflowJob } from './step-events';
+import { generateMonitorDiffScript, taskUsesMonitoring, MONITOR_DIFF_SCRIPT_PATH } from './data-diff';
+import {
+  NOTIFY_RUNTIME,
+  SMTP_SECRET_NAMES,
+  NotificationEvent,
+  compileNotificationRules,
+  getEmailNotificationRules,
+  getScriptNotificationRules,
+} from './notifications';
+import {
+  VISUAL_RUNTIME,
+  VISUAL_DEPENDENCIES,
+  compileVisualConfig,
+  getVisualConfig,
+  taskUsesVisualRegression,
+} from './visual-regression';
+import { TEST_REPORTS_RUNTIME, REPORTS_DIR, taskUsesAssertions } from './test-reports';
+import { SELECTOR_OUTCOMES_WRITER_RUNTIME, SELECTOR_OUTCOMES_DIR, taskUsesSelectorOutcomes } from './selector-outcomes';
+import { generateSelectorHealingScript, SELECTOR_HEALING_SCRIPT_PATH, taskUsesSelectorHealing } from './selector-healing';
+
 export type GitHubAuthMethod = 'token' | 'oauth';
 
 export interface GitHubConfig {
@@ -22,6 +48,21 @@ const GITHUB_OAUTH_CONFIG = {
   state: generateRandomState()
 };
 
+// base64 من GitHub إلى نص UTF-8 - عكس btoa(unescape(encodeURIComponent())) المستخدم عند الرفع
+function decodeBase64(content: string): string {
+  return decodeURIComponent(escape(atob(content.replace(/\n/g, ''))));
+}
+
+// بايتات إلى base64 على دفعات - String.fromCharCode(...bytes) يتجاوز حد الوسائط للملفات الكبيرة
+function encodeBytesBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
 function generateRandomState() {
   return Math.random().toString(36).substring(7);
 }
@@ -278,7 +319,7 @@ class GitHubAPI {
       );
 
       return {
-        content: atob(data.content.replace(/\n/g, '')),
+        content: decodeBase64(data.content),
         sha: data.sha
       };
     } catch (error: any) {
@@ -289,6 +330,87 @@ class GitHubAPI {
     }
   }
 
+  // كل ملفات الفرع مع sha لكل blob - مستودع فارغ أو فرع غير موجود يعطي قائمة فارغة
+  async getRepoTree(): Promise<Array<{ path: string; sha: string }>> {
+    try {
+      const data = await this.fetch(
+        `/repos/${this.config.owner}/${this.config.repo}/git/trees/${this.config.branch}?recursive=1`
+      );
+      if (data.truncated) {
+        console.warn('⚠️ شجرة المستودع كبيرة جداً - قد لا تُكتشف كل الملفات المحذوفة');
+      }
+      return (data.tree || [])
+        .filter((item: any) => item.type === 'blob')
+        .map((item: any) => ({ path: item.path, sha: item.sha }));
+    } catch (error: any) {
+      if (/404|Not Found|empty/i.test(error.message)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // محتويات مجلد في المستودع - مجلد غير موجود يعطي قائمة فارغة
+  async listDirectory(path: string): Promise<Array<{ name: string; path: string; sha: string; size: number }>> {
+    try {
+      const data = await this.fetch(
+        `/repos/${this.config.owner}/${this.config.repo}/contents/${path}?ref=${this.config.branch}`
+      );
+      if (!Array.isArray(data)) return [];
+      return data
+        .filter((item: any) => item.type === 'file')
+        .map((item: any) => ({ name: item.name, path: item.path, sha: item.sha, size: item.size }));
+    } catch (error: any) {
+      if (/404|Not Found/i.test(error.message)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // رفع ملف ثنائي (صور خطوط الأساس) - يستبدل الملف الموجود في نفس المسار
+  async uploadBinaryFile(path: string, bytes: Uint8Array, message: string): Promise<void> {
+    await this.ensureBranchExists();
+
+    let sha: string | undefined;
+    try {
+      const existing = await this.fetch(
+        `/repos/${this.config.owner}/${this.config.repo}/contents/${path}?ref=${this.config.branch}`
+      );
+      sha = existing.sha;
+    } catch (error: any) {
+      if (!/404|Not Found/i.test(error.message)) throw error;
+    }
+
+    await this.fetch(`/repos/${this.config.owner}/${this.config.repo}/contents/${path}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        message,
+        content: encodeBytesBase64(bytes),
+        branch: this.config.branch,
+        ...(sha && { sha })
+      })
+    });
+    console.log(`✅ Successfully uploaded: ${path}`);
+  }
+
+  // قراءة محتوى blob نصي بالـ sha
+  async getBlobContent(sha: string): Promise<string> {
+    const data = await this.fetch(
+      `/repos/${this.config.owner}/${this.config.repo}/git/blobs/${sha}`
+    );
+    return decodeBase64(data.content);
+  }
+
+  // حذف ملف (الخطة الاحتياطية عند فشل Git Tree API)
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    await this.fetch(`/repos/${this.config.owner}/${this.config.repo}/contents/${path}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ message, sha, branch: this.config.branch })
+    });
+    console.log(`🗑️ Deleted: ${path}`);
+  }
+
   // رفع أو تحديث ملف
   async uploadFile(path: string, content: string, message: string, sha?: string): Promise<void> {
     console.log(`📤 Uploading: ${path}`);
@@ -403,12 +525,16 @@ class GitHubAPI {
   }
 
   // رفع عدة ملفات (واحد تلو الآخر - يعمل مع PAT)
-  async uploadMultipleFiles(files: Array<{ path: string; content: string }>, baseMessage: string): Promise<void> {
-    console.log(`📦 رفع ${files.length} ملف...`);
+  async uploadMultipleFiles(
+    files: Array<{ path: string; content: string }>,
+    baseMessage: string,
+    deletedPaths: string[] = []
+  ): Promise<void> {
+    console.log(`📦 رفع ${files.length} ملف${deletedPaths.length > 0 ? ` وحذف ${deletedPaths.length}` : ''}...`);
 
     // استراتيجية جديدة: رفع كل شيء في commit واحد باستخدام Git Tree API
     try {
-      await this.uploadFilesAsTree(files, baseMessage);
+      await this.uploadFilesAsTree(files, baseMessage, deletedPaths);
       console.log(`✅ تم رفع جميع الملفات (${files.length}) بنجاح في commit واحد!`);
     } catch (treeError: any) {
       console.warn('⚠️ فشل الرفع الجماعي، سنحاول الرفع الفردي...', treeError.message);
@@ -435,12 +561,23 @@ class GitHubAPI {
         }
       }
 
+      for (const path of deletedPaths) {
+        const existing = await this.getFile(path);
+        if (existing) {
+          await this.deleteFile(path, `${baseMessage}: remove ${path}`, existing.sha);
+        }
+      }
+
       console.log(`✅ تم رفع جميع الملفات (${files.length}) بنجاح فردياً!`);
     }
   }
 
   // رفع ملفات متددة في commit واحد باستخدام Git Tree API
-  async uploadFilesAsTree(files: Array<{ path: string; content: string }>, message: string): Promise<void> {
+  async uploadFilesAsTree(
+    files: Array<{ path: string; content: string }>,
+    message: string,
+    deletedPaths: string[] = []
+  ): Promise<void> {
     console.log('🌳 استخدام Git Tree API للرفع الجماعي...');
     
     // 1. التأكد من وجود الفرع
@@ -494,6 +631,12 @@ class GitHubAPI {
     }
     
     console.log(`✅ تم إنشاء ${treeItems.length} blob`);
+
+    // sha = null يحذف الملف من الشجرة الأساسية
+    for (const path of deletedPaths) {
+      treeItems.push({ path, mode: '100644', type: 'blob', sha: null });
+      console.log(`  🗑️ ${path}`);
+    }
     
     // 4. إنشاء tree
     console.log('🌳 إنشاء tree...');
@@ -584,16 +727,42 @@ class GitHubAPI {
     }
   }
 
-  // إن Secret
+  // إنشاء أو تحديث Secret - القيمة تُشفَّر بمفتاح المستودع العام قبل إرسالها
   async createSecret(name: string, value: string): Promise<void> {
-    // الحصول على public key للتشفير
     const { key, key_id } = await this.fetch(
       `/repos/${this.config.owner}/${this.config.repo}/actions/secrets/public-key`
     );
 
-    // تشفير القيمة (يحتاج مكتبة sodium - نتخدم تنبيه للمستخدم)
-    console.log(`⚠️ يجب إضافة Secret يدوياً: ${name}`);
-    console.log(`القيمة: ${value}`);
+    await this.fetch(
+      `/repos/${this.config.owner}/${this.config.repo}/actions/secrets/${name}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({
+          encrypted_value: await encryptSecretValue(value, key),
+          key_id
+        })
+      }
+    );
+  }
+
+  // أسماء Secrets المستودع وتواريخها - GitHub لا يعيد القيم أبداً
+  async listSecrets(): Promise<Array<{ name: string; created_at: string; updated_at: string }>> {
+    const secrets: Array<{ name: string; created_at: string; updated_at: string }> = [];
+    for (let page = 1; ; page++) {
+      const response = await this.fetch(
+        `/repos/${this.config.owner}/${this.config.repo}/actions/secrets?per_page=100&page=${page}`
+      );
+      secrets.push(...(response.secrets || []));
+      if (!response.secrets || response.secrets.length < 100) break;
+    }
+    return secrets;
+  }
+
+  async deleteSecret(name: string): Promise<void> {
+    await this.fetch(
+      `/repos/${this.config.owner}/${this.config.repo}/actions/secrets/${name}`,
+      { method: 'DELETE' }
+    );
   }
 
   // تشغيل Workflow يدوياً
@@ -761,6 +930,86 @@ class GitHubAPI {
     }
   }
 
+  // وظائف تشغيل معين مع خطوات كل وظيفة وحالتها
+  async getRunJobs(runId: number): Promise<any[]> {
+    const data = await this.fetch(
+      `/repos/${this.config.owner}/${this.config.repo}/actions/runs/${runId}/jobs?per_page=100`
+    );
+    return data.jobs || [];
+  }
+
+  async getRun(runId: number): Promise<RunSummary> {
+    return this.fetch(`/repos/${this.config.owner}/${this.config.repo}/actions/runs/${runId}`);
+  }
+
+  async cancelRun(runId: number): Promise<void> {
+    await this.fetch(
+      `/repos/${this.config.owner}/${this.config.repo}/actions/runs/${runId}/cancel`,
+      { method: 'POST' }
+    );
+  }
+
+  // سجل وظيفة كنص - null إذا لم يتوفر بعد (الوظيفة في الانتظار أو السجل لم يُنشر)
+  async getJobLogs(jobId: number): Promise<string | null> {
+    const response = await fetch(
+      `${GITHUB_API_BASE}/repos/${this.config.owner}/${this.config.repo}/actions/jobs/${jobId}/logs`,
+      {
+        headers: {
+          'Authorization': `token ${this.config.token}`,
+          'Accept': 'application/vnd.github.v3+json'
+        }
+      }
+    );
+    return response.ok ? response.text() : null;
+  }
+
+  /**
+   * متابعة تشغيل خطوة بخطوة: كل intervalMs تُقرأ حالة التشغيل وخطوات وظائفه
+   * وسجلات الوظائف المنتهية وتُحوَّل إلى ExecutionSession. تتوقف تلقائياً بعد انتهاء التشغيل
+   * وتعيد دالة لإيقاف المتابعة يدوياً
+   */
+  watchRunSession(
+    runId: number,
+    taskName: string,
+    graph: StepGraph | null,
+    onUpdate: (session: ExecutionSession) => void,
+    onError?: (error: Error) => void,
+    intervalMs: number = 5000
+  ): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const run = await this.getRun(runId);
+        const jobs: WorkflowJob[] = await this.getRunJobs(runId);
+        // سجل الوظيفة يُنشر بعد انتهائها فقط - الحالة الحية من job.steps والسجل يُثري المنتهية بأحداث الخطوات
+        const eventLogs = await Promise.all(
+          jobs.map(async job => parseStepEventLog(job.status === 'completed' ? (await this.getJobLogs(job.id)) || '' : ''))
+        );
+        if (stopped) return;
+
+        const eventLog = {
+          events: eventLogs.flatMap(log => log.events),
+          logsByStep: Object.assign({}, ...eventLogs.map(log => log.logsByStep)),
+        };
+        const liveJobs = jobs.filter((_, index) => eventLogs[index].events.length === 0);
+        onUpdate(buildExecutionSession(run, taskName, eventLog, graph, liveJobs));
+        if (run.status === 'completed') return;
+      } catch (error: any) {
+        if (stopped) return;
+        onError?.(error);
+      }
+      timer = setTimeout(poll, intervalMs);
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
   // ========== إدارة الفروع (Branches) ==========
 
   // الحصول على قائم الفروع
@@ -920,88 +1169,129 @@ export async function verifyGitHubToken(
 
 // ========== نشر المهام ==========
 
+export type DeployFileStatus = 'added' | 'modified' | 'deleted' | 'unchanged';
+
+export type DeployFile = {
+  path: string;
+  content: string;
+  status?: DeployFileStatus; // غير محدد عند توليد الملفات دون مقارنتها بالمستودع
+  previousContent?: string; // المحتوى الحالي في المستودع (للمعدّل والمحذوف وغير المتغير)
+};
+
+// ملفات خاصة بمهمة واحدة - تُحذف من المستودع عندما تُحذف المهمة من التطبيق
+const TASK_FILE_PATTERNS = [/^\.github\/workflows\/task-(.+)\.yml$/, /^scripts\/task-(.+)\.js$/];
+
+function getTaskIdFromPath(path: string): string | null {
+  for (const pattern of TASK_FILE_PATTERNS) {
+    const match = path.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// sha الذي يحسبه git للمحتوى - يكفي لمقارنة الملف بالشجرة دون تحميله
+async function gitBlobSha(content: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const body = encoder.encode(content);
+  const header = encoder.encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+
+  const digest = await crypto.subtle.digest('SHA-1', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * مقارنة الملفات المولَّدة بالفرع الحالي - محتوى الملفات يُحمَّل فقط لما تغيّر.
+ * knownTaskIds = كل مهام التطبيق: ملفات المهام الأخرى في المستودع تُعلَّم للحذف
+ * (بدونها لا يُحذف شيء، لأن النشر قد يشمل جزءاً من المهام فقط)
+ */
+export async function planDeployment(
+  api: GitHubAPI,
+  files: DeployFile[],
+  knownTaskIds?: string[]
+): Promise<DeployFile[]> {
+  console.log('🔍 مقارنة الملفات مع المستودع...');
+  const tree = await api.getRepoTree();
+  const remoteShas = new Map(tree.map(item => [item.path, item.sha]));
+  const planned: DeployFile[] = [];
+
+  for (const file of files) {
+    const remoteSha = remoteShas.get(file.path);
+    if (!remoteSha) {
+      planned.push({ ...file, status: 'added' });
+    } else if (remoteSha === await gitBlobSha(file.content)) {
+      planned.push({ ...file, status: 'unchanged', previousContent: file.content });
+    } else {
+      planned.push({ ...file, status: 'modified', previousContent: await api.getBlobContent(remoteSha) });
+    }
+  }
+
+  if (knownTaskIds) {
+    const known = new Set(knownTaskIds);
+    for (const item of tree) {
+      const taskId = getTaskIdFromPath(item.path);
+      if (taskId && !known.has(taskId) && !files.some(file => file.path === item.path)) {
+        planned.push({ path: item.path, content: '', status: 'deleted', previousContent: await api.getBlobContent(item.sha) });
+      }
+    }
+  }
+
+  const changed = planned.filter(file => file.status !== 'unchanged').length;
+  console.log(`✓ ${changed} ملف متغير من ${planned.length}`);
+  return planned;
+}
+
+// ما سيُرفع ويُحذف فعلاً - الملف غير المتغير يُرفع فقط إذا عُدّل في المعاينة
+export function getDeployChanges(files: DeployFile[]): { uploads: DeployFile[]; deletedPaths: string[] } {
+  return {
+    uploads: files.filter(file =>
+      file.status !== 'deleted' && (file.previousContent === undefined || file.content !== file.previousContent)
+    ),
+    deletedPaths: files.filter(file => file.status === 'deleted').map(file => file.path),
+  };
+}
+
 export async function deployTasksToGitHub(
   api: GitHubAPI,
   tasks: any[],
-  stealthConfig: any
+  stealthConfig: any,
+  knownTaskIds?: string[]
 ): Promise<void> {
   console.log('🚀 بدء عملية النشر...');
   console.log(`📝 عدد المهام: ${tasks.length}`);
   console.log(`🔧 مستوى Stealth: ${stealthConfig.level}`);
 
-  try {
-    // 1. إنشاء الملفات
-    const files = [
-      {
-        path: '.github/workflows/automation.yml',
-        content: generateMainWorkflow(tasks, stealthConfig)
-      },
-      {
-        path: 'package.json',
-        content: generatePackageJSON()
-      },
-      {
-        path: 'scripts/stealth-helpers.js',
-        content: generateStealthHelpers(stealthConfig)
-      },
-      {
-        path: 'tasks.json',
-        content: JSON.stringify(tasks, null, 2)
-      },
-      {
-        path: 'README.md',
-        content: generateREADME(tasks)
-      },
-      {
-        path: '.gitignore',
-        content: `node_modules/\nresults/\nscreenshots/\nlogs/\n.env\n*.log`
-      }
-    ];
-
-    // 2. إضافة workflow منفصل لكل مهمة
-    tasks.forEach(task => {
-      files.push({
-        path: `.github/workflows/task-${task.id}.yml`,
-        content: generateTaskWorkflow(task, stealthConfig)
-      });
-
-      files.push({
-        path: `scripts/task-${task.id}.js`,
-        content: generateTaskScript(task, stealthConfig)
-      });
-    });
-
-    console.log(`📦 إجمالي الملفات: ${files.length}`);
-
-    // 3. رفع جميع الملفات
-    console.log('⬆️ بدء رفع الملفات...');
-    await api.uploadMultipleFiles(files, '🤖 Deploy automation tasks with stealth features');
+  const files = generateDeploymentFiles(tasks, stealthConfig);
+  console.log(`📦 إجمالي الملفات: ${files.length}`);
 
-    // 4. تفعيل Actions
-    console.log('⚙️ تفعيل GitHub Actions...');
-    await api.enableActions();
-
-    console.log('✅ اكتمل النشر بنجاح!');
-    console.log(`\n🎯 التالي:\n1. افتح: https://github.com/${api['config'].owner}/${api['config'].repo}\n2. اذهب إلى تبويب "Actions"\n3. شغّل المهام المطلوبة`);
+  let planned: DeployFile[];
+  try {
+    planned = await planDeployment(api, files, knownTaskIds);
   } catch (error: any) {
-    console.error('❌ فشل النشر:', error);
-    throw new Error(`فشل النشر: ${error.message}`);
+    // بدون مقارنة نرفع كل شيء كما في السابق
+    console.warn('⚠️ تعذرت مقارنة الملفات مع المستودع، سيتم رفع جميع الملفات:', error.message);
+    planned = files;
   }
+
+  await deployFiles(api, planned);
+  console.log(`\n🎯 التالي:\n1. افتح: https://github.com/${api['config'].owner}/${api['config'].repo}\n2. اذهب إلى تبويب "Actions"\n3. شغّل المهام المطلوبة`);
 }
 
 // دالة لتوليد الملفات بدون رفع
 export function generateDeploymentFiles(
   tasks: any[],
   stealthConfig: any
-): Array<{ path: string; content: string }> {
-  const files = [
+): DeployFile[] {
+  const files: DeployFile[] = [
     {
       path: '.github/workflows/automation.yml',
       content: generateMainWorkflow(tasks, stealthConfig)
     },
     {
       path: 'package.json',
-      content: generatePackageJSON()
+      content: generatePackageJSON(tasks)
     },
     {
       path: 'scripts/stealth-helpers.js',
@@ -1017,10 +1307,26 @@ export function generateDeploymentFiles(
     },
     {
       path: '.gitignore',
-      content: `node_modules/\nresults/\nscreenshots/\nlogs/\n.env\n*.log`
+      content: `node_modules/\nresults/\nscreenshots/\nlogs/\ncheckpoints/\ndiffs/\n${REPORTS_DIR}/\n${SELECTOR_OUTCOMES_DIR}/\n.env\n*.log`
     }
   ];
 
+  // سكريبت مقارنة البيانات مشترك بين كل المهام المراقَبة
+  if (tasks.some(taskUsesMonitoring)) {
+    files.push({
+      path: MONITOR_DIFF_SCRIPT_PATH,
+      content: generateMonitorDiffScript()
+    });
+  }
+
+  // المعالجة الذاتية بجانب stealth-helpers.js - تستوردها سكريبتات المهام ذات بصمات العناصر فقط
+  if (tasks.some(taskUsesSelectorHealing)) {
+    files.push({
+      path: SELECTOR_HEALING_SCRIPT_PATH,
+      content: generateSelectorHealingScript()
+    });
+  }
+
   // إضافة workflow منفصل لكل مهمة
   tasks.forEach(task => {
     files.push({
@@ -1037,16 +1343,23 @@ export function generateDeploymentFiles(
   return files;
 }
 
-// دالة لرفع ملفات محررة
+// رفع الملفات المتغيرة فقط وحذف ملفات المهام المحذوفة في commit واحد
 export async function deployFiles(
   api: GitHubAPI,
-  files: Array<{ path: string; content: string }>
+  files: DeployFile[]
 ): Promise<void> {
+  const { uploads, deletedPaths } = getDeployChanges(files);
+
+  if (uploads.length === 0 && deletedPaths.length === 0) {
+    console.log('✅ لا توجد تغييرات - المستودع محدّث بالفعل');
+    return;
+  }
+
   console.log('🚀 بدء رفع الملفات...');
-  console.log(`📦 عدد الملفات: ${files.length}`);
+  console.log(`📦 ${uploads.length} ملف للرفع، ${deletedPaths.length} للحذف`);
 
   try {
-    await api.uploadMultipleFiles(files, '🤖 Deploy automation tasks with stealth features');
+    await api.uploadMultipleFiles(uploads, '🤖 Deploy automation tasks with stealth features', deletedPaths);
     
     console.log('⚙️ تفعيل GitHub Actions...');
     await api.enableActions();
@@ -1088,7 +1401,7 @@ jobs:
 
   run-task:
     needs: setup
-    runs-on: ubuntu-latest
+    runs-on: ubuntu-latest${tasks.some(taskUsesMonitoring) ? MONITOR_PERMISSIONS : ''}
     strategy:
       matrix:
         task_id: \${{ fromJson(needs.setup.outputs.tasks) }}
@@ -1110,11 +1423,27 @@ jobs:
       - name: Install Playwright
         run: npx playwright install chromium
       
+      - name: Restore Crawl Checkpoint
+        uses: actions/cache/restore@v4
+        with:
+          path: checkpoints/
+          key: crawl-\${{ matrix.task_id }}-\${{ github.run_id }}-\${{ github.run_attempt }}
+          restore-keys: crawl-\${{ matrix.task_id }}-
+      
       - name: Run Task
         run: node scripts/task-\${{ matrix.task_id }}.js
+        # أقل من حد الوظيفة (360) لتعمل خطوات always() وتُحفظ نقطة الاستئناف
+        timeout-minutes: 330
         env:
-          STEALTH_CONFIG: '\${{ secrets.STEALTH_CONFIG }}'
-          TASK_CREDENTIALS: '\${{ secrets.TASK_CREDENTIALS }}'
+          STEALTH_CONFIG: '\${{ secrets.STEALTH_CONFIG }}'${generateMatrixSecretEnv(tasks)}
+      ${tasks.some(taskUsesMonitoring) ? generateMonitorSteps('\${{ matrix.task_id }}', generateMatrixSecretEnv(tasks)) : ''}
+      - name: Save Crawl Checkpoint
+        uses: actions/cache/save@v4
+        if: always() && hashFiles('checkpoints/**') != ''
+        # لا يُكتب cache فوق مفتاح موجود - run_attempt يجعل لكل إعادة محاولة نقطتها
+        with:
+          path: checkpoints/
+          key: crawl-\${{ matrix.task_id }}-\${{ github.run_id }}-\${{ github.run_attempt }}
       
       - name: Upload Results
         uses: actions/upload-artifact@v4
@@ -1123,7 +1452,9 @@ jobs:
           name: results-\${{ matrix.task_id }}-\${{ github.run_number }}
           path: |
             results/
-            screenshots/
+            screenshots/${tasks.some(taskUsesAssertions) ? `
+            ${REPORTS_DIR}/` : ''}${tasks.some(taskUsesSelectorOutcomes) ? `
+            ${SELECTOR_OUTCOMES_DIR}/` : ''}
           retention-days: 7
       
       - name: Upload Logs
@@ -1133,29 +1464,153 @@ jobs:
           name: logs-\${{ matrix.task_id }}-\${{ github.run_number }}
           path: logs/
           retention-days: 7
+${tasks.map(task => generateEmailSteps(task, true)).join('')}`;
+}
+
+// أسماء Secrets التي تحتاجها المهمة - TASK_CREDENTIALS القديم فقط لمهام الدخول والسكريبتات التي تقرؤه
+function getTaskSecretEnvNames(task: any): string[] {
+  const names = getTaskSecretNames(task).map(toGitHubSecretName);
+  if (task.type === 'login' || JSON.stringify(task).includes('TASK_CREDENTIALS')) {
+    names.unshift('TASK_CREDENTIALS');
+  }
+  return names;
+}
+
+function generateTaskSecretEnv(task: any): string {
+  return getTaskSecretEnvNames(task)
+    .map(name => `\n          ${name}: '\${{ secrets.${name} }}'`)
+    .join('');
+}
+
+// في workflow الرئيسي كل سر يُمرَّر فقط لوظائف المصفوفة الخاصة بالمهام التي تستخدمه
+function generateMatrixSecretEnv(tasks: any[]): string {
+  const taskIdsBySecret = new Map<string, string[]>();
+  tasks.forEach(task => {
+    getTaskSecretEnvNames(task).forEach(name => {
+      taskIdsBySecret.set(name, [...(taskIdsBySecret.get(name) || []), String(task.id)]);
+    });
+  });
+
+  return Array.from(taskIdsBySecret, ([name, taskIds]) => {
+    const condition = taskIds.map(id => `matrix.task_id == '${id.replace(/'/g, "''")}'`).join(' || ');
+    return `\n          ${name}: \${{ (${condition}) && secrets.${name} || '' }}`;
+  }).join('');
+}
+
+// قراءة artifacts التشغيلات السابقة تحتاج صلاحية actions
+const MONITOR_PERMISSIONS = `
+    permissions:
+      contents: read
+      actions: read`;
+
+/**
+ * مقارنة البيانات بالتشغيل السابق بعد نجاح المهمة - الفرق يُرفع كـ artifact مستقل
+ * taskIdExpression: معرّف المهمة أو تعبير المصفوفة في workflow الرئيسي
+ * secretEnv: أسرار قواعد التنبيه التي تُرسل عند تغيّر البيانات
+ */
+function generateMonitorSteps(taskIdExpression: string, secretEnv: string): string {
+  return `
+      - name: Compare With Previous Run
+        id: diff
+        run: node ${MONITOR_DIFF_SCRIPT_PATH} ${taskIdExpression}
+        continue-on-error: true
+        env:
+          GITHUB_TOKEN: \${{ github.token }}${secretEnv}
+      
+      - name: Upload Data Diff
+        uses: actions/upload-artifact@v4
+        if: hashFiles('diffs/**') != ''
+        with:
+          name: diff-${taskIdExpression}-\${{ github.run_number }}
+          path: diffs/
+          retention-days: 30
+      `;
+}
+
+// شرط كل حدث في خطوة البريد - أحداث البيانات من مخرجات خطوة المقارنة
+const EMAIL_EVENT_CONDITIONS: Record<NotificationEvent, string> = {
+  failure: 'failure()',
+  success: 'success()',
+  dataChange: "steps.diff.outputs.changed == 'true'",
+  threshold: "steps.diff.outputs.threshold == 'true'",
+};
+
+/**
+ * خطوة SMTP لكل قاعدة بريد - آخر خطوات الوظيفة لتعرف نتيجتها النهائية
+ * في workflow الرئيسي تُقيَّد الخطوة بمهمتها في المصفوفة
+ */
+function generateEmailSteps(task: any, inMatrix: boolean): string {
+  const [host, port, username, password] = SMTP_SECRET_NAMES.map(name => `secrets.${toGitHubSecretName(name)}`);
+  const taskName = String(task.name).replace(/'/g, "''");
+
+  return getEmailNotificationRules(task).map(rule => {
+    const events = rule.events.map(event => EMAIL_EVENT_CONDITIONS[event]).join(' || ');
+    const condition = inMatrix
+      ? `matrix.task_id == '${String(task.id).replace(/'/g, "''")}' && (${events})`
+      : events;
+    const to = rule.channel.type === 'email' ? rule.channel.to.join(',') : '';
+
+    return `
+      - name: Email Notification (${to})
+        if: always() && (${condition})
+        uses: dawidd6/action-send-mail@v3
+        with:
+          server_address: \${{ ${host} }}
+          server_port: \${{ ${port} }}
+          secure: \${{ ${port} == '465' }}
+          username: \${{ ${username} }}
+          password: \${{ ${password} }}
+          from: \${{ ${username} }}
+          to: ${to}
+          subject: '📋 ${taskName} - \${{ job.status }}'
+          body: |
+            المهمة: ${task.name}
+            الحالة: \${{ job.status }}
+            التغييرات: \${{ steps.diff.outputs.summary || '—' }}
+            التشغيل: \${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }}
 `;
+  }).join('');
 }
 
 function generateTaskWorkflow(task: any, stealthConfig: any): string {
-  const schedule = task.schedule || 'daily';
-  const cronMap: Record<string, string> = {
-    hourly: '0 * * * *',
-    'every-6-hours': '0 */6 * * *',
-    'every-12-hours': '0 */12 * * *',
-    daily: '0 0 * * *',
-    weekly: '0 0 * * 0'
-  };
+  // نفس cron الذي يشغّل به الخادم المهمة - GitHub يشغّلها بدونه إن لم يُنشر الخادم
+  const cron = getWorkflowCron(task.metadata?.schedule, task.schedule);
+  const scheduleTrigger = cron ? `
+  schedule:
+    - cron: '${cron}'` : '';
+
+  // مهام الزحف تستأنف من نقطة الحفظ إذا انتهى وقت التشغيل السابق
+  const usesCrawl = taskUsesCrawl(task);
+  const restoreCheckpoint = usesCrawl ? `
+      - name: Restore Crawl Checkpoint
+        uses: actions/cache/restore@v4
+        with:
+          path: checkpoints/
+          key: crawl-${task.id}-\${{ github.run_id }}-\${{ github.run_attempt }}
+          restore-keys: crawl-${task.id}-
+      ` : '';
+  const saveCheckpoint = usesCrawl ? `
+      - name: Save Crawl Checkpoint
+        uses: actions/cache/save@v4
+        if: always() && hashFiles('checkpoints/**') != ''
+        # لا يُكتب cache فوق مفتاح موجود - run_attempt يجعل لكل إعادة محاولة نقطتها
+        with:
+          path: checkpoints/
+          key: crawl-${task.id}-\${{ github.run_id }}-\${{ github.run_attempt }}
+      ` : '';
+
+  const monitored = taskUsesMonitoring(task);
 
   return `name: 📋 ${task.name}
 
-on:
-  schedule:
-    - cron: '${cronMap[schedule] || '0 0 * * *'}'
+on:${scheduleTrigger}
   workflow_dispatch:
 
 jobs:
   run:
-    runs-on: ubuntu-latest
+    runs-on: ubuntu-latest${cron ? `
+    # الخادم يضبط SERVER_SCHEDULER ويشغّل المهمة بنفسه - نتجاهل cron GitHub لتجنب التكرار
+    if: github.event_name != 'schedule' || vars.SERVER_SCHEDULER != 'true'` : ''}${monitored ? MONITOR_PERMISSIONS : ''}
     
     steps:
       - name: Checkout
@@ -1171,13 +1626,13 @@ jobs:
       
       - name: Install Playwright
         run: npx playwright install chromium
-      
+      ${restoreCheckpoint}
       - name: Run "${task.name}"
-        run: node scripts/task-${task.id}.js
+        run: node scripts/task-${task.id}.js${usesCrawl ? `
+        timeout-minutes: 330` : ''}
         env:
-          STEALTH_CONFIG: '\${{ secrets.STEALTH_CONFIG }}'
-          TASK_CREDENTIALS: '\${{ secrets.TASK_CREDENTIALS }}'
-      
+          STEALTH_CONFIG: '\${{ secrets.STEALTH_CONFIG }}'${generateTaskSecretEnv(task)}
+      ${monitored ? generateMonitorSteps(task.id, generateTaskSecretEnv(task)) : ''}${saveCheckpoint}
       - name: Upload Results
         uses: actions/upload-artifact@v4
         if: always()
@@ -1185,9 +1640,11 @@ jobs:
           name: ${task.id}-\${{ github.run_number }}
           path: |
             results/
-            screenshots/
+            screenshots/${taskUsesAssertions(task) ? `
+            ${REPORTS_DIR}/` : ''}${taskUsesSelectorOutcomes(task) ? `
+            ${SELECTOR_OUTCOMES_DIR}/` : ''}
           retention-days: 7
-`;
+${generateEmailSteps(task, false)}`;
 }
 
 function generateTaskScript(task: any, stealthConfig: any): string {
@@ -1203,13 +1660,14 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-import { createStealthBrowser, humanClick, humanType, humanScroll } from './stealth-helpers.js';
+import { createStealthBrowser, humanClick, humanType, humanScroll } from './stealth-helpers.js';${taskUsesSelectorHealing(task) ? `
+import { healSelector } from './selector-healing.js';` : ''}
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // معلومات المهمة
-const TASK = ${JSON.stringify({ ...task, targetUrl }, null, 2)};
+const TASK = ${JSON.stringify({ ...task, targetUrl }, null, 2)};${generateVisualRuntime(task)}
 
 async function runTask() {
   console.log('🚀 بدء المهمة: ' + TASK.name);
@@ -1234,7 +1692,7 @@ async function runTask() {
     
     // تنفيذ السكريبت
     ${generateTaskLogic(task)}
-    
+    ${generateVisualCheck(task)}
     // التقاط صورة
     console.log('📸 التقاط صورة للصفحة...');
     await fs.mkdir('screenshots', { recursive: true });
@@ -1255,7 +1713,8 @@ async function runTask() {
       status: 'success',
       duration,
       timestamp: new Date().toISOString(),
-      screenshot: screenshotPath,
+      screenshot: screenshotPath,${taskUsesVisualRegression(task) ? `
+      visual: visualResults,` : ''}
       data: taskResult // البيانات المستخرجة
     });
     
@@ -1304,37 +1763,78 @@ async function saveResults(data) {
   console.log(JSON.stringify(data, null, 2));
 }
 
-runTask().catch(error => {
+${generateTaskEntry(task)}
+`;
+}
+
+// وقت تشغيل المقارنة البصرية وإعداداتها - فقط للمهام التي فعّلت الوضع البصري
+function generateVisualRuntime(task: any): string {
+  if (!taskUsesVisualRegression(task)) return '';
+  return `
+
+${VISUAL_RUNTIME}
+
+const VISUAL_CONFIG = ${compileVisualConfig(getVisualConfig(task))};`;
+}
+
+// المقارنة البصرية بعد منطق المهمة - فشلها يُفشل المهمة فتصل تنبيهات الفشل
+function generateVisualCheck(task: any): string {
+  if (!taskUsesVisualRegression(task)) return '';
+  return `// مقارنة اللقطات بخطوط الأساس المعتمدة
+    const visualResults = await runVisualChecks(page, TASK.id, VISUAL_CONFIG);
+`;
+}
+
+// نقطة تشغيل السكريبت - قواعد التنبيه تُرسل النتيجة قبل الخروج
+function generateTaskEntry(task: any): string {
+  const rules = getScriptNotificationRules(task);
+  if (rules.length === 0) {
+    return `runTask().catch(error => {
   console.error('💥 فشلت المهمة:', error);
   process.exit(1);
-});
-`;
+});`;
+  }
+
+  const details = JSON.stringify({ id: String(task.id), name: task.name });
+  // المهمة المراقبة يرسل monitor-diff.js نجاحها مع أحداث البيانات - تنبيه واحد لكل قاعدة
+  const sendSuccess = taskUsesMonitoring(task)
+    ? ''
+    : `
+  .then(() => sendNotifications(NOTIFICATION_RULES, ['success'], { task: NOTIFICATION_TASK }))`;
+  return `${NOTIFY_RUNTIME}
+
+const NOTIFICATION_RULES = ${compileNotificationRules(rules)};
+const NOTIFICATION_TASK = ${details};
+
+runTask()${sendSuccess}
+  .catch(async error => {
+    console.error('💥 فشلت المهمة:', error);
+    await sendNotifications(NOTIFICATION_RULES, ['failure'], { task: NOTIFICATION_TASK, error: error.message });
+    process.exit(1);
+  });`;
 }
 
 function generateTaskLogic(task: any): string {
+  // المهام المبنية بالمنشئات لها مخطط خطوات - يُولَّد كودها من المولّد الموحد
+  const stepGraph = readTaskStepGraph(task);
+  if (stepGraph) {
+    return generateStepGraphLogic(stepGraph);
+  }
+
   if (task.type === 'scraping') {
     return `
     // انتظار تحميل الصفحة
     await page.waitForTimeout(2000);
+    ${generateStepGraphLogic(buildScrapingGraph(task))}
     
-    // استخراج البيانات
-    taskResult = await page.evaluate(() => {
-      const items = document.querySelectorAll('.item, .product, article');
-      return Array.from(items).map(item => ({
-        title: item.querySelector('h1, h2, h3, .title')?.textContent?.trim(),
-        description: item.querySelector('p, .description')?.textContent?.trim(),
-        link: item.querySelector('a')?.href
-      }));
-    });
-    
-    console.log(\`📊 تم جمع \${taskResult.length} عنصر\`);
-    console.log('البيانات المستخرجة:', JSON.stringify(taskResult, null, 2));
+    const scrapedData = taskResult.results.flatMap(result => result.data);
+    console.log(\`📊 تم جمع \${scrapedData.length} عنصر\`);
     
     // حفظ البيانات في ملف منفصل
     await fs.mkdir('results', { recursive: true });
     await fs.writeFile(
       \`results/\${TASK.id}-data-\${Date.now()}.json\`,
-      JSON.stringify(taskResult, null, 2)
+      JSON.stringify(scrapedData, null, 2)
     );
     console.log('✅ تم حفظ البيانات في ملف منفصل');`;
   } else if (task.type === 'login') {
@@ -1420,88 +1920,6 @@ function generateTaskLogic(task: any): string {
     console.log('✅ تم تنفيذ جميع الخطوات بنجاح');
     console.log('📊 ملخص النتائج:', JSON.stringify(taskResult, null, 2));`;
       }
-    } else if (userScript.includes('"steps"') || userScript.includes('steps')) {
-      // سكريبت JSON من VisualBuilder
-      try {
-        const parsed = JSON.parse(userScript);
-        if (parsed.steps && Array.isArray(parsed.steps)) {
-          let stepsCode = `
-    // تنفيذ خطوات المهمة من المنشئ المرئي
-    console.log('⚙️ بدء تنفيذ ${parsed.steps.length} خطوة...');
-    
-    let stepResults = [];
-    let stepNumber = 1;
-    `;
-          
-          parsed.steps.forEach((step: any, index: number) => {
-            stepsCode += `
-    // خطوة ${index + 1}: ${step.type}
-    console.log('📌 الخطوة ${index + 1}/${parsed.steps.length}: ${step.type}');
-    try {
-      `;
-            
-            switch (step.type) {
-              case 'navigate':
-                stepsCode += `await page.goto('${step.params.url}', { waitUntil: 'domcontentloaded' });
-      console.log('✅ تم الانتقال إلى: ${step.params.url}');
-      stepResults.push({ step: ${index + 1}, type: 'navigate', status: 'success', url: '${step.params.url}' });`;
-                break;
-              case 'click':
-                stepsCode += `await page.click('${step.params.selector}');
-      console.log('✅ تم النقر على: ${step.params.selector}');
-      stepResults.push({ step: ${index + 1}, type: 'click', status: 'success', selector: '${step.params.selector}' });`;
-                break;
-              case 'type':
-                stepsCode += `await page.fill('${step.params.selector}', '${step.params.text}');
-      console.log('✅ تم كتابة النص في: ${step.params.selector}');
-      stepResults.push({ step: ${index + 1}, type: 'type', status: 'success', selector: '${step.params.selector}', text: '${step.params.text}' });`;
-                break;
-              case 'wait':
-                stepsCode += `await page.waitForTimeout(${step.params.duration || 1000});
-      console.log('✅ تم الانتظار: ${step.params.duration || 1000}ms');
-      stepResults.push({ step: ${index + 1}, type: 'wait', status: 'success', duration: ${step.params.duration || 1000} });`;
-                break;
-              case 'extract':
-                stepsCode += `const extractedData${index} = await page.$$eval('${step.params.selector}', els => els.map(el => el.textContent?.trim()));
-      console.log(\`✅ تم استخراج \${extractedData${index}.length} عنصر من: ${step.params.selector}\`);
-      stepResults.push({ step: ${index + 1}, type: 'extract', status: 'success', selector: '${step.params.selector}', dataCount: extractedData${index}.length, data: extractedData${index} });`;
-                break;
-              case 'screenshot':
-                stepsCode += `const screenshotPath${index} = path.join('screenshots', TASK.id + '-step${index + 1}-' + Date.now() + '.png');
-      await fs.mkdir('screenshots', { recursive: true });
-      await page.screenshot({ path: screenshotPath${index}, fullPage: ${step.params.fullPage || false} });
-      console.log('✅ تم التقاط صورة: ' + screenshotPath${index});
-      stepResults.push({ step: ${index + 1}, type: 'screenshot', status: 'success', path: screenshotPath${index} });`;
-                break;
-              default:
-                stepsCode += `console.log('⚠️ نوع خطوة غير معروف: ${step.type}');
-      stepResults.push({ step: ${index + 1}, type: '${step.type}', status: 'skipped' });`;
-            }
-            
-            stepsCode += `
-    } catch (stepError) {
-      console.error('❌ فشلت الخطوة ${index + 1}:', stepError.message);
-      stepResults.push({ step: ${index + 1}, type: '${step.type}', status: 'failed', error: stepError.message });
-    }
-    `;
-          });
-          
-          stepsCode += `
-    taskResult = {
-      totalSteps: ${parsed.steps.length},
-      successfulSteps: stepResults.filter(r => r.status === 'success').length,
-      failedSteps: stepResults.filter(r => r.status === 'failed').length,
-      steps: stepResults
-    };
-    
-    console.log('✅ تم تنفيذ جميع الخطوات');
-    console.log('📊 ملخص الخطوات:', JSON.stringify(taskResult, null, 2));`;
-          
-          return stepsCode;
-        }
-      } catch (e) {
-        // إذا فشل التحليل، استخدم التنفيذ الافتراضي
-      }
     }
     
     // تنفيذ افتراضي لسكريبت غير معروف
@@ -1537,6 +1955,64 @@ function generateTaskLogic(task: any): string {
   }
 }
 
+/**
+ * مهام scraping بدون مخطط - خطوة زحف واحدة بإعدادات metadata.crawl
+ */
+function buildScrapingGraph(task: any): StepGraph {
+  return createStepGraph([
+    createStep('crawl', {
+      id: `scrape-${task.id}`,
+      params: {
+        ...getDefaultStepParams('crawl'),
+        selector: '.item, .product, article',
+        ...(task.metadata?.crawl || {}),
+      },
+      errorHandling: { ignoreErrors: false, retryCount: 2 },
+    }),
+  ]);
+}
+
+function taskUsesCrawl(task: any): boolean {
+  const graph = readTaskStepGraph(task);
+  return graph ? graphUsesCrawl(graph) : task.type === 'scraping';
+}
+
+function generateStepGraphLogic(graph: StepGraph): string {
+  return `
+    // تنفيذ خطوات المهمة من المخطط الموحد
+    console.log('⚙️ بدء تنفيذ ${graph.steps.length} خطوة...');
+    
+    ${generateScriptFromGraph(graph, 'runSteps', { stepEvents: true, selectorOutcomes: true, selectorHealing: true }).split('\n').join('\n    ')}
+    const stepsOutcome = await runSteps(page);${generateTestReportsCall(graph)}${generateSelectorOutcomesCall(graph)}
+    if (!stepsOutcome.success) {
+      throw new Error(stepsOutcome.error);
+    }
+    
+    taskResult = stepsOutcome;
+    console.log('✅ تم تنفيذ جميع الخطوات');
+    console.log('📊 ملخص الخطوات:', JSON.stringify(taskResult, null, 2));`;
+}
+
+// تقارير JUnit/CTRF تُكتب قبل إفشال المهمة حتى تصل نتائج كل التحققات مع الـ artifact
+function generateTestReportsCall(graph: StepGraph): string {
+  if (!graphUsesAssertions(graph)) return '';
+  return `
+    
+    ${TEST_REPORTS_RUNTIME.split('\n').join('\n    ')}
+    await writeTestReports(TASK, stepsOutcome, startTime);`;
+}
+
+// سجل المحددات يُكتب في ملف مستقل ولا يبقى في النتائج - تستورده الواجهة من الـ artifact لمحركات التعلم
+function generateSelectorOutcomesCall(graph: StepGraph): string {
+  if (!graphTracksSelectors(graph)) return '';
+  return `
+    
+    ${SELECTOR_OUTCOMES_WRITER_RUNTIME.split('\n').join('\n    ')}
+    await writeSelectorOutcomes(TASK, stepsOutcome.selectorOutcomes, stepsOutcome.healedSelectors);
+    delete stepsOutcome.selectorOutcomes;
+    delete stepsOutcome.healedSelectors;`;
+}
+
 function generateStealthHelpers(stealthConfig: any): string {
   return `// ملف مساعد لإعدادات التخفي - stealth-helpers.js
 import { chromium } from 'playwright';
@@ -1698,7 +2174,7 @@ export const stealthConfig = STEALTH_CONFIG;
 `;
 }
 
-function generatePackageJSON(): string {
+function generatePackageJSON(tasks: any[]): string {
   return JSON.stringify({
     name: 'web-automation-bot',
     version: '1.0.0',
@@ -1708,7 +2184,8 @@ function generatePackageJSON(): string {
       test: 'echo \"No tests\"'
     },
     dependencies: {
-      'playwright': '^1.40.0'
+      'playwright': '^1.40.0',
+      ...(tasks.some(taskUsesVisualRegression) && VISUAL_DEPENDENCIES)
     }
   }, null, 2);
 }
@@ -0,0 +1,75 @@
+/**
+ * أداة تشغيل مشتركة لاختبارات golden
+ * Golden Test Harness
+ *
+ * كل ملف utils/*-golden.ts يحوّل جداول حالاته إلى قائمة GoldenCheck ويمررها لـ runGoldenCases:
+ * تُشغّل الحالات بالترتيب، يُطبع ملخص واحد وسطر لكل اختلاف، ويُرمى GoldenTestError عند أي فشل.
+ * تُشغّل جميعها بـ npm test (scripts/run-golden-tests.ts).
+ */
+
+export type GoldenCheck = {
+  name: string;
+  // يعيد وصف الاختلاف (أو عدة أوصاف) - لا شيء يعني نجاح الحالة
+  run: () => GoldenFailure | Promise<GoldenFailure>;
+};
+
+type GoldenFailure = string | string[] | null | undefined | void;
+
+export type GoldenResult = { passed: number; failed: string[] };
+
+export class GoldenTestError extends Error {
+  constructor(public suite: string, public failed: string[], failedCases: number) {
+    super(`فشلت ${failedCases} حالة golden في ${suite}`);
+    this.name = 'GoldenTestError';
+  }
+}
+
+/**
+ * وصف اختلاف قيمتين بالصيغة الموحدة - null عند التطابق
+ * القيم غير النصية تُقارن بـ JSON.stringify
+ */
+export function goldenDiff(expected: unknown, actual: unknown): string | null {
+  const expectedText = typeof expected === 'string' ? expected : JSON.stringify(expected);
+  const actualText = typeof actual === 'string' ? actual : JSON.stringify(actual);
+  if (expectedText === actualText) return null;
+
+  // النصوص متعددة الأسطر (سكريبتات كاملة) تُعرض ككتل
+  if (expectedText?.includes('\n') || actualText?.includes('\n')) {
+    return `\n--- expected\n${expectedText}\n--- actual\n${actualText}`;
+  }
+  return `\n  expected: ${expectedText}\n  actual:   ${actualText}`;
+}
+
+/**
+ * تشغيل مجموعة حالات golden - يرمي GoldenTestError عند أي اختلاف
+ * الخطأ المرمي داخل حالة يُحتسب فشلاً لها دون إيقاف بقية الحالات
+ */
+export async function runGoldenCases(suite: string, checks: GoldenCheck[]): Promise<GoldenResult> {
+  const failed: string[] = [];
+  let failedCases = 0;
+
+  for (const check of checks) {
+    let failures: string[];
+    try {
+      const result = await check.run();
+      failures = result ? ([] as string[]).concat(result) : [];
+    } catch (error: any) {
+      failures = [`خطأ غير متوقع - ${error?.message ?? error}`];
+    }
+
+    if (failures.length > 0) {
+      failedCases++;
+      failures.forEach(failure => failed.push(failure.startsWith('\n') ? `${check.name}${failure}` : `${check.name}: ${failure}`));
+    }
+  }
+
+  const passed = checks.length - failedCases;
+  console.log(`🧪 ${suite}: ${passed} نجح، ${failedCases} فشل`);
+  failed.forEach(failure => console.log(`   ✗ ${failure}`));
+
+  if (failed.length > 0) {
+    throw new GoldenTestError(suite, failed, failedCases);
+  }
+
+  return { passed, failed };
+}
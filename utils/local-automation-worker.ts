@@ -9,6 +9,9 @@
 import { getMasterAI } from './ai-brain/master-ai';
 import { learningEngine } from './ai-brain/learning-engine';
 import { databaseSync } from './ai-brain/database-sync';
+import { BrowserRecorder } from './browser-recorder';
+import type { StepNode } from '../types';
+import type { LocalPageSnapshot } from './local-runner-client';
 
 // Type definition for SmartTaskExecutor (actual import is dynamic)
 type SmartTaskExecutor = any;
@@ -169,6 +172,66 @@ export class LocalAutomationWorker {
     }
   }
 
+  /**
+   * Record manual interactions in a headed browser as builder steps
+   * تسجيل تفاعلات المستخدم في متصفح ظاهر - ينتهي بإغلاق النافذة أو إلغاء signal
+   * ويعيد عدد الخطوات المسجلة
+   */
+  async record(url: string, onStep: (step: StepNode) => void, signal?: AbortSignal): Promise<number> {
+    console.log(`🔴 Recording: ${url}`);
+
+    // StealthBrowser يُحمَّل ديناميكياً لأنه Node.js فقط
+    const { StealthBrowser } = await import('./stealth-browser');
+    const browser = new StealthBrowser();
+    try {
+      await browser.launch({ headless: false });
+      const page = await browser.getPage(`record-${Date.now()}`);
+      const recorder = new BrowserRecorder(page, onStep, url);
+
+      const stopped = new Promise<void>(resolve => {
+        page.on('close', () => resolve());
+        signal?.addEventListener('abort', () => resolve());
+      });
+      if (!signal?.aborted) {
+        await recorder.start(url);
+        await stopped;
+      }
+      await recorder.flush();
+
+      console.log(`⏹️ Recording stopped: ${recorder.stepCount} steps`);
+      return recorder.stepCount;
+    } finally {
+      await browser.close().catch(() => {});
+    }
+  }
+
+  /**
+   * التقاط HTML الصفحة بعد عرضها - لمنتقي العناصر في المنشئ
+   */
+  async snapshot(url: string): Promise<LocalPageSnapshot> {
+    console.log(`📸 Snapshot: ${url}`);
+
+    const { StealthBrowser } = await import('./stealth-browser');
+    const browser = new StealthBrowser();
+    try {
+      await browser.launch({ headless: true });
+      const pageId = `snapshot-${Date.now()}`;
+      await browser.navigateTo(url, pageId);
+      const page = await browser.getPage(pageId);
+      // المحتوى المحمّل لاحقاً يظهر غالباً قبل هدوء الشبكة - لا ننتظر أكثر من 10 ثوانٍ
+      await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+
+      return {
+        url: page.url(),
+        title: await page.title(),
+        html: await browser.getContent(pageId),
+        capturedAt: new Date().toISOString(),
+      };
+    } finally {
+      await browser.close().catch(() => {});
+    }
+  }
+
   /**
    * Execute login task
    */
@@ -0,0 +1,395 @@
+/**
+ * قاعدة البيانات المحلية (IndexedDB) - بديل localStorage للمهام والسجلات والإعدادات ومعرفة العقل
+ * localStorage محدود بـ 5MB ولا يخزن إلا نصوصاً، هنا نتائج التشغيل المحلي وصورها تُحفظ Blob كما هي
+ * المخطط بإصدارات: كل ترحيل في LOCAL_DB_MIGRATIONS يُنفذ مرة واحدة عند فتح القاعدة بإصدار أحدث
+ * قاعدة لكل مستخدم (setLocalDatabaseUser) - حسابان على نفس المتصفح لا يتشاركان المهام ولا طابور المزامنة
+ */
+
+export type LocalStoreName =
+  | 'tasks'
+  | 'logs'
+  | 'settings'
+  | 'localResults'
+  | 'artifacts'
+  | 'brain'
+  | 'syncQueue'
+  | 'taskSync'
+  | 'taskConflicts'
+  | 'knowledge'
+  | 'patterns';
+
+// مخازن قيمة-مفتاح بلا keyPath - الباقي سجلات بمعرّف id
+export type LocalValueStoreName = 'settings' | 'brain';
+
+export type StoredArtifactBlob = {
+  key: string; // `${resultId}:${artifactId}`
+  resultId: string;
+  artifactId: number;
+  blob: Blob;
+};
+
+type LocalDatabaseMigration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// بدون مستخدم: القاعدة المشتركة القديمة - أول مستخدم تُنشأ قاعدته يأخذ بياناتها
+export const LOCAL_DB_NAME = 'automation-local';
+// قواعد مخزن المعرفة المنفصلة القديمة (ai-brain-knowledge-<userId>) - تُنقل لقاعدة المستخدم
+const LEGACY_KNOWLEDGE_DB_PREFIX = 'ai-brain-knowledge-';
+// ما يُنقل من القاعدة المشتركة - حالة المزامنة وطابورها تخص حساب الخادم القديم فلا تُنقل
+const SHARED_DATA_STORES: LocalStoreName[] = ['tasks', 'logs', 'settings', 'localResults', 'artifacts', 'brain'];
+
+// مفاتيح localStorage القديمة - تُنقل في الترحيل الأول وتُحذف بعد اكتماله
+export const LEGACY_STORAGE_KEYS = {
+  tasks: 'automation-tasks',
+  logs: 'automation-logs',
+  settings: 'automation-settings',
+} as const;
+
+// مفتاح إعدادات التطبيق في مخزن settings
+export const LOCAL_SETTINGS_KEY = 'app';
+
+/**
+ * الترحيلات بالترتيب - الإصدار = عدد الترحيلات
+ * لا يُعدّل ترحيل منشور: أي تغيير في المخطط يُضاف كترحيل جديد في آخر القائمة
+ */
+export const LOCAL_DB_MIGRATIONS: LocalDatabaseMigration[] = [
+  // 1: المخازن الأساسية + نقل بيانات localStorage
+  (db, transaction) => {
+    db.createObjectStore('tasks', { keyPath: 'id' });
+    db.createObjectStore('logs', { keyPath: 'id' }).createIndex('taskId', 'taskId');
+    db.createObjectStore('settings');
+    db.createObjectStore('localResults', { keyPath: 'id' }).createIndex('taskId', 'taskId');
+    db.createObjectStore('artifacts', { keyPath: 'key' }).createIndex('resultId', 'resultId');
+    db.createObjectStore('brain');
+    db.createObjectStore('syncQueue', { keyPath: 'seq', autoIncrement: true }).createIndex('key', 'key');
+    importLegacyStorage(transaction);
+  },
+  // 2: المزامنة الثنائية للمهام - آخر نسخة متفق عليها مع الخادم والتعارضات المعلقة
+  db => {
+    db.createObjectStore('taskSync', { keyPath: 'taskId' });
+    db.createObjectStore('taskConflicts', { keyPath: 'taskId' });
+  },
+  // 3: مخزن المعرفة الموحد (knowledge-store) - بنفس فهارس ai_knowledge و ai_patterns
+  db => {
+    const knowledge = db.createObjectStore('knowledge', { keyPath: 'id' });
+    knowledge.createIndex('category', 'category');
+    knowledge.createIndex('domain', 'domain');
+    knowledge.createIndex('tags', 'tags', { multiEntry: true });
+    knowledge.createIndex('updatedAt', 'updatedAt');
+
+    const patterns = db.createObjectStore('patterns', { keyPath: 'id' });
+    patterns.createIndex('website', 'website');
+    patterns.createIndex('patternType', 'patternType');
+  },
+];
+
+export const LOCAL_DB_VERSION = LOCAL_DB_MIGRATIONS.length;
+
+function readLegacyJson(key: string): any {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function importLegacyStorage(transaction: IDBTransaction): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const tasks = readLegacyJson(LEGACY_STORAGE_KEYS.tasks);
+  const logs = readLegacyJson(LEGACY_STORAGE_KEYS.logs);
+  const settings = readLegacyJson(LEGACY_STORAGE_KEYS.settings);
+
+  if (Array.isArray(tasks)) tasks.forEach(task => transaction.objectStore('tasks').put(task));
+  if (Array.isArray(logs)) logs.forEach(log => transaction.objectStore('logs').put(log));
+  if (settings) transaction.objectStore('settings').put(settings, LOCAL_SETTINGS_KEY);
+
+  // الحذف بعد اكتمال النقل فقط - لو فشل الترحيل تبقى البيانات القديمة للمحاولة التالية
+  transaction.addEventListener('complete', () => {
+    Object.values(LEGACY_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  });
+}
+
+export function isLocalDatabaseAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+let localDatabaseUser: string | null = null;
+
+export function localDatabaseName(userId: string | null): string {
+  return userId ? `${LOCAL_DB_NAME}-${userId}` : LOCAL_DB_NAME;
+}
+
+/**
+ * المستخدم الذي تقرأ وتكتب قاعدته الدوال بدون userId صريح - يُضبط عند الدخول والخروج
+ * قبل تحديث حالة المستخدم، فلا يقرأ أي مكوّن قاعدة المستخدم السابق
+ */
+export function setLocalDatabaseUser(userId: string | null): void {
+  localDatabaseUser = userId;
+}
+
+export function getLocalDatabaseUser(): string | null {
+  return localDatabaseUser;
+}
+
+function openLocalDatabase(userId: string | null = localDatabaseUser): Promise<IDBDatabase> {
+  if (!isLocalDatabaseAvailable()) {
+    return Promise.reject(new Error('IndexedDB غير متاح في هذا المتصفح'));
+  }
+
+  const name = localDatabaseName(userId);
+  let databasePromise = databases.get(name);
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, LOCAL_DB_VERSION);
+      let created = false;
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        created = event.oldVersion === 0;
+        for (let version = event.oldVersion; version < LOCAL_DB_VERSION; version++) {
+          LOCAL_DB_MIGRATIONS[version](db, transaction);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // تبويب آخر فتح إصداراً أحدث - نغلق ليكمل ترحيله، والفتح التالي يأخذ الإصدار الجديد
+        db.onversionchange = () => {
+          db.close();
+          databases.delete(name);
+        };
+        resolve(created && userId ? importPreviousDatabases(db, userId).then(() => db) : db);
+      };
+
+      request.onerror = () => {
+        databases.delete(name);
+        reject(request.error);
+      };
+    });
+    databases.set(name, databasePromise);
+  }
+
+  return databasePromise;
+}
+
+// قاعدة المستخدم الجديدة تأخذ القاعدة المشتركة (بيانات ما قبل فصل المستخدمين) ومخزن معرفته القديم
+async function importPreviousDatabases(db: IDBDatabase, userId: string): Promise<void> {
+  try {
+    await moveDatabase(LOCAL_DB_NAME, db, SHARED_DATA_STORES);
+    await moveDatabase(`${LEGACY_KNOWLEDGE_DB_PREFIX}${userId}`, db, ['knowledge', 'patterns']);
+  } catch (error: any) {
+    // البيانات القديمة تبقى في مكانها - القاعدة الجديدة تعمل بدونها
+    console.error('❌ تعذر نقل البيانات المحلية السابقة:', error?.message);
+  }
+}
+
+async function databaseExists(name: string): Promise<boolean> {
+  if (!indexedDB.databases) return false;
+  return (await indexedDB.databases()).some(database => database.name === name);
+}
+
+/**
+ * نسخ مخازن قاعدة أخرى (بنفس الأسماء) إلى target ثم حذفها
+ */
+async function moveDatabase(sourceName: string, target: IDBDatabase, stores: LocalStoreName[]): Promise<void> {
+  if (!(await databaseExists(sourceName))) return;
+
+  // اتصال مفتوح بالقاعدة المشتركة (قبل الدخول) يمنع حذفها
+  const cached = databases.get(sourceName);
+  if (cached) {
+    databases.delete(sourceName);
+    (await cached.catch(() => null))?.close();
+  }
+
+  const source = await requestToPromise(indexedDB.open(sourceName));
+  try {
+    const names = stores.filter(store => source.objectStoreNames.contains(store));
+    if (names.length === 0) return;
+
+    const read = source.transaction(names, 'readonly');
+    const contents = await Promise.all(names.map(async name => {
+      const store = read.objectStore(name);
+      const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+      return { name, keys, values };
+    }));
+
+    const write = target.transaction(names, 'readwrite');
+    contents.forEach(({ name, keys, values }) => {
+      const store = write.objectStore(name);
+      // مخازن قيمة-مفتاح بلا keyPath تحتاج المفتاح صراحة
+      values.forEach((value, index) => (store.keyPath === null ? store.put(value, keys[index]) : store.put(value)));
+    });
+    await transactionDone(write);
+  } finally {
+    source.close();
+  }
+
+  // الحذف لا يُنتظر: تبويب آخر ما زال يفتح القاعدة يؤخره حتى يغلقها
+  indexedDB.deleteDatabase(sourceName);
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('أُلغيت المعاملة'));
+  });
+}
+
+/**
+ * تنفيذ عمليات في معاملة واحدة - تكتمل كلها أو لا شيء
+ * userId يحدد قاعدة مستخدم بعينه (مخزن المعرفة) - الافتراضي المستخدم الحالي
+ */
+export async function runLocalTransaction<T>(
+  stores: LocalStoreName | LocalStoreName[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => T | Promise<T>,
+  userId: string | null = localDatabaseUser
+): Promise<T> {
+  const db = await openLocalDatabase(userId);
+  const transaction = db.transaction(stores, mode);
+  const done = transactionDone(transaction);
+
+  const result = await operation(transaction);
+  await done;
+  return result;
+}
+
+export function getAllRecords<T>(store: LocalStoreName, userId: string | null = localDatabaseUser): Promise<T[]> {
+  return runLocalTransaction(
+    store,
+    'readonly',
+    transaction => requestToPromise(transaction.objectStore(store).getAll() as IDBRequest<T[]>),
+    userId
+  );
+}
+
+export function getRecord<T>(store: LocalStoreName, key: IDBValidKey): Promise<T | undefined> {
+  return runLocalTransaction(store, 'readonly', transaction =>
+    requestToPromise(transaction.objectStore(store).get(key) as IDBRequest<T | undefined>)
+  );
+}
+
+export function getRecordsByIndex<T>(store: LocalStoreName, index: string, key: IDBValidKey): Promise<T[]> {
+  return runLocalTransaction(store, 'readonly', transaction =>
+    requestToPromise(transaction.objectStore(store).index(index).getAll(key) as IDBRequest<T[]>)
+  );
+}
+
+export function putRecords(store: LocalStoreName, records: any[]): Promise<void> {
+  if (records.length === 0) return Promise.resolve();
+  return runLocalTransaction(store, 'readwrite', transaction => {
+    const objectStore = transaction.objectStore(store);
+    records.forEach(record => objectStore.put(record));
+  });
+}
+
+export function deleteRecords(store: LocalStoreName, keys: IDBValidKey[]): Promise<void> {
+  if (keys.length === 0) return Promise.resolve();
+  return runLocalTransaction(store, 'readwrite', transaction => {
+    const objectStore = transaction.objectStore(store);
+    keys.forEach(key => objectStore.delete(key));
+  });
+}
+
+export function getLocalValue<T>(store: LocalValueStoreName, key: string): Promise<T | undefined> {
+  return runLocalTransaction(store, 'readonly', transaction =>
+    requestToPromise(transaction.objectStore(store).get(key) as IDBRequest<T | undefined>)
+  );
+}
+
+export function setLocalValue(store: LocalValueStoreName, key: string, value: any): Promise<void> {
+  return runLocalTransaction(store, 'readwrite', transaction => {
+    transaction.objectStore(store).put(value, key);
+  });
+}
+
+export function deleteLocalValue(store: LocalValueStoreName, key: string): Promise<void> {
+  return runLocalTransaction(store, 'readwrite', transaction => {
+    transaction.objectStore(store).delete(key);
+  });
+}
+
+/**
+ * حفظ الفرق بين نسختين من قائمة - State في React لا يُعدّل في مكانه
+ * فالسجل الذي لم يتغير مرجعه لم يتغير محتواه ولا يُعاد كتابته
+ */
+export function persistCollectionChanges<T extends { id: string }>(
+  store: LocalStoreName,
+  previous: T[],
+  next: T[]
+): Promise<void> {
+  const previousById = new Map(previous.map(record => [record.id, record]));
+  const nextIds = new Set(next.map(record => record.id));
+  const changed = next.filter(record => previousById.get(record.id) !== record);
+  const removed = previous.filter(record => !nextIds.has(record.id)).map(record => record.id);
+
+  if (changed.length === 0 && removed.length === 0) return Promise.resolve();
+
+  return runLocalTransaction(store, 'readwrite', transaction => {
+    const objectStore = transaction.objectStore(store);
+    changed.forEach(record => objectStore.put(record));
+    removed.forEach(id => objectStore.delete(id));
+  });
+}
+
+// ========== الملفات الثنائية ==========
+
+export function artifactBlobKey(resultId: string, artifactId: number): string {
+  return `${resultId}:${artifactId}`;
+}
+
+export function getArtifactBlobs(resultId: string): Promise<StoredArtifactBlob[]> {
+  return getRecordsByIndex<StoredArtifactBlob>('artifacts', 'resultId', resultId);
+}
+
+/**
+ * حذف نتائج محلية مع ملفاتها في معاملة واحدة - لا تبقى ملفات يتيمة تستهلك المساحة
+ */
+export function deleteLocalResults(resultIds: string[]): Promise<void> {
+  if (resultIds.length === 0) return Promise.resolve();
+  return runLocalTransaction(['localResults', 'artifacts'], 'readwrite', async transaction => {
+    const results = transaction.objectStore('localResults');
+    const artifactsIndex = transaction.objectStore('artifacts').index('resultId');
+    for (const resultId of resultIds) {
+      results.delete(resultId);
+      const keys = await requestToPromise(artifactsIndex.getAllKeys(resultId));
+      keys.forEach(key => transaction.objectStore('artifacts').delete(key));
+    }
+  });
+}
+
+// ========== المساحة ==========
+
+export type LocalStorageEstimate = {
+  usage: number; // bytes
+  quota: number; // bytes
+  persisted: boolean;
+};
+
+export async function getLocalStorageEstimate(): Promise<LocalStorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { usage, quota, persisted };
+}
+
+/**
+ * طلب تخزين دائم - بدونه قد يحذف المتصفح القاعدة عند امتلاء القرص
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
@@ -0,0 +1,277 @@
+/**
+ * عميل المشغّل المحلي
+ * يرسل المهمة إلى خدمة local-runner-service على جهاز المستخدم
+ * ويقرأ الأحداث (سجلات، خطوات، ملفات نتائج) كسطور JSON أثناء التنفيذ
+ */
+
+import type { Task, LocalArtifact, StepNode } from '../types';
+import type { StoredArtifactBlob } from './local-database';
+import { artifactBlobKey, getAllRecords, getArtifactBlobs, runLocalTransaction } from './local-database';
+
+export const DEFAULT_LOCAL_RUNNER_URL = 'http://127.0.0.1:4777';
+
+export type LocalRunnerConfig = {
+  url: string;
+  token: string;
+};
+
+export type LocalRunRequest = {
+  task: Pick<Task, 'id' | 'name' | 'type' | 'script' | 'targetUrl' | 'metadata'>;
+  options: {
+    headless: boolean;
+  };
+};
+
+export type LocalRunnerDoneEvent = {
+  type: 'done';
+  success: boolean;
+  error?: string;
+  failedStepId?: string;
+  duration: number;
+};
+
+export type LocalRunnerLogEvent = { type: 'log'; level: 'info' | 'warn' | 'error'; message: string; timestamp: string };
+
+export type LocalRunnerEvent =
+  | LocalRunnerLogEvent
+  | { type: 'step'; index: number; stepId: string; label: string; timestamp: string }
+  | { type: 'artifact'; artifact: LocalArtifact }
+  | LocalRunnerDoneEvent;
+
+export type LocalRecordRequest = {
+  url: string;
+};
+
+// التسجيل ينتهي بإغلاق نافذة المتصفح أو إلغاء الطلب
+export type LocalRecorderEvent =
+  | LocalRunnerLogEvent
+  | { type: 'recorded-step'; step: StepNode }
+  | LocalRunnerDoneEvent;
+
+// لقطة HTML للصفحة بعد التحميل - يفحص عليها منتقي العناصر المحددات
+export type LocalPageSnapshot = {
+  url: string; // الرابط النهائي بعد التحويلات
+  title: string;
+  html: string;
+  capturedAt: string;
+};
+
+export class LocalRunnerError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LocalRunnerError';
+  }
+}
+
+function runnerUrl(config: LocalRunnerConfig, path: string): string {
+  return `${(config.url || DEFAULT_LOCAL_RUNNER_URL).replace(/\/+$/, '')}${path}`;
+}
+
+function authHeaders(config: LocalRunnerConfig): Record<string, string> {
+  return config.token ? { Authorization: `Bearer ${config.token}` } : {};
+}
+
+async function runnerFetch(config: LocalRunnerConfig, path: string, init: RequestInit = {}): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(runnerUrl(config, path), {
+      ...init,
+      headers: { ...authHeaders(config), ...(init.headers || {}) },
+    });
+  } catch {
+    throw new LocalRunnerError(
+      `المشغّل المحلي غير متاح على ${config.url || DEFAULT_LOCAL_RUNNER_URL} - شغّله بالأمر: npm run local-runner`
+    );
+  }
+
+  if (response.status === 401) {
+    throw new LocalRunnerError('رمز المشغّل المحلي غير صحيح - انسخه من نافذة الخدمة إلى الإعدادات', 401);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new LocalRunnerError(body.error || `فشل الطلب: ${response.status}`, response.status);
+  }
+
+  return response;
+}
+
+/**
+ * فحص الاتصال بالمشغّل المحلي
+ */
+export async function checkLocalRunner(config: LocalRunnerConfig): Promise<{ ok: boolean; busy: boolean; version: string }> {
+  const response = await runnerFetch(config, '/health');
+  return response.json();
+}
+
+/**
+ * قراءة استجابة الخدمة كسطور JSON - onEvent يُستدعى لكل حدث فور وصوله حتى حدث done
+ */
+async function readEventStream<T extends { type: string }>(
+  response: Response,
+  onEvent: (event: T) => void
+): Promise<LocalRunnerDoneEvent> {
+  if (!response.body) {
+    throw new LocalRunnerError('المتصفح لا يدعم قراءة الاستجابة كتدفق');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let done: LocalRunnerDoneEvent | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as T;
+    if (event.type === 'done') done = event as unknown as LocalRunnerDoneEvent;
+    onEvent(event);
+  };
+
+  while (true) {
+    const chunk = await reader.read();
+    if (chunk.done) break;
+
+    buffer += decoder.decode(chunk.value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+
+  if (!done) {
+    throw new LocalRunnerError('انقطع الاتصال بالمشغّل المحلي قبل انتهاء المهمة');
+  }
+  return done;
+}
+
+/**
+ * تشغيل مهمة على المشغّل المحلي - onEvent يُستدعى لكل حدث فور وصوله
+ */
+export async function runOnLocalRunner(
+  config: LocalRunnerConfig,
+  request: LocalRunRequest,
+  onEvent: (event: LocalRunnerEvent) => void,
+  signal?: AbortSignal
+): Promise<LocalRunnerDoneEvent> {
+  const response = await runnerFetch(config, '/run', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  return readEventStream(response, onEvent);
+}
+
+/**
+ * تسجيل تفاعلات المستخدم في متصفح ظاهر على جهازه - كل خطوة تصل كحدث recorded-step
+ * إلغاء signal يوقف التسجيل ويغلق المتصفح
+ */
+export async function recordOnLocalRunner(
+  config: LocalRunnerConfig,
+  request: LocalRecordRequest,
+  onEvent: (event: LocalRecorderEvent) => void,
+  signal?: AbortSignal
+): Promise<LocalRunnerDoneEvent> {
+  const response = await runnerFetch(config, '/record', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  return readEventStream(response, onEvent);
+}
+
+/**
+ * التقاط HTML صفحة بمتصفح المشغّل المحلي - الصفحات التي تُبنى بـ JavaScript تُلتقط بعد عرضها
+ */
+export async function captureSnapshotOnLocalRunner(config: LocalRunnerConfig, url: string): Promise<LocalPageSnapshot> {
+  const response = await runnerFetch(config, '/snapshot', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+  });
+  return response.json();
+}
+
+/**
+ * تحويل ملف نتائج محلي إلى Blob لعرضه أو تحميله
+ */
+export function localArtifactToBlob(artifact: LocalArtifact): Blob {
+  if (artifact.data.type === 'screenshot') {
+    const binary = atob(artifact.data.base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: artifact.data.mimeType });
+  }
+
+  return new Blob([JSON.stringify(artifact.data.items, null, 2)], { type: 'application/json' });
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // على دفعات - String.fromCharCode بكل البايتات مرة واحدة يتجاوز حد وسائط الدالة في الصور الكبيرة
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+type PersistableLocalResult = {
+  id: string;
+  created_at: string;
+  artifacts: LocalArtifact[];
+};
+
+/**
+ * حفظ نتيجة تشغيل محلي في IndexedDB - الصور تُحفظ Blob في مخزن artifacts
+ * والنتيجة تحمل بياناتها الوصفية فقط (base64 فارغ) فلا تتضخم بنسخة نصية من كل صورة
+ */
+export function saveLocalRunResult(result: PersistableLocalResult): Promise<void> {
+  const blobs: StoredArtifactBlob[] = result.artifacts
+    .filter(artifact => artifact.data.type === 'screenshot')
+    .map(artifact => ({
+      key: artifactBlobKey(result.id, artifact.id),
+      resultId: result.id,
+      artifactId: artifact.id,
+      blob: localArtifactToBlob(artifact),
+    }));
+
+  const stored = {
+    ...result,
+    artifacts: result.artifacts.map(artifact =>
+      artifact.data.type === 'screenshot' ? { ...artifact, data: { ...artifact.data, base64: '' } } : artifact
+    ),
+  };
+
+  return runLocalTransaction(['localResults', 'artifacts'], 'readwrite', transaction => {
+    transaction.objectStore('localResults').put(stored);
+    blobs.forEach(blob => transaction.objectStore('artifacts').put(blob));
+  });
+}
+
+/**
+ * تحميل نتائج التشغيل المحلي المحفوظة (الأحدث أولاً) مع إعادة الصور من الـ Blobs
+ * الصورة التي فُقد ملفها تُستبعد بدل عرض ملف فارغ
+ */
+export async function loadLocalRunResults<T extends PersistableLocalResult>(): Promise<T[]> {
+  const results = await getAllRecords<T>('localResults');
+  results.sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  return Promise.all(results.map(async result => {
+    const blobs = new Map((await getArtifactBlobs(result.id)).map(stored => [stored.artifactId, stored.blob]));
+    const artifacts: LocalArtifact[] = [];
+    for (const artifact of result.artifacts) {
+      if (artifact.data.type !== 'screenshot') {
+        artifacts.push(artifact);
+        continue;
+      }
+      const blob = blobs.get(artifact.id);
+      if (blob) artifacts.push({ ...artifact, data: { ...artifact.data, base64: await blobToBase64(blob) } });
+    }
+    return { ...result, artifacts };
+  }));
+}
@@ -0,0 +1,382 @@
+/**
+ * Local Runner Service - Companion process that executes tasks on this machine
+ * خدمة المشغّل المحلي - تنفذ المهام بمتصفح StealthBrowser حقيقي
+ * وتبث السجلات والخطوات والصور والبيانات المستخرجة كسطور JSON
+ *
+ * WARNING: This is a Node.js-only module and cannot be imported in browser code.
+ * التشغيل: npm run local-runner
+ */
+
+if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+  throw new Error(
+    'local-runner-service.ts is a Node.js-only module. ' +
+    'It cannot be imported in browser code.'
+  );
+}
+
+import { createServer, IncomingMessage, ServerResponse, Server } from 'node:http';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import type { LocalArtifact } from '../types';
+import type { LocalRunRequest, LocalRunnerEvent, LocalRecordRequest, LocalRecorderEvent } from './local-runner-client';
+import { DEFAULT_LOCAL_RUNNER_URL } from './local-runner-client';
+import { StealthBrowser } from './stealth-browser';
+import { readTaskStepGraph } from './step-graph';
+import { generateScriptFromGraph, STEP_TYPE_LABELS } from './step-codegen';
+import { localWorker } from './local-automation-worker';
+
+export const LOCAL_RUNNER_VERSION = '1.0.0';
+
+const MAX_REQUEST_BYTES = 5 * 1024 * 1024;
+const STEP_HOOK = '__reportStep';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+export interface LocalRunnerServiceOptions {
+  port?: number;
+  host?: string;
+  token?: string;
+}
+
+type Emit = (event: LocalRunnerEvent) => void;
+
+let artifactCounter = 0;
+
+function createArtifact(name: string, data: LocalArtifact['data'], size: number): LocalArtifact {
+  artifactCounter = (artifactCounter + 1) % 1000;
+  return { id: Date.now() * 1000 + artifactCounter, name, size_in_bytes: size, data };
+}
+
+function screenshotArtifact(name: string, buffer: Buffer, stepId?: string): LocalArtifact {
+  return createArtifact(
+    name,
+    {
+      type: 'screenshot',
+      mimeType: 'image/png',
+      base64: buffer.toString('base64'),
+      stepId,
+      timestamp: new Date().toISOString(),
+    },
+    buffer.length
+  );
+}
+
+function formatLogArgs(args: any[]): string {
+  return args
+    .map(arg => {
+      if (typeof arg === 'string') return arg;
+      if (arg instanceof Error) return arg.message;
+      try {
+        return JSON.stringify(arg);
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(' ');
+}
+
+/**
+ * console بديل للسكريبت - كل سطر يُبث كحدث log ويُطبع في نافذة الخدمة
+ */
+function createScriptConsole(emit: Emit): Pick<Console, 'log' | 'info' | 'warn' | 'error' | 'debug'> {
+  const write = (level: 'info' | 'warn' | 'error') => (...args: any[]) => {
+    const message = formatLogArgs(args);
+    console[level === 'info' ? 'log' : level](`  │ ${message}`);
+    emit({ type: 'log', level, message, timestamp: new Date().toISOString() });
+  };
+
+  return { log: write('info'), info: write('info'), debug: write('info'), warn: write('warn'), error: write('error') };
+}
+
+/**
+ * page للسكريبت - كل screenshot() يُحفظ أيضاً كملف نتائج
+ */
+function createCapturingPage(page: any, onScreenshot: (buffer: Buffer) => void): any {
+  return new Proxy(page, {
+    get(target, property) {
+      if (property === 'screenshot') {
+        return async (options?: any) => {
+          const buffer = await target.screenshot(options);
+          onScreenshot(buffer);
+          return buffer;
+        };
+      }
+      const value = target[property];
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * كود المهمة القابل للتنفيذ - من المخطط مع إعلام الخطوات، أو السكريبت كما هو
+ */
+function buildRunnableCode(request: LocalRunRequest): string {
+  const graph = readTaskStepGraph(request.task);
+  const script = graph
+    ? generateScriptFromGraph(graph, 'runTask', { stepHook: STEP_HOOK })
+    : request.task.script || '';
+
+  return `${script}\nreturn typeof runTask === 'function' ? await runTask(page) : undefined;`;
+}
+
+/**
+ * تنفيذ مهمة واحدة وبث أحداثها - لا يرمي أبداً، النتيجة في حدث done
+ */
+export async function executeLocalRun(request: LocalRunRequest, emit: Emit, abortSignal?: AbortSignal): Promise<void> {
+  const startTime = Date.now();
+  const graph = readTaskStepGraph(request.task);
+  const scriptConsole = createScriptConsole(emit);
+  const browser = new StealthBrowser();
+  let currentStepId: string | undefined;
+  let screenshotCount = 0;
+
+  const onAbort = () => {
+    browser.close().catch(() => {});
+  };
+  abortSignal?.addEventListener('abort', onAbort);
+
+  const reportStep = (index: number, stepId: string) => {
+    const step = graph?.steps[index];
+    currentStepId = stepId;
+    const label = step ? STEP_TYPE_LABELS[step.type] : `خطوة ${index + 1}`;
+    console.log(`▶️ Step ${index + 1}: ${label}`);
+    emit({ type: 'step', index, stepId, label, timestamp: new Date().toISOString() });
+  };
+
+  const finish = (success: boolean, error?: string) => {
+    emit({
+      type: 'done',
+      success,
+      error,
+      failedStepId: success ? undefined : currentStepId,
+      duration: Math.round((Date.now() - startTime) / 1000),
+    });
+  };
+
+  let page: any = null;
+
+  try {
+    scriptConsole.log(`🚀 بدء التنفيذ المحلي: ${request.task.name}`);
+    await browser.launch({ headless: request.options?.headless !== false });
+    page = await browser.getPage(`run-${startTime}`);
+
+    const capturingPage = createCapturingPage(page, buffer => {
+      screenshotCount++;
+      emit({
+        type: 'artifact',
+        artifact: screenshotArtifact(`screenshot-step-${screenshotCount}.png`, buffer, currentStepId),
+      });
+    });
+
+    const run = new AsyncFunction('page', 'console', STEP_HOOK, buildRunnableCode(request));
+    const outcome = await run(capturingPage, scriptConsole, reportStep);
+
+    const results = Array.isArray(outcome?.results) ? outcome.results : [];
+    if (results.length > 0) {
+      const json = JSON.stringify(results, null, 2);
+      emit({
+        type: 'artifact',
+        artifact: createArtifact('extracted-data.json', { type: 'data', items: results, count: results.length }, Buffer.byteLength(json)),
+      });
+    }
+
+    // متغيرات التشغيل (setVariable / forEach) بنفس شكل ContextVariable
+    const variables = Array.isArray(outcome?.variables) ? outcome.variables : [];
+    if (variables.length > 0) {
+      const json = JSON.stringify(variables, null, 2);
+      emit({
+        type: 'artifact',
+        artifact: createArtifact('variables.json', { type: 'data', items: variables, count: variables.length }, Buffer.byteLength(json)),
+      });
+    }
+
+    const finalScreenshot = await page.screenshot({ fullPage: true });
+    emit({ type: 'artifact', artifact: screenshotArtifact('screenshot-result.png', finalScreenshot) });
+
+    // السكريبتات المولَّدة تلتقط أخطاءها وتعيد success: false
+    if (outcome && outcome.success === false) {
+      throw new Error(outcome.error || 'فشلت المهمة');
+    }
+
+    scriptConsole.log('✅ اكتملت المهمة بنجاح');
+    finish(true);
+  } catch (error: any) {
+    const message = abortSignal?.aborted ? 'أُلغي التشغيل' : error?.message || String(error);
+    scriptConsole.error(`❌ خطأ: ${message}`);
+
+    if (page && !abortSignal?.aborted) {
+      try {
+        const errorScreenshot = await page.screenshot();
+        emit({ type: 'artifact', artifact: screenshotArtifact('screenshot-error.png', errorScreenshot, currentStepId) });
+      } catch {
+        // الصفحة قد تكون مغلقة - تجاهل
+      }
+    }
+
+    finish(false, message);
+  } finally {
+    abortSignal?.removeEventListener('abort', onAbort);
+    await browser.close().catch(() => {});
+  }
+}
+
+/**
+ * جلسة تسجيل في متصفح ظاهر - كل خطوة تُبث فور تسجيلها، لا يرمي أبداً والنتيجة في حدث done
+ */
+export async function executeLocalRecording(
+  request: LocalRecordRequest,
+  emit: (event: LocalRecorderEvent) => void,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  const startTime = Date.now();
+  const log = (level: 'info' | 'error', message: string) =>
+    emit({ type: 'log', level, message, timestamp: new Date().toISOString() });
+
+  try {
+    log('info', `🔴 بدء التسجيل: ${request.url} - أغلق نافذة المتصفح لإنهائه`);
+    const count = await localWorker.record(request.url, step => emit({ type: 'recorded-step', step }), abortSignal);
+    log('info', `⏹️ انتهى التسجيل: ${count} خطوة`);
+    emit({ type: 'done', success: true, duration: Math.round((Date.now() - startTime) / 1000) });
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    log('error', `❌ خطأ: ${message}`);
+    emit({ type: 'done', success: false, error: message, duration: Math.round((Date.now() - startTime) / 1000) });
+  }
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendJson(res: ServerResponse, status: number, body: any): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<any> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_REQUEST_BYTES) {
+      throw new Error('حجم الطلب كبير جداً');
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * تشغيل خادم HTTP المحلي - يستمع على 127.0.0.1 فقط ويتطلب رمزاً في كل طلب
+ */
+export function startLocalRunnerService(options: LocalRunnerServiceOptions = {}): Server {
+  const defaultUrl = new URL(DEFAULT_LOCAL_RUNNER_URL);
+  const port = options.port || Number(defaultUrl.port);
+  const host = options.host || defaultUrl.hostname;
+  const token = options.token || randomBytes(16).toString('hex');
+  let busy = false;
+
+  const server = createServer(async (req, res) => {
+    // صفحة التطبيق قد تكون على أي نطاق (محلي أو Vercel) - الحماية بالرمز لا بالنطاق
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Private-Network', 'true');
+    res.setHeader('Vary', 'Origin');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (!isAuthorized(req, token)) {
+      sendJson(res, 401, { error: 'unauthorized' });
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/health') {
+      sendJson(res, 200, { ok: true, busy, version: LOCAL_RUNNER_VERSION });
+      return;
+    }
+
+    if (req.method !== 'POST' || !['/run', '/record', '/snapshot'].includes(req.url || '')) {
+      sendJson(res, 404, { error: 'not found' });
+      return;
+    }
+
+    if (busy) {
+      sendJson(res, 409, { error: 'المشغّل المحلي ينفذ مهمة أخرى حالياً' });
+      return;
+    }
+
+    let body: any;
+    try {
+      body = await readJsonBody(req);
+      if (req.url === '/run' && !body?.task?.id) throw new Error('task مفقودة');
+      if (req.url !== '/run' && !/^https?:\/\//.test(body?.url || '')) throw new Error('رابط البداية يجب أن يبدأ بـ http:// أو https://');
+    } catch (error: any) {
+      sendJson(res, 400, { error: error.message });
+      return;
+    }
+
+    busy = true;
+
+    // اللقطة طلب واحد ورد واحد - لا تدفق أحداث
+    if (req.url === '/snapshot') {
+      try {
+        console.log(`\n📸 Snapshot requested: ${body.url}`);
+        sendJson(res, 200, await localWorker.snapshot(body.url));
+      } catch (error: any) {
+        sendJson(res, 500, { error: `تعذر التقاط الصفحة: ${error?.message || error}` });
+      } finally {
+        busy = false;
+      }
+      return;
+    }
+
+    const abortController = new AbortController();
+    let finished = false;
+
+    res.writeHead(200, {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'X-Accel-Buffering': 'no',
+    });
+    res.on('close', () => {
+      if (!finished) abortController.abort();
+    });
+
+    const emit = (event: LocalRunnerEvent | LocalRecorderEvent) => {
+      if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+    };
+
+    try {
+      if (req.url === '/record') {
+        const request: LocalRecordRequest = body;
+        console.log(`\n🔴 Recording requested: ${request.url}`);
+        await executeLocalRecording(request, emit, abortController.signal);
+      } else {
+        const request: LocalRunRequest = body;
+        console.log(`\n📥 Task received: ${request.task.name} (${request.task.id})`);
+        await executeLocalRun(request, emit, abortController.signal);
+      }
+    } finally {
+      finished = true;
+      busy = false;
+      res.end();
+    }
+  });
+
+  server.listen(port, host, () => {
+    console.log(`🤖 Local runner listening on http://${host}:${port}`);
+    console.log(`🔑 Token: ${token}`);
+    console.log('   انسخ الرابط والرمز إلى الإعدادات ← المشغّل المحلي');
+  });
+
+  return server;
+}
@@ -0,0 +1,180 @@
+/**
+ * قواعد تنبيهات المهام - تُحفظ في metadata.notifications وتُترجم إلى كود في السكريبتات المنشورة
+ * - webhook عام: JSON موقَّع بـ HMAC-SHA256 في X-Automation-Signature
+ * - Slack / Discord: رسالة نصية بصيغة incoming webhook لكل منهما
+ * - email: خطوة SMTP في workflow المهمة (إعدادات الخادم من أسرار الخزنة SMTP_*)
+ * الروابط والمفاتيح تُكتب كـ {{secrets.NAME}} لأن tasks.json يُرفع للمستودع
+ */
+
+export type NotificationEvent = 'failure' | 'success' | 'dataChange' | 'threshold';
+
+export type NotificationChannel =
+  | { type: 'webhook'; url: string; signingSecret?: string }
+  | { type: 'slack'; url: string }
+  | { type: 'discord'; url: string }
+  | { type: 'email'; to: string[] };
+
+export type NotificationRule = {
+  id: string;
+  enabled: boolean;
+  events: NotificationEvent[];
+  channel: NotificationChannel;
+};
+
+export class NotificationRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationRuleError';
+  }
+}
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  failure: 'عند الفشل',
+  success: 'عند النجاح',
+  dataChange: 'عند تغيّر البيانات',
+  threshold: 'عند تجاوز الحد',
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel['type'], string> = {
+  webhook: 'Webhook',
+  slack: 'Slack',
+  discord: 'Discord',
+  email: 'بريد إلكتروني',
+};
+
+// أسرار الخزنة التي تقرؤها خطوة البريد - تُضاف من SecretsVault بهذه الأسماء
+export const SMTP_SECRET_NAMES = ['SMTP_HOST', 'SMTP_PORT', 'SMTP_USERNAME', 'SMTP_PASSWORD'];
+
+export const SIGNATURE_HEADER = 'X-Automation-Signature';
+export const TIMESTAMP_HEADER = 'X-Automation-Timestamp';
+
+// أحداث تعتمد على مقارنة البيانات - تحتاج تفعيل مراقبة التغييرات
+export const DATA_EVENTS: NotificationEvent[] = ['dataChange', 'threshold'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function getNotificationRules(task: any): NotificationRule[] {
+  const rules = task?.metadata?.notifications;
+  return Array.isArray(rules) ? rules : [];
+}
+
+function getActiveRules(task: any): NotificationRule[] {
+  return getNotificationRules(task).filter(rule => rule.enabled && rule.events.length > 0);
+}
+
+/**
+ * قواعد تُرسل من داخل السكريبت (كل القنوات عدا البريد)
+ */
+export function getScriptNotificationRules(task: any): NotificationRule[] {
+  return getActiveRules(task).filter(rule => rule.channel.type !== 'email');
+}
+
+export function getEmailNotificationRules(task: any): NotificationRule[] {
+  return getActiveRules(task).filter(rule => rule.channel.type === 'email');
+}
+
+export function validateNotificationRule(rule: NotificationRule): void {
+  if (rule.events.length === 0) {
+    throw new NotificationRuleError('اختر حدثاً واحداً على الأقل');
+  }
+  if (rule.channel.type === 'email') {
+    if (rule.channel.to.length === 0) {
+      throw new NotificationRuleError('أدخل عنوان بريد واحداً على الأقل');
+    }
+    const invalid = rule.channel.to.find(address => !EMAIL_PATTERN.test(address));
+    if (invalid) {
+      throw new NotificationRuleError(`عنوان بريد غير صالح: ${invalid}`);
+    }
+    return;
+  }
+  if (!rule.channel.url.trim()) {
+    throw new NotificationRuleError('رابط الـ webhook مطلوب');
+  }
+}
+
+/**
+ * رابط مكتوب صراحة سيظهر في tasks.json داخل المستودع
+ */
+export function isPlainWebhookUrl(url: string): boolean {
+  return url.trim() !== '' && !/\{\{\s*secrets\.[A-Za-z_$][\w$]*\s*\}\}/.test(url);
+}
+
+/**
+ * وقت تشغيل التنبيهات - يُضاف للسكريبت فقط إذا كان للمهمة قواعد
+ * القاعدة تُرسل مرة واحدة لكل تشغيل حتى لو طابقت أكثر من حدث (الأول في events له الأولوية):
+ * سكريبت المهمة يرسل الفشل، والنجاح يُرسل منه أو من monitor-diff.js مع أحداث البيانات إن كانت المهمة مراقبة
+ * التوقيع: HMAC-SHA256 على "<timestamp>.<body>" بمفتاح signingSecret
+ */
+export const NOTIFY_RUNTIME = `// تنبيهات نتيجة المهمة - webhook موقَّع أو Slack أو Discord
+const resolveNotifyValue = (value) => String(value || '').replace(
+  /\\{\\{\\s*secrets\\.([A-Za-z_$][\\w$]*)\\s*\\}\\}/g,
+  (_, name) => process.env['SECRET_' + name] || ''
+);
+const NOTIFY_TITLES = {
+  failure: '❌ فشلت المهمة',
+  success: '✅ نجحت المهمة',
+  dataChange: '🔍 تغيّرت بيانات المهمة',
+  threshold: '⚠️ تجاوز الحد في المهمة',
+};
+const formatNotifyMessage = (payload, style) => {
+  const bold = (text) => style === 'discord' ? '**' + text + '**' : '*' + text + '*';
+  const lines = [NOTIFY_TITLES[payload.event] + ' ' + bold(payload.task.name)];
+  if (payload.error) lines.push('الخطأ: ' + payload.error);
+  if (payload.diff) {
+    const diff = payload.diff;
+    lines.push('➕ ' + diff.added + '  ➖ ' + diff.removed + '  ✏️ ' + diff.changed + (diff.thresholdCrossed ? '  ⚠️ ' + diff.thresholdCrossed + ' تجاوز الحد' : ''));
+  }
+  if (payload.run.url) {
+    lines.push(style === 'discord' ? '[عرض التشغيل](' + payload.run.url + ')' : '<' + payload.run.url + '|عرض التشغيل>');
+  }
+  return lines.join('\\n');
+};
+const sendNotifications = async (rules, events, details) => {
+  const { createHmac } = await import('crypto');
+  const env = process.env;
+  const run = {
+    id: env.GITHUB_RUN_ID || null,
+    number: env.GITHUB_RUN_NUMBER || null,
+    url: env.GITHUB_RUN_ID ? (env.GITHUB_SERVER_URL || 'https://github.com') + '/' + env.GITHUB_REPOSITORY + '/actions/runs/' + env.GITHUB_RUN_ID : null,
+  };
+  for (const rule of rules) {
+    const event = events.find(item => rule.events.includes(item));
+    if (!event) continue;
+    const url = resolveNotifyValue(rule.channel.url);
+    if (!url) {
+      console.warn('⚠️ رابط التنبيه فارغ - تحقق من السر في الخزنة');
+      continue;
+    }
+    const payload = { event, ...details, run, timestamp: new Date().toISOString() };
+    const headers = { 'Content-Type': 'application/json' };
+    let body;
+    if (rule.channel.type === 'slack') {
+      body = JSON.stringify({ text: formatNotifyMessage(payload, 'slack') });
+    } else if (rule.channel.type === 'discord') {
+      body = JSON.stringify({ content: formatNotifyMessage(payload, 'discord').slice(0, 2000) });
+    } else {
+      body = JSON.stringify(payload);
+      const secret = resolveNotifyValue(rule.channel.signingSecret);
+      if (secret) {
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        headers['${TIMESTAMP_HEADER}'] = timestamp;
+        headers['${SIGNATURE_HEADER}'] = 'sha256=' + createHmac('sha256', secret).update(timestamp + '.' + body).digest('hex');
+      }
+    }
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(10000) });
+      if (!response.ok) throw new Error('HTTP ' + response.status);
+      console.log('🔔 تم إرسال تنبيه', event, 'عبر', rule.channel.type);
+    } catch (error) {
+      // فشل التنبيه لا يغيّر نتيجة المهمة
+      console.warn('⚠️ فشل إرسال التنبيه عبر', rule.channel.type + ':', error.message);
+    }
+  }
+};`;
+
+/**
+ * قواعد السكريبت كـ literal - فقط ما يحتاجه وقت التشغيل
+ */
+export function compileNotificationRules(rules: NotificationRule[]): string {
+  return JSON.stringify(rules.map(({ events, channel }) => ({ events, channel })), null, 2);
+}
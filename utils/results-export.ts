@@ -0,0 +1,202 @@
+/**
+ * تصدير نتائج التشغيل - يقرأ JSON من ملفات results/ داخل artifacts (ZIP)
+ * ويحوّل السجلات المستخرجة إلى صفوف مسطحة ثم إلى CSV / TSV / NDJSON
+ * كل شيء يتم في المتصفح - لا حاجة لخادم
+ */
+
+import JSZip from 'jszip';
+import { isDiffArtifact } from './data-diff';
+
+export type ExportFormat = 'csv' | 'excel-csv' | 'tsv' | 'ndjson';
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+// مصدر بيانات للتصدير - تشغيل واحد قد يحتوي عدة artifacts
+export type ExportSource = {
+  id: string;
+  label: string;
+  load: () => Promise<Blob[]>;
+};
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { id: 'excel-csv', label: 'CSV متوافق مع Excel', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { id: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8' },
+  { id: 'ndjson', label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+];
+
+// أعمدة المصدر التي تُضاف لكل صف عند دمج أكثر من تشغيل
+export const RUN_COLUMN = '_run';
+export const FILE_COLUMN = '_file';
+
+const DATA_FILE_PATTERN = /-data-\d+\.json$/;
+
+/**
+ * استخراج السجلات من أي شكل نتائج معروف:
+ * - ملف النتائج الكامل { status, data: taskResult }
+ * - نتيجة المخطط { success, results: [{ stepId, data, errors }] }
+ * - مصفوفة سجلات مباشرة (ملف -data- أو extracted-data.json)
+ */
+export function extractRecords(value: any): Record<string, any>[] {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(item => item && typeof item === 'object' && 'stepId' in item && 'data' in item)) {
+      return value.flatMap(item => extractRecords(item.data));
+    }
+    return value.map(item => (item && typeof item === 'object' && !Array.isArray(item) ? item : { value: item }));
+  }
+
+  if (value && typeof value === 'object') {
+    // ملف نتائج تشغيل فاشل لا يحتوي سجلات
+    if (value.status === 'failed' && !('data' in value)) return [];
+    if (Array.isArray(value.results)) return extractRecords(value.results);
+    if ('data' in value) return value.data == null ? [] : extractRecords(value.data);
+    return [value];
+  }
+
+  return value == null ? [] : [{ value }];
+}
+
+/**
+ * تسطيح سجل متداخل إلى أعمدة بنقاط: { price: { amount } } ← price.amount
+ * المصفوفات البسيطة تُدمج بـ "; " والمصفوفات المعقدة تُحفظ كـ JSON
+ */
+export function flattenRecord(record: Record<string, any>, prefix: string = '', row: ExportRow = {}): ExportRow {
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+
+    if (value == null) {
+      row[column] = null;
+    } else if (Array.isArray(value)) {
+      row[column] = value.every(item => item == null || typeof item !== 'object')
+        ? value.join('; ')
+        : JSON.stringify(value);
+    } else if (typeof value === 'object') {
+      flattenRecord(value, column, row);
+    } else {
+      row[column] = value as string | number | boolean;
+    }
+  }
+  return row;
+}
+
+/**
+ * هل يحتمل أن يحتوي artifact على بيانات؟ السجلات والصور ومتغيرات التشغيل وملفات الفرق لا تُحمَّل للتصدير
+ */
+export function isExportableArtifact(name: string): boolean {
+  return !name.startsWith('logs-') && !/\.(png|jpe?g|webp)$/i.test(name) && name !== 'variables.json' && !isDiffArtifact(name);
+}
+
+/**
+ * قراءة كل سجلات artifact (ZIP) - ملفات -data- لها الأولوية لأن ملف النتائج
+ * الكامل يحتوي نفس السجلات مرة أخرى
+ */
+export async function readArtifactRows(blob: Blob): Promise<ExportRow[]> {
+  const zip = await JSZip.loadAsync(blob);
+  const jsonFiles = Object.values(zip.files).filter(
+    entry => !entry.dir && entry.name.endsWith('.json') && !entry.name.startsWith('screenshots/') && !entry.name.startsWith('reports/') && !entry.name.startsWith('selector-outcomes/')
+  );
+  const dataFiles = jsonFiles.filter(entry => DATA_FILE_PATTERN.test(entry.name));
+  const files = dataFiles.length > 0 ? dataFiles : jsonFiles;
+
+  const rows: ExportRow[] = [];
+  for (const entry of files) {
+    try {
+      const json = JSON.parse(await entry.async('string'));
+      const fileName = entry.name.split('/').pop() || entry.name;
+      extractRecords(json).forEach(record => {
+        rows.push({ ...flattenRecord(record), [FILE_COLUMN]: fileName });
+      });
+    } catch {
+      // ملف JSON تالف - تجاهله وأكمل بالباقي
+      console.warn(`⚠️ تعذر قراءة ${entry.name}`);
+    }
+  }
+  return rows;
+}
+
+/**
+ * تحميل ودمج صفوف عدة تشغيلات - كل صف يحمل رقم تشغيله في _run
+ */
+export async function loadExportRows(sources: ExportSource[]): Promise<ExportRow[]> {
+  const rows: ExportRow[] = [];
+  for (const source of sources) {
+    const blobs = await source.load();
+    for (const blob of blobs) {
+      const artifactRows = await readArtifactRows(blob);
+      artifactRows.forEach(row => rows.push({ [RUN_COLUMN]: source.label, ...row }));
+    }
+  }
+  return rows;
+}
+
+/**
+ * كل الأعمدة بترتيب ظهورها الأول - أعمدة المصدر في البداية
+ */
+export function collectColumns(rows: ExportRow[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+  const meta = [RUN_COLUMN, FILE_COLUMN].filter(column => columns.has(column));
+  return [...meta, ...Array.from(columns).filter(column => !meta.includes(column))];
+}
+
+/**
+ * إزالة الصفوف المتطابقة في الأعمدة المختارة (بدون أعمدة المصدر)
+ */
+export function dedupeRows(rows: ExportRow[], columns: string[]): ExportRow[] {
+  const keyColumns = columns.filter(column => column !== RUN_COLUMN && column !== FILE_COLUMN);
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    const key = JSON.stringify(keyColumns.map(column => row[column] ?? null));
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function formatCell(value: ExportRow[string], delimiter: string, guardFormulas: boolean): string {
+  if (value == null) return '';
+  let text = String(value);
+
+  // Excel ينفذ الخلايا التي تبدأ بـ = + - @ كمعادلات
+  if (guardFormulas && /^[=+\-@]/.test(text) && typeof value !== 'number') {
+    text = `'${text}`;
+  }
+
+  if (delimiter === '\t') {
+    return text.replace(/[\t\r\n]+/g, ' ');
+  }
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * تحويل الصفوف إلى نص بالصيغة المطلوبة - الأعمدة غير المختارة تُحذف
+ */
+export function formatRows(rows: ExportRow[], columns: string[], format: ExportFormat): string {
+  if (format === 'ndjson') {
+    return rows
+      .map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))))
+      .join('\n') + (rows.length > 0 ? '\n' : '');
+  }
+
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  const excel = format === 'excel-csv';
+  const newline = excel ? '\r\n' : '\n';
+  const lines = [
+    columns.map(column => formatCell(column, delimiter, excel)).join(delimiter),
+    ...rows.map(row => columns.map(column => formatCell(row[column], delimiter, excel)).join(delimiter)),
+  ];
+
+  // BOM ليقرأ Excel النصوص العربية كـ UTF-8
+  return (excel ? '\uFEFF' : '') + lines.join(newline) + newline;
+}
+
+export function createExportBlob(rows: ExportRow[], columns: string[], format: ExportFormat): Blob {
+  const { mimeType } = EXPORT_FORMATS.find(item => item.id === format)!;
+  return new Blob([formatRows(rows, columns, format)], { type: mimeType });
+}
+
+export function getExportFileName(baseName: string, format: ExportFormat): string {
+  const { extension } = EXPORT_FORMATS.find(item => item.id === format)!;
+  const safeName = baseName.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'results';
+  return `${safeName}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * اختبارات golden لتحليلات سجل التشغيلات
+ * Run History Golden Tests
+ *
+ * تثبّت تصنيف الاستقرار (خصوصاً طول الفشل المتتالي الذي يجعل المهمة معطلة)،
+ * مؤشر التذبذب، والمئين بالاستيفاء.
+ */
+
+import type { RunRecord, RunStability } from './run-history';
+import { classifyStability, getFlakinessScore, percentile } from './run-history';
+import type { GoldenCheck, GoldenResult } from './golden';
+import { runGoldenCases, goldenDiff } from './golden';
+
+type Outcome = RunRecord['status'];
+
+const S: Outcome = 'success';
+const F: Outcome = 'failed';
+
+export const RUN_STABILITY_GOLDEN_CASES: Array<{ name: string; outcomes: Outcome[]; expected: RunStability }> = [
+  { name: 'تشغيلات أقل من الحد', outcomes: [F, F, F], expected: 'insufficient' },
+  { name: 'بدون فشل', outcomes: [S, S, S, S, S], expected: 'stable' },
+  { name: 'فشل واحد في آخر تشغيل', outcomes: [S, S, S, S, F], expected: 'flaky' },
+  { name: 'فشلان متتاليان في النهاية', outcomes: [S, S, S, F, F], expected: 'flaky' },
+  { name: 'ثلاثة فشل متتالية في النهاية', outcomes: [S, S, F, F, F], expected: 'broken' },
+  { name: 'فشل متكتل انتهى بالتعافي', outcomes: [F, F, S, S, S], expected: 'stable' },
+  { name: 'فشل متقطع', outcomes: [S, F, S, F, S], expected: 'flaky' },
+];
+
+export const FLAKINESS_GOLDEN_CASES: Array<{ outcomes: Outcome[]; expected: number }> = [
+  { outcomes: [S, S, S], expected: 0 },
+  { outcomes: [S, F, S], expected: 1 },
+  { outcomes: [S, S, F], expected: 0 },
+  { outcomes: [F, F, S, F], expected: 0.5 },
+  { outcomes: [S, F, F, F], expected: 0 },
+];
+
+export const PERCENTILE_GOLDEN_CASES: Array<{ values: number[]; p: number; expected: number | null }> = [
+  { values: [], p: 50, expected: null },
+  { values: [7], p: 95, expected: 7 },
+  { values: [4, 1, 3, 2], p: 50, expected: 2.5 },
+  { values: [1, 2, 3, 4], p: 95, expected: 3.85 },
+  { values: [10, 20, 30], p: 0, expected: 10 },
+  { values: [10, 20, 30], p: 100, expected: 30 },
+];
+
+function sameNumber(actual: number | null, expected: number | null): boolean {
+  if (actual === null || expected === null) return actual === expected;
+  return Math.abs(actual - expected) < 1e-9;
+}
+
+function numberDiff(expected: number | null, actual: number | null): string | null {
+  return sameNumber(actual, expected) ? null : goldenDiff(expected, actual);
+}
+
+/**
+ * تشغيل جميع الحالات - يرمي خطأ عند أي اختلاف
+ */
+export function runRunHistoryGoldenTests(): Promise<GoldenResult> {
+  return runGoldenCases('Run history golden', [
+    ...RUN_STABILITY_GOLDEN_CASES.map(({ name, outcomes, expected }): GoldenCheck => ({
+      name: `stability: ${name} [${outcomes.join(', ')}]`,
+      run: () => goldenDiff(expected, classifyStability(outcomes, getFlakinessScore(outcomes))),
+    })),
+    ...FLAKINESS_GOLDEN_CASES.map(({ outcomes, expected }): GoldenCheck => ({
+      name: `flakiness [${outcomes.join(', ')}]`,
+      run: () => numberDiff(expected, getFlakinessScore(outcomes)),
+    })),
+    ...PERCENTILE_GOLDEN_CASES.map(({ values, p, expected }): GoldenCheck => ({
+      name: `p${p} [${values.join(', ')}]`,
+      run: () => numberDiff(expected, percentile(values, p)),
+    })),
+  ]);
+}
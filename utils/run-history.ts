@@ -0,0 +1,235 @@
+/**
+ * سجل التشغيلات وتحليلاته - يحوّل ExecutionLog (المحلي و execution_logs) إلى سجلات موحدة
+ * ويحسب لكل مهمة: نسبة النجاح عبر الزمن، p50/p95 للمدة، تجمعات الأخطاء حسب نوع
+ * SmartErrorAnalyzer، ومؤشر التذبذب الذي يفصل الفشل المتقطع عن العطل الثابت
+ */
+
+import type { ExecutionLog } from '../types';
+import { SmartErrorAnalyzer, ErrorAnalysis } from './error-handler';
+
+export type RunRecord = {
+  id: string;
+  taskId: string;
+  taskName: string;
+  status: 'success' | 'failed';
+  startedAt: Date;
+  duration?: number; // بالثواني كما في ExecutionLog
+  error?: string;
+};
+
+export type RunStability = 'stable' | 'flaky' | 'broken' | 'insufficient';
+
+export type TaskRunStats = {
+  taskId: string;
+  taskName: string;
+  runs: number;
+  failures: number;
+  successRate: number; // 0-1
+  p50Duration: number | null;
+  p95Duration: number | null;
+  flakiness: number; // 0-1 - انظر getFlakinessScore
+  failureStreak: number; // عدد الفشل المتتالي حتى آخر تشغيل
+  stability: RunStability;
+  lastRun: Date;
+};
+
+export type SuccessTrendPoint = {
+  date: string; // YYYY-MM-DD
+  runs: number;
+  failures: number;
+  successRate: number;
+};
+
+export type FailureCluster = {
+  type: ErrorAnalysis['type'];
+  severity: ErrorAnalysis['severity'];
+  message: string; // وصف SmartErrorAnalyzer للنوع
+  count: number;
+  taskIds: string[];
+  sampleError: string;
+  lastSeen: Date;
+};
+
+// أقل عدد تشغيلات للحكم على استقرار مهمة
+export const MIN_RUNS_FOR_STABILITY = 5;
+// فشل متتالٍ بهذا الطول في آخر التشغيلات = عطل ثابت وليس تذبذباً
+export const BROKEN_STREAK = 3;
+const FLAKY_THRESHOLD = 0.5;
+
+/**
+ * سجل ExecutionLog أو صف execution_logs - السجلات الجارية تُهمل
+ */
+export function toRunRecord(log: ExecutionLog | any): RunRecord | null {
+  if (log.status !== 'success' && log.status !== 'failed') return null;
+
+  const lines: string[] = Array.isArray(log.logs) ? log.logs : [];
+  const errorLine = log.status === 'failed'
+    ? [...lines].reverse().find(line => /خطأ|❌|error/i.test(line)) || lines[lines.length - 1]
+    : undefined;
+
+  return {
+    id: String(log.id),
+    taskId: log.taskId ?? log.task_id,
+    taskName: log.taskName ?? log.task_name,
+    status: log.status,
+    startedAt: new Date(log.startTime ?? log.start_time),
+    duration: typeof log.duration === 'number' ? log.duration : undefined,
+    error: errorLine?.replace(/^(❌\s*)?(خطأ:\s*)?/, ''),
+  };
+}
+
+/**
+ * دمج السجلات المحلية وسجلات قاعدة البيانات بدون تكرار - مرتبة من الأقدم
+ */
+export function buildRunHistory(...sources: Array<Array<ExecutionLog | any>>): RunRecord[] {
+  const records = new Map<string, RunRecord>();
+  sources.flat().forEach(log => {
+    const record = toRunRecord(log);
+    if (!record || Number.isNaN(record.startedAt.getTime())) return;
+    // نفس التشغيل محفوظ محلياً وفي القاعدة بمعرفين مختلفين
+    records.set(`${record.taskId}:${record.startedAt.getTime()}`, record);
+  });
+  return Array.from(records.values()).sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
+
+/**
+ * المئين بالاستيفاء الخطي بين أقرب قيمتين
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * مؤشر التذبذب: مدى تفرق الفشل بين التشغيلات = (عدد كتل الفشل - 1) / (عدد الفشل - 1)
+ * 1 = كل فشل منفرد بين نجاحين (متقطع)، 0 = الفشل كتلة واحدة متصلة (عطل ثابت بدأ عند تغيير ما)
+ * فشل واحد تلاه نجاح يُعد متقطعاً - فشل واحد في آخر تشغيل لا يمكن الحكم عليه بعد
+ */
+export function getFlakinessScore(outcomes: Array<RunRecord['status']>): number {
+  const failures = outcomes.filter(status => status === 'failed').length;
+  if (failures === 0) return 0;
+  if (failures === 1) return outcomes[outcomes.length - 1] === 'success' ? 1 : 0;
+
+  let blocks = 0;
+  outcomes.forEach((status, i) => {
+    if (status === 'failed' && outcomes[i - 1] !== 'failed') blocks++;
+  });
+  return (blocks - 1) / (failures - 1);
+}
+
+function getFailureStreak(outcomes: Array<RunRecord['status']>): number {
+  let streak = 0;
+  for (let i = outcomes.length - 1; i >= 0 && outcomes[i] === 'failed'; i--) streak++;
+  return streak;
+}
+
+export function classifyStability(outcomes: Array<RunRecord['status']>, flakiness: number): RunStability {
+  if (outcomes.length < MIN_RUNS_FOR_STABILITY) return 'insufficient';
+  const streak = getFailureStreak(outcomes);
+  if (streak >= BROKEN_STREAK) return 'broken';
+  if (!outcomes.includes('failed')) return 'stable';
+  if (flakiness >= FLAKY_THRESHOLD) return 'flaky';
+  // فشل متكتل انتهى = المهمة تعافت، وما زال مستمراً أقصر من BROKEN_STREAK = لم يثبت أنه عطل بعد
+  return streak > 0 ? 'flaky' : 'stable';
+}
+
+export function getTaskRunStats(records: RunRecord[]): TaskRunStats[] {
+  const byTask = new Map<string, RunRecord[]>();
+  records.forEach(record => byTask.set(record.taskId, [...(byTask.get(record.taskId) || []), record]));
+
+  return Array.from(byTask.values()).map(taskRecords => {
+    const outcomes = taskRecords.map(record => record.status);
+    const failures = outcomes.filter(status => status === 'failed').length;
+    const durations = taskRecords
+      .filter(record => record.status === 'success' && record.duration !== undefined)
+      .map(record => record.duration!);
+    const flakiness = getFlakinessScore(outcomes);
+    const last = taskRecords[taskRecords.length - 1];
+
+    return {
+      taskId: last.taskId,
+      taskName: last.taskName,
+      runs: taskRecords.length,
+      failures,
+      successRate: (taskRecords.length - failures) / taskRecords.length,
+      p50Duration: percentile(durations, 50),
+      p95Duration: percentile(durations, 95),
+      flakiness,
+      failureStreak: getFailureStreak(outcomes),
+      stability: classifyStability(outcomes, flakiness),
+      lastRun: last.startedAt,
+    };
+  });
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * نسبة النجاح لكل يوم في آخر days يوماً - الأيام بدون تشغيل تُعاد بـ runs = 0
+ */
+export function getSuccessTrend(records: RunRecord[], days: number = 30, now: Date = new Date()): SuccessTrendPoint[] {
+  const points = new Map<string, SuccessTrendPoint>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = toDateKey(new Date(now.getTime() - offset * 86_400_000));
+    points.set(date, { date, runs: 0, failures: 0, successRate: 0 });
+  }
+
+  records.forEach(record => {
+    const point = points.get(toDateKey(record.startedAt));
+    if (!point) return;
+    point.runs++;
+    if (record.status === 'failed') point.failures++;
+  });
+
+  return Array.from(points.values()).map(point => ({
+    ...point,
+    successRate: point.runs > 0 ? (point.runs - point.failures) / point.runs : 0,
+  }));
+}
+
+/**
+ * تجميع الأخطاء حسب النوع الذي يحدده SmartErrorAnalyzer - الأكثر تكراراً أولاً
+ */
+export function getFailureClusters(records: RunRecord[]): FailureCluster[] {
+  const clusters = new Map<string, FailureCluster>();
+
+  records
+    .filter(record => record.status === 'failed')
+    .forEach(record => {
+      const error = record.error || 'خطأ غير معروف';
+      const analysis = SmartErrorAnalyzer.analyze(new Error(error), {
+        task: { id: record.taskId, name: record.taskName },
+        action: 'run',
+        logs: [],
+        timestamp: record.startedAt,
+      });
+
+      const cluster = clusters.get(analysis.type);
+      if (cluster) {
+        cluster.count++;
+        if (!cluster.taskIds.includes(record.taskId)) cluster.taskIds.push(record.taskId);
+        if (record.startedAt > cluster.lastSeen) {
+          cluster.lastSeen = record.startedAt;
+          cluster.sampleError = error;
+        }
+      } else {
+        clusters.set(analysis.type, {
+          type: analysis.type,
+          severity: analysis.severity,
+          message: analysis.message,
+          count: 1,
+          taskIds: [record.taskId],
+          sampleError: error,
+          lastSeen: record.startedAt,
+        });
+      }
+    });
+
+  return Array.from(clusters.values()).sort((a, b) => b.count - a.count);
+}
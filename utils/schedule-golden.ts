@@ -0,0 +1,131 @@
+/**
+ * اختبارات golden لمحلل cron والجدولة
+ * Schedule Golden Tests
+ *
+ * المحلل نفسه يشغّل المهام على الخادم ويولّد on.schedule في workflows،
+ * فكل حالة تثبّت موعد التشغيل التالي أو cron الناتج حرفياً من لحظة ثابتة بتوقيت UTC.
+ */
+
+import type { TaskSchedule } from './schedule';
+import { CronParseError, getNextCronRun, compileScheduleCron, getNextScheduleRun } from './schedule';
+import type { GoldenCheck, GoldenResult } from './golden';
+import { runGoldenCases, goldenDiff } from './golden';
+
+// الخميس 15 يناير 2026
+const FROM = new Date('2026-01-15T10:30:20Z');
+
+export const CRON_NEXT_RUN_GOLDEN_CASES: Array<{ expression: string; expected: string | null }> = [
+  { expression: '*/15 * * * *', expected: '2026-01-15T10:45:00.000Z' },
+  { expression: '0 * * * *', expected: '2026-01-15T11:00:00.000Z' },
+  { expression: '@daily', expected: '2026-01-16T00:00:00.000Z' },
+  { expression: '30 9 * * mon-fri', expected: '2026-01-16T09:30:00.000Z' },
+  { expression: '0 0 * * 7', expected: '2026-01-18T00:00:00.000Z' },
+  // يوم الشهر ويوم الأسبوع مقيدان معاً: يكفي أحدهما (أول الشهر أو الاثنين)
+  { expression: '0 12 1 * 1', expected: '2026-01-19T12:00:00.000Z' },
+  { expression: '0 0 1 jan *', expected: '2027-01-01T00:00:00.000Z' },
+  { expression: '0 0 30 2 *', expected: null },
+];
+
+export const CRON_INVALID_GOLDEN_CASES = ['60 * * * *', '* * *', '5-1 * * * *', '*/0 * * * *', 'foo * * * *'];
+
+export const SCHEDULE_CRON_GOLDEN_CASES: Array<{
+  name: string;
+  type: TaskSchedule['type'];
+  config: TaskSchedule['config'];
+  timezoneOffset: number;
+  expected: string | undefined;
+}> = [
+  { name: 'كل 15 دقيقة', type: 'interval', config: { interval: 15 }, timezoneOffset: 0, expected: '*/15 * * * *' },
+  { name: 'كل ساعة', type: 'interval', config: { interval: 60 }, timezoneOffset: 0, expected: '0 * * * *' },
+  { name: 'كل ساعتين', type: 'interval', config: { interval: 120 }, timezoneOffset: 0, expected: '0 */2 * * *' },
+  { name: 'كل 45 دقيقة - لا يعبّر عنها cron', type: 'interval', config: { interval: 45 }, timezoneOffset: 0, expected: undefined },
+  { name: 'يومياً بتوقيت UTC+3', type: 'daily', config: { time: '09:30' }, timezoneOffset: -180, expected: '30 6 * * *' },
+  {
+    name: 'أسبوعياً يعبر منتصف الليل إلى اليوم السابق',
+    type: 'weekly',
+    config: { time: '01:00', daysOfWeek: [0, 3] },
+    timezoneOffset: -180,
+    expected: '0 22 * * 2,6',
+  },
+  { name: 'اختصار cron', type: 'cron', config: { cron: '@weekly' }, timezoneOffset: 0, expected: '0 0 * * 0' },
+  { name: 'مرة واحدة', type: 'once', config: { date: '2026-01-20', time: '08:00' }, timezoneOffset: 0, expected: undefined },
+];
+
+function goldenSchedule(overrides: Partial<TaskSchedule>): TaskSchedule {
+  return {
+    enabled: true,
+    type: 'interval',
+    config: {},
+    parallelInstances: 1,
+    maxRetries: 3,
+    runCount: 0,
+    status: 'active',
+    ...overrides,
+  };
+}
+
+// once بالتوقيت المحلي - المتوقع يُحسب بنفس المنطقة الزمنية التي يعمل فيها الاختبار
+const ONCE_RUN_AT = new Date('2026-01-20T08:00');
+
+export const SCHEDULE_NEXT_RUN_GOLDEN_CASES: Array<{ name: string; schedule: TaskSchedule; expected: Date | null }> = [
+  {
+    name: 'cron',
+    schedule: goldenSchedule({ type: 'daily', config: { time: '09:30' }, cron: '30 6 * * *' }),
+    expected: new Date('2026-01-16T06:30:00Z'),
+  },
+  {
+    name: 'فترة غير منتظمة تُضاف للحظة الحالية',
+    schedule: goldenSchedule({ config: { interval: 45 } }),
+    expected: new Date(FROM.getTime() + 45 * 60000),
+  },
+  {
+    name: 'مرة واحدة قادمة',
+    schedule: goldenSchedule({ type: 'once', config: { date: '2026-01-20', time: '08:00' } }),
+    expected: ONCE_RUN_AT,
+  },
+  {
+    name: 'مرة واحدة نُفذت',
+    schedule: goldenSchedule({ type: 'once', config: { date: '2026-01-20', time: '08:00' }, lastRun: ONCE_RUN_AT.toISOString() }),
+    expected: null,
+  },
+  {
+    name: 'مرة واحدة فات موعدها',
+    schedule: goldenSchedule({ type: 'once', config: { date: '2026-01-10', time: '08:00' } }),
+    expected: null,
+  },
+];
+
+function toIso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/**
+ * تشغيل جميع الحالات - يرمي خطأ عند أي اختلاف
+ */
+export function runScheduleGoldenTests(): Promise<GoldenResult> {
+  return runGoldenCases('Schedule golden', [
+    ...CRON_NEXT_RUN_GOLDEN_CASES.map(({ expression, expected }): GoldenCheck => ({
+      name: `next run "${expression}"`,
+      run: () => goldenDiff(expected, toIso(getNextCronRun(expression, FROM))),
+    })),
+    ...CRON_INVALID_GOLDEN_CASES.map((expression): GoldenCheck => ({
+      name: `"${expression}"`,
+      run: () => {
+        try {
+          getNextCronRun(expression, FROM);
+          return 'يجب أن يرمي CronParseError';
+        } catch (error) {
+          if (!(error instanceof CronParseError)) return `خطأ غير متوقع - ${error}`;
+        }
+      },
+    })),
+    ...SCHEDULE_CRON_GOLDEN_CASES.map(({ name, type, config, timezoneOffset, expected }): GoldenCheck => ({
+      name: `schedule cron: ${name}`,
+      run: () => goldenDiff(String(expected), String(compileScheduleCron(type, config, timezoneOffset))),
+    })),
+    ...SCHEDULE_NEXT_RUN_GOLDEN_CASES.map(({ name, schedule, expected }): GoldenCheck => ({
+      name: `schedule next run: ${name}`,
+      run: () => goldenDiff(toIso(expected), toIso(getNextScheduleRun(schedule, FROM))),
+    })),
+  ]);
+}
@@ -0,0 +1,6 @@
+/**
+ * جدولة المهام - المحلل نفسه الذي تستخدمه دالة الخادم
+ * الأصل في supabase/functions/_shared لأن دوال Supabase لا تُنشر بملفات من خارج supabase/functions
+ */
+
+export * from '../supabase/functions/_shared/schedule';
@@ -0,0 +1,125 @@
+/**
+ * خزنة أسرار المهام - قيم مشفرة في GitHub Secrets تُشار إليها في الخطوات بـ {{secrets.NAME}}
+ * - القيم لا تُخزَّن في التطبيق: تُشفَّر بـ sealed box بمفتاح المستودع العام ثم تُرفع
+ * - كل سر يُحفظ في GitHub باسم SECRET_<NAME> ويصل للسكريبت كمتغير بيئة بنفس الاسم
+ * - workflow كل مهمة يمرر فقط الأسرار المذكورة في خطواتها
+ */
+
+import sodium from 'libsodium-wrappers';
+import type { GitHubAPI } from './github';
+import { SMTP_SECRET_NAMES, getEmailNotificationRules } from './notifications';
+import { readTaskStepGraph } from './step-graph';
+
+// أسماء GitHub Secrets: حروف وأرقام و _ ولا تبدأ برقم - نلزم الحروف الكبيرة لأن GitHub لا يميز الحالة
+export const SECRET_NAME_SOURCE = '[A-Z_][A-Z0-9_]*';
+export const SECRET_NAME_PATTERN = new RegExp(`^${SECRET_NAME_SOURCE}$`);
+export const SECRET_ENV_PREFIX = 'SECRET_';
+const SECRET_REFERENCE_PATTERN = new RegExp(`\\{\\{\\s*secrets\\.(${SECRET_NAME_SOURCE})\\s*\\}\\}`, 'g');
+// السكريبت المولّد لا يحتوي {{secrets.NAME}} بل استدعاءات readSecret('NAME')
+const SECRET_CALL_PATTERN = new RegExp(`\\breadSecret\\('(${SECRET_NAME_SOURCE})'\\)`, 'g');
+
+export type VaultSecret = {
+  name: string; // الاسم كما يُكتب في {{secrets.NAME}}
+  createdAt: string;
+  updatedAt: string;
+};
+
+export class SecretNameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretNameError';
+  }
+}
+
+export function validateSecretName(name: string): void {
+  if (!name) {
+    throw new SecretNameError('اسم السر مطلوب');
+  }
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new SecretNameError('اسم السر يقبل الحروف الإنجليزية الكبيرة والأرقام و _ فقط، ولا يبدأ برقم');
+  }
+  if (toGitHubSecretName(name).length > 255) {
+    throw new SecretNameError('اسم السر طويل جداً');
+  }
+}
+
+// اسم السر في GitHub وفي بيئة التشغيل - البادئة تمنع التعارض مع STEALTH_CONFIG وغيره
+export function toGitHubSecretName(name: string): string {
+  return `${SECRET_ENV_PREFIX}${name}`;
+}
+
+export function fromGitHubSecretName(githubName: string): string | null {
+  return githubName.startsWith(SECRET_ENV_PREFIX) ? githubName.slice(SECRET_ENV_PREFIX.length) : null;
+}
+
+/**
+ * أسماء الأسرار المذكورة في أي نص داخل القيمة (خطوات، metadata) - مرتبة وبدون تكرار
+ */
+export function findSecretReferences(value: unknown): string[] {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  const names = new Set<string>();
+  for (const match of text.matchAll(SECRET_REFERENCE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * الأسرار التي تقرؤها المهمة فعلاً: من مخطط الخطوات و metadata والرابط،
+ * ومن السكريبت استدعاءات readSecret فقط - تعليقاته ونصوصه ليست مراجع
+ */
+export function getTaskSecretNames(task: any): string[] {
+  const names = new Set(findSecretReferences([task.targetUrl, readTaskStepGraph(task), task.metadata]));
+  if (typeof task.script === 'string') {
+    for (const match of task.script.matchAll(SECRET_CALL_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * تشفير قيمة بمفتاح المستودع العام (base64) كما يطلب GitHub Secrets API
+ */
+export async function encryptSecretValue(value: string, publicKey: string): Promise<string> {
+  await sodium.ready;
+  const key = sodium.from_base64(publicKey, sodium.base64_variants.ORIGINAL);
+  const sealed = sodium.crypto_box_seal(sodium.from_string(value), key);
+  return sodium.to_base64(sealed, sodium.base64_variants.ORIGINAL);
+}
+
+/**
+ * أسرار الخزنة في المستودع - Secrets الأخرى (STEALTH_CONFIG وغيرها) لا تظهر
+ */
+export async function listVaultSecrets(api: GitHubAPI): Promise<VaultSecret[]> {
+  const secrets = await api.listSecrets();
+  return secrets.flatMap(secret => {
+    const name = fromGitHubSecretName(secret.name);
+    return name ? [{ name, createdAt: secret.created_at, updatedAt: secret.updated_at }] : [];
+  });
+}
+
+export async function saveVaultSecret(api: GitHubAPI, name: string, value: string): Promise<void> {
+  validateSecretName(name);
+  if (!value) {
+    throw new Error('قيمة السر مطلوبة');
+  }
+  await api.createSecret(toGitHubSecretName(name), value);
+}
+
+export async function deleteVaultSecret(api: GitHubAPI, name: string): Promise<void> {
+  await api.deleteSecret(toGitHubSecretName(name));
+}
+
+// اسم السر ← أسماء المهام التي تذكره
+export function getSecretUsage(tasks: any[]): Map<string, string[]> {
+  const usage = new Map<string, string[]>();
+  tasks.forEach(task => {
+    // خطوة البريد في workflow تقرأ إعدادات SMTP من الخزنة مباشرة
+    const smtpNames = getEmailNotificationRules(task).length > 0 ? SMTP_SECRET_NAMES : [];
+    [...getTaskSecretNames(task), ...smtpNames].forEach(name => {
+      usage.set(name, [...(usage.get(name) || []), task.name]);
+    });
+  });
+  return usage;
+}
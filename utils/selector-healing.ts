@@ -0,0 +1,174 @@
+/**
+ * المعالجة الذاتية للمحددات - كل خطوة مسجلة أو منتقاة تحفظ بصمة عنصرها (ElementSignature)
+ * السكريبت المنشور يرسل البصمة لـ healSelector بعد فشل كل المحددات، فيبحث في الصفحة المتغيرة
+ * عن أقرب عنصر ويكمل به، والمحدد المعالج يصل للتطبيق مع سجل المحددات كاقتراح تحديث للخطوة
+ */
+
+import type { StepNode, StepParams } from '../types';
+import { DESCRIBE_ELEMENT_SCRIPT } from './browser-recorder';
+import { readTaskStepGraph } from './step-graph';
+import { graphUsesSelectorHealing } from './step-codegen';
+
+export type HealedSelector = {
+  stepId: string;
+  failedSelectors: string[]; // المحدد الأساسي ثم البدائل التي فشلت
+  selector: string;
+  score: number; // 0-1 تطابق العنصر مع البصمة
+  timestamp: string;
+};
+
+export type HealingSuggestion = HealedSelector & {
+  taskId: string;
+  runId: string | null;
+};
+
+export const SELECTOR_HEALING_SCRIPT_PATH = 'scripts/selector-healing.js';
+
+// أقل تطابق مقبول مع البصمة - أقل منه تفشل الخطوة كما كانت
+const HEALING_THRESHOLD = 0.6;
+
+const HEALING_SUGGESTIONS_KEY = 'selector-healing-suggestions';
+
+export function taskUsesSelectorHealing(task: any): boolean {
+  const graph = readTaskStepGraph(task);
+  return !!graph && graphUsesSelectorHealing(graph);
+}
+
+/**
+ * ملف المعالجة المنشور بجانب stealth-helpers.js - يُستورد فقط في سكريبتات المهام ذات البصمات
+ */
+export function generateSelectorHealingScript(): string {
+  return `// معالجة المحددات المكسورة ذاتياً - selector-healing.js
+// تبحث في الصفحة عن أقرب عنصر لبصمة الخطوة (وسم، نص، خصائص، الأب) وتعيد محدداً فريداً له
+
+const HEALING_THRESHOLD = ${HEALING_THRESHOLD};
+
+// تُنفذ في الصفحة - Playwright يرسل نص الدالة فكل ما تحتاجه معرّف داخلها
+function findBestMatch({ signature, threshold }) {
+  const describeElement = ${DESCRIBE_ELEMENT_SCRIPT};
+
+  const normalize = (value) => (value || '').toLowerCase().replace(/\\s+/g, ' ').trim();
+  const textOf = (node) => (node.innerText || node.textContent || '').trim().replace(/\\s+/g, ' ').slice(0, 80);
+  const labelTextOf = (node) => {
+    const label = (node.id && document.querySelector('label[for="' + CSS.escape(node.id) + '"]')) || node.closest('label');
+    return label && label !== node ? textOf(label) : '';
+  };
+  const classesOf = (node) => Array.from(node.classList || []);
+  const overlap = (left, right) => {
+    const all = new Set([...left, ...right]);
+    if (all.size === 0) return 1;
+    return left.filter(item => right.includes(item)).length / all.size;
+  };
+  const textSimilarity = (expected, actual) => {
+    const a = normalize(expected);
+    const b = normalize(actual);
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    if (a.includes(b) || b.includes(a)) return 0.7;
+    return overlap(a.split(' '), b.split(' '));
+  };
+  const parentSimilarity = (expected, node) => {
+    if (!node) return 0;
+    const checks = [expected.tag === node.tagName.toLowerCase() ? 1 : 0];
+    if (expected.id) checks.push(expected.id === node.id ? 1 : 0);
+    if (expected.classes && expected.classes.length) checks.push(overlap(expected.classes, classesOf(node)));
+    if (expected.text) checks.push(textSimilarity(expected.text, textOf(node)));
+    return checks.reduce((sum, value) => sum + value, 0) / checks.length;
+  };
+
+  // وزن كل صفة - الصفات الغائبة عن البصمة لا تدخل في القسمة
+  const features = [];
+  const attributes = Object.entries(signature.attributes || {});
+  if (signature.id) features.push([0.2, el => (el.id === signature.id ? 1 : 0)]);
+  if (signature.text) features.push([0.25, el => textSimilarity(signature.text, textOf(el) || labelTextOf(el))]);
+  if (attributes.length) features.push([0.2, el => attributes.filter(([name, value]) => el.getAttribute(name) === value).length / attributes.length]);
+  if (signature.classes && signature.classes.length) features.push([0.1, el => overlap(signature.classes, classesOf(el))]);
+  if (signature.role) features.push([0.05, el => (el.getAttribute('role') === signature.role ? 1 : 0)]);
+  if (signature.ariaLabel) features.push([0.1, el => textSimilarity(signature.ariaLabel, el.getAttribute('aria-label'))]);
+  if (signature.parentSignature) features.push([0.1, el => parentSimilarity(signature.parentSignature, el.parentElement)]);
+  const total = features.reduce((sum, [weight]) => sum + weight, 0);
+  if (total === 0) return null;
+
+  const query = signature.tag + (signature.role ? ', [role="' + CSS.escape(signature.role) + '"]' : '');
+  const scored = Array.from(document.querySelectorAll(query))
+    .filter(el => el.getClientRects().length > 0)
+    .map(el => ({ el, score: features.reduce((sum, [weight, similarity]) => sum + weight * similarity(el), 0) / total }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, second] = scored;
+  if (!best || best.score < threshold) return null;
+  // عنصران بنفس التطابق تقريباً - التخمين هنا أخطر من فشل الخطوة
+  if (second && best.score - second.score < 0.05) return null;
+
+  const described = describeElement(best.el);
+  const [candidate] = described.candidates.sort((a, b) => b.score - a.score);
+  return {
+    selector: candidate ? candidate.selector : 'xpath=' + described.absolutePath,
+    score: Math.round(best.score * 100) / 100,
+  };
+}
+
+export async function healSelector(page, signature) {
+  if (!signature || !signature.tag) return null;
+  try {
+    return await page.evaluate(findBestMatch, { signature, threshold: HEALING_THRESHOLD });
+  } catch (error) {
+    console.warn('⚠️ تعذرت المعالجة الذاتية:', error.message);
+    return null;
+  }
+}
+`;
+}
+
+function loadAllSuggestions(): Record<string, HealingSuggestion[]> {
+  try {
+    return JSON.parse(localStorage.getItem(HEALING_SUGGESTIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveAllSuggestions(suggestions: Record<string, HealingSuggestion[]>): void {
+  localStorage.setItem(HEALING_SUGGESTIONS_KEY, JSON.stringify(suggestions));
+}
+
+export function loadHealingSuggestions(taskId: string): HealingSuggestion[] {
+  return loadAllSuggestions()[taskId] || [];
+}
+
+/**
+ * حفظ المحددات المعالجة من سجل تشغيل - اقتراح واحد لكل خطوة، الأحدث يحل محل الأقدم
+ */
+export function addHealingSuggestions(taskId: string, runId: string | null, healed: HealedSelector[]): number {
+  if (healed.length === 0) return 0;
+  const all = loadAllSuggestions();
+  const byStep = new Map((all[taskId] || []).map(suggestion => [suggestion.stepId, suggestion]));
+  for (const entry of healed) {
+    const existing = byStep.get(entry.stepId);
+    if (!existing || existing.timestamp <= entry.timestamp) {
+      byStep.set(entry.stepId, { ...entry, taskId, runId });
+    }
+  }
+  all[taskId] = Array.from(byStep.values());
+  saveAllSuggestions(all);
+  return healed.length;
+}
+
+export function dismissHealingSuggestion(taskId: string, stepId: string): void {
+  const all = loadAllSuggestions();
+  all[taskId] = (all[taskId] || []).filter(suggestion => suggestion.stepId !== stepId);
+  if (all[taskId].length === 0) delete all[taskId];
+  saveAllSuggestions(all);
+}
+
+/**
+ * تحديث الخطوة بالاقتراح: المحدد المعالج أساسي والمحدد القديم آخر البدائل لو عاد الموقع لشكله السابق
+ */
+export function applyHealingSuggestion(step: StepNode, suggestion: HealingSuggestion): Partial<StepNode> {
+  const previous = step.params.selector;
+  const fallbacks: StepParams[] = step.fallbacks.filter(fallback => fallback.selector !== suggestion.selector);
+  if (previous && previous !== suggestion.selector && !fallbacks.some(fallback => fallback.selector === previous)) {
+    fallbacks.push({ selector: previous });
+  }
+  return { params: { ...step.params, selector: suggestion.selector }, fallbacks };
+}
@@ -0,0 +1,217 @@
+/**
+ * سجل نتائج المحددات من التشغيلات الفعلية - يغلق حلقة التعلم
+ * السكريبت المنشور يسجل كل محاولة بمحدد (المحدد، النطاق، النجاح، المدة، رقم البديل)
+ * ويكتبها في selector-outcomes/ داخل artifact النتائج، ثم مهمة الاستيراد في الواجهة
+ * تحمّل الـ artifacts وتعيد تشغيل السجلات على محركات التعلم وجدول ai_experiences
+ */
+
+import JSZip from 'jszip';
+import type { GitHubAPI } from './github';
+import type { HealedSelector } from './selector-healing';
+import { readTaskStepGraph } from './step-graph';
+import { graphTracksSelectors } from './step-codegen';
+import { learningEngine } from './ai-brain/learning-engine';
+import { adaptiveWeightScorer, SelectorPerformanceData } from './ai-brain/adaptive-weight-scorer';
+import { mlSelectorPredictor } from './ai-brain/ml-selector-predictor';
+import { advancedSelectorIntelligence } from './ai-brain/advanced-selector-intelligence';
+import { databaseSync } from './ai-brain/database-sync';
+import { knowledgeStore } from './ai-brain/knowledge-store';
+import { addHealingSuggestions } from './selector-healing';
+
+export type SelectorOutcome = {
+  stepId: string;
+  stepType: string;
+  selector: string;
+  domain: string;
+  success: boolean;
+  duration: number; // ms
+  fallbackIndex: number | null; // null = المحدد الأساسي
+  error?: string;
+  timestamp: string;
+};
+
+export type SelectorOutcomeLog = {
+  taskId: string;
+  runId: string | null;
+  generatedAt: string;
+  outcomes: SelectorOutcome[];
+  healed?: HealedSelector[]; // محددات عالجها السكريبت ذاتياً - اقتراحات تحديث للخطوات
+};
+
+export type IngestionSummary = {
+  runs: number; // تشغيلات جديدة فُحصت
+  outcomes: number; // محاولات أُعيد تشغيلها على المحركات
+  failed: number; // تشغيلات تعذر تحميلها - تُعاد في الاستيراد التالي
+  healed: number; // اقتراحات تحديث محددات من المعالجة الذاتية
+};
+
+export const SELECTOR_OUTCOMES_DIR = 'selector-outcomes';
+
+// التشغيلات المستوردة لا تُستورد مرة أخرى - experience_id فريد في ai_experiences
+const INGESTED_RUNS_KEY = 'selector-outcomes-ingested-runs';
+const MAX_REMEMBERED_RUNS = 500;
+
+export function taskUsesSelectorOutcomes(task: any): boolean {
+  const graph = readTaskStepGraph(task);
+  return !!graph && graphTracksSelectors(graph);
+}
+
+/**
+ * وقت تشغيل كتابة السجل - يُضاف لسكريبت المهمة فقط إذا احتوى مخططها خطوات بمحددات
+ */
+export const SELECTOR_OUTCOMES_WRITER_RUNTIME = `// سجل المحددات في ${SELECTOR_OUTCOMES_DIR}/ - تستورده الواجهة لمحركات التعلم
+const writeSelectorOutcomes = async (task, outcomes, healed) => {
+  if ((!outcomes || outcomes.length === 0) && (!healed || healed.length === 0)) return;
+  const fs = await import('fs/promises');
+  await fs.mkdir('${SELECTOR_OUTCOMES_DIR}', { recursive: true });
+  const log = {
+    taskId: String(task.id),
+    runId: process.env.GITHUB_RUN_ID || null,
+    generatedAt: new Date().toISOString(),
+    outcomes: outcomes || [],
+    healed: healed || [],
+  };
+  const file = '${SELECTOR_OUTCOMES_DIR}/' + task.id + '-selectors.json';
+  await fs.writeFile(file, JSON.stringify(log, null, 2));
+  console.log('🎯 سجل المحددات:', outcomes.length, 'محاولة ←', file);
+};`;
+
+/**
+ * قراءة سجلات المحددات من artifact (ZIP) - الملفات التالفة تُتجاهل
+ */
+export async function readSelectorOutcomes(blob: Blob): Promise<SelectorOutcomeLog[]> {
+  const zip = await JSZip.loadAsync(blob);
+  const entries = Object.values(zip.files).filter(
+    file => !file.dir && file.name.startsWith(`${SELECTOR_OUTCOMES_DIR}/`) && file.name.endsWith('.json')
+  );
+
+  const logs: SelectorOutcomeLog[] = [];
+  for (const entry of entries) {
+    try {
+      const log = JSON.parse(await entry.async('string'));
+      if (Array.isArray(log?.outcomes)) logs.push(log);
+    } catch {
+      console.warn(`⚠️ تعذر قراءة ${entry.name}`);
+    }
+  }
+  return logs;
+}
+
+function getSelectorType(selector: string): SelectorPerformanceData['selectorType'] {
+  if (/^(xpath=|\/\/|\(\/\/)/.test(selector)) return 'xpath';
+  if (/^text=|:has-text\(|:text\(/.test(selector)) return 'text';
+  if (/\[data-(testid|test|cy|qa)=/.test(selector)) return 'data-testid';
+  if (/\[aria-label/.test(selector)) return 'aria-label';
+  if (/^#[\w-]+$/.test(selector)) return 'id';
+  if (/^[\w-]*\.[\w-]+$/.test(selector)) return 'class';
+  return 'hybrid';
+}
+
+/**
+ * إعادة تشغيل سجل على محركات التعلم - learningEngine يحفظ كل محاولة في ai_experiences
+ * وكحقيقة محدد في مخزن المعرفة الموحد الذي تقرأ منه باقي المحركات (فلا تُسجل فيها مرتين)
+ * المعرّف ثابت لكل محاولة (التشغيل + الترتيب) فلا تتكرر نفس المحاولة في الجدول
+ */
+export async function replaySelectorOutcomes(log: SelectorOutcomeLog, runId: string | number): Promise<number> {
+  let replayed = 0;
+
+  for (const [index, outcome] of log.outcomes.entries()) {
+    if (!outcome?.selector || !outcome.domain) continue;
+    const id = `run-${runId}-${log.taskId}-${index}`;
+    const timestamp = new Date(outcome.timestamp);
+    const attempt = outcome.fallbackIndex === null ? 0 : outcome.fallbackIndex + 1;
+
+    adaptiveWeightScorer.recordPerformance({
+      selector: outcome.selector,
+      domain: outcome.domain,
+      success: outcome.success,
+      executionTime: outcome.duration,
+      confidence: 1,
+      timestamp,
+      selectorType: getSelectorType(outcome.selector),
+    });
+
+    mlSelectorPredictor.trainOnData({ domain: outcome.domain, elementType: outcome.stepType }, outcome.selector, outcome.success);
+
+    await learningEngine.recordExperience({
+      id,
+      taskType: outcome.stepType,
+      website: outcome.domain,
+      action: outcome.stepType,
+      selector: outcome.selector,
+      success: outcome.success,
+      timestamp,
+      context: { url: outcome.domain, errorMessage: outcome.error },
+      metadata: { executionTime: outcome.duration, retryCount: attempt, confidence: outcome.success ? 1 : 0 },
+    });
+
+    replayed++;
+  }
+
+  return replayed;
+}
+
+function loadIngestedRuns(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(INGESTED_RUNS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveIngestedRuns(runs: string[]): void {
+  localStorage.setItem(INGESTED_RUNS_KEY, JSON.stringify(runs.slice(-MAX_REMEMBERED_RUNS)));
+}
+
+/**
+ * مهمة الاستيراد: آخر تشغيلات كل مهمة تسجل محدداتها ← artifact النتائج ← محركات التعلم
+ * التشغيل الذي لم يكتمل بعد يُترك للاستيراد التالي، والتشغيل بلا سجل يُعلَّم كمستورد
+ */
+export async function ingestSelectorOutcomes(
+  githubAPI: GitHubAPI,
+  tasks: any[],
+  userId: string,
+  onProgress?: (message: string) => void
+): Promise<IngestionSummary> {
+  await learningEngine.initialize(userId);
+
+  const ingested = loadIngestedRuns();
+  const summary: IngestionSummary = { runs: 0, outcomes: 0, failed: 0, healed: 0 };
+
+  for (const task of tasks.filter(taskUsesSelectorOutcomes)) {
+    let runs: any[];
+    try {
+      runs = await githubAPI.getLatestRun(`task-${task.id}.yml`);
+    } catch {
+      continue; // المهمة لم تُنشر بعد
+    }
+
+    for (const run of runs.filter(run => run.status === 'completed' && !ingested.includes(String(run.id)))) {
+      onProgress?.(`📥 ${task.name} - التشغيل #${run.run_number}`);
+      try {
+        const artifacts = await githubAPI.getRunArtifacts(run.id);
+        const results = artifacts.find(artifact => artifact.name.startsWith(`${task.id}-`) && !artifact.expired);
+        if (results) {
+          const logs = await readSelectorOutcomes(await githubAPI.downloadArtifact(results.id));
+          for (const log of logs) {
+            summary.outcomes += await replaySelectorOutcomes(log, run.id);
+            summary.healed += addHealingSuggestions(String(task.id), String(run.id), log.healed || []);
+          }
+        }
+        ingested.push(String(run.id));
+        summary.runs++;
+      } catch (error: any) {
+        console.warn(`⚠️ تعذر استيراد التشغيل ${run.id}:`, error.message);
+        summary.failed++;
+      }
+    }
+  }
+
+  saveIngestedRuns(ingested);
+  if (summary.outcomes > 0) {
+    // محاولات الفشل تنتظر دفعة كاملة - تُرسل الآن، والمحددات المخزنة مؤقتاً تُعاد من التعلم الجديد
+    await Promise.all([databaseSync.syncAll(), knowledgeStore.flush()]);
+    advancedSelectorIntelligence.clearCache();
+  }
+  return summary;
+}
@@ -0,0 +1,410 @@
+/**
+ * اختبارات golden لمولّد الكود الموحد
+ * Step Codegen Golden Tests
+ *
+ * كل حالة تثبّت الناتج المتوقع حرفياً لنوع خطوة واحد،
+ * ثم يُتحقق أن السكريبت الكامل قابل للتحليل كـ JavaScript صالح
+ * وأن step-parser يعيد بناء نفس المخطط منه (round-trip).
+ */
+
+import type { StepNode, StepType, StepParams } from '../types';
+import { generateStepCode, generateStepBlock, generateScriptFromGraph } from './step-codegen';
+import { createStepGraph } from './step-graph';
+import { parseScriptToGraph } from './step-parser';
+import type { GoldenCheck, GoldenResult } from './golden';
+import { runGoldenCases, goldenDiff } from './golden';
+
+type GoldenCase = {
+  name: string;
+  step: StepNode;
+  expected: string;
+};
+
+function goldenStep(type: StepType, params: StepParams, id: string = 'golden'): StepNode {
+  return {
+    id,
+    type,
+    params,
+    fallbacks: [],
+    conditions: [],
+    errorHandling: { ignoreErrors: false, retryCount: 0 },
+  };
+}
+
+export const STEP_CODEGEN_GOLDEN_CASES: GoldenCase[] = [
+  {
+    name: 'navigate',
+    step: goldenStep('navigate', { url: "https://example.com/?q=it's" }),
+    expected: "await page.goto('https://example.com/?q=it\\'s');",
+  },
+  {
+    name: 'click - selector with quotes',
+    step: goldenStep('click', { selector: "button:has-text('Log in')" }),
+    expected: "await page.click('button:has-text(\\'Log in\\')');",
+  },
+  {
+    name: 'type - apostrophe, backslash and newline',
+    step: goldenStep('type', { selector: 'input[name="q"]', text: "O'Brien\\path\nline2" }),
+    expected: "await page.fill('input[name=\"q\"]', 'O\\'Brien\\\\path\\nline2');",
+  },
+  {
+    name: 'type - secret reference',
+    step: goldenStep('type', { selector: '#password', text: '{{secrets.SHOP_PASSWORD}}' }),
+    expected: "await page.fill('#password', readSecret('SHOP_PASSWORD'));",
+  },
+  {
+    // اسم لا يقبله GitHub Secrets فلا يُمرَّر في workflow - لا يُقرأ كسر
+    name: 'type - lowercase secret reference',
+    step: goldenStep('type', { selector: '#api-key', text: '{{secrets.apiKey}}' }),
+    expected: "await page.fill('#api-key', readVariable('secrets.apiKey'));",
+  },
+  {
+    name: 'select - option value with variable',
+    step: goldenStep('select', { selector: 'select#country', value: '{{country}}' }),
+    expected: "await page.selectOption('select#country', readVariable('country'));",
+  },
+  {
+    name: 'wait - time',
+    step: goldenStep('wait', { type: 'time', duration: 2500 }),
+    expected: 'await page.waitForTimeout(2500);',
+  },
+  {
+    name: 'wait - invalid duration falls back',
+    step: goldenStep('wait', { type: 'time', duration: '1000); process.exit(' as any }),
+    expected: 'await page.waitForTimeout(1000);',
+  },
+  {
+    name: 'wait - selector',
+    step: goldenStep('wait', { type: 'selector', selector: ".content[data-x='1']" }),
+    expected: "await page.waitForSelector('.content[data-x=\\'1\\']');",
+  },
+  {
+    name: 'extract',
+    step: goldenStep('extract', { selector: '.item' }, 's3'),
+    expected: [
+      "const data_step1 = await page.$$eval('.item', els => els.map(el => el.textContent));",
+      "results.push({ stepId: 's3', data: data_step1 });",
+    ].join('\n'),
+  },
+  {
+    name: 'extract - non-identifier attribute',
+    step: goldenStep('extract', { selector: 'a', attribute: 'data-id' }, 's4'),
+    expected: [
+      "const data_step1 = await page.$$eval('a', els => els.map(el => el['data-id']));",
+      "results.push({ stepId: 's4', data: data_step1 });",
+    ].join('\n'),
+  },
+  {
+    name: 'extract - typed schema fields',
+    step: goldenStep('extract', {
+      selector: '.product',
+      schema: [
+        { name: 'title', selector: "h2[data-x='1']", source: 'text', type: 'text', required: true },
+        { name: 'price', selector: '.price', source: 'text', type: 'price', required: false },
+        { name: 'link', selector: 'a', source: 'attribute', attribute: 'href', type: 'url', required: true },
+      ],
+    }, 's5'),
+    expected: [
+      "const data_step1 = await extractRecords(page, '.product', [",
+      "  { name: 'title', selector: 'h2[data-x=\\'1\\']', source: 'text', type: 'text', required: true },",
+      "  { name: 'price', selector: '.price', source: 'text', type: 'price', required: false },",
+      "  { name: 'link', selector: 'a', source: 'attribute', attribute: 'href', type: 'url', required: true },",
+      ']);',
+      "results.push({ stepId: 's5', data: data_step1.records, errors: data_step1.errors });",
+    ].join('\n'),
+  },
+  {
+    name: 'screenshot - full page',
+    step: goldenStep('screenshot', { fullPage: true }),
+    expected: 'await page.screenshot({ fullPage: true });',
+  },
+  {
+    name: 'screenshot - viewport',
+    step: goldenStep('screenshot', { fullPage: false }),
+    expected: 'await page.screenshot();',
+  },
+  {
+    name: 'scroll - end',
+    step: goldenStep('scroll', { position: 'end' }),
+    expected: 'await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));',
+  },
+  {
+    name: 'scroll - pixels',
+    step: goldenStep('scroll', { position: '500' }),
+    expected: 'await page.evaluate(() => window.scrollTo(0, 500));',
+  },
+  {
+    name: 'video',
+    step: goldenStep('video', { duration: 30000 }),
+    expected: [
+      '// تسجيل فيديو لمدة 30000ms',
+      'await page.evaluate(() => { /* كود تسجيل الفيديو هنا */ });',
+    ].join('\n'),
+  },
+  {
+    name: 'fillForm',
+    step: goldenStep('fillForm', { selector: '#name', text: "Ahmad's form" }),
+    expected: "await page.fill('#name', 'Ahmad\\'s form');",
+  },
+  {
+    name: 'aiStep',
+    step: goldenStep('aiStep', { prompt: "*/ click 'login'" }),
+    expected: [
+      "console.log('🤖 خطوة ذكية:', '*/ click \\'login\\'');",
+      'await page.evaluate(() => { /* كود خطوة ذكية AI هنا */ });',
+    ].join('\n'),
+  },
+  {
+    name: 'rawCode',
+    step: goldenStep('rawCode', { code: "if (await page.isVisible('#x')) {\n  await page.click('#x');\n}" }),
+    expected: "if (await page.isVisible('#x')) {\n  await page.click('#x');\n}",
+  },
+  {
+    name: 'forEach - nested step reads item variable',
+    step: {
+      ...goldenStep('forEach', { selector: '.product a', itemVariable: 'p', limit: 5 }, 'loop'),
+      children: [goldenStep('click', { selector: '{{p.selector}}' }, 'c1')],
+    },
+    expected: [
+      "const count_step1 = await page.locator('.product a').count();",
+      'for (let index_step1 = 0; index_step1 < Math.min(count_step1, 5); index_step1++) {',
+      "  const element_step1 = page.locator('.product a').nth(index_step1);",
+      "  setVariable('p', {",
+      '    index: index_step1,',
+      "    text: ((await element_step1.textContent()) || '').trim(),",
+      "    href: await element_step1.getAttribute('href'),",
+      "    selector: '.product a' + ' >> nth=' + index_step1,",
+      "  }, 'loop');",
+      '',
+      '  // Step 1.1: نقر على عنصر',
+      "  await page.click(readVariable('p.selector'));",
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'crawl - next link with limits',
+    step: goldenStep('crawl', {
+      selector: '.product',
+      pagination: 'nextLink',
+      nextSelector: "a:has-text('Next')",
+      maxPages: 3,
+      maxItems: 100,
+      dedupeKey: 'href',
+      checkpoint: true,
+    }, 'crawl'),
+    expected: [
+      'const data_step1 = await crawlPages(page, {',
+      "  stepId: 'crawl',",
+      "  selector: '.product',",
+      "  pagination: 'nextLink',",
+      "  nextSelector: 'a:has-text(\\'Next\\')',",
+      '  maxPages: 3,',
+      '  maxItems: 100,',
+      "  dedupeKey: 'href',",
+      '  checkpoint: true,',
+      '});',
+      "results.push({ stepId: 'crawl', data: data_step1 });",
+    ].join('\n'),
+  },
+  {
+    name: 'assert - text contains with variable',
+    step: goldenStep('assert', { assertion: 'textContains', selector: 'h1', expected: "Hello {{user}}'s", timeout: 3000 }, 'check'),
+    expected: [
+      'await runAssertion(page, {',
+      "  stepId: 'check',",
+      "  name: 'النص يحتوي: h1 → Hello {{user}}\\'s',",
+      "  assertion: 'textContains',",
+      "  selector: 'h1',",
+      "  expected: ('Hello ' + readVariable('user') + '\\'s'),",
+      '  timeout: 3000,',
+      '});',
+    ].join('\n'),
+  },
+  {
+    name: 'assert - element count with operator',
+    step: goldenStep('assert', { assertion: 'count', selector: '.product', expected: '3', countOperator: 'atLeast', label: 'Products listed' }, 'count'),
+    expected: [
+      'await runAssertion(page, {',
+      "  stepId: 'count',",
+      "  name: 'Products listed',",
+      "  assertion: 'count',",
+      "  selector: '.product',",
+      '  expected: 3,',
+      "  countOperator: 'atLeast',",
+      '  timeout: 5000,',
+      '});',
+    ].join('\n'),
+  },
+  {
+    name: 'assert - response status class',
+    step: goldenStep('assert', { assertion: 'responseStatus', url: 'https://example.com/health', expected: '2xx' }, 'status'),
+    expected: [
+      'await runAssertion(page, {',
+      "  stepId: 'status',",
+      "  name: 'حالة الاستجابة: https://example.com/health → 2xx',",
+      "  assertion: 'responseStatus',",
+      "  url: 'https://example.com/health',",
+      "  expected: '2xx',",
+      '  timeout: 5000,',
+      '});',
+    ].join('\n'),
+  },
+];
+
+// خطوة كاملة مع البدائل والشروط (skip/retry/fail) وإعادة المحاولة
+export const STEP_CODEGEN_GOLDEN_BLOCK = {
+  step: {
+    ...goldenStep('type', { selector: '#username', text: 'ali' }, 'fb'),
+    fallbacks: [{ selector: 'input[type="email"]' }],
+    conditions: [
+      { type: 'url_contains', target: '/login', action: 'skip' },
+      { type: 'element_visible', target: "form[name='login']", action: 'retry' },
+      { type: 'text_contains', target: 'Welcome', action: 'fail' },
+    ],
+    errorHandling: { ignoreErrors: false, retryCount: 2 },
+  } as StepNode,
+  expected: `// Step 1: كتابة نص
+// @step {"id":"fb","type":"type","params":{"selector":"#username","text":"ali"},"fallbacks":[{"selector":"input[type=\\"email\\"]"}],"conditions":[{"type":"url_contains","target":"/login","action":"skip"},{"type":"element_visible","target":"form[name='login']","action":"retry"},{"type":"text_contains","target":"Welcome","action":"fail"}],"errorHandling":{"ignoreErrors":false,"retryCount":2}}
+let skip_step1 = false;
+if (!(page.url().includes('/login'))) {
+  console.log('⏭️ تخطي الخطوة 1:', 'الرابط يحتوي: /login');
+  skip_step1 = true;
+}
+if (!skip_step1 && !(((await page.textContent('body')) || '').includes('Welcome'))) {
+  throw new Error('شرط إلزامي غير متحقق: الصفحة تحتوي النص: Welcome');
+}
+if (!skip_step1) {
+  let retries_step1 = 2;
+  while (retries_step1 > 0) {
+    try {
+      if (!(await page.isVisible('form[name=\\'login\\']'))) {
+        throw new Error('شرط غير متحقق: العنصر ظاهر: form[name=\\'login\\']');
+      }
+      const attempts_step1 = [
+        async () => {
+          await page.fill('#username', 'ali');
+        },
+        async () => {
+          await page.fill('input[type="email"]', 'ali');
+        },
+      ];
+      for (let attempt = 0; attempt < attempts_step1.length; attempt++) {
+        try {
+          await attempts_step1[attempt]();
+          break;
+        } catch (attemptError) {
+          if (attempt === attempts_step1.length - 1) throw attemptError;
+          console.warn('🔄 فشلت المحاولة', attempt + 1, '- تجربة البديل التالي:', attemptError.message);
+        }
+      }
+      break;
+    } catch (stepError) {
+      retries_step1--;
+      if (retries_step1 === 0) {
+        throw stepError;
+      }
+      await page.waitForTimeout(1000);
+    }
+  }
+}
+`,
+};
+
+export const STEP_CODEGEN_GOLDEN_SCRIPT = {
+  steps: [
+    goldenStep('navigate', { url: 'https://example.com' }, '1'),
+    {
+      ...goldenStep('click', { selector: "button:has-text('Log in')" }, '2'),
+      errorHandling: { ignoreErrors: true, retryCount: 2 },
+    },
+  ],
+  expected: `async function runTask(page) {
+  const results = [];
+  try {
+    // Step 1: فتح صفحة
+    // @step {"id":"1","type":"navigate","params":{"url":"https://example.com"},"fallbacks":[],"conditions":[],"errorHandling":{"ignoreErrors":false,"retryCount":0}}
+    await page.goto('https://example.com');
+
+    // Step 2: نقر على عنصر
+    // @step {"id":"2","type":"click","params":{"selector":"button:has-text('Log in')"},"fallbacks":[],"conditions":[],"errorHandling":{"ignoreErrors":true,"retryCount":2}}
+    let retries_step2 = 2;
+    while (retries_step2 > 0) {
+      try {
+        await page.click('button:has-text(\\'Log in\\')');
+        break;
+      } catch (stepError) {
+        retries_step2--;
+        if (retries_step2 === 0) {
+          console.warn('⚠️ تخطي الخطأ:', stepError.message);
+        }
+        await page.waitForTimeout(1000);
+      }
+    }
+
+    console.log('✅ اكتملت المهمة بنجاح');
+    return { success: true, results };
+  } catch (error) {
+    console.error('❌ خطأ:', error.message);
+    return { success: false, error: error.message, results };
+  }
+}
+`,
+};
+
+// يجب أن يكون الكود الناتج JavaScript صالحاً داخل دالة async
+function checkStepCode(code: string): string | null {
+  try {
+    new Function(`return (async (page, results) => {\n${code}\n});`);
+    return null;
+  } catch (error: any) {
+    return `كود غير صالح - ${error.message}`;
+  }
+}
+
+/**
+ * تشغيل جميع الحالات - يرمي خطأ عند أي اختلاف
+ */
+export function runStepCodegenGoldenTests(): Promise<GoldenResult> {
+  return runGoldenCases('Step codegen golden', [
+    ...STEP_CODEGEN_GOLDEN_CASES.map((goldenCase): GoldenCheck => ({
+      name: goldenCase.name,
+      run: () => {
+        const actual = generateStepCode(goldenCase.step, 0);
+        return goldenDiff(goldenCase.expected, actual) ?? checkStepCode(actual);
+      },
+    })),
+    {
+      name: 'step block',
+      run: () => {
+        const block = generateStepBlock(STEP_CODEGEN_GOLDEN_BLOCK.step, 0);
+        return goldenDiff(STEP_CODEGEN_GOLDEN_BLOCK.expected, block) ?? checkStepCode(block);
+      },
+    },
+    {
+      name: 'full script',
+      run: () => {
+        const script = generateScriptFromGraph(createStepGraph(STEP_CODEGEN_GOLDEN_SCRIPT.steps));
+        const diff = goldenDiff(STEP_CODEGEN_GOLDEN_SCRIPT.expected, script);
+        if (diff) return diff;
+        try {
+          new Function(`${script}\nreturn runTask;`);
+        } catch (error: any) {
+          return `كود غير صالح - ${error.message}`;
+        }
+      },
+    },
+    {
+      // round-trip: سكريبت → مخطط → سكريبت بدون أي فقد
+      name: 'round-trip',
+      run: () => {
+        const roundTripSteps = [
+          ...STEP_CODEGEN_GOLDEN_SCRIPT.steps,
+          STEP_CODEGEN_GOLDEN_BLOCK.step,
+          ...STEP_CODEGEN_GOLDEN_CASES.map(({ step }, index) => ({ ...step, id: `case-${index}` })),
+        ];
+        const roundTripGraph = createStepGraph(roundTripSteps);
+        return goldenDiff(roundTripGraph, parseScriptToGraph(generateScriptFromGraph(roundTripGraph)));
+      },
+    },
+  ]);
+}
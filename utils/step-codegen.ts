@@ -0,0 +1,1170 @@
+/**
+ * مولّد الكود الموحد - يحوّل StepGraph إلى سكريبت Playwright
+ * هذا هو المكان الوحيد الذي يُنتج Task.script من الخطوات
+ * - كل قيمة نصية تمر عبر toJsString فلا يمكن أن تكسر السكريبت
+ * - التنسيق (المسافات البادئة) يُدار عبر CodeWriter
+ * - كل خطوة تحمل تعليق @step بمعطياتها الكاملة ليعيد step-parser بناءها
+ * - البدائل (fallbacks) والشروط (conditions) تُولَّد ككود فعلي يُنفذ وقت التشغيل
+ * - خطوات التحكم (forEach, repeatUntil, if) تُولَّد مع خطواتها الداخلية متداخلة
+ * - أوقات التشغيل المشتركة (المتغيرات، الأسرار، الاستخراج، الزحف، التحققات) تُضاف مرة واحدة فقط عند الحاجة
+ * - فشل خطوة assert يُجمع في assertions ولا يوقف باقي الخطوات - النتيجة النهائية فاشلة إن فشل أي تحقق
+ */
+
+import type { AssertionType, ExtractionField, StepCondition, StepGraph, StepNode, StepParams, StepType } from '../types';
+import { SECRET_NAME_SOURCE } from './secrets';
+
+export const STEP_TYPE_LABELS: Record<StepType, string> = {
+  navigate: 'فتح صفحة',
+  click: 'نقر على عنصر',
+  type: 'كتابة نص',
+  select: 'اختيار من قائمة',
+  wait: 'انتظار',
+  extract: 'استخراج بيانات',
+  screenshot: 'التقاط صورة',
+  scroll: 'تمرير الصفحة',
+  video: 'تسجيل فيديو',
+  fillForm: 'ملء نموذج',
+  aiStep: 'خطوة ذكية AI',
+  rawCode: 'كود مخصص',
+  forEach: 'لكل عنصر',
+  repeatUntil: 'تكرار حتى',
+  if: 'إذا',
+  setVariable: 'تعيين متغير',
+  crawl: 'زحف عبر الصفحات',
+  assert: 'تحقق',
+};
+
+export const ASSERTION_LABELS: Record<AssertionType, string> = {
+  visible: 'العنصر ظاهر',
+  textEquals: 'النص يساوي',
+  textContains: 'النص يحتوي',
+  textMatches: 'النص يطابق النمط',
+  urlMatches: 'الرابط يطابق النمط',
+  count: 'عدد العناصر',
+  attribute: 'قيمة الخاصية',
+  responseStatus: 'حالة الاستجابة',
+};
+
+const COUNT_OPERATOR_SYMBOLS: Record<NonNullable<StepParams['countOperator']>, string> = {
+  equals: '=',
+  atLeast: '≥',
+  atMost: '≤',
+};
+
+/**
+ * وصف التحقق كما يظهر في التقرير عندما لا يحدد المستخدم label
+ */
+export function describeAssertion(params: StepParams): string {
+  const assertion = params.assertion || 'visible';
+  const label = ASSERTION_LABELS[assertion] || assertion;
+  switch (assertion) {
+    case 'visible':
+      return `${label}: ${params.selector || '...'}`;
+    case 'urlMatches':
+      return `${label}: ${params.expected || '...'}`;
+    case 'count':
+      return `${label}: ${params.selector || '...'} ${COUNT_OPERATOR_SYMBOLS[params.countOperator || 'equals']} ${params.expected || 0}`;
+    case 'attribute':
+      return `${label}: ${params.selector || '...'}[${params.attribute || '...'}] = ${params.expected || ''}`;
+    case 'responseStatus':
+      return `${label}: ${params.url || 'الصفحة الحالية'} → ${params.expected || '200'}`;
+    default:
+      return `${label}: ${params.selector || '...'} → ${params.expected || ''}`;
+  }
+}
+
+export const STEP_MARKER_PREFIX = '// @step ';
+
+/**
+ * تحويل أي قيمة إلى literal نصي آمن بعلامات تنصيص مفردة
+ */
+export function toJsString(value: unknown): string {
+  const json = JSON.stringify(value == null ? '' : String(value));
+  const body = json
+    .slice(1, -1)
+    .replace(/\\"/g, '"')
+    .replace(/'/g, "\\'");
+  return `'${body}'`;
+}
+
+/**
+ * تحويل قيمة إلى رقم صالح في الكود - أي قيمة غير رقمية تُستبدل بالافتراضي
+ */
+export function toJsNumber(value: unknown, fallback: number): string {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return String(Number.isFinite(number) ? number : fallback);
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*\}\}/g;
+// {{secrets.NAME}} ليس متغيراً - يُقرأ من بيئة التشغيل عبر readSecret
+// بنفس قاعدة الأسماء التي يُمرَّر بها السر في workflow، وإلا قُرئ سر لا يصل للتشغيل.
+// تُبنى عند الاستخدام: secrets.ts يستورد step-graph الذي يستورد هذا الملف
+const secretPathPattern = () => new RegExp(`^secrets\\.(${SECRET_NAME_SOURCE})$`);
+const secretReferencePattern = () => new RegExp(`\\{\\{\\s*secrets\\.${SECRET_NAME_SOURCE}\\s*\\}\\}`, 'g');
+
+/**
+ * نص قد يحتوي متغيرات {{name}} أو {{item.href}} - يُحوَّل إلى دمج نصوص مع readVariable
+ * و {{secrets.NAME}} يُحوَّل إلى readSecret
+ * النص بدون متغيرات يبقى literal عادياً من toJsString
+ */
+export function toJsTemplate(value: unknown): string {
+  const text = value == null ? '' : String(value);
+  const parts: string[] = [];
+  let lastIndex = 0;
+
+  // readVariable تعيد نصاً دائماً فلا حاجة لـ '' في البداية
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (match.index! > lastIndex) {
+      parts.push(toJsString(text.slice(lastIndex, match.index)));
+    }
+    const secret = match[1].match(secretPathPattern());
+    parts.push(secret ? `readSecret(${toJsString(secret[1])})` : `readVariable(${toJsString(match[1])})`);
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (parts.length === 0) return toJsString(text);
+  if (lastIndex < text.length) parts.push(toJsString(text.slice(lastIndex)));
+  return parts.length === 1 ? parts[0] : `(${parts.join(' + ')})`;
+}
+
+/**
+ * الوصول لخاصية - بالنقطة إن كان الاسم معرفاً صالحاً وإلا بالأقواس
+ */
+export function toPropertyAccess(object: string, property: string): string {
+  return IDENTIFIER_PATTERN.test(property)
+    ? `${object}.${property}`
+    : `${object}[${toJsString(property)}]`;
+}
+
+/**
+ * كاتب أسطر مع إدارة المسافات البادئة
+ */
+export class CodeWriter {
+  private output: string[] = [];
+  private level = 0;
+
+  constructor(private indentUnit: string = '  ') {}
+
+  line(text: string = ''): this {
+    this.output.push(text ? this.indentUnit.repeat(this.level) + text : '');
+    return this;
+  }
+
+  /**
+   * كتابة كتلة متعددة الأسطر مع الحفاظ على المسافات النسبية داخلها
+   */
+  lines(code: string): this {
+    code.replace(/\s+$/, '').split('\n').forEach(text => this.line(text.replace(/\s+$/, '')));
+    return this;
+  }
+
+  indent(body: () => void): this {
+    this.level++;
+    body();
+    this.level--;
+    return this;
+  }
+
+  block(header: string, body: () => void, footer: string = '}'): this {
+    this.line(header);
+    this.indent(body);
+    return this.line(footer);
+  }
+
+  toString(): string {
+    return this.output.join('\n') + '\n';
+  }
+}
+
+export type ScriptGenerationOptions = {
+  // دالة تُستدعى ببداية كل خطوة (index, stepId) - يستخدمها المشغّل المحلي لبث تقدم الخطوات
+  stepHook?: string;
+  // طباعة حدث JSON عند بداية ونهاية كل خطوة - تقرؤه مراقبة تشغيلات GitHub من السجل
+  stepEvents?: boolean;
+  // تسجيل نتيجة كل محاولة بمحدد في selectorOutcomes - تُعاد مع نتيجة الدالة لمحركات التعلم
+  selectorOutcomes?: boolean;
+  // بعد فشل كل المحددات يبحث healSelector (selector-healing.js) عن أقرب عنصر لبصمة الخطوة
+  selectorHealing?: boolean;
+};
+
+export const STEP_EVENT_PREFIX = '@@step-event ';
+
+/**
+ * وقت تشغيل المتغيرات - يُضاف للسكريبت فقط إذا استخدم المخطط متغيرات
+ * كل متغير يُسجل بنفس حقول ContextVariable (context-awareness-engine)
+ */
+export const VARIABLES_RUNTIME = `// متغيرات المهمة {{name}} - تُعاد في variables بشكل ContextVariable
+const vars = {};
+const variables = [];
+const setVariable = (name, value, sourceAction) => {
+  vars[name] = value;
+  const type = Array.isArray(value) ? 'array' : ['string', 'number', 'boolean'].includes(typeof value) ? typeof value : 'object';
+  const record = { name, value, type, sourceAction, extractedAt: new Date().toISOString() };
+  const existing = variables.findIndex(variable => variable.name === name);
+  if (existing === -1) variables.push(record); else variables[existing] = record;
+};
+const readVariable = (path) => {
+  const value = path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), vars);
+  if (value && typeof value === 'object' && 'text' in value) return value.text;
+  return value == null ? '' : String(value);
+};`;
+
+/**
+ * وقت تشغيل الأسرار - workflow المهمة يمرر كل سر تذكره الخطوات كمتغير بيئة SECRET_<NAME>
+ * السر غير الموجود أو الفارغ خطأ في الإعداد فيوقف الخطوة بدل إرسال نص فارغ
+ */
+export const SECRETS_RUNTIME = `// أسرار المهمة - readSecret يقرأ متغيرات البيئة SECRET_<الاسم>
+const readSecret = (name) => {
+  const value = globalThis.process?.env?.['SECRET_' + name];
+  if (!value) throw new Error('السر غير متاح لهذه المهمة: ' + name);
+  return value;
+};`;
+
+/**
+ * وقت تشغيل أحداث الخطوات - يُضاف فقط مع stepEvents (السكريبتات المنشورة، لا Task.script)
+ * stepRun يجمع إعادة المحاولات والبديل المستخدم للخطوة الحالية حتى نهايتها
+ */
+export const STEP_EVENTS_RUNTIME = `// أحداث الخطوات - سطر ${STEP_EVENT_PREFIX.trim()} لكل تغيير حالة
+let stepRun = null;
+const emitStepEvent = (status, error) => {
+  const { startedAt, ...step } = stepRun;
+  const duration = status === 'running' ? undefined : Date.now() - startedAt;
+  console.log(${toJsString(STEP_EVENT_PREFIX)} + JSON.stringify({ ...step, status, duration, error, timestamp: new Date().toISOString() }));
+};
+const startStep = (stepNumber, stepId, stepType) => {
+  stepRun = { stepId, stepNumber, stepType, startedAt: Date.now(), retryCount: 0, fallbackUsed: undefined };
+  emitStepEvent('running');
+};`;
+
+/**
+ * وقت تشغيل سجل المحددات - يُضاف فقط مع selectorOutcomes (السكريبتات المنشورة)
+ * المحدد الفاشل يُسجَّل حتى لو نجح بعده بديل، فمحركات التعلم تحتاج الفشل كما النجاح
+ */
+export const SELECTOR_OUTCOMES_RUNTIME = `// سجل المحددات - نتيجة كل محاولة بمحدد مع النطاق والمدة ورقم البديل
+const selectorOutcomes = [];
+const trackSelector = async (stepId, stepType, selector, attempt, action) => {
+  const startedAt = Date.now();
+  let domain = '';
+  try {
+    domain = new URL(page.url()).hostname;
+  } catch {}
+  const record = (success, error) => selectorOutcomes.push({
+    stepId, stepType, selector, domain, success,
+    duration: Date.now() - startedAt,
+    fallbackIndex: attempt > 0 ? attempt - 1 : null,
+    error,
+    timestamp: new Date().toISOString(),
+  });
+  try {
+    await action();
+    record(true);
+  } catch (error) {
+    record(false, error.message);
+    throw error;
+  }
+};`;
+
+/**
+ * وقت تشغيل المعالجة الذاتية - يُضاف فقط مع selectorHealing لمخطط فيه خطوات ببصمة عنصر
+ * المحدد المعالج يُسجَّل في healedSelectors بعد نجاح الخطوة به فقط، ليُقترح تحديثاً للخطوة في التطبيق
+ */
+export const SELECTOR_HEALING_RUNTIME = `// المعالجة الذاتية - healSelector من selector-healing.js بعد فشل كل محددات الخطوة
+const healedSelectors = [];
+const healStepSelector = async (signature, failedSelectors) => {
+  const healed = await healSelector(page, signature);
+  if (!healed) throw new Error('لا يوجد عنصر يطابق بصمة العنصر المحفوظة');
+  console.warn('🩹 معالجة ذاتية للمحدد:', failedSelectors[0], '←', healed.selector, '(' + Math.round(healed.score * 100) + '%)');
+  return healed;
+};
+const recordHealedSelector = (stepId, failedSelectors, healed) => {
+  healedSelectors.push({ stepId, failedSelectors, selector: healed.selector, score: healed.score, timestamp: new Date().toISOString() });
+};`;
+
+// محدد محاولة المعالجة - يُستبدل في الكود بمتغير المحدد المعالج وقت التشغيل
+const HEALED_SELECTOR = '\u0000healed';
+
+// أنواع الخطوات التي يحدد المحدد نجاحها - التحقق يجمع فشله بنفسه فلا يُحسب على المحدد
+const SELECTOR_ACTION_TYPES: StepType[] = ['click', 'type', 'select', 'extract', 'fillForm', 'wait'];
+
+function tracksSelector(step: StepNode): boolean {
+  return SELECTOR_ACTION_TYPES.includes(step.type) &&
+    !!step.params.selector &&
+    (step.type !== 'wait' || step.params.type === 'selector');
+}
+
+function healsSelector(step: StepNode): boolean {
+  return tracksSelector(step) && !!step.signature?.tag;
+}
+
+// المحدد كتعبير JS - محاولة المعالجة تقرأ المحدد الذي وجده healSelector
+function selectorCode(params: StepParams, key: string): string {
+  return params.selector === HEALED_SELECTOR ? `healed_step${key}.selector` : toJsTemplate(params.selector);
+}
+
+function stepTemplateText(step: StepNode): string {
+  return JSON.stringify([step.params, step.fallbacks, step.conditions]);
+}
+
+/**
+ * هل يحتاج المخطط وقت تشغيل المتغيرات
+ */
+export function graphUsesVariables(graph: StepGraph): boolean {
+  const usesVariables = (steps: StepNode[]): boolean =>
+    steps.some(step =>
+      step.type === 'setVariable' ||
+      step.type === 'forEach' ||
+      stepTemplateText(step).replace(secretReferencePattern(), '').includes('{{') ||
+      usesVariables(step.children || []) ||
+      usesVariables(step.elseChildren || [])
+    );
+  return usesVariables(graph.steps);
+}
+
+/**
+ * وقت تشغيل الاستخراج المنظم - يُضاف فقط إذا استخدمت خطوة extract أو crawl مخطط حقول
+ * كل حقل يُحوَّل لنوعه (number, price, date, url) والحقول التي تفشل تُعاد في errors
+ */
+export const EXTRACTION_RUNTIME = `// استخراج سجلات منظمة حسب مخطط الحقول
+const convertField = (value, type, baseUrl) => {
+  const text = String(value).trim();
+  const latin = text.replace(/[٠-٩]/g, digit => String('٠١٢٣٤٥٦٧٨٩'.indexOf(digit)));
+  switch (type) {
+    case 'number': {
+      const number = Number(latin.replace(/[\\s,]/g, ''));
+      if (latin === '' || !Number.isFinite(number)) throw new Error('ليس رقماً');
+      return number;
+    }
+    case 'price': {
+      const match = latin.match(/-?\\d[\\d\\s.,]*/);
+      if (!match) throw new Error('لا يحتوي سعراً');
+      // الفاصل الأخير عشري إذا تبعه رقمان أو أقل: 1.234,56 و 1,234.56 و 12,5
+      const raw = match[0].replace(/\\s/g, '').replace(/[.,]$/, '');
+      const separator = Math.max(raw.lastIndexOf('.'), raw.lastIndexOf(','));
+      const hasDecimals = separator !== -1 && raw.length - separator - 1 <= 2;
+      const integer = (hasDecimals ? raw.slice(0, separator) : raw).replace(/[.,]/g, '');
+      const amount = Number(hasDecimals ? integer + '.' + raw.slice(separator + 1) : integer);
+      const currency = (text.match(/[$€£¥₹]|\\b[A-Z]{3}\\b|ر\\.س|ريال|درهم|جنيه|دينار/) || [null])[0];
+      return { amount, currency };
+    }
+    case 'date': {
+      const dayFirst = latin.match(/^(\\d{1,2})[\\/.-](\\d{1,2})[\\/.-](\\d{4})$/);
+      const time = dayFirst
+        ? Date.UTC(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1]))
+        : Date.parse(latin);
+      if (Number.isNaN(time)) throw new Error('تاريخ غير صالح');
+      return new Date(time).toISOString();
+    }
+    case 'url':
+      try {
+        return new URL(text, baseUrl).href;
+      } catch {
+        throw new Error('رابط غير صالح');
+      }
+    default:
+      return text;
+  }
+};
+const extractRecords = async (page, selector, fields) => {
+  const rows = await page.$$eval(selector, (els, fields) => els.map(el => fields.map(field => {
+    const target = field.selector ? el.querySelector(field.selector) : el;
+    if (!target) return null;
+    if (field.source === 'html') return target.innerHTML;
+    if (field.source === 'attribute') return target.getAttribute(field.attribute || 'href');
+    return (target.textContent || '').trim();
+  })), fields);
+  const baseUrl = page.url();
+  const records = [];
+  const errors = [];
+  rows.forEach((row, index) => {
+    const record = {};
+    let complete = true;
+    fields.forEach((field, i) => {
+      const value = row[i];
+      record[field.name] = null;
+      if (value == null || String(value).trim() === '') {
+        if (field.required) {
+          complete = false;
+          errors.push({ index, field: field.name, value, reason: 'حقل إلزامي فارغ' });
+        }
+        return;
+      }
+      try {
+        record[field.name] = convertField(value, field.type, baseUrl);
+      } catch (error) {
+        if (field.required) complete = false;
+        errors.push({ index, field: field.name, value, reason: error.message });
+      }
+    });
+    if (complete) records.push(record);
+  });
+  if (errors.length > 0) {
+    console.warn('⚠️ حقول لم تُحوَّل:', errors.length, JSON.stringify(errors.slice(0, 5)));
+  }
+  return { records, errors };
+};`;
+
+/**
+ * وقت تشغيل الزحف - يُضاف للسكريبت فقط إذا احتوى المخطط خطوة crawl
+ * نقطة الاستئناف تُحفظ في checkpoints/ بعد كل صفحة؛ إذا انتهى وقت التشغيل
+ * تكمل المحاولة التالية من آخر صفحة بنفس السجلات والمفاتيح المرئية
+ */
+export const CRAWL_RUNTIME = `// الزحف عبر الصفحات مع إزالة التكرار ونقطة استئناف
+const crawlPages = async (page, options) => {
+  const checkpointDir = (globalThis.process?.env?.CRAWL_CHECKPOINT_DIR) || 'checkpoints';
+  const checkpointFile = checkpointDir + '/crawl-' + options.stepId + '.json';
+  const fs = options.checkpoint ? await import('fs/promises').catch(() => null) : null;
+  let state = { url: null, pageNumber: 0, seen: [], records: [] };
+  if (fs) {
+    try {
+      const saved = JSON.parse(await fs.readFile(checkpointFile, 'utf-8'));
+      if (!saved.completed) {
+        state = saved;
+        console.log('♻️ استئناف الزحف من الصفحة', state.pageNumber + 1, '-', state.records.length, 'سجل محفوظ');
+      }
+    } catch {
+      // لا توجد نقطة استئناف - بداية جديدة
+    }
+  }
+  const seen = new Set(state.seen);
+  const records = state.records;
+  const isFull = () => options.maxItems > 0 && records.length >= options.maxItems;
+  const saveCheckpoint = async (completed) => {
+    if (!fs) return;
+    await fs.mkdir(checkpointDir, { recursive: true });
+    await fs.writeFile(checkpointFile, JSON.stringify({ ...state, seen: [...seen], records, completed }));
+  };
+  const scrollOnce = async () => {
+    const before = await page.evaluate(() => document.body.scrollHeight);
+    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    await page.waitForTimeout(1500);
+    return (await page.evaluate(() => document.body.scrollHeight)) > before;
+  };
+
+  if (state.url && options.pagination === 'nextLink') {
+    await page.goto(state.url);
+  } else if (options.pagination === 'infiniteScroll') {
+    for (let i = 0; i < state.pageNumber; i++) await scrollOnce();
+  }
+
+  while (state.pageNumber < options.maxPages && !isFull()) {
+    const items = options.fields
+      ? (await extractRecords(page, options.selector, options.fields)).records
+      : await page.$$eval(options.selector, els => els.map(el => ({
+        text: (el.textContent || '').trim(),
+        href: el.href || el.querySelector('a')?.href || null,
+      })));
+    let added = 0;
+    for (const item of items) {
+      const key = item[options.dedupeKey] ?? JSON.stringify(item);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      records.push(item);
+      added++;
+      if (isFull()) break;
+    }
+    state.pageNumber++;
+    console.log('📄 صفحة', state.pageNumber, '-', added, 'سجل جديد، المجموع:', records.length);
+    if (added === 0 || isFull() || state.pageNumber >= options.maxPages) break;
+
+    if (options.pagination === 'infiniteScroll') {
+      if (!(await scrollOnce())) break;
+    } else {
+      const next = page.locator(options.nextSelector).first();
+      if ((await next.count()) === 0) break;
+      const href = await next.getAttribute('href');
+      if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
+        await page.goto(new URL(href, page.url()).href);
+      } else {
+        await next.click();
+        await page.waitForLoadState('domcontentloaded');
+      }
+    }
+    state.url = page.url();
+    await saveCheckpoint(false);
+  }
+
+  await saveCheckpoint(true);
+  return records;
+};`;
+
+/**
+ * وقت تشغيل التحققات - يُضاف فقط إذا احتوى المخطط خطوة assert
+ * كل تحقق يُعاد فحصه حتى timeout (مثل expect في Playwright) ثم يُسجَّل في assertions
+ * الفشل يُرمى كـ AssertionFailure لتعمل إعادة المحاولة والبدائل، ثم يلتقطه collectAssertionFailure
+ */
+export const ASSERTIONS_RUNTIME = `// تحققات الاختبار - تُجمع في assertions ولا توقف المهمة عند أول فشل
+const assertions = [];
+class AssertionFailure extends Error {
+  constructor(message, assertion) {
+    super(message);
+    this.name = 'AssertionFailure';
+    this.assertion = assertion;
+  }
+}
+const evaluateAssertion = async (page, spec) => {
+  const first = page.locator(spec.selector || 'body').first();
+  const readText = async () => ((await first.count()) > 0 ? ((await first.textContent()) || '').trim() : null);
+  switch (spec.assertion) {
+    case 'visible': {
+      const visible = await first.isVisible();
+      return { passed: visible, actual: visible ? 'ظاهر' : 'غير ظاهر' };
+    }
+    case 'textEquals':
+    case 'textContains':
+    case 'textMatches': {
+      const text = await readText();
+      if (text === null) return { passed: false, actual: 'العنصر غير موجود' };
+      const passed = spec.assertion === 'textEquals' ? text === spec.expected
+        : spec.assertion === 'textContains' ? text.includes(spec.expected)
+        : new RegExp(spec.expected).test(text);
+      return { passed, actual: text };
+    }
+    case 'urlMatches': {
+      const url = page.url();
+      return { passed: new RegExp(spec.expected).test(url), actual: url };
+    }
+    case 'count': {
+      const count = await page.locator(spec.selector).count();
+      const passed = spec.countOperator === 'atLeast' ? count >= spec.expected
+        : spec.countOperator === 'atMost' ? count <= spec.expected
+        : count === spec.expected;
+      return { passed, actual: count };
+    }
+    case 'attribute': {
+      if ((await first.count()) === 0) return { passed: false, actual: 'العنصر غير موجود' };
+      const value = await first.getAttribute(spec.attribute);
+      return { passed: value === spec.expected, actual: value };
+    }
+    case 'responseStatus': {
+      const response = await page.request.get(spec.url || page.url(), { failOnStatusCode: false, timeout: spec.timeout });
+      const status = response.status();
+      const expected = String(spec.expected || '200');
+      const passed = /^\\dxx$/i.test(expected) ? String(status)[0] === expected[0] : String(status) === expected;
+      return { passed, actual: status };
+    }
+    default:
+      return { passed: false, actual: null, error: 'نوع تحقق غير معروف: ' + spec.assertion };
+  }
+};
+const runAssertion = async (page, spec) => {
+  const startedAt = Date.now();
+  let outcome;
+  while (true) {
+    try {
+      outcome = await evaluateAssertion(page, spec);
+    } catch (error) {
+      outcome = { passed: false, actual: null, error: error.message };
+    }
+    if (outcome.passed || spec.assertion === 'responseStatus' || Date.now() - startedAt >= spec.timeout) break;
+    await page.waitForTimeout(250);
+  }
+  const assertion = {
+    stepId: spec.stepId,
+    name: spec.name,
+    assertion: spec.assertion,
+    status: outcome.passed ? 'passed' : 'failed',
+    expected: spec.expected == null ? null : String(spec.expected),
+    actual: outcome.actual ?? null,
+    duration: Date.now() - startedAt,
+    ...(outcome.error ? { error: outcome.error } : {}),
+  };
+  if (!outcome.passed) {
+    const detail = outcome.error || ('المتوقع: ' + (assertion.expected ?? '-') + '، الفعلي: ' + (assertion.actual ?? '-'));
+    throw new AssertionFailure(spec.name + ' - ' + detail, assertion);
+  }
+  assertions.push(assertion);
+  console.log('✔️ تحقق:', spec.name);
+};
+const collectAssertionFailure = (error) => {
+  if (error.name !== 'AssertionFailure') throw error;
+  assertions.push(error.assertion);
+  console.error('✖️ فشل التحقق:', error.message);
+};`;
+
+/**
+ * هل يحتوي المخطط (أو أي فرع فيه) خطوة من هذا النوع
+ */
+function graphHasStepType(steps: StepNode[], type: StepType): boolean {
+  return steps.some(step =>
+    step.type === type ||
+    graphHasStepType(step.children || [], type) ||
+    graphHasStepType(step.elseChildren || [], type)
+  );
+}
+
+export function graphUsesSecrets(graph: StepGraph): boolean {
+  const usesSecrets = (steps: StepNode[]): boolean =>
+    steps.some(step =>
+      stepTemplateText(step).search(secretReferencePattern()) !== -1 ||
+      usesSecrets(step.children || []) ||
+      usesSecrets(step.elseChildren || [])
+    );
+  return usesSecrets(graph.steps);
+}
+
+export function graphUsesCrawl(graph: StepGraph): boolean {
+  return graphHasStepType(graph.steps, 'crawl');
+}
+
+export function graphUsesAssertions(graph: StepGraph): boolean {
+  return graphHasStepType(graph.steps, 'assert');
+}
+
+/**
+ * هل في المخطط خطوة يُسجَّل محددها في selectorOutcomes
+ */
+export function graphTracksSelectors(graph: StepGraph): boolean {
+  const tracks = (steps: StepNode[]): boolean =>
+    steps.some(step => tracksSelector(step) || tracks(step.children || []) || tracks(step.elseChildren || []));
+  return tracks(graph.steps);
+}
+
+/**
+ * هل في المخطط خطوة ببصمة عنصر يمكن معالجة محددها ذاتياً
+ */
+export function graphUsesSelectorHealing(graph: StepGraph): boolean {
+  const heals = (steps: StepNode[]): boolean =>
+    steps.some(step => healsSelector(step) || heals(step.children || []) || heals(step.elseChildren || []));
+  return heals(graph.steps);
+}
+
+export function graphUsesExtractionSchema(graph: StepGraph): boolean {
+  const usesSchema = (steps: StepNode[]): boolean =>
+    steps.some(step =>
+      ((step.type === 'extract' || step.type === 'crawl') && hasSchema(step.params)) ||
+      step.fallbacks.some(hasSchema) ||
+      usesSchema(step.children || []) ||
+      usesSchema(step.elseChildren || [])
+    );
+  return usesSchema(graph.steps);
+}
+
+function hasSchema(params: StepParams): boolean {
+  return Array.isArray(params.schema) && params.schema.length > 0;
+}
+
+/**
+ * توليد دالة async كاملة تنفذ خطوات المخطط على page
+ */
+export function generateScriptFromGraph(
+  graph: StepGraph,
+  functionName: string = 'runTask',
+  options: ScriptGenerationOptions = {}
+): string {
+  const writer = new CodeWriter();
+  const withVariables = graphUsesVariables(graph);
+  const withAssertions = graphUsesAssertions(graph);
+  const withSelectorOutcomes = !!options.selectorOutcomes && graphTracksSelectors(graph);
+  const withSelectorHealing = !!options.selectorHealing && graphUsesSelectorHealing(graph);
+  const collected = [
+    'results',
+    ...(withVariables ? ['variables'] : []),
+    ...(withAssertions ? ['assertions'] : []),
+    ...(withSelectorOutcomes ? ['selectorOutcomes'] : []),
+    ...(withSelectorHealing ? ['healedSelectors'] : []),
+  ].join(', ');
+
+  writer.block(`async function ${functionName}(page) {`, () => {
+    writer.line('const results = [];');
+    if (withVariables) {
+      writer.lines(VARIABLES_RUNTIME);
+    }
+    if (graphUsesSecrets(graph)) {
+      writer.lines(SECRETS_RUNTIME);
+    }
+    if (graphUsesExtractionSchema(graph)) {
+      writer.lines(EXTRACTION_RUNTIME);
+    }
+    if (graphUsesCrawl(graph)) {
+      writer.lines(CRAWL_RUNTIME);
+    }
+    if (withAssertions) {
+      writer.lines(ASSERTIONS_RUNTIME);
+    }
+    if (options.stepEvents) {
+      writer.lines(STEP_EVENTS_RUNTIME);
+    }
+    if (withSelectorOutcomes) {
+      writer.lines(SELECTOR_OUTCOMES_RUNTIME);
+    }
+    if (withSelectorHealing) {
+      writer.lines(SELECTOR_HEALING_RUNTIME);
+    }
+    writer.block('try {', () => {
+      graph.steps.forEach((step, index) => {
+        writeStep(writer, step, [index], options);
+        writer.line();
+      });
+
+      if (withAssertions) {
+        writer.line("const failedAssertions = assertions.filter(assertion => assertion.status === 'failed');");
+        writer.block('if (failedAssertions.length > 0) {', () => {
+          writer.line("const summary = 'فشل ' + failedAssertions.length + ' من ' + assertions.length + ' تحقق';");
+          writer.line("console.error('❌', summary);");
+          writer.line(`return { success: false, error: summary, ${collected} };`);
+        });
+      }
+      writer.line("console.log('✅ اكتملت المهمة بنجاح');");
+      writer.line(`return { success: true, ${collected} };`);
+    }, '} catch (error) {');
+    writer.indent(() => {
+      writer.line("console.error('❌ خطأ:', error.message);");
+      writer.line(`return { success: false, error: error.message, ${collected} };`);
+    });
+    writer.line('}');
+  });
+
+  return writer.toString();
+}
+
+/**
+ * معطيات الخطوة كسطر تعليق واحد - U+2028/U+2029 تنهي تعليق السطر فتُهرَّب
+ */
+export function serializeStepMarker(step: StepNode): string {
+  const json = JSON.stringify(step)
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  return `${STEP_MARKER_PREFIX}${json}`;
+}
+
+/**
+ * كتلة خطوة كاملة كما تظهر في السكريبت (تعليق العنوان + @step + الكود)
+ */
+export function generateStepBlock(step: StepNode, index: number): string {
+  const writer = new CodeWriter();
+  writeStep(writer, step, [index]);
+  return writer.toString();
+}
+
+export const STEP_CONDITION_LABELS: Record<StepCondition['type'], string> = {
+  element_exists: 'العنصر موجود',
+  element_visible: 'العنصر ظاهر',
+  url_contains: 'الرابط يحتوي',
+  text_contains: 'الصفحة تحتوي النص',
+};
+
+/**
+ * تعبير JavaScript يُقيّم الشرط على page (نفس أنواع Condition في smart-task-executor)
+ */
+export function generateConditionExpression(condition: Pick<StepCondition, 'type' | 'target'>): string {
+  const target = toJsTemplate(condition.target);
+
+  switch (condition.type) {
+    case 'element_exists':
+      return `(await page.$(${target})) !== null`;
+    case 'element_visible':
+      return `await page.isVisible(${target})`;
+    case 'url_contains':
+      return `page.url().includes(${target})`;
+    case 'text_contains':
+      return `((await page.textContent('body')) || '').includes(${target})`;
+    default:
+      return 'true';
+  }
+}
+
+function describeCondition(condition: StepCondition, prefix: string = ''): string {
+  return toJsString(`${prefix}${STEP_CONDITION_LABELS[condition.type] || condition.type}: ${condition.target}`);
+}
+
+/**
+ * موضع الخطوة في الشجرة: [2] للخطوة الثالثة، [2, 0] لأول خطوة داخلها
+ * المفتاح (3_1) يُستخدم في أسماء المتغيرات والعنوان (3.1) في التعليقات
+ */
+function stepKey(path: number[]): string {
+  return path.map(index => index + 1).join('_');
+}
+
+/**
+ * كتابة خطوة واحدة مع الشروط والبدائل ومنطق إعادة المحاولة
+ * - continue: تحذير فقط، skip: تخطي الخطوة، fail: إيقاف المهمة
+ * - retry: يُفحص داخل حلقة إعادة المحاولة فيُعاد فحصه حتى نفاد retryCount
+ * الخطوات الداخلية لا تحمل @step - معطياتها ضمن @step الخطوة الأم
+ */
+function writeStep(writer: CodeWriter, step: StepNode, path: number[], options: ScriptGenerationOptions = {}): void {
+  writer.line(`// Step ${path.map(index => index + 1).join('.')}: ${STEP_TYPE_LABELS[step.type]}`);
+  if (path.length === 1) {
+    writer.line(serializeStepMarker(step));
+    if (options.stepHook) {
+      writer.line(`${options.stepHook}(${path[0]}, ${toJsString(step.id)});`);
+    }
+    if (options.stepEvents) {
+      // الخطوة المتخطاة تبلغ skipped - متغير التخطي معرّف داخل try نفسه
+      const skipped = step.conditions.some(condition => condition.action === 'skip') ? `skip_step${stepKey(path)}` : null;
+      writer.line(`startStep(${path[0] + 1}, ${toJsString(step.id)}, ${toJsString(step.type)});`);
+      writer.block('try {', () => {
+        writeGuardedExecution(writer, step, path, options);
+        writer.line(`emitStepEvent(${skipped ? `${skipped} ? 'skipped' : 'success'` : "'success'"});`);
+      }, '} catch (eventError) {');
+      writer.indent(() => {
+        writer.line("emitStepEvent('failed', eventError.message);");
+        writer.line(step.type === 'assert' ? 'collectAssertionFailure(eventError);' : 'throw eventError;');
+      });
+      writer.line('}');
+      return;
+    }
+  }
+
+  if (step.type === 'assert') {
+    writer.block('try {', () => writeGuardedExecution(writer, step, path, options), '} catch (assertionError) {');
+    writer.indent(() => writer.line('collectAssertionFailure(assertionError);'));
+    writer.line('}');
+    return;
+  }
+
+  writeGuardedExecution(writer, step, path, options);
+}
+
+/**
+ * الشروط (skip, fail, continue) ثم التنفيذ - التنفيذ داخل if عند وجود شرط skip
+ */
+function writeGuardedExecution(writer: CodeWriter, step: StepNode, path: number[], options: ScriptGenerationOptions): void {
+  const key = stepKey(path);
+  const skip = `skip_step${key}`;
+  const guards = step.conditions.filter(condition => condition.action !== 'retry');
+  const hasSkip = guards.some(condition => condition.action === 'skip');
+
+  if (hasSkip) {
+    writer.line(`let ${skip} = false;`);
+  }
+
+  // مثل SmartTaskExecutor.checkConditions: بعد أول تخطٍّ لا تُفحص الشروط التالية
+  let skipDeclared = false;
+  for (const condition of guards) {
+    const check = `!(${generateConditionExpression(condition)})`;
+    writer.block(`if (${skipDeclared ? `!${skip} && ` : ''}${check}) {`, () => {
+      switch (condition.action) {
+        case 'skip':
+          writer.line(`console.log('⏭️ تخطي الخطوة ${key.replace(/_/g, '.')}:', ${describeCondition(condition)});`);
+          writer.line(`${skip} = true;`);
+          break;
+        case 'fail':
+          writer.line(`throw new Error(${describeCondition(condition, 'شرط إلزامي غير متحقق: ')});`);
+          break;
+        default:
+          writer.line(`console.warn('⚠️ شرط غير متحقق:', ${describeCondition(condition)});`);
+      }
+    });
+    skipDeclared = skipDeclared || condition.action === 'skip';
+  }
+
+  if (hasSkip) {
+    writer.block(`if (!${skip}) {`, () => writeExecution(writer, step, path, options));
+  } else {
+    writeExecution(writer, step, path, options);
+  }
+}
+
+function writeExecution(writer: CodeWriter, step: StepNode, path: number[], options: ScriptGenerationOptions): void {
+  const retries = `retries_step${stepKey(path)}`;
+
+  if (step.errorHandling.retryCount <= 0) {
+    writeAttempts(writer, step, path, options);
+    return;
+  }
+
+  // استخدام اسم متغير فريد لكل خطوة لتجنب خطأ "Identifier 'retries' has already been declared"
+  writer.line(`let ${retries} = ${toJsNumber(step.errorHandling.retryCount, 1)};`);
+  writer.block(`while (${retries} > 0) {`, () => {
+    writer.block('try {', () => {
+      writeAttempts(writer, step, path, options);
+      writer.line('break;');
+    }, '} catch (stepError) {');
+    writer.indent(() => {
+      writer.line(`${retries}--;`);
+      if (options.stepEvents) {
+        writer.line('stepRun.retryCount++;');
+      }
+      writer.block(`if (${retries} === 0) {`, () => {
+        if (step.errorHandling.ignoreErrors) {
+          writer.line("console.warn('⚠️ تخطي الخطأ:', stepError.message);");
+        } else {
+          writer.line('throw stepError;');
+        }
+      });
+      writer.line('await page.waitForTimeout(1000);');
+    });
+    writer.line('}');
+  });
+}
+
+/**
+ * محاولة واحدة للخطوة: شروط retry ثم المعاملات الأساسية ثم كل بديل بالترتيب ثم المعالجة الذاتية
+ */
+function writeAttempts(writer: CodeWriter, step: StepNode, path: number[], options: ScriptGenerationOptions): void {
+  const attempts = `attempts_step${stepKey(path)}`;
+
+  for (const condition of step.conditions.filter(condition => condition.action === 'retry')) {
+    writer.block(`if (!(${generateConditionExpression(condition)})) {`, () => {
+      writer.line(`throw new Error(${describeCondition(condition, 'شرط غير متحقق: ')});`);
+    });
+  }
+
+  const tracked = !!options.selectorOutcomes && tracksSelector(step);
+  const healable = !!options.selectorHealing && healsSelector(step);
+  if (step.fallbacks.length === 0 && !tracked && !healable) {
+    writeStepCode(writer, step, path, options);
+    return;
+  }
+
+  // البدائل تكمل المعاملات الأساسية - غالباً selector مختلف فقط
+  const variants: StepParams[] = [step.params, ...step.fallbacks.map(fallback => ({ ...step.params, ...fallback }))];
+  const selectors = `selectors_step${stepKey(path)}`;
+  const healed = `healed_step${stepKey(path)}`;
+  if (healable) {
+    writer.line(`let ${healed} = null;`);
+  }
+  writer.block(`const ${attempts} = [`, () => {
+    for (const params of [...variants, ...(healable ? [{ ...step.params, selector: HEALED_SELECTOR }] : [])]) {
+      writer.block('async () => {', () => {
+        writeStepCode(writer, { ...step, params }, path, options);
+      }, '},');
+    }
+  }, '];');
+  if (tracked || healable) {
+    const selectorList = variants.map(params => toJsTemplate(params.selector));
+    writer.line(`const ${selectors} = [${[...selectorList, ...(healable ? ['null'] : [])].join(', ')}];`);
+  }
+  writer.block(`for (let attempt = 0; attempt < ${attempts}.length; attempt++) {`, () => {
+    writer.block('try {', () => {
+      if (healable) {
+        writer.block(`if (attempt === ${variants.length}) {`, () => {
+          writer.line(`${healed} = await healStepSelector(${JSON.stringify(step.signature)}, ${selectors}.slice(0, attempt));`);
+          writer.line(`${selectors}[attempt] = ${healed}.selector;`);
+        });
+      }
+      writer.line(tracked
+        ? `await trackSelector(${toJsString(step.id)}, ${toJsString(step.type)}, ${selectors}[attempt], attempt, ${attempts}[attempt]);`
+        : `await ${attempts}[attempt]();`);
+      if (healable) {
+        writer.line(`if (${healed}) recordHealedSelector(${toJsString(step.id)}, ${selectors}.slice(0, attempt), ${healed});`);
+      }
+      if (options.stepEvents) {
+        writer.line('if (attempt > 0) stepRun.fallbackUsed = attempt - 1;');
+      }
+      writer.line('break;');
+    }, '} catch (attemptError) {');
+    writer.indent(() => {
+      writer.line(`if (attempt === ${attempts}.length - 1) throw attemptError;`);
+      writer.line("console.warn('🔄 فشلت المحاولة', attempt + 1, '- تجربة البديل التالي:', attemptError.message);");
+    });
+    writer.line('}');
+  });
+}
+
+/**
+ * كتابة الخطوات الداخلية لفرع - سطر فارغ بين كل خطوتين
+ */
+function writeBranch(writer: CodeWriter, steps: StepNode[] | undefined, path: number[], options: ScriptGenerationOptions): void {
+  (steps || []).forEach((child, index) => {
+    if (index > 0) writer.line();
+    writeStep(writer, child, [...path, index], options);
+  });
+}
+
+/**
+ * توليد كود خطوة واحدة (بدون مسافات بادئة)
+ */
+export function generateStepCode(step: StepNode, index: number): string {
+  const writer = new CodeWriter();
+  writeStepCode(writer, step, [index], {});
+  return writer.toString().replace(/\n$/, '');
+}
+
+function writeStepCode(writer: CodeWriter, step: StepNode, path: number[], options: ScriptGenerationOptions): void {
+  const params = step.params;
+  const key = stepKey(path);
+
+  switch (step.type) {
+    case 'navigate':
+      writer.line(`await page.goto(${toJsTemplate(params.url)});`);
+      return;
+    case 'click':
+      writer.line(`await page.click(${selectorCode(params, key)});`);
+      return;
+    case 'type':
+    case 'fillForm':
+      writer.line(`await page.fill(${selectorCode(params, key)}, ${toJsTemplate(params.text)});`);
+      return;
+    case 'select':
+      writer.line(`await page.selectOption(${selectorCode(params, key)}, ${toJsTemplate(params.value)});`);
+      return;
+    case 'wait':
+      if (params.type === 'selector') {
+        writer.line(`await page.waitForSelector(${selectorCode(params, key)});`);
+      } else {
+        writer.line(`await page.waitForTimeout(${toJsNumber(params.duration, 1000)});`);
+      }
+      return;
+    case 'extract': {
+      const variable = `data_step${key}`;
+      if (hasSchema(params)) {
+        writer.block(`const ${variable} = await extractRecords(page, ${selectorCode(params, key)}, [`, () => {
+          writeSchemaFields(writer, params.schema!);
+        }, ']);');
+        writer.line(`results.push({ stepId: ${toJsString(step.id)}, data: ${variable}.records, errors: ${variable}.errors });`);
+        return;
+      }
+      const value = toPropertyAccess('el', params.attribute || 'textContent');
+      writer.line(`const ${variable} = await page.$$eval(${selectorCode(params, key)}, els => els.map(el => ${value}));`);
+      writer.line(`results.push({ stepId: ${toJsString(step.id)}, data: ${variable} });`);
+      return;
+    }
+    case 'screenshot':
+      writer.line(params.fullPage ? 'await page.screenshot({ fullPage: true });' : 'await page.screenshot();');
+      return;
+    case 'scroll': {
+      const position = !params.position || params.position === 'end'
+        ? 'document.body.scrollHeight'
+        : toJsNumber(params.position, 0);
+      writer.line(`await page.evaluate(() => window.scrollTo(0, ${position}));`);
+      return;
+    }
+    case 'video':
+      writer.line(`// تسجيل فيديو لمدة ${toJsNumber(params.duration, 30000)}ms`);
+      writer.line('await page.evaluate(() => { /* كود تسجيل الفيديو هنا */ });');
+      return;
+    case 'aiStep':
+      writer.line(`console.log('🤖 خطوة ذكية:', ${toJsTemplate(params.prompt)});`);
+      writer.line('await page.evaluate(() => { /* كود خطوة ذكية AI هنا */ });');
+      return;
+    case 'rawCode':
+      writer.lines(params.code || '');
+      return;
+    case 'crawl': {
+      const variable = `data_step${key}`;
+      writer.block(`const ${variable} = await crawlPages(page, {`, () => {
+        writer.line(`stepId: ${toJsString(step.id)},`);
+        writer.line(`selector: ${toJsTemplate(params.selector)},`);
+        writer.line(`pagination: ${toJsString(params.pagination === 'infiniteScroll' ? 'infiniteScroll' : 'nextLink')},`);
+        writer.line(`nextSelector: ${toJsTemplate(params.nextSelector)},`);
+        writer.line(`maxPages: ${toJsNumber(params.maxPages, 10)},`);
+        writer.line(`maxItems: ${toJsNumber(params.maxItems, 0)},`);
+        writer.line(`dedupeKey: ${toJsString(params.dedupeKey || 'href')},`);
+        writer.line(`checkpoint: ${params.checkpoint !== false},`);
+        if (hasSchema(params)) {
+          writer.block('fields: [', () => writeSchemaFields(writer, params.schema!), '],');
+        }
+      }, '});');
+      writer.line(`results.push({ stepId: ${toJsString(step.id)}, data: ${variable} });`);
+      return;
+    }
+    case 'assert': {
+      const assertion = params.assertion || 'visible';
+      writer.block('await runAssertion(page, {', () => {
+        writer.line(`stepId: ${toJsString(step.id)},`);
+        writer.line(`name: ${toJsString(params.label || describeAssertion(params))},`);
+        writer.line(`assertion: ${toJsString(assertion)},`);
+        if (assertion !== 'urlMatches' && assertion !== 'responseStatus') {
+          writer.line(`selector: ${toJsTemplate(params.selector)},`);
+        }
+        if (assertion === 'attribute') {
+          writer.line(`attribute: ${toJsString(params.attribute || 'href')},`);
+        }
+        if (assertion === 'responseStatus' && params.url) {
+          writer.line(`url: ${toJsTemplate(params.url)},`);
+        }
+        if (assertion === 'count') {
+          writer.line(`expected: ${toJsNumber(params.expected, 0)},`);
+          writer.line(`countOperator: ${toJsString(params.countOperator || 'equals')},`);
+        } else if (assertion === 'responseStatus') {
+          writer.line(`expected: ${toJsString(params.expected || '200')},`);
+        } else if (assertion !== 'visible') {
+          writer.line(`expected: ${toJsTemplate(params.expected)},`);
+        }
+        writer.line(`timeout: ${toJsNumber(params.timeout, 5000)},`);
+      }, '});');
+      return;
+    }
+    case 'setVariable':
+      writer.line(`setVariable(${toJsString(params.name)}, ${variableSourceExpression(params)}, ${toJsString(step.id)});`);
+      return;
+    case 'forEach': {
+      const selector = toJsTemplate(params.selector);
+      const count = `count_step${key}`;
+      const index = `index_step${key}`;
+      const element = `element_step${key}`;
+      const limit = Number(params.limit) > 0 ? `Math.min(${count}, ${toJsNumber(params.limit, 0)})` : count;
+
+      writer.line(`const ${count} = await page.locator(${selector}).count();`);
+      writer.block(`for (let ${index} = 0; ${index} < ${limit}; ${index}++) {`, () => {
+        writer.line(`const ${element} = page.locator(${selector}).nth(${index});`);
+        writer.block(`setVariable(${toJsString(params.itemVariable || 'item')}, {`, () => {
+          writer.line(`index: ${index},`);
+          writer.line(`text: ((await ${element}.textContent()) || '').trim(),`);
+          writer.line(`href: await ${element}.getAttribute('href'),`);
+          writer.line(`selector: ${selector} + ' >> nth=' + ${index},`);
+        }, `}, ${toJsString(step.id)});`);
+        if (step.children?.length) writer.line();
+        writeBranch(writer, step.children, path, options);
+      });
+      return;
+    }
+    case 'repeatUntil': {
+      const iteration = `iteration_step${key}`;
+      const condition = generateConditionExpression({ type: params.conditionType || 'element_visible', target: params.target || '' });
+      const stop = params.stopWhen === 'met' ? condition : `!(${condition})`;
+
+      writer.block(`for (let ${iteration} = 0; ${iteration} < ${toJsNumber(params.maxIterations, 20)}; ${iteration}++) {`, () => {
+        writeBranch(writer, step.children, path, options);
+        if (step.children?.length) writer.line();
+        writer.line(`if (${stop}) break;`);
+      });
+      return;
+    }
+    case 'if': {
+      const condition = generateConditionExpression({ type: params.conditionType || 'element_exists', target: params.target || '' });
+      const hasElse = !!step.elseChildren?.length;
+
+      writer.block(`if (${condition}) {`, () => {
+        writeBranch(writer, step.children, path, options);
+      }, hasElse ? '} else {' : '}');
+      if (hasElse) {
+        // فرع else يكمل الترقيم بعد فرع then حتى لا تتكرر أسماء المتغيرات
+        const offset = step.children?.length || 0;
+        writer.indent(() => {
+          (step.elseChildren || []).forEach((child, index) => {
+            if (index > 0) writer.line();
+            writeStep(writer, child, [...path, offset + index], options);
+          });
+        });
+        writer.line('}');
+      }
+      return;
+    }
+    default:
+      return;
+  }
+}
+
+/**
+ * حقول مخطط الاستخراج كمصفوفة كائنات - حقل واحد في كل سطر
+ */
+function writeSchemaFields(writer: CodeWriter, schema: ExtractionField[]): void {
+  schema.forEach(field => {
+    const parts = [
+      `name: ${toJsString(field.name)}`,
+      `selector: ${toJsString(field.selector)}`,
+      `source: ${toJsString(field.source || 'text')}`,
+      ...(field.source === 'attribute' ? [`attribute: ${toJsString(field.attribute || 'href')}`] : []),
+      `type: ${toJsString(field.type || 'text')}`,
+      `required: ${field.required === true}`,
+    ];
+    writer.line(`{ ${parts.join(', ')} },`);
+  });
+}
+
+function variableSourceExpression(params: StepParams): string {
+  switch (params.source) {
+    case 'attribute':
+      return `await page.getAttribute(${toJsTemplate(params.selector)}, ${toJsString(params.attribute || 'href')})`;
+    case 'url':
+      return 'page.url()';
+    case 'value':
+      return toJsTemplate(params.value);
+    case 'text':
+    default:
+      return `((await page.textContent(${toJsTemplate(params.selector)})) || '').trim()`;
+  }
+}
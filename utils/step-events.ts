@@ -0,0 +1,194 @@
+/**
+ * تحويل أحداث الخطوات في سجل تشغيل GitHub Actions إلى جلسة تنفيذ
+ * السكريبت المنشور يطبع سطراً لكل تغيير حالة خطوة (STEP_EVENTS_RUNTIME)
+ * وباقي أسطر السجل بين حدثين تُنسب للخطوة الجارية
+ * سجل الوظيفة لا يتاح إلا بعد انتهائها، فالحالة الحية تأتي من خطوات workflow (job.steps)
+ */
+
+import type { ExecutionSession, StepEvent, StepGraph, StepStatus, StepType } from '../types';
+import { STEP_EVENT_PREFIX, STEP_TYPE_LABELS } from './step-codegen';
+
+export type StepEventLog = {
+  events: StepEvent[];
+  logsByStep: Record<string, string[]>;
+};
+
+// ما نحتاجه من تشغيل GitHub (workflow run) لبناء الجلسة
+export type RunSummary = {
+  id: number;
+  status: string; // queued | in_progress | completed
+  conclusion: string | null;
+  run_started_at?: string;
+  created_at: string;
+  updated_at: string;
+};
+
+// وظيفة من /actions/runs/{id}/jobs مع خطوات workflow الخاصة بها
+export type WorkflowJob = {
+  id: number;
+  name: string;
+  status: string; // queued | in_progress | completed
+  conclusion: string | null;
+  steps?: WorkflowJobStep[];
+};
+
+export type WorkflowJobStep = {
+  name: string;
+  number: number;
+  status: string; // queued | in_progress | completed
+  conclusion: string | null; // success | failure | cancelled | skipped | timed_out
+  started_at?: string | null;
+  completed_at?: string | null;
+};
+
+// كل سطر في سجل الوظيفة يبدأ بطابع زمني ISO يضيفه GitHub
+const LOG_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z /;
+
+export function parseStepEventLog(log: string): StepEventLog {
+  const events: StepEvent[] = [];
+  const logsByStep: Record<string, string[]> = {};
+  let currentStepId: string | null = null;
+
+  for (const rawLine of log.split(/\r?\n/)) {
+    const line = rawLine.replace(LOG_TIMESTAMP_PATTERN, '');
+    const markerIndex = line.indexOf(STEP_EVENT_PREFIX);
+
+    if (markerIndex !== -1) {
+      try {
+        const event = JSON.parse(line.slice(markerIndex + STEP_EVENT_PREFIX.length)) as StepEvent;
+        events.push(event);
+        currentStepId = event.status === 'running' ? event.stepId : null;
+        continue;
+      } catch {
+        // سطر مقطوع (السجل ما زال يُكتب) - يُعامل كسطر عادي
+      }
+    }
+
+    if (currentStepId && line.trim()) {
+      (logsByStep[currentStepId] ||= []).push(line);
+    }
+  }
+
+  return { events, logsByStep };
+}
+
+function getStepLabel(stepType: string): string {
+  return STEP_TYPE_LABELS[stepType as StepType] || stepType;
+}
+
+function toJobStepStatus(step: WorkflowJobStep): StepStatus['status'] {
+  if (step.status === 'queued') return 'pending';
+  if (step.status !== 'completed') return 'running';
+  if (step.conclusion === 'success') return 'success';
+  if (step.conclusion === 'skipped') return 'skipped';
+  return 'failed';
+}
+
+/**
+ * خطوات workflow للوظائف كما يعيدها GitHub - اسم الوظيفة يسبق الخطوة عند تعدد الوظائف
+ */
+export function getJobStepStatuses(jobs: WorkflowJob[]): StepStatus[] {
+  return jobs.flatMap(job =>
+    (job.steps || []).map(step => {
+      const status = toJobStepStatus(step);
+      const startTime = step.started_at ? new Date(step.started_at) : undefined;
+      const endTime = step.status === 'completed' && step.completed_at ? new Date(step.completed_at) : undefined;
+      return {
+        stepId: `job-${job.id}-${step.number}`,
+        stepNumber: step.number,
+        stepType: jobs.length > 1 ? `${job.name} › ${step.name}` : step.name,
+        status,
+        startTime,
+        endTime,
+        duration: startTime && endTime ? endTime.getTime() - startTime.getTime() : undefined,
+        error: status === 'failed' ? `انتهت الخطوة بـ ${step.conclusion}` : undefined,
+        logs: [],
+        retryCount: 0,
+      };
+    })
+  );
+}
+
+/**
+ * بناء الجلسة من حالة التشغيل والأحداث - خطوات المخطط التي لم تبدأ تظهر pending
+ * liveJobs: وظائف بلا أحداث خطوات بعد (جارية، أو سكريبت لا يطبعها) تُعرض بخطوات workflow
+ * ما دامت لا توجد أحداث، وتُضاف بعد خطوات المخطط عند وجودها
+ */
+export function buildExecutionSession(
+  run: RunSummary,
+  taskName: string,
+  eventLog: StepEventLog,
+  graph?: StepGraph | null,
+  liveJobs: WorkflowJob[] = []
+): ExecutionSession {
+  const jobSteps = getJobStepStatuses(liveJobs);
+  const showGraph = eventLog.events.length > 0 || jobSteps.length === 0;
+
+  const steps = new Map<string, StepStatus>();
+  (showGraph ? graph?.steps || [] : []).forEach((step, index) => {
+    steps.set(step.id, {
+      stepId: step.id,
+      stepNumber: index + 1,
+      stepType: getStepLabel(step.type),
+      status: 'pending',
+      logs: [],
+      retryCount: 0,
+    });
+  });
+
+  for (const event of eventLog.events) {
+    const step: StepStatus = steps.get(event.stepId) || {
+      stepId: event.stepId,
+      stepNumber: event.stepNumber,
+      stepType: getStepLabel(event.stepType),
+      status: 'pending',
+      logs: [],
+      retryCount: 0,
+    };
+    const timestamp = new Date(event.timestamp);
+
+    step.status = event.status;
+    step.retryCount = event.retryCount;
+    step.fallbackUsed = event.fallbackUsed;
+    if (event.status === 'running') {
+      step.startTime = timestamp;
+    } else {
+      step.endTime = timestamp;
+      step.duration = event.duration;
+      step.error = event.error;
+    }
+    step.logs = eventLog.logsByStep[event.stepId] || [];
+    steps.set(event.stepId, step);
+  }
+
+  const finished = run.status === 'completed';
+  const graphSteps = Array.from(steps.values()).sort((a, b) => a.stepNumber - b.stepNumber);
+  const offset = graphSteps.length;
+  const stepList = [...graphSteps, ...jobSteps.map((step, index) => ({ ...step, stepNumber: offset + index + 1 }))];
+
+  // انتهى التشغيل: خطوة بقيت running توقفت مع الوظيفة، والتي لم تبدأ لم تُنفَّذ
+  if (finished) {
+    stepList.forEach(step => {
+      if (step.status === 'running' && run.conclusion === 'success') {
+        step.status = 'success';
+      } else if (step.status === 'running') {
+        step.status = 'failed';
+        step.error = run.conclusion === 'cancelled' ? 'أُلغي التشغيل' : 'توقف التشغيل أثناء الخطوة';
+      } else if (step.status === 'pending') {
+        step.status = 'skipped';
+      }
+    });
+  }
+
+  return {
+    id: String(run.id),
+    taskName,
+    startTime: new Date(run.run_started_at || run.created_at),
+    endTime: finished ? new Date(run.updated_at) : undefined,
+    status: !finished ? 'running' : run.conclusion === 'success' ? 'completed' : 'failed',
+    steps: stepList,
+    totalSteps: stepList.length,
+    completedSteps: stepList.filter(step => step.status === 'success' || step.status === 'skipped').length,
+    failedSteps: stepList.filter(step => step.status === 'failed').length,
+  };
+}
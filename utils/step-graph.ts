@@ -0,0 +1,500 @@
+/**
+ * التمثيل الوسيط الموحد للخطوات (Step Graph IR)
+ * - إنشاء الخطوات بقيم افتراضية
+ * - التحقق من صحة المخطط (schema validation)
+ * - ترحيل الأشكال القديمة من المنشئات المختلفة
+ */
+
+import type {
+  Task,
+  StepType,
+  StepParams,
+  StepNode,
+  StepGraph,
+  StepCondition,
+  ExtractionFieldType,
+  AssertionType,
+} from '../types';
+import type { ContextVariable } from './ai-brain/context-awareness-engine';
+import { generateScriptFromGraph } from './step-codegen';
+
+export const STEP_GRAPH_VERSION = 1;
+
+export const STEP_TYPES: StepType[] = [
+  'navigate',
+  'click',
+  'type',
+  'select',
+  'wait',
+  'extract',
+  'screenshot',
+  'scroll',
+  'video',
+  'fillForm',
+  'aiStep',
+  'rawCode',
+  'forEach',
+  'repeatUntil',
+  'if',
+  'setVariable',
+  'crawl',
+  'assert',
+];
+
+// الخطوات التي تحتوي خطوات داخلية (children) - if لها أيضاً elseChildren
+export const CONTAINER_STEP_TYPES: StepType[] = ['forEach', 'repeatUntil', 'if'];
+
+export type StepBranch = 'children' | 'elseChildren';
+
+// متغير معرّف في المخطط - نفس حقول ContextVariable المعروفة قبل التشغيل
+export type StepVariable = Pick<ContextVariable, 'name' | 'type' | 'sourceAction'>;
+
+const CONDITION_TYPES: StepCondition['type'][] = [
+  'element_exists',
+  'element_visible',
+  'url_contains',
+  'text_contains',
+];
+
+const CONDITION_ACTIONS: StepCondition['action'][] = ['continue', 'skip', 'retry', 'fail'];
+
+const EXTRACTION_FIELD_TYPES: ExtractionFieldType[] = ['text', 'number', 'price', 'date', 'url'];
+
+const ASSERTION_TYPES: AssertionType[] = [
+  'visible',
+  'textEquals',
+  'textContains',
+  'textMatches',
+  'urlMatches',
+  'count',
+  'attribute',
+  'responseStatus',
+];
+
+export class StepGraphValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`مخطط الخطوات غير صالح: ${errors.join('; ')}`);
+    this.name = 'StepGraphValidationError';
+  }
+}
+
+/**
+ * المعاملات الافتراضية لكل نوع خطوة
+ */
+export function getDefaultStepParams(type: StepType): StepParams {
+  switch (type) {
+    case 'navigate':
+      return { url: '' };
+    case 'click':
+      return { selector: '' };
+    case 'type':
+      return { selector: '', text: '' };
+    case 'select':
+      return { selector: '', value: '' };
+    case 'wait':
+      return { type: 'time', duration: 1000 };
+    case 'extract':
+      return { selector: '' };
+    case 'screenshot':
+      return { fullPage: false };
+    case 'scroll':
+      return { position: 'end' };
+    case 'video':
+      return { duration: 30000 };
+    case 'fillForm':
+      return { selector: '', text: '' };
+    case 'aiStep':
+      return { prompt: '' };
+    case 'rawCode':
+      return { code: '' };
+    case 'forEach':
+      return { selector: '', itemVariable: 'item', limit: 0 };
+    case 'repeatUntil':
+      return { conditionType: 'element_visible', target: '', stopWhen: 'not_met', maxIterations: 20 };
+    case 'if':
+      return { conditionType: 'element_exists', target: '' };
+    case 'setVariable':
+      return { name: '', source: 'text', selector: '' };
+    case 'crawl':
+      return {
+        selector: '',
+        pagination: 'nextLink',
+        nextSelector: 'a[rel="next"], .pagination .next a, a.next',
+        maxPages: 10,
+        maxItems: 0,
+        dedupeKey: 'href',
+        checkpoint: true,
+      };
+    case 'assert':
+      return { assertion: 'visible', selector: '', expected: '', timeout: 5000 };
+    default:
+      return {};
+  }
+}
+
+let stepCounter = 0;
+
+export function generateStepId(): string {
+  stepCounter = (stepCounter + 1) % 1000;
+  return `${Date.now()}${stepCounter.toString().padStart(3, '0')}`;
+}
+
+/**
+ * إنشاء خطوة جديدة بقيم افتراضية
+ */
+export function createStep(type: StepType, overrides: Partial<StepNode> = {}): StepNode {
+  const isContainer = CONTAINER_STEP_TYPES.includes(type);
+  return {
+    id: generateStepId(),
+    type,
+    params: getDefaultStepParams(type),
+    fallbacks: [],
+    conditions: [],
+    errorHandling: {
+      ignoreErrors: false,
+      // إعادة حلقة أو فرع كامل نادراً ما تكون مقصودة، والتحقق يعيد الفحص بنفسه حتى مهلته
+      retryCount: isContainer || type === 'assert' ? 0 : 3,
+    },
+    ...(isContainer ? { children: [] } : {}),
+    ...(type === 'if' ? { elseChildren: [] } : {}),
+    ...overrides,
+  };
+}
+
+export function isContainerStep(step: StepNode): boolean {
+  return CONTAINER_STEP_TYPES.includes(step.type);
+}
+
+export function createStepGraph(steps: StepNode[] = []): StepGraph {
+  return { version: STEP_GRAPH_VERSION, steps };
+}
+
+/**
+ * التحقق من صحة مخطط الخطوات
+ */
+export function validateStepGraph(value: unknown): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object') {
+    return { valid: false, errors: ['المخطط يجب أن يكون كائناً'] };
+  }
+
+  const graph = value as Record<string, any>;
+
+  if (typeof graph.version !== 'number') {
+    errors.push('version مفقود');
+  } else if (graph.version > STEP_GRAPH_VERSION) {
+    errors.push(`إصدار غير مدعوم: ${graph.version}`);
+  }
+
+  if (!Array.isArray(graph.steps)) {
+    errors.push('steps يجب أن تكون مصفوفة');
+    return { valid: false, errors };
+  }
+
+  const ids = new Set<string>();
+  validateSteps(graph.steps, 'steps', ids, errors);
+
+  return { valid: errors.length === 0, errors };
+}
+
+function validateSteps(steps: any[], path: string, ids: Set<string>, errors: string[]): void {
+  steps.forEach((step: any, index: number) => {
+    const where = `${path}[${index}]`;
+    if (!step || typeof step !== 'object') {
+      errors.push(`${where}: ليست كائناً`);
+      return;
+    }
+    if (typeof step.id !== 'string' || !step.id) {
+      errors.push(`${where}.id مفقود`);
+    } else if (ids.has(step.id)) {
+      errors.push(`${where}.id مكرر: ${step.id}`);
+    } else {
+      ids.add(step.id);
+    }
+    if (!STEP_TYPES.includes(step.type)) {
+      errors.push(`${where}.type غير معروف: ${step.type}`);
+    }
+    if (!step.params || typeof step.params !== 'object') {
+      errors.push(`${where}.params مفقود`);
+    } else {
+      if (step.params.schema !== undefined) {
+        validateSchema(step.params.schema, `${where}.params.schema`, errors);
+      }
+      if (step.type === 'assert' && !ASSERTION_TYPES.includes(step.params.assertion)) {
+        errors.push(`${where}.params.assertion غير معروف: ${step.params.assertion}`);
+      }
+    }
+    if (!Array.isArray(step.fallbacks)) {
+      errors.push(`${where}.fallbacks يجب أن تكون مصفوفة`);
+    }
+    if (step.signature !== undefined && typeof step.signature?.tag !== 'string') {
+      errors.push(`${where}.signature يجب أن تحتوي tag`);
+    }
+    if (!Array.isArray(step.conditions)) {
+      errors.push(`${where}.conditions يجب أن تكون مصفوفة`);
+    } else {
+      step.conditions.forEach((condition: any, i: number) => {
+        if (!CONDITION_TYPES.includes(condition?.type) || !CONDITION_ACTIONS.includes(condition?.action)) {
+          errors.push(`${where}.conditions[${i}] غير صالح`);
+        }
+      });
+    }
+    if (
+      !step.errorHandling ||
+      typeof step.errorHandling.ignoreErrors !== 'boolean' ||
+      typeof step.errorHandling.retryCount !== 'number'
+    ) {
+      errors.push(`${where}.errorHandling غير صالح`);
+    }
+    (['children', 'elseChildren'] as StepBranch[]).forEach(branch => {
+      if (step[branch] === undefined) return;
+      if (!Array.isArray(step[branch])) {
+        errors.push(`${where}.${branch} يجب أن تكون مصفوفة`);
+      } else if (!CONTAINER_STEP_TYPES.includes(step.type) || (branch === 'elseChildren' && step.type !== 'if')) {
+        errors.push(`${where}.${branch} غير مسموح لنوع ${step.type}`);
+      } else {
+        validateSteps(step[branch], `${where}.${branch}`, ids, errors);
+      }
+    });
+  });
+}
+
+function validateSchema(schema: any, path: string, errors: string[]): void {
+  if (!Array.isArray(schema)) {
+    errors.push(`${path} يجب أن تكون مصفوفة`);
+    return;
+  }
+  const names = new Set<string>();
+  schema.forEach((field: any, i: number) => {
+    if (typeof field?.name !== 'string' || !field.name) {
+      errors.push(`${path}[${i}].name مفقود`);
+    } else if (names.has(field.name)) {
+      errors.push(`${path}[${i}].name مكرر: ${field.name}`);
+    } else {
+      names.add(field.name);
+    }
+    if (!EXTRACTION_FIELD_TYPES.includes(field?.type)) {
+      errors.push(`${path}[${i}].type غير معروف: ${field?.type}`);
+    }
+  });
+}
+
+/**
+ * توحيد خطوة قادمة من شكل قديم (VisualBuilder, stepsData...) إلى StepNode
+ */
+export function normalizeStep(raw: any, index: number): StepNode {
+  const type: StepType = STEP_TYPES.includes(raw?.type) ? raw.type : 'rawCode';
+  const params: StepParams = { ...getDefaultStepParams(type), ...(raw?.params || {}) };
+
+  // VisualBuilder كان يحفظ انتظار زمني بدون تحديد النوع
+  if (type === 'wait' && !raw?.params?.type) {
+    params.type = raw?.params?.selector ? 'selector' : 'time';
+  }
+
+  const id = raw?.id ? String(raw.id) : `step-${index + 1}`;
+  const step: StepNode = {
+    id,
+    type,
+    params,
+    fallbacks: Array.isArray(raw?.fallbacks) ? raw.fallbacks : [],
+    conditions: Array.isArray(raw?.conditions) ? raw.conditions : [],
+    errorHandling: {
+      ignoreErrors: raw?.errorHandling?.ignoreErrors ?? false,
+      retryCount: raw?.errorHandling?.retryCount ?? 0,
+    },
+  };
+
+  if (raw?.signature?.tag) {
+    step.signature = raw.signature;
+  }
+
+  if (CONTAINER_STEP_TYPES.includes(type)) {
+    const normalizeBranch = (branch: any) =>
+      (Array.isArray(branch) ? branch : []).map((child: any, i: number) => normalizeStep(child, i));
+    step.children = normalizeBranch(raw?.children);
+    if (type === 'if') {
+      step.elseChildren = normalizeBranch(raw?.elseChildren);
+    }
+  }
+
+  return step;
+}
+
+/**
+ * تحليل قيمة مجهولة إلى StepGraph مع ترحيل الأشكال القديمة
+ * يرمي StepGraphValidationError إذا لم يكن المخطط صالحاً بعد الترحيل
+ */
+export function parseStepGraph(value: unknown): StepGraph {
+  let data: any = value;
+  if (typeof data === 'string') {
+    data = JSON.parse(data);
+  }
+
+  if (typeof data?.version === 'number' && data.version > STEP_GRAPH_VERSION) {
+    throw new StepGraphValidationError([`إصدار غير مدعوم: ${data.version}`]);
+  }
+
+  // مصفوفة خطوات مجردة أو { steps } بدون إصدار (VisualBuilder القديم)
+  const rawSteps = Array.isArray(data) ? data : data?.steps;
+  if (!Array.isArray(rawSteps)) {
+    throw new StepGraphValidationError(['steps يجب أن تكون مصفوفة']);
+  }
+
+  const graph = createStepGraph(
+    rawSteps.map((step: any, index: number) => normalizeStep(step, index))
+  );
+
+  const { valid, errors } = validateStepGraph(graph);
+  if (!valid) {
+    throw new StepGraphValidationError(errors);
+  }
+
+  return graph;
+}
+
+/**
+ * قراءة مخطط الخطوات من مهمة - من metadata أولاً ثم من الأشكال القديمة
+ */
+export function readTaskStepGraph(task: Partial<Task> | null | undefined): StepGraph | null {
+  if (!task) return null;
+
+  const candidates = [task.metadata?.stepGraph, task.metadata?.stepsData, task.script];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return parseStepGraph(candidate);
+    } catch {
+      // ليس مخططاً صالحاً - جرب المصدر التالي
+    }
+  }
+
+  return null;
+}
+
+/**
+ * كتابة المخطط في المهمة وتوليد script منه
+ */
+export function applyStepGraph<T extends Partial<Task>>(task: T, graph: StepGraph): T {
+  const { stepsData, ...metadata } = task.metadata || {};
+  return {
+    ...task,
+    script: generateScriptFromGraph(graph),
+    metadata: {
+      ...metadata,
+      stepGraph: graph,
+    },
+  };
+}
+
+/**
+ * أول رابط navigate في المخطط - يُستخدم كـ targetUrl للمهمة
+ */
+export function getGraphTargetUrl(graph: StepGraph): string {
+  return graph.steps.find(step => step.type === 'navigate')?.params.url || '';
+}
+
+// ========== عمليات على شجرة الخطوات ==========
+
+/**
+ * زيارة كل خطوة في الشجرة (عمقاً أولاً) مع الخطوة الأم
+ */
+export function walkSteps(steps: StepNode[], visit: (step: StepNode, parent: StepNode | null) => void, parent: StepNode | null = null): void {
+  for (const step of steps) {
+    visit(step, parent);
+    walkSteps(step.children || [], visit, step);
+    walkSteps(step.elseChildren || [], visit, step);
+  }
+}
+
+export function findStepInTree(steps: StepNode[], id: string): StepNode | undefined {
+  let found: StepNode | undefined;
+  walkSteps(steps, step => {
+    if (!found && step.id === id) found = step;
+  });
+  return found;
+}
+
+/**
+ * تطبيق تحويل على كل قائمة خطوات في الشجرة (الجذر وكل الفروع)
+ */
+function mapStepLists(steps: StepNode[], transform: (list: StepNode[]) => StepNode[]): StepNode[] {
+  return transform(steps).map(step => {
+    if (!step.children && !step.elseChildren) return step;
+    return {
+      ...step,
+      ...(step.children ? { children: mapStepLists(step.children, transform) } : {}),
+      ...(step.elseChildren ? { elseChildren: mapStepLists(step.elseChildren, transform) } : {}),
+    };
+  });
+}
+
+export function updateStepInTree(steps: StepNode[], id: string, updates: Partial<StepNode>): StepNode[] {
+  return mapStepLists(steps, list => list.map(step => (step.id === id ? { ...step, ...updates } : step)));
+}
+
+export function removeStepFromTree(steps: StepNode[], id: string): StepNode[] {
+  return mapStepLists(steps, list => list.filter(step => step.id !== id));
+}
+
+/**
+ * تحريك خطوة داخل قائمتها (لا تنتقل بين الفروع)
+ */
+export function moveStepInTree(steps: StepNode[], id: string, direction: 'up' | 'down'): StepNode[] {
+  return mapStepLists(steps, list => {
+    const index = list.findIndex(step => step.id === id);
+    const targetIndex = direction === 'up' ? index - 1 : index + 1;
+    if (index === -1 || targetIndex < 0 || targetIndex >= list.length) return list;
+    const moved = [...list];
+    [moved[index], moved[targetIndex]] = [moved[targetIndex], moved[index]];
+    return moved;
+  });
+}
+
+/**
+ * إضافة خطوة في نهاية الجذر أو في فرع خطوة تحكم
+ */
+export function insertStepInTree(
+  steps: StepNode[],
+  newStep: StepNode,
+  target?: { parentId: string; branch: StepBranch } | null
+): StepNode[] {
+  if (!target) return [...steps, newStep];
+
+  const parent = findStepInTree(steps, target.parentId);
+  if (!parent) return [...steps, newStep];
+
+  return updateStepInTree(steps, parent.id, {
+    [target.branch]: [...(parent[target.branch] || []), newStep],
+  });
+}
+
+/**
+ * نسخة من الخطوة بمعرفات جديدة لها ولكل خطواتها الداخلية
+ */
+export function cloneStepWithNewIds(step: StepNode): StepNode {
+  return {
+    ...step,
+    id: generateStepId(),
+    ...(step.children ? { children: step.children.map(cloneStepWithNewIds) } : {}),
+    ...(step.elseChildren ? { elseChildren: step.elseChildren.map(cloneStepWithNewIds) } : {}),
+  };
+}
+
+/**
+ * المتغيرات التي يعرّفها المخطط ({{name}}) بترتيب ظهورها
+ */
+export function getGraphVariables(graph: StepGraph): StepVariable[] {
+  const variables = new Map<string, StepVariable>();
+
+  walkSteps(graph.steps, step => {
+    if (step.type === 'setVariable' && step.params.name) {
+      variables.set(step.params.name, { name: step.params.name, type: 'string', sourceAction: step.id });
+    }
+    if (step.type === 'forEach' && step.params.itemVariable) {
+      variables.set(step.params.itemVariable, { name: step.params.itemVariable, type: 'object', sourceAction: step.id });
+    }
+  });
+
+  return Array.from(variables.values());
+}
@@ -0,0 +1,555 @@
+/**
+ * محلل السكريبتات - يعيد بناء StepGraph من سكريبت مولَّد أو مكتوب يدوياً
+ * - السكريبتات المولَّدة تحمل تعليق @step لكل خطوة: تُستعاد الخطوة كاملة
+ *   (fallbacks, conditions, errorHandling) إذا لم يُعدَّل كودها
+ * - الكود المعروف (goto, click, fill...) يُحوَّل إلى خطوات
+ * - أي كود غير معروف يُحفظ كخطوة rawCode فلا يضيع شيء
+ */
+
+import type { StepGraph, StepNode, StepParams } from '../types';
+import { STEP_MARKER_PREFIX, VARIABLES_RUNTIME, SECRETS_RUNTIME, EXTRACTION_RUNTIME, CRAWL_RUNTIME, ASSERTIONS_RUNTIME, generateStepBlock } from './step-codegen';
+import { createStep, createStepGraph, validateStepGraph } from './step-graph';
+
+const WRAPPER_HEADER = /^\s*async function [A-Za-z_$][\w$]*\(page\)\s*\{\s*(?:const results = \[\];\s*)?try\s*\{[ \t]*\n/;
+const WRAPPER_FOOTER = /^\}\s*catch\s*\(error\)\s*\{\s*console\.error\([^\n]*\);\s*return \{[^\n]*\};?\s*\}\s*\}\s*$/;
+const STEP_HEADER = /^\/\/ (?:Step|خطوة) (\d+)/;
+const SUCCESS_TAIL = [
+  /^console\.log\((['"])✅ اكتملت المهمة بنجاح\1\);?$/,
+  /^return \{ success: true(?:, results(?:, variables)?(?:, assertions)?)? \};?$/,
+  // حصيلة التحققات قبل النجاح - تُولَّد مع ASSERTIONS_RUNTIME
+  /^const failedAssertions = assertions\.filter\([^\n]*\);?$/,
+  /^if \(failedAssertions\.length > 0\) \{[\s\S]*\}$/,
+];
+
+type Segment = {
+  stepNumber?: number;
+  marker?: StepNode;
+  chunks: string[];
+};
+
+/**
+ * تحليل سكريبت إلى StepGraph
+ */
+export function parseScriptToGraph(script: string): StepGraph {
+  if (!script || !script.trim()) {
+    return createStepGraph([]);
+  }
+
+  const chunks = splitStatements(extractScriptBody(script));
+  const steps: StepNode[] = [];
+
+  for (const segment of groupSegments(chunks)) {
+    if (segment.marker && segment.stepNumber && markerMatches(segment)) {
+      steps.push(segment.marker);
+      continue;
+    }
+
+    const parsed = parseChunks(segment.chunks);
+    // كود خطوة عُدّل يدوياً لكنه بقي خطوة واحدة من نفس النوع: نحتفظ بهويتها وبدائلها وشروطها
+    if (segment.marker && parsed.length === 1 && parsed[0].type === segment.marker.type) {
+      const { id, fallbacks, conditions } = segment.marker;
+      steps.push({ ...parsed[0], id, fallbacks, conditions });
+    } else {
+      steps.push(...parsed);
+    }
+  }
+
+  return createStepGraph(ensureUniqueIds(steps));
+}
+
+/**
+ * استخراج جسم try من غلاف runTask المولَّد - أو السكريبت كاملاً إن لم يطابق
+ */
+export function extractScriptBody(script: string): string {
+  // أوقات التشغيل (المتغيرات، الأسرار، الاستخراج، الزحف، التحققات) تُولَّد تلقائياً - ليست خطوات
+  for (const runtime of [VARIABLES_RUNTIME, SECRETS_RUNTIME, EXTRACTION_RUNTIME, CRAWL_RUNTIME, ASSERTIONS_RUNTIME]) {
+    script = script.replace(runtime.split('\n').map(line => (line ? `  ${line}` : line)).join('\n') + '\n', '');
+  }
+
+  const header = script.match(WRAPPER_HEADER);
+  const catchIndex = script.lastIndexOf('} catch (error) {');
+  if (!header || catchIndex < header[0].length) {
+    return script;
+  }
+  if (!WRAPPER_FOOTER.test(script.slice(catchIndex))) {
+    return script;
+  }
+
+  const bodyChunks = splitStatements(script.slice(header[0].length, catchIndex));
+  while (bodyChunks.length > 0 && SUCCESS_TAIL.some(pattern => pattern.test(bodyChunks[bodyChunks.length - 1].trim()))) {
+    bodyChunks.pop();
+  }
+  return bodyChunks.join('\n');
+}
+
+/**
+ * تقسيم الكود إلى عبارات على مستوى الجذر مع مراعاة الأقواس والنصوص والتعليقات
+ */
+export function splitStatements(source: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let depth = 0;
+  let i = 0;
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(dedent(current));
+    }
+    current = '';
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      current += source.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      current += source.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      const stop = skipString(source, i);
+      current += source.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (char === '(' || char === '[' || char === '{') depth++;
+    if (char === ')' || char === ']' || char === '}') depth = Math.max(0, depth - 1);
+
+    if (char === '\n' && depth === 0) {
+      flush();
+    } else {
+      current += char;
+    }
+    i++;
+  }
+
+  flush();
+  return chunks;
+}
+
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  let i = start + 1;
+  let templateDepth = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (quote === '`') {
+      if (char === '$' && source[i + 1] === '{') {
+        templateDepth++;
+        i += 2;
+        continue;
+      }
+      if (char === '}' && templateDepth > 0) {
+        templateDepth--;
+      } else if (char === '`' && templateDepth === 0) {
+        return i + 1;
+      }
+    } else if (char === quote || char === '\n') {
+      return i + 1;
+    }
+    i++;
+  }
+
+  return source.length;
+}
+
+function dedent(code: string): string {
+  const lines = code.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n');
+  const indents = lines
+    .filter(line => line.trim())
+    .map(line => line.match(/^[ \t]*/)![0].length);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(Math.min(minIndent, line.match(/^[ \t]*/)![0].length))).join('\n');
+}
+
+/**
+ * تجميع العبارات في مقاطع: كل مقطع يبدأ بتعليق "// Step N"
+ */
+function groupSegments(chunks: string[]): Segment[] {
+  const segments: Segment[] = [];
+  let current: Segment = { chunks: [] };
+
+  for (const chunk of chunks) {
+    const trimmed = chunk.trim();
+    const header = trimmed.match(STEP_HEADER);
+
+    if (header && !trimmed.includes('\n')) {
+      if (current.chunks.length > 0) segments.push(current);
+      current = { stepNumber: parseInt(header[1], 10), chunks: [chunk] };
+      continue;
+    }
+
+    if (trimmed.startsWith(STEP_MARKER_PREFIX) && current.stepNumber && !current.marker && current.chunks.length === 1) {
+      current.marker = parseMarker(trimmed);
+    }
+
+    current.chunks.push(chunk);
+  }
+
+  if (current.chunks.length > 0) segments.push(current);
+  return segments;
+}
+
+/**
+ * الخطوة تُستعاد كما حُفظت تماماً - أي @step غير صالح يُتجاهل
+ */
+function parseMarker(line: string): StepNode | undefined {
+  try {
+    const step = JSON.parse(line.slice(STEP_MARKER_PREFIX.length));
+    return validateStepGraph(createStepGraph([step])).valid ? step : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * الخطوة تُستعاد من @step فقط إذا طابق الكود ما كان المولّد سينتجه لها
+ */
+function markerMatches(segment: Segment): boolean {
+  const expected = generateStepBlock(segment.marker!, segment.stepNumber! - 1);
+  return normalizeCode(expected) === normalizeCode(segment.chunks.join('\n'));
+}
+
+/**
+ * توحيد الكود للمقارنة - بدون المسافات البادئة والأسطر الفارغة
+ */
+function normalizeCode(code: string): string {
+  return code
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * تحويل عبارات مقطع إلى خطوات - الكود غير المعروف يُجمع في rawCode
+ */
+function parseChunks(chunks: string[]): StepNode[] {
+  const steps: StepNode[] = [];
+  let raw: string[] = [];
+  let pendingRetries: { count: number; chunk: string } | null = null;
+
+  const flushRaw = () => {
+    if (raw.length > 0) {
+      steps.push(rawStep(raw.join('\n')));
+      raw = [];
+    }
+  };
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const trimmed = chunk.trim();
+
+    if (STEP_HEADER.test(trimmed) || trimmed.startsWith(STEP_MARKER_PREFIX)) {
+      continue;
+    }
+
+    const retryDeclaration = trimmed.match(/^let retries_step\d+ = (\d+);?$/);
+    if (retryDeclaration) {
+      if (pendingRetries) raw.push(pendingRetries.chunk);
+      pendingRetries = { count: parseInt(retryDeclaration[1], 10), chunk };
+      continue;
+    }
+
+    const retried = pendingRetries && /^while \(retries_step\d+ > 0\)/.test(trimmed)
+      ? parseRetryLoop(trimmed, pendingRetries.count)
+      : null;
+    if (pendingRetries) {
+      if (!retried) raw.push(pendingRetries.chunk);
+      pendingRetries = null;
+    }
+    if (retried) {
+      flushRaw();
+      steps.push(retried);
+      continue;
+    }
+
+    // extract يتكون من عبارتين: $$eval ثم results.push
+    const extracted = parseExtract(trimmed, chunks[i + 1]?.trim());
+    if (extracted) {
+      flushRaw();
+      steps.push(extracted.step);
+      i += extracted.consumed - 1;
+      continue;
+    }
+
+    const step = parseStatement(trimmed);
+    if (step) {
+      flushRaw();
+      steps.push(step);
+    } else {
+      raw.push(chunk);
+    }
+  }
+
+  if (pendingRetries) raw.push(pendingRetries.chunk);
+  flushRaw();
+  return steps;
+}
+
+/**
+ * فك حلقة إعادة المحاولة المولَّدة واستعادة retryCount و ignoreErrors
+ */
+function parseRetryLoop(loop: string, retryCount: number): StepNode | null {
+  const inner = loop.match(/^while \(retries_step\d+ > 0\) \{\s*try \{\n([\s\S]*?)\n\s*break;\s*\} catch \(stepError\) \{/);
+  if (!inner) return null;
+
+  const innerSteps = parseChunks(splitStatements(inner[1]));
+  if (innerSteps.length !== 1) return null;
+
+  const step = innerSteps[0];
+  step.errorHandling = {
+    retryCount,
+    ignoreErrors: loop.includes('تخطي الخطأ'),
+  };
+  return step;
+}
+
+function parseExtract(statement: string, nextStatement?: string): { step: StepNode; consumed: number } | null {
+  const match = statement.match(
+    /^const ([A-Za-z_$][\w$]*) = await page\.\$\$eval\((.+), els => els\.map\(el => el(?:\.([A-Za-z_$][\w$]*)|\[(.+)\])\)\);?$/
+  );
+  if (!match) return null;
+
+  const args = parseLiteralArgs(match[2]);
+  const attribute = match[3] ?? (match[4] ? parseLiteralArgs(match[4])?.[0] : undefined);
+  if (!args || args.length !== 1 || typeof args[0] !== 'string' || typeof attribute !== 'string') {
+    return null;
+  }
+
+  const params: StepParams = { selector: args[0] };
+  if (attribute !== 'textContent') params.attribute = attribute;
+  const step = plainStep('extract', params);
+
+  const push = nextStatement?.match(/^results\.push\(\{ stepId: (.+), data: ([A-Za-z_$][\w$]*) \}\);?$/);
+  if (push && push[2] === match[1]) {
+    const id = parseLiteralArgs(push[1])?.[0];
+    if (typeof id === 'string') step.id = id;
+    return { step, consumed: 2 };
+  }
+
+  return { step, consumed: 1 };
+}
+
+/**
+ * التعرف على عبارة واحدة معروفة - أي شكل آخر يعيد null
+ */
+function parseStatement(statement: string): StepNode | null {
+  const call = statement.match(/^await page\.(goto|click|fill|selectOption|waitForTimeout|waitForSelector|screenshot)\((.*)\);?$/s);
+  if (call) {
+    const args = parseLiteralArgs(call[2]);
+    if (!args) return null;
+
+    switch (call[1]) {
+      case 'goto':
+        return args.length === 1 && typeof args[0] === 'string' ? plainStep('navigate', { url: args[0] }) : null;
+      case 'click':
+        return args.length === 1 && typeof args[0] === 'string' ? plainStep('click', { selector: args[0] }) : null;
+      case 'fill':
+        return args.length === 2 && args.every(arg => typeof arg === 'string')
+          ? plainStep('type', { selector: args[0], text: args[1] })
+          : null;
+      case 'selectOption':
+        return args.length === 2 && args.every(arg => typeof arg === 'string')
+          ? plainStep('select', { selector: args[0], value: args[1] })
+          : null;
+      case 'waitForTimeout':
+        return args.length === 1 && typeof args[0] === 'number'
+          ? plainStep('wait', { type: 'time', duration: args[0] })
+          : null;
+      case 'waitForSelector':
+        return args.length === 1 && typeof args[0] === 'string'
+          ? plainStep('wait', { type: 'selector', selector: args[0] })
+          : null;
+      case 'screenshot':
+        if (args.length === 0) return plainStep('screenshot', { fullPage: false });
+        if (args.length === 1 && isPlainObject(args[0]) && Object.keys(args[0]).every(key => key === 'fullPage')) {
+          return plainStep('screenshot', { fullPage: args[0].fullPage === true });
+        }
+        return null;
+    }
+  }
+
+  const scroll = statement.match(/^await page\.evaluate\(\(\) => window\.scrollTo\(0, (document\.body\.scrollHeight|\d+)\)\);?$/);
+  if (scroll) {
+    return plainStep('scroll', { position: scroll[1] === 'document.body.scrollHeight' ? 'end' : scroll[1] });
+  }
+
+  return null;
+}
+
+function plainStep(type: StepNode['type'], params: StepParams): StepNode {
+  return createStep(type, { params, errorHandling: { ignoreErrors: false, retryCount: 0 } });
+}
+
+function rawStep(code: string): StepNode {
+  return plainStep('rawCode', { code: dedent(code) });
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * تحليل قائمة معاملات تتكون من قيم حرفية فقط (نصوص، أرقام، منطقية، كائنات بسيطة)
+ * يعيد null إذا احتوت على أي تعبير آخر
+ */
+export function parseLiteralArgs(source: string): any[] | null {
+  const reader = new LiteralReader(source);
+  const values: any[] = [];
+
+  reader.skipWhitespace();
+  if (reader.done()) return values;
+
+  while (true) {
+    const value = reader.readValue();
+    if (value === NOT_LITERAL) return null;
+    values.push(value);
+
+    reader.skipWhitespace();
+    if (reader.done()) return values;
+    if (!reader.consume(',')) return null;
+    reader.skipWhitespace();
+  }
+}
+
+const NOT_LITERAL = Symbol('not-literal');
+
+class LiteralReader {
+  private position = 0;
+
+  constructor(private source: string) {}
+
+  done(): boolean {
+    return this.position >= this.source.length;
+  }
+
+  skipWhitespace(): void {
+    while (!this.done() && /\s/.test(this.source[this.position])) this.position++;
+  }
+
+  consume(text: string): boolean {
+    if (this.source.startsWith(text, this.position)) {
+      this.position += text.length;
+      return true;
+    }
+    return false;
+  }
+
+  readValue(): any {
+    this.skipWhitespace();
+    const char = this.source[this.position];
+
+    if (char === "'" || char === '"' || char === '`') return this.readString(char);
+    if (char === '{') return this.readObject();
+
+    const rest = this.source.slice(this.position);
+    const number = rest.match(/^-?\d+(?:\.\d+)?/);
+    if (number) {
+      this.position += number[0].length;
+      return parseFloat(number[0]);
+    }
+    if (this.consume('true')) return true;
+    if (this.consume('false')) return false;
+
+    return NOT_LITERAL;
+  }
+
+  private readString(quote: string): string | typeof NOT_LITERAL {
+    let value = '';
+    this.position++;
+
+    while (!this.done()) {
+      const char = this.source[this.position++];
+      if (char === quote) return value;
+      if (quote === '`' && char === '$' && this.source[this.position] === '{') return NOT_LITERAL;
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+
+      const escaped = this.source[this.position++];
+      switch (escaped) {
+        case 'n': value += '\n'; break;
+        case 'r': value += '\r'; break;
+        case 't': value += '\t'; break;
+        case 'b': value += '\b'; break;
+        case 'f': value += '\f'; break;
+        case 'v': value += '\v'; break;
+        case '0': value += '\0'; break;
+        case 'x': {
+          value += String.fromCharCode(parseInt(this.source.substr(this.position, 2), 16));
+          this.position += 2;
+          break;
+        }
+        case 'u': {
+          const hex = this.source.substr(this.position, 4);
+          value += String.fromCharCode(parseInt(hex, 16));
+          this.position += 4;
+          break;
+        }
+        case '\n': break;
+        default: value += escaped;
+      }
+    }
+
+    return NOT_LITERAL;
+  }
+
+  private readObject(): Record<string, any> | typeof NOT_LITERAL {
+    const object: Record<string, any> = {};
+    this.position++;
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.consume('}')) return object;
+
+      const key = this.source.slice(this.position).match(/^[A-Za-z_$][\w$]*/);
+      if (!key) return NOT_LITERAL;
+      this.position += key[0].length;
+
+      this.skipWhitespace();
+      if (!this.consume(':')) return NOT_LITERAL;
+
+      const value = this.readValue();
+      if (value === NOT_LITERAL) return NOT_LITERAL;
+      object[key[0]] = value;
+
+      this.skipWhitespace();
+      if (this.consume(',')) continue;
+      if (this.consume('}')) return object;
+      return NOT_LITERAL;
+    }
+  }
+}
+
+function ensureUniqueIds(steps: StepNode[]): StepNode[] {
+  const seen = new Set<string>();
+  return steps.map(step => {
+    if (!seen.has(step.id)) {
+      seen.add(step.id);
+      return step;
+    }
+    const copy = { ...step, id: createStep(step.type).id };
+    seen.add(copy.id);
+    return copy;
+  });
+}
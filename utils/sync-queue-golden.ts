@@ -0,0 +1,241 @@
+/**
+ * اختبارات golden لطابور المزامنة
+ * Sync Queue Golden Tests
+ *
+ * تشغّل enqueueSync و processSyncQueue على IndexedDB حقيقي (fake-indexeddb) بمرسل بديل:
+ * الدمج عند إعادة الإضافة، التوقف عند انقطاع Supabase مع حفظ الترتيب،
+ * التراجع بعد رفض الخادم، واستبدال العملية أثناء رفعها.
+ */
+
+import { indexedDB as fakeIndexedDB } from 'fake-indexeddb';
+import type { Task, ExecutionLog } from '../types';
+import type { SyncOperation, SyncQueueEntry, SyncSender, SyncSendResult } from './sync-queue';
+import { enqueueSync, processSyncQueue, retryFailedSync, getSyncQueueStatus, setSyncSender } from './sync-queue';
+import { getAllRecords, putRecords, setLocalDatabaseUser } from './local-database';
+import type { GoldenCheck, GoldenResult } from './golden';
+import { runGoldenCases, goldenDiff } from './golden';
+
+// fake-indexeddb/auto يكتب على window إن وُجد - ومشغّل الاختبارات يعرّفه لـ utils/github.ts
+globalThis.indexedDB ??= fakeIndexedDB;
+
+const GOLDEN_USER = 'golden-user';
+
+const SENT: SyncSendResult = { success: true, source: 'database' };
+const OFFLINE: SyncSendResult = { success: true, source: 'localStorage' };
+const REJECTED: SyncSendResult = { success: false, source: 'database', error: 'رفض الخادم' };
+
+const upsert = (id: string, name = id): SyncOperation => ({ type: 'task-upsert', task: { id, name } as Task });
+const logInsert = (id: string): SyncOperation => ({ type: 'log-insert', log: { id, taskId: 'task-1' } as ExecutionLog });
+
+// وصف مختصر للعملية: task-upsert:task-1=v2
+function describeOperation(operation: SyncOperation): string {
+  switch (operation.type) {
+    case 'task-upsert':
+      return `${operation.type}:${operation.task.id}=${operation.task.name}`;
+    case 'task-delete':
+      return `${operation.type}:${operation.taskId}`;
+    case 'log-insert':
+      return `${operation.type}:${operation.log.id}`;
+    case 'settings-save':
+      return operation.type;
+  }
+}
+
+const queueEntries = () => getAllRecords<SyncQueueEntry>('syncQueue');
+const queuedOperations = async () => (await queueEntries()).map(entry => describeOperation(entry.operation));
+
+/**
+ * حالة بقاعدة مستخدم جديدة فارغة ومرسل يسجل ما رُفع بالترتيب
+ * respond تحدد نتيجة كل عملية - الافتراضي نجاح الرفع
+ */
+function queueCheck(
+  name: string,
+  run: (context: { sent: string[]; respond: (handler: SyncSender) => void }) => Promise<string[]>
+): GoldenCheck {
+  return {
+    name,
+    run: async () => {
+      setLocalDatabaseUser(`${GOLDEN_USER}-${name}`);
+      const sent: string[] = [];
+      let handler: SyncSender = async () => SENT;
+      setSyncSender(async entry => {
+        sent.push(describeOperation(entry.operation));
+        return handler(entry);
+      });
+
+      try {
+        return await run({ sent, respond: next => (handler = next) });
+      } finally {
+        setSyncSender(null);
+        setLocalDatabaseUser(null);
+      }
+    },
+  };
+}
+
+// يجمع الاختلافات غير الفارغة
+const diffs = (...results: Array<string | null>) => results.filter((result): result is string => result !== null);
+
+export const SYNC_QUEUE_GOLDEN_CASES: GoldenCheck[] = [
+  queueCheck('re-enqueue replaces pending operation', async () => {
+    await enqueueSync(GOLDEN_USER, upsert('task-1', 'v1'));
+    await enqueueSync(GOLDEN_USER, upsert('task-2'));
+    await enqueueSync(GOLDEN_USER, upsert('task-1', 'v2'));
+    const afterEdit = await queuedOperations();
+
+    // الحذف يلغي رفعاً معلقاً لنفس المهمة
+    await enqueueSync(GOLDEN_USER, { type: 'task-delete', taskId: 'task-2' });
+    const afterDelete = await queuedOperations();
+
+    return diffs(
+      goldenDiff(['task-upsert:task-2=task-2', 'task-upsert:task-1=v2'], afterEdit),
+      goldenDiff(['task-upsert:task-1=v2', 'task-delete:task-2'], afterDelete)
+    );
+  }),
+
+  queueCheck('logs and settings keyed separately', async () => {
+    await enqueueSync(GOLDEN_USER, logInsert('log-1'));
+    await enqueueSync(GOLDEN_USER, logInsert('log-2'));
+    await enqueueSync(GOLDEN_USER, { type: 'settings-save', settings: { theme: 'dark' } });
+    await enqueueSync(GOLDEN_USER, { type: 'settings-save', settings: { theme: 'light' } });
+    const entries = await queueEntries();
+
+    return diffs(
+      goldenDiff(['log-insert:log-1', 'log-insert:log-2', 'settings-save'], entries.map(entry => describeOperation(entry.operation))),
+      goldenDiff({ theme: 'light' }, (entries[2]?.operation as { settings: any })?.settings)
+    );
+  }),
+
+  queueCheck('uploads in enqueue order', async ({ sent }) => {
+    await enqueueSync(GOLDEN_USER, upsert('task-1'));
+    await enqueueSync(GOLDEN_USER, logInsert('log-1'));
+    await enqueueSync(GOLDEN_USER, upsert('task-2'));
+    const summary = await processSyncQueue();
+
+    return diffs(
+      goldenDiff(['task-upsert:task-1=task-1', 'log-insert:log-1', 'task-upsert:task-2=task-2'], sent),
+      goldenDiff({ synced: 3, failed: 0 }, summary),
+      goldenDiff([], await queuedOperations())
+    );
+  }),
+
+  queueCheck('offline stops without counting an attempt', async ({ sent, respond }) => {
+    await enqueueSync(GOLDEN_USER, upsert('task-1'));
+    await enqueueSync(GOLDEN_USER, upsert('task-2'));
+    await enqueueSync(GOLDEN_USER, upsert('task-3'));
+
+    respond(async entry => (entry.key === 'task:task-2' ? OFFLINE : SENT));
+    const offline = await processSyncQueue();
+    const sentOffline = [...sent];
+    const remaining = await queueEntries();
+
+    respond(async () => SENT);
+    sent.length = 0;
+    const online = await processSyncQueue();
+
+    return diffs(
+      // task-3 لا يُرفع قبل task-2
+      goldenDiff(['task-upsert:task-1=task-1', 'task-upsert:task-2=task-2'], sentOffline),
+      goldenDiff({ synced: 1, failed: 0 }, offline),
+      goldenDiff(['task:task-2:0', 'task:task-3:0'], remaining.map(entry => `${entry.key}:${entry.attempts}`)),
+      goldenDiff(['task-upsert:task-2=task-2', 'task-upsert:task-3=task-3'], sent),
+      goldenDiff({ synced: 2, failed: 0 }, online)
+    );
+  }),
+
+  queueCheck('rejection backs off without blocking later entries', async ({ sent, respond }) => {
+    await enqueueSync(GOLDEN_USER, upsert('task-1'));
+    await enqueueSync(GOLDEN_USER, upsert('task-2'));
+
+    respond(async entry => (entry.key === 'task:task-1' ? REJECTED : SENT));
+    const before = Date.now();
+    const summary = await processSyncQueue();
+    const [rejected] = await queueEntries();
+
+    // غير مستحقة بعد - الدورة التالية تتخطاها
+    sent.length = 0;
+    const retry = await processSyncQueue();
+    const delay = rejected ? rejected.nextAttemptAt - before : -1;
+
+    return diffs(
+      goldenDiff({ synced: 1, failed: 1 }, summary),
+      goldenDiff({ key: 'task:task-1', attempts: 1, lastError: 'رفض الخادم', failed: false }, rejected && {
+        key: rejected.key,
+        attempts: rejected.attempts,
+        lastError: rejected.lastError,
+        failed: rejected.failed,
+      }),
+      // BASE_RETRY_DELAY بعد المحاولة الأولى
+      delay >= 5_000 && delay < 6_000 ? null : `retry delay ${delay}ms, expected ~5000ms`,
+      goldenDiff([], sent),
+      goldenDiff({ synced: 0, failed: 0 }, retry)
+    );
+  }),
+
+  queueCheck('gives up after max attempts until manual retry', async ({ respond }) => {
+    await enqueueSync(GOLDEN_USER, upsert('task-1'));
+    const [entry] = await queueEntries();
+    // المحاولة الثامنة مستحقة الآن
+    await putRecords('syncQueue', [{ ...entry, attempts: 7, nextAttemptAt: 0 }]);
+
+    respond(async () => REJECTED);
+    await processSyncQueue();
+    const afterLimit = await getSyncQueueStatus();
+
+    respond(async () => SENT);
+    const skipped = await processSyncQueue();
+    await retryFailedSync();
+    const afterRetry = await getSyncQueueStatus();
+
+    return diffs(
+      goldenDiff({ pending: 0, failed: 1 }, { pending: afterLimit.pending, failed: afterLimit.failed }),
+      goldenDiff({ synced: 0, failed: 0 }, skipped),
+      goldenDiff({ pending: 0, failed: 0 }, { pending: afterRetry.pending, failed: afterRetry.failed })
+    );
+  }),
+
+  queueCheck('replacement during a failed upload starts fresh', async ({ respond }) => {
+    await enqueueSync(GOLDEN_USER, upsert('task-1', 'v1'));
+
+    // المستخدم يعدّل المهمة بينما النسخة السابقة في الطريق للخادم
+    respond(async entry => {
+      await enqueueSync(GOLDEN_USER, upsert('task-1', 'v2'));
+      return entry.operation.type === 'task-upsert' && entry.operation.task.name === 'v1' ? REJECTED : SENT;
+    });
+    const summary = await processSyncQueue();
+    const entries = await queueEntries();
+
+    return diffs(
+      goldenDiff({ synced: 0, failed: 1 }, summary),
+      // المحاولة الفاشلة لا تُسجل على النسخة الجديدة
+      goldenDiff(['task-upsert:task-1=v2:0:none'], entries.map(entry => `${describeOperation(entry.operation)}:${entry.attempts}:${entry.lastError ?? 'none'}`))
+    );
+  }),
+
+  queueCheck('replacement during a successful upload is kept', async ({ respond }) => {
+    await enqueueSync(GOLDEN_USER, upsert('task-1', 'v1'));
+
+    let replaced = false;
+    respond(async () => {
+      if (!replaced) {
+        replaced = true;
+        await enqueueSync(GOLDEN_USER, upsert('task-1', 'v2'));
+      }
+      return SENT;
+    });
+    const summary = await processSyncQueue();
+
+    return diffs(
+      goldenDiff({ synced: 1, failed: 0 }, summary),
+      // حذف النسخة المرفوعة فقط - التعديل الأحدث ينتظر الدورة التالية
+      goldenDiff(['task-upsert:task-1=v2'], await queuedOperations())
+    );
+  }),
+];
+
+/**
+ * تشغيل جميع الحالات - يرمي خطأ عند أي اختلاف
+ */
+export function runSyncQueueGoldenTests(): Promise<GoldenResult> {
+  return runGoldenCases('Sync queue golden', SYNC_QUEUE_GOLDEN_CASES);
+}
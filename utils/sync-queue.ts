@@ -0,0 +1,325 @@
+/**
+ * طابور المزامنة مع Supabase - كل تعديل محلي يُسجل كعملية في IndexedDB قبل رفعه
+ * فيبقى بعد إعادة تحميل الصفحة أو انقطاع الشبكة ويُرفع بالترتيب عند عودة الاتصال
+ * العمليات على نفس السجل تُدمج: آخر حالة للمهمة هي ما يُرفع، والحذف يلغي رفعاً معلقاً
+ */
+
+import type { Task, ExecutionLog } from '../types';
+import { getAllRecords, getLocalDatabaseUser, putRecords, requestToPromise, runLocalTransaction, isLocalDatabaseAvailable } from './local-database';
+import { saveExecutionLog, saveUserSettings } from './database-integration';
+import { pushTaskChange, pushTaskDeletion } from './task-sync';
+
+export type SyncOperation =
+  | { type: 'task-upsert'; task: Task }
+  | { type: 'task-delete'; taskId: string }
+  | { type: 'log-insert'; log: ExecutionLog }
+  | { type: 'settings-save'; settings: any };
+
+export type SyncQueueEntry = {
+  seq?: number; // autoIncrement - ترتيب الإضافة
+  key: string; // السجل المستهدف - عمليات نفس المفتاح تُدمج
+  userId: string;
+  operation: SyncOperation;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number; // ms
+  lastError?: string;
+  failed?: boolean; // تجاوز MAX_SYNC_ATTEMPTS - ينتظر إعادة محاولة يدوية
+};
+
+export type SyncQueueStatus = {
+  pending: number;
+  failed: number;
+  processing: boolean;
+  online: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+};
+
+const MAX_SYNC_ATTEMPTS = 8;
+const BASE_RETRY_DELAY = 5_000;
+const MAX_RETRY_DELAY = 10 * 60_000;
+const SYNC_INTERVAL = 30_000;
+const ENQUEUE_DEBOUNCE = 1_500;
+
+// Supabase غير متاح - ليس خطأ في العملية نفسها فلا تُحتسب محاولة
+class SyncOfflineError extends Error {
+  constructor() {
+    super('Supabase غير متصل');
+    this.name = 'SyncOfflineError';
+  }
+}
+
+// السجل الذي تستهدفه العملية - عمليات نفس المفتاح تحل محل بعضها في الطابور
+function syncOperationKey(operation: SyncOperation): string {
+  switch (operation.type) {
+    case 'task-upsert':
+      return `task:${operation.task.id}`;
+    case 'task-delete':
+      return `task:${operation.taskId}`;
+    case 'log-insert':
+      return `log:${operation.log.id}`;
+    case 'settings-save':
+      return 'settings';
+  }
+}
+
+// تراجع أسي بعد كل محاولة فاشلة بحد أقصى MAX_RETRY_DELAY
+function syncRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+// التواريخ تُخزن في IndexedDB كما هي، لكن العملية قد تصل من JSON قديم كنص
+function toDate(value: Date | string | undefined): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+// نتيجة دوال database-integration: source غير 'database' يعني أن Supabase لم يُستخدم
+export type SyncSendResult = { success: boolean; source: string; error?: string };
+export type SyncSender = (entry: SyncQueueEntry) => Promise<SyncSendResult>;
+
+async function sendOperation(entry: SyncQueueEntry): Promise<SyncSendResult> {
+  const { operation, userId } = entry;
+  let result: SyncSendResult;
+
+  switch (operation.type) {
+    case 'task-upsert':
+      result = await pushTaskChange(userId, {
+        ...operation.task,
+        createdAt: toDate(operation.task.createdAt)!,
+        lastRun: toDate(operation.task.lastRun),
+      });
+      break;
+    case 'task-delete':
+      result = await pushTaskDeletion(userId, operation.taskId);
+      break;
+    case 'log-insert':
+      result = await saveExecutionLog(userId, {
+        ...operation.log,
+        startTime: toDate(operation.log.startTime)!,
+        endTime: toDate(operation.log.endTime),
+      });
+      break;
+    case 'settings-save':
+      result = await saveUserSettings(userId, operation.settings);
+      break;
+  }
+
+  return result;
+}
+
+let sendEntry: SyncSender = sendOperation;
+
+/**
+ * استبدال الرفع إلى Supabase (اختبارات golden) - null يعيد الرفع الفعلي
+ * يلغي رفعاً مؤجلاً من enqueueSync حتى لا يعمل بالمرسل السابق
+ */
+export function setSyncSender(sender: SyncSender | null): void {
+  sendEntry = sender ?? sendOperation;
+  if (enqueueTimer) {
+    clearTimeout(enqueueTimer);
+    enqueueTimer = null;
+  }
+}
+
+async function executeOperation(entry: SyncQueueEntry): Promise<void> {
+  const result = await sendEntry(entry);
+
+  if (result.success && result.source === 'database') return;
+  if (result.success) throw new SyncOfflineError();
+  throw new Error(result.error || 'فشلت المزامنة');
+}
+
+// ========== الحالة والمستمعون ==========
+
+type SyncQueueListener = (status: SyncQueueStatus) => void;
+
+const listeners = new Set<SyncQueueListener>();
+let processing = false;
+let lastSyncedAt: string | null = null;
+let lastError: string | null = null;
+let enqueueTimer: ReturnType<typeof setTimeout> | null = null;
+let rerunRequested = false;
+
+export async function getSyncQueueStatus(): Promise<SyncQueueStatus> {
+  const entries = isLocalDatabaseAvailable() ? await getAllRecords<SyncQueueEntry>('syncQueue') : [];
+  return {
+    pending: entries.filter(entry => !entry.failed).length,
+    failed: entries.filter(entry => entry.failed).length,
+    processing,
+    online: isOnline(),
+    lastSyncedAt,
+    lastError,
+  };
+}
+
+async function notifyListeners(): Promise<void> {
+  if (listeners.size === 0) return;
+  try {
+    const status = await getSyncQueueStatus();
+    listeners.forEach(listener => listener(status));
+  } catch (error: any) {
+    console.error('❌ تعذر قراءة حالة طابور المزامنة:', error.message);
+  }
+}
+
+export function subscribeSyncQueue(listener: SyncQueueListener): () => void {
+  listeners.add(listener);
+  getSyncQueueStatus().then(listener).catch(() => undefined);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ========== الطابور ==========
+
+/**
+ * إضافة عملية للطابور - تحل محل العمليات المعلقة على نفس السجل (حتى الفاشلة نهائياً)
+ * سجلات التنفيذ لا تُدمج: كل سجل مكتمل يُرفع مرة واحدة
+ */
+export async function enqueueSync(userId: string, operation: SyncOperation): Promise<void> {
+  if (!isLocalDatabaseAvailable()) return;
+
+  const key = syncOperationKey(operation);
+  const entry: SyncQueueEntry = {
+    key,
+    userId,
+    operation,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    nextAttemptAt: 0,
+  };
+
+  try {
+    await runLocalTransaction('syncQueue', 'readwrite', async transaction => {
+      const store = transaction.objectStore('syncQueue');
+      const existing = await requestToPromise(store.index('key').getAllKeys(key));
+      existing.forEach(seq => store.delete(seq));
+      store.add(entry);
+    });
+  } catch (error: any) {
+    console.error('❌ تعذر إضافة العملية لطابور المزامنة:', error.message);
+    return;
+  }
+
+  notifyListeners();
+
+  // دفعة تعديلات متتالية (كتابة في المحرر) تُرفع مرة واحدة
+  if (enqueueTimer) clearTimeout(enqueueTimer);
+  enqueueTimer = setTimeout(() => {
+    enqueueTimer = null;
+    processSyncQueue();
+  }, ENQUEUE_DEBOUNCE);
+}
+
+// المحاولة تُسجل على نفس النسخة فقط - لو استُبدلت العملية أثناء الرفع فالجديدة تبدأ من الصفر
+function recordFailedAttempt(entry: SyncQueueEntry, message: string, databaseUser: string | null): Promise<void> {
+  return runLocalTransaction('syncQueue', 'readwrite', async transaction => {
+    const store = transaction.objectStore('syncQueue');
+    const current: SyncQueueEntry | undefined = await requestToPromise(store.get(entry.seq!));
+    if (!current) return;
+
+    const attempts = current.attempts + 1;
+    store.put({
+      ...current,
+      attempts,
+      lastError: message,
+      nextAttemptAt: Date.now() + syncRetryDelay(attempts),
+      failed: attempts >= MAX_SYNC_ATTEMPTS,
+    });
+  }, databaseUser);
+}
+
+/**
+ * رفع العمليات المستحقة بالترتيب - تتوقف عند انقطاع Supabase لتحافظ على الترتيب
+ * العملية التي يرفضها الخادم تؤجل بتراجع أسي ولا توقف ما بعدها
+ */
+export async function processSyncQueue(): Promise<{ synced: number; failed: number }> {
+  const summary = { synced: 0, failed: 0 };
+  if (processing) {
+    // عمليات أُضيفت أثناء الرفع (دمج مع الخادم مثلاً) تُرفع بعده مباشرة لا في الدورة التالية
+    rerunRequested = true;
+    return summary;
+  }
+  if (!isLocalDatabaseAvailable() || !isOnline()) return summary;
+
+  processing = true;
+  notifyListeners();
+  // طابور المستخدم الحالي عند البدء - تبديل المستخدم أثناء الرفع لا ينقل الحذف لطابور غيره
+  const databaseUser = getLocalDatabaseUser();
+
+  try {
+    const entries = await getAllRecords<SyncQueueEntry>('syncQueue', databaseUser);
+    const now = Date.now();
+
+    for (const entry of entries) {
+      if (entry.failed || entry.nextAttemptAt > now) continue;
+
+      try {
+        await executeOperation(entry);
+        // العملية قد تكون استُبدلت أثناء الرفع - نحذف هذه النسخة فقط
+        await runLocalTransaction('syncQueue', 'readwrite', transaction => {
+          transaction.objectStore('syncQueue').delete(entry.seq!);
+        }, databaseUser);
+        summary.synced++;
+        lastSyncedAt = new Date().toISOString();
+        lastError = null;
+      } catch (error: any) {
+        if (error instanceof SyncOfflineError) break;
+
+        await recordFailedAttempt(entry, error.message, databaseUser);
+        lastError = error.message;
+        summary.failed++;
+      }
+    }
+  } catch (error: any) {
+    console.error('❌ خطأ في طابور المزامنة:', error.message);
+  } finally {
+    processing = false;
+    notifyListeners();
+    if (rerunRequested) {
+      rerunRequested = false;
+      setTimeout(() => processSyncQueue(), ENQUEUE_DEBOUNCE);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * إعادة العمليات الفاشلة نهائياً للطابور - بعد إصلاح سبب الرفض (صلاحيات، مخطط)
+ */
+export async function retryFailedSync(): Promise<void> {
+  if (!isLocalDatabaseAvailable()) return;
+  const failed = (await getAllRecords<SyncQueueEntry>('syncQueue')).filter(entry => entry.failed);
+  await putRecords('syncQueue', failed.map(entry => ({ ...entry, attempts: 0, nextAttemptAt: 0, failed: false })));
+  await processSyncQueue();
+}
+
+/**
+ * تشغيل الطابور: عند البدء، عند عودة الاتصال، ودورياً للعمليات المؤجلة
+ * يعيد دالة الإيقاف
+ */
+export function startSyncQueue(): () => void {
+  const handleOnline = () => {
+    processSyncQueue();
+  };
+  const handleOffline = () => {
+    notifyListeners();
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  const interval = setInterval(() => processSyncQueue(), SYNC_INTERVAL);
+  processSyncQueue();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    clearInterval(interval);
+  };
+}
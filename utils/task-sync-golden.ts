@@ -0,0 +1,196 @@
+/**
+ * اختبارات golden لمزامنة المهام: الدمج الثلاثي ومعرّفات جدول tasks
+ * Task Sync Golden Tests
+ *
+ * كل حالة: أساس + نسخة محلية + نسخة الخادم ← الحقول المتوقعة في الدمج وأسماء الحقول المتعارضة
+ * ومعها تحويل المعرّفات المحلية لـ uuid جدول tasks - القيم مثبتة لأن كل جهاز يجب أن يشتق نفس المعرّف
+ */
+
+import type { Task } from '../types';
+import { mergeTaskVersions, toTaskSnapshot } from './task-sync';
+import { remoteTaskId, taskToRow, rowToTask } from './database-integration';
+import type { GoldenCheck, GoldenResult } from './golden';
+import { runGoldenCases, goldenDiff } from './golden';
+
+type MergeGoldenCase = {
+  name: string;
+  base: Task | null;
+  local: Task;
+  remote: Task;
+  expected: Partial<Task>;
+  conflicts: string[];
+};
+
+const BASE_TASK: Task = {
+  id: 'golden',
+  name: 'Golden task',
+  description: 'وصف',
+  type: 'scraping',
+  status: 'idle',
+  script: "await page.goto('https://example.com');",
+  targetUrl: 'https://example.com',
+  schedule: '0 * * * *',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  metadata: {
+    source: 'task-editor',
+    schedule: { enabled: true, type: 'interval', config: { interval: 60 } },
+  },
+};
+
+function edit(changes: Partial<Task>): Task {
+  return { ...BASE_TASK, ...changes };
+}
+
+export const TASK_MERGE_GOLDEN_CASES: MergeGoldenCase[] = [
+  {
+    name: 'تغيير محلي فقط',
+    base: BASE_TASK,
+    local: edit({ name: 'Local name' }),
+    remote: BASE_TASK,
+    expected: { name: 'Local name' },
+    conflicts: [],
+  },
+  {
+    name: 'تغيير على الخادم فقط',
+    base: BASE_TASK,
+    local: BASE_TASK,
+    remote: edit({ description: 'وصف الخادم' }),
+    expected: { description: 'وصف الخادم' },
+    conflicts: [],
+  },
+  {
+    name: 'حقلان مختلفان في الجهتين',
+    base: BASE_TASK,
+    local: edit({ name: 'Local name' }),
+    remote: edit({ targetUrl: 'https://example.org' }),
+    expected: { name: 'Local name', targetUrl: 'https://example.org' },
+    conflicts: [],
+  },
+  {
+    name: 'نفس التغيير في الجهتين',
+    base: BASE_TASK,
+    local: edit({ status: 'completed' }),
+    remote: edit({ status: 'completed' }),
+    expected: { status: 'completed' },
+    conflicts: [],
+  },
+  {
+    name: 'نفس الحقل بقيمتين مختلفتين - تبقى المحلية حتى يختار المستخدم',
+    base: BASE_TASK,
+    local: edit({ name: 'Local name' }),
+    remote: edit({ name: 'Remote name' }),
+    expected: { name: 'Local name' },
+    conflicts: ['name'],
+  },
+  {
+    name: 'مفاتيح metadata مختلفة في الجهتين',
+    base: BASE_TASK,
+    local: edit({ metadata: { ...BASE_TASK.metadata, stepGraph: { version: 1, steps: [] } as any } }),
+    remote: edit({ metadata: { ...BASE_TASK.metadata, schedule: { enabled: false, type: 'interval', config: { interval: 60 } } } }),
+    expected: {
+      metadata: {
+        source: 'task-editor',
+        schedule: { enabled: false, type: 'interval', config: { interval: 60 } },
+        stepGraph: { version: 1, steps: [] } as any,
+      },
+    },
+    conflicts: [],
+  },
+  {
+    name: 'مفتاح metadata حُذف على الخادم',
+    base: BASE_TASK,
+    local: BASE_TASK,
+    remote: edit({ metadata: { source: 'task-editor' } }),
+    expected: { metadata: { source: 'task-editor' } },
+    conflicts: [],
+  },
+  {
+    name: 'jsonb يعيد ترتيب المفاتيح - ليس تغييراً',
+    base: BASE_TASK,
+    local: BASE_TASK,
+    remote: edit({ metadata: { schedule: { config: { interval: 60 }, type: 'interval', enabled: true }, source: 'task-editor' } }),
+    expected: { metadata: BASE_TASK.metadata },
+    conflicts: [],
+  },
+  {
+    name: 'الجدولة في الجهتين بقيمتين مختلفتين',
+    base: BASE_TASK,
+    local: edit({ schedule: undefined, metadata: { source: 'task-editor' } }),
+    remote: edit({ schedule: '0 0 * * *', metadata: { ...BASE_TASK.metadata, schedule: { enabled: true, type: 'daily', config: { time: '00:00' } } } }),
+    expected: { schedule: undefined, metadata: { source: 'task-editor' } },
+    conflicts: ['schedule', 'metadata.schedule'],
+  },
+  {
+    name: 'بدون أساس - كل اختلاف تعارض',
+    base: null,
+    local: edit({ name: 'Local name', description: 'وصف مشترك' }),
+    remote: edit({ name: 'Remote name', description: 'وصف مشترك', targetUrl: 'https://example.org' }),
+    expected: { name: 'Local name', description: 'وصف مشترك', targetUrl: 'https://example.com' },
+    conflicts: ['name', 'targetUrl'],
+  },
+  {
+    name: 'lastRun يأخذ الأحدث دون تعارض',
+    base: BASE_TASK,
+    local: edit({ lastRun: new Date('2026-01-02T00:00:00Z') }),
+    remote: edit({ lastRun: new Date('2026-01-03T00:00:00Z') }),
+    expected: { lastRun: new Date('2026-01-03T00:00:00Z') },
+    conflicts: [],
+  },
+];
+
+const GOLDEN_USER_ID = '8f3b2c1e-4a5d-4e6f-9a7b-1c2d3e4f5a6b';
+
+export const REMOTE_ID_GOLDEN_CASES: Array<{ name: string; userId: string; taskId: string; expected: string }> = [
+  { name: 'معرّف task-<timestamp>', userId: GOLDEN_USER_ID, taskId: 'task-1767225600000', expected: 'e8b33a92-05eb-8eef-91d0-a40bbb93ea19' },
+  { name: 'معرّف Date.now()', userId: GOLDEN_USER_ID, taskId: '1767225600000', expected: 'd21d5d64-a4f5-84f1-b765-6629348aca37' },
+  // نفس المعرّف المحلي لمستخدم آخر صف مختلف
+  { name: 'مستخدم آخر', userId: '0d9c8b7a-6f5e-4d3c-8b2a-190817263544', taskId: 'task-1767225600000', expected: 'ec32bb7a-7c2d-88c3-ba1a-ba1fb8de96df' },
+  { name: 'uuid يبقى كما هو', userId: GOLDEN_USER_ID, taskId: GOLDEN_USER_ID, expected: GOLDEN_USER_ID },
+];
+
+// صف الخادم يحمل uuid والمعرّف المحلي في metadata - القراءة تعيد المهمة كما كانت
+function checkRowRoundTrip(): string[] {
+  const task = edit({ id: 'task-1767225600000' });
+  const row = { ...taskToRow(GOLDEN_USER_ID, task), updated_at: '2026-01-01T00:00:00Z' };
+  const restored = rowToTask(row);
+
+  return [
+    goldenDiff('e8b33a92-05eb-8eef-91d0-a40bbb93ea19', row.id),
+    goldenDiff('task-1767225600000', row.metadata.localId),
+    goldenDiff(task.id, restored.id),
+    goldenDiff(task.metadata, restored.metadata),
+  ].filter((diff): diff is string => diff !== null);
+}
+
+/**
+ * تشغيل جميع حالات الدمج والمعرّفات - يرمي خطأ عند أي اختلاف
+ */
+export function runTaskSyncGoldenTests(): Promise<GoldenResult> {
+  return runGoldenCases('Task sync golden', [
+    ...REMOTE_ID_GOLDEN_CASES.map(({ name, userId, taskId, expected }): GoldenCheck => ({
+      name: `remote id: ${name}`,
+      run: () => goldenDiff(expected, remoteTaskId(userId, taskId)),
+    })),
+    { name: 'row round trip', run: checkRowRoundTrip },
+    ...TASK_MERGE_GOLDEN_CASES.map((mergeCase): GoldenCheck => ({
+      name: mergeCase.name,
+      run: () => {
+        const failures: string[] = [];
+        const { merged, fields } = mergeTaskVersions(
+          mergeCase.base && toTaskSnapshot(mergeCase.base),
+          mergeCase.local,
+          mergeCase.remote
+        );
+
+        const conflicts = goldenDiff(mergeCase.conflicts, fields.map(field => field.field));
+        if (conflicts) failures.push(`التعارضات${conflicts}`);
+
+        for (const [field, value] of Object.entries(mergeCase.expected)) {
+          const diff = goldenDiff(value, (merged as any)[field]);
+          if (diff) failures.push(`${field}${diff}`);
+        }
+        return failures;
+      },
+    })),
+  ]);
+}
@@ -0,0 +1,465 @@
+/**
+ * المزامنة الثنائية للمهام مع جدول tasks
+ * لكل مهمة نحفظ آخر نسخة اتفق عليها الجهاز مع الخادم (الأساس) ومعها updated_at الخاص بها
+ * فالدمج ثلاثي لكل حقل (ولكل مفتاح في metadata): ما تغير في جهة واحدة يأخذ قيمتها
+ * وما تغير في الجهتين بقيمتين مختلفتين تعارض يُعرض على المستخدم ليختار
+ * الرفع مشروط بـ updated_at: لو سبقنا جهاز آخر يُجلب الصف ويُدمج بدل الكتابة فوقه
+ */
+
+import type { Task } from '../types';
+import {
+  getAllRecords,
+  getRecord,
+  putRecords,
+  deleteRecords,
+  isLocalDatabaseAvailable
+} from './local-database';
+import {
+  getRemoteTasks,
+  getRemoteTask,
+  upsertTask,
+  updateTaskIfUnchanged,
+  deleteTaskFromDatabase,
+  subscribeToTaskChanges,
+  rowToTask,
+  remoteTaskId
+} from './database-integration';
+
+// الحقول المتزامنة - createdAt ثابت وlastRun يأخذ الأحدث فلا يتعارضان
+export type TaskSnapshot = {
+  name: string;
+  description: string;
+  type: Task['type'];
+  status: Task['status'];
+  script: string;
+  targetUrl: string;
+  schedule: string | null;
+  metadata: Record<string, any>;
+};
+
+type TaskSyncState = {
+  taskId: string;
+  remoteUpdatedAt: string;
+  snapshot: TaskSnapshot;
+};
+
+export type TaskConflictField = {
+  field: string; // 'name' أو 'metadata.stepGraph'
+  label: string;
+  local: any;
+  remote: any;
+};
+
+export type TaskConflict = {
+  taskId: string;
+  taskName: string;
+  base: TaskSnapshot | null; // null = لم تُزامن المهمة من قبل
+  local: Task;
+  remote: Task;
+  remoteUpdatedAt: string;
+  fields: TaskConflictField[];
+  detectedAt: string;
+};
+
+export type TaskConflictChoice = 'local' | 'remote';
+
+export type TaskSyncHandlers = {
+  getLocalTasks: () => Task[];
+  // تطبيق نسخ الخادم (أو الدمج) على الحالة المحلية - الحفظ والرفع يمران بالمسار العادي
+  applyTasks: (tasks: Task[], removedIds: string[]) => void;
+  queuePush: (task: Task) => void;
+};
+
+const TASK_FIELDS: Array<{ field: Exclude<keyof TaskSnapshot, 'metadata'>; label: string }> = [
+  { field: 'name', label: 'الاسم' },
+  { field: 'description', label: 'الوصف' },
+  { field: 'type', label: 'النوع' },
+  { field: 'status', label: 'الحالة' },
+  { field: 'script', label: 'السكريبت' },
+  { field: 'targetUrl', label: 'الرابط المستهدف' },
+  { field: 'schedule', label: 'الجدولة' },
+];
+
+const METADATA_LABELS: Record<string, string> = {
+  stepGraph: 'الخطوات',
+  stepsData: 'الخطوات (صيغة قديمة)',
+  schedule: 'إعدادات الجدولة',
+  source: 'المصدر',
+};
+
+// ========== المقارنة والدمج ==========
+
+// jsonb يعيد ترتيب المفاتيح - المقارنة بنص مرتب المفاتيح لا بترتيب الإدخال
+function stableStringify(value: any): string {
+  return JSON.stringify(value ?? null, (_key, current) =>
+    current && typeof current === 'object' && !Array.isArray(current)
+      ? Object.keys(current).sort().reduce<Record<string, any>>((sorted, key) => {
+          sorted[key] = current[key];
+          return sorted;
+        }, {})
+      : current
+  );
+}
+
+function sameValue(left: any, right: any): boolean {
+  return stableStringify(left) === stableStringify(right);
+}
+
+export function toTaskSnapshot(task: Task): TaskSnapshot {
+  return {
+    name: task.name,
+    description: task.description,
+    type: task.type,
+    status: task.status,
+    script: task.script,
+    targetUrl: task.targetUrl,
+    schedule: task.schedule ?? null,
+    metadata: task.metadata || {},
+  };
+}
+
+function sameTaskContent(left: Task, right: Task | TaskSnapshot): boolean {
+  return sameValue(toTaskSnapshot(left), 'createdAt' in right ? toTaskSnapshot(right) : right);
+}
+
+function latestDate(left?: Date, right?: Date): Date | undefined {
+  if (!left) return right;
+  if (!right) return left;
+  return left > right ? left : right;
+}
+
+/**
+ * دمج ثلاثي بين الأساس والنسخة المحلية ونسخة الخادم
+ * الحقول المتعارضة تأخذ القيمة المحلية في merged وتُعاد في fields ليختار المستخدم
+ */
+export function mergeTaskVersions(
+  base: TaskSnapshot | null,
+  local: Task,
+  remote: Task
+): { merged: Task; fields: TaskConflictField[] } {
+  const fields: TaskConflictField[] = [];
+
+  const pick = (field: string, label: string, baseValue: any, localValue: any, remoteValue: any) => {
+    if (sameValue(localValue, remoteValue)) return localValue;
+    if (base && sameValue(localValue, baseValue)) return remoteValue;
+    if (base && sameValue(remoteValue, baseValue)) return localValue;
+    fields.push({ field, label, local: localValue, remote: remoteValue });
+    return localValue;
+  };
+
+  const localSnapshot = toTaskSnapshot(local);
+  const remoteSnapshot = toTaskSnapshot(remote);
+  const merged: Task = {
+    ...local,
+    lastRun: latestDate(local.lastRun, remote.lastRun),
+  };
+
+  for (const { field, label } of TASK_FIELDS) {
+    (merged as any)[field] = pick(field, label, base?.[field], localSnapshot[field], remoteSnapshot[field]);
+  }
+  merged.schedule = merged.schedule ?? undefined;
+
+  const metadata: Record<string, any> = {};
+  const keys = new Set([
+    ...Object.keys(localSnapshot.metadata),
+    ...Object.keys(remoteSnapshot.metadata),
+    ...Object.keys(base?.metadata || {}),
+  ]);
+  for (const key of keys) {
+    const value = pick(
+      `metadata.${key}`,
+      METADATA_LABELS[key] || key,
+      base?.metadata[key],
+      localSnapshot.metadata[key],
+      remoteSnapshot.metadata[key]
+    );
+    if (value !== undefined) metadata[key] = value;
+  }
+  merged.metadata = metadata;
+
+  return { merged, fields };
+}
+
+function applyConflictChoice(task: Task, field: string, value: any): Task {
+  if (!field.startsWith('metadata.')) {
+    return { ...task, [field]: field === 'schedule' ? value ?? undefined : value };
+  }
+  const key = field.slice('metadata.'.length);
+  const metadata = { ...task.metadata };
+  if (value === undefined) {
+    delete metadata[key];
+  } else {
+    metadata[key] = value;
+  }
+  return { ...task, metadata };
+}
+
+// ========== الحالة المحلية ==========
+
+let handlers: TaskSyncHandlers | null = null;
+const conflicts = new Map<string, TaskConflict>();
+let conflictsLoaded: Promise<void> | null = null;
+const conflictListeners = new Set<(conflicts: TaskConflict[]) => void>();
+
+function getSyncState(taskId: string): Promise<TaskSyncState | undefined> {
+  return getRecord<TaskSyncState>('taskSync', taskId);
+}
+
+function saveSyncState(task: Task, remoteUpdatedAt: string): Promise<void> {
+  return putRecords('taskSync', [{ taskId: task.id, remoteUpdatedAt, snapshot: toTaskSnapshot(task) }]);
+}
+
+function sameTimestamp(left: string, right: string): boolean {
+  return left === right || Date.parse(left) === Date.parse(right);
+}
+
+function loadConflicts(): Promise<void> {
+  if (!conflictsLoaded) {
+    conflictsLoaded = getAllRecords<TaskConflict>('taskConflicts')
+      .then(saved => saved.forEach(conflict => conflicts.set(conflict.taskId, conflict)))
+      .catch(error => console.error('❌ تعذر تحميل تعارضات المهام:', error.message));
+  }
+  return conflictsLoaded;
+}
+
+function notifyConflictListeners(): void {
+  const list = Array.from(conflicts.values());
+  conflictListeners.forEach(listener => listener(list));
+}
+
+async function recordConflict(conflict: TaskConflict): Promise<void> {
+  conflicts.set(conflict.taskId, conflict);
+  notifyConflictListeners();
+  await putRecords('taskConflicts', [conflict]);
+}
+
+async function clearConflict(taskId: string): Promise<void> {
+  if (!conflicts.delete(taskId)) return;
+  notifyConflictListeners();
+  await deleteRecords('taskConflicts', [taskId]);
+}
+
+export function subscribeTaskConflicts(listener: (conflicts: TaskConflict[]) => void): () => void {
+  conflictListeners.add(listener);
+  if (isLocalDatabaseAvailable()) {
+    loadConflicts().then(() => listener(Array.from(conflicts.values())));
+  }
+  return () => {
+    conflictListeners.delete(listener);
+  };
+}
+
+/**
+ * المهام التي تختلف عن آخر نسخة متزامنة - غيرها وصل من الخادم أصلاً فلا يُعاد رفعه
+ */
+export async function filterUnsyncedTasks(tasks: Task[]): Promise<Task[]> {
+  if (tasks.length === 0) return [];
+  const states = new Map((await getAllRecords<TaskSyncState>('taskSync')).map(state => [state.taskId, state]));
+  return tasks.filter(task => {
+    const state = states.get(task.id);
+    return !state || !sameTaskContent(task, state.snapshot);
+  });
+}
+
+// ========== التوفيق مع الخادم ==========
+
+/**
+ * توفيق صف من الخادم مع النسخة المحلية - يعيد المهمة المدمجة إن احتاجت رفعاً
+ */
+async function reconcileRemoteRow(row: any, fallbackLocal?: Task): Promise<Task | null> {
+  const remote = rowToTask(row);
+  const remoteUpdatedAt: string = row.updated_at;
+  const state = await getSyncState(remote.id);
+  const local = handlers?.getLocalTasks().find(task => task.id === remote.id) ?? fallbackLocal;
+
+  if (state && sameTimestamp(state.remoteUpdatedAt, remoteUpdatedAt)) return null;
+
+  if (!local) {
+    // حُذفت محلياً بعد آخر مزامنة - عملية الحذف في الطابور تحذفها من الخادم
+    if (state) return null;
+    await saveSyncState(remote, remoteUpdatedAt);
+    handlers?.applyTasks([remote], []);
+    return null;
+  }
+
+  // لا تعديل محلي منذ آخر مزامنة - نسخة الخادم تُطبق كما هي
+  if (state && sameTaskContent(local, state.snapshot)) {
+    await saveSyncState(remote, remoteUpdatedAt);
+    await clearConflict(remote.id);
+    handlers?.applyTasks([remote], []);
+    return null;
+  }
+
+  const { merged, fields } = mergeTaskVersions(state?.snapshot ?? null, local, remote);
+
+  if (fields.length > 0) {
+    // الأساس لا يتقدم حتى يُحل التعارض - وإلا رُفعت النسخة المحلية فوق تعديل الجهاز الآخر
+    await recordConflict({
+      taskId: remote.id,
+      taskName: local.name,
+      base: state?.snapshot ?? null,
+      local,
+      remote,
+      remoteUpdatedAt,
+      fields,
+      detectedAt: new Date().toISOString(),
+    });
+    return null;
+  }
+
+  await saveSyncState(remote, remoteUpdatedAt);
+  await clearConflict(remote.id);
+  if (!sameTaskContent(merged, local)) handlers?.applyTasks([merged], []);
+  return sameTaskContent(merged, remote) ? null : merged;
+}
+
+async function handleRemoteDelete(taskId: string): Promise<void> {
+  const state = await getSyncState(taskId);
+  if (!state) return; // مهمة لم تُرفع من هذا الجهاز أو ليست لنا
+
+  const local = handlers?.getLocalTasks().find(task => task.id === taskId);
+  await deleteRecords('taskSync', [taskId]);
+  await clearConflict(taskId);
+  if (!local) return;
+
+  if (sameTaskContent(local, state.snapshot)) {
+    handlers?.applyTasks([], [taskId]);
+  } else {
+    // عُدلت هنا وحُذفت هناك - التعديل أولى من الحذف فتُعاد للخادم
+    handlers?.queuePush(local);
+  }
+}
+
+// الحذف اللحظي يصل بمعرّف الخادم - يُطابق مع المهام المحلية والمهام التي بقيت لها حالة مزامنة
+async function findLocalTaskId(userId: string, remoteId: string): Promise<string | undefined> {
+  const localIds = (handlers?.getLocalTasks() || []).map(task => task.id);
+  const syncedIds = (await getAllRecords<TaskSyncState>('taskSync')).map(state => state.taskId);
+  return [...localIds, ...syncedIds].find(taskId => remoteTaskId(userId, taskId) === remoteId);
+}
+
+/**
+ * جلب كل مهام المستخدم من الخادم وتوفيقها - عند البدء وعند عودة الاتصال
+ * المهام المحلية الغائبة عن الخادم: المتزامنة سابقاً حُذفت هناك، والباقية تُرفع لأول مرة
+ */
+export async function pullRemoteTasks(userId: string): Promise<void> {
+  const result = await getRemoteTasks(userId);
+  if (!result.success || result.source !== 'database') return;
+
+  for (const row of result.data) {
+    const pending = await reconcileRemoteRow(row);
+    if (pending) handlers?.queuePush(pending);
+  }
+
+  const remoteIds = new Set(result.data.map((row: any) => rowToTask(row).id));
+  for (const task of handlers?.getLocalTasks() || []) {
+    if (remoteIds.has(task.id)) continue;
+    if (await getSyncState(task.id)) {
+      await handleRemoteDelete(task.id);
+    } else {
+      // لم تُرفع قط - أُنشئت قبل تفعيل المزامنة أو بدون جلسة Supabase
+      handlers?.queuePush(task);
+    }
+  }
+}
+
+/**
+ * رفع مهمة من طابور المزامنة - بنفس شكل نتائج database-integration
+ * التحديث مشروط بآخر updated_at معروف، وعند سبق جهاز آخر يُدمج الصف وتُعاد المهمة للطابور
+ */
+export async function pushTaskChange(userId: string, task: Task) {
+  await loadConflicts();
+  // المهمة تنتظر قرار المستخدم - الحل يعيد رفعها
+  if (conflicts.has(task.id)) return { success: true, source: 'database' };
+
+  const state = await getSyncState(task.id);
+  if (state) {
+    const result = await updateTaskIfUnchanged(userId, task, state.remoteUpdatedAt);
+    if (!result.success || result.source !== 'database') return result;
+    if (result.data) {
+      await saveSyncState(rowToTask(result.data), result.data.updated_at);
+      return result;
+    }
+  }
+
+  const remote = await getRemoteTask(userId, task.id);
+  if (!remote.success || remote.source !== 'database') return remote;
+
+  if (!remote.data) {
+    // جديدة على الخادم - أو حُذفت من جهاز آخر بينما عُدلت هنا فتُعاد
+    const inserted = await upsertTask(userId, task);
+    if (inserted.success && inserted.source === 'database') {
+      await saveSyncState(rowToTask(inserted.data), inserted.data.updated_at);
+    }
+    return inserted;
+  }
+
+  const pending = await reconcileRemoteRow(remote.data, task);
+  if (pending) handlers?.queuePush(pending);
+  return { success: true, source: 'database' };
+}
+
+export async function pushTaskDeletion(userId: string, taskId: string) {
+  const result = await deleteTaskFromDatabase(userId, taskId);
+  if (result.success && result.source === 'database') {
+    await deleteRecords('taskSync', [taskId]);
+    await clearConflict(taskId);
+  }
+  return result;
+}
+
+/**
+ * حل تعارض باختيار المستخدم لكل حقل - الحقول غير المختارة تبقى محلية
+ * الدمج يُعاد على النسخة المحلية الحالية فلا تضيع تعديلات أُجريت بعد اكتشاف التعارض
+ */
+export async function resolveTaskConflict(taskId: string, choices: Record<string, TaskConflictChoice>): Promise<void> {
+  const conflict = conflicts.get(taskId);
+  if (!conflict) return;
+
+  const local = handlers?.getLocalTasks().find(task => task.id === taskId) ?? conflict.local;
+  let { merged } = mergeTaskVersions(conflict.base, local, conflict.remote);
+  const remoteSnapshot = toTaskSnapshot(conflict.remote);
+  for (const [field, choice] of Object.entries(choices)) {
+    if (choice !== 'remote') continue;
+    const value = field.startsWith('metadata.')
+      ? remoteSnapshot.metadata[field.slice('metadata.'.length)]
+      : remoteSnapshot[field as keyof TaskSnapshot];
+    merged = applyConflictChoice(merged, field, value);
+  }
+
+  // الأساس الجديد هو نسخة الخادم التي رآها المستخدم - الرفع التالي مشروط بها
+  await saveSyncState(conflict.remote, conflict.remoteUpdatedAt);
+  await clearConflict(taskId);
+  handlers?.applyTasks([merged], []);
+  if (!sameTaskContent(merged, conflict.remote)) handlers?.queuePush(merged);
+}
+
+/**
+ * بدء المزامنة الثنائية: جلب أولي، اشتراك لحظي، وإعادة الجلب عند عودة الاتصال
+ * يُستدعى بعد تحميل المهام المحلية - يعيد دالة الإيقاف
+ */
+export function startTaskSync(userId: string, syncHandlers: TaskSyncHandlers): () => void {
+  handlers = syncHandlers;
+  loadConflicts();
+
+  const pull = () => {
+    pullRemoteTasks(userId).catch(error => console.error('❌ خطأ في جلب المهام:', error.message));
+  };
+
+  const unsubscribe = subscribeToTaskChanges(userId, change => {
+    const handled = change.type === 'delete'
+      ? findLocalTaskId(userId, change.remoteId).then(taskId => (taskId ? handleRemoteDelete(taskId) : undefined))
+      : reconcileRemoteRow(change.row).then(pending => {
+          if (pending) handlers?.queuePush(pending);
+        });
+    handled.catch(error => console.error('❌ خطأ في تطبيق تعديل المهمة:', error.message));
+  });
+
+  window.addEventListener('online', pull);
+  pull();
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('online', pull);
+    if (handlers === syncHandlers) handlers = null;
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * تقارير الاختبار لمهام خطوات assert - السكريبت المنشور يكتبها في reports/ بعد تنفيذ الخطوات
+ * - JUnit XML: يستورده فريق QA وأدوات CI
+ * - CTRF JSON: الصيغة الموحدة التي تقرؤها الواجهة لعرض ملخص التشغيل
+ * - ملخص Markdown في GITHUB_STEP_SUMMARY فيظهر في صفحة التشغيل على GitHub
+ */
+
+import JSZip from 'jszip';
+import type { AssertionType } from '../types';
+import { readTaskStepGraph } from './step-graph';
+import { graphUsesAssertions } from './step-codegen';
+
+export type CtrfTest = {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped' | 'pending' | 'other';
+  duration: number;
+  message?: string;
+  extra?: {
+    stepId?: string;
+    assertion?: AssertionType;
+    expected?: string | null;
+    actual?: string | number | null;
+  };
+};
+
+export type CtrfReport = {
+  results: {
+    tool: { name: string };
+    summary: {
+      tests: number;
+      passed: number;
+      failed: number;
+      pending: number;
+      skipped: number;
+      other: number;
+      start: number;
+      stop: number;
+    };
+    tests: CtrfTest[];
+    environment?: { appName?: string; buildName?: string; buildUrl?: string };
+  };
+};
+
+export const REPORTS_DIR = 'reports';
+
+// اسم الحالة التي تمثل خطأً أوقف الخطوات قبل اكتمالها
+export const ABORTED_TEST_NAME = 'تنفيذ الخطوات';
+
+export function taskUsesAssertions(task: any): boolean {
+  const graph = readTaskStepGraph(task);
+  return !!graph && graphUsesAssertions(graph);
+}
+
+/**
+ * قراءة تقرير CTRF من artifact (ZIP) - null إذا لم يحتوِ تقريراً
+ */
+export async function readTestReport(blob: Blob): Promise<CtrfReport | null> {
+  const zip = await JSZip.loadAsync(blob);
+  const entry = Object.values(zip.files).find(file => !file.dir && /-ctrf\.json$/.test(file.name));
+  if (!entry) return null;
+  try {
+    return JSON.parse(await entry.async('string')) as CtrfReport;
+  } catch {
+    console.warn(`⚠️ تعذر قراءة ${entry.name}`);
+    return null;
+  }
+}
+
+/**
+ * وقت تشغيل التقارير - يُضاف لسكريبت المهمة فقط إذا احتوى مخططها خطوة assert
+ * outcome هو ناتج runSteps: assertions تحمل كل التحققات المنفذة، وفشل بدون تحقق فاشل
+ * يعني أن خطأً أوقف الخطوات فيُسجَّل كحالة error مستقلة
+ */
+export const TEST_REPORTS_RUNTIME = `// تقارير الاختبار - JUnit XML و CTRF JSON في ${REPORTS_DIR}/ وملخص في صفحة التشغيل
+const writeTestReports = async (task, outcome, startedAt) => {
+  const fs = await import('fs/promises');
+  const env = process.env;
+  const stoppedAt = Date.now();
+  const cases = outcome.assertions || [];
+  const failed = cases.filter(item => item.status === 'failed');
+  const aborted = !outcome.success && failed.length === 0 ? outcome.error || 'خطأ غير معروف' : null;
+  const describe = (item) => item.error || ('المتوقع: ' + (item.expected ?? '-') + '، الفعلي: ' + (item.actual ?? '-'));
+  const escapeXml = (value) => String(value ?? '')
+    .replace(/[\\u0000-\\u0008\\u000B\\u000C\\u000E-\\u001F]/g, '')
+    .replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]);
+  const seconds = (ms) => (ms / 1000).toFixed(3);
+  const total = cases.length + (aborted ? 1 : 0);
+  const classname = 'task-' + task.id;
+
+  const testcases = cases.map(item => {
+    const open = '    <testcase name="' + escapeXml(item.name) + '" classname="' + classname + '" time="' + seconds(item.duration) + '"';
+    if (item.status === 'passed') return open + '/>';
+    return open + '>\\n      <failure message="' + escapeXml(describe(item)) + '" type="' + escapeXml(item.assertion) + '"/>\\n    </testcase>';
+  });
+  if (aborted) {
+    testcases.push('    <testcase name="${ABORTED_TEST_NAME}" classname="' + classname + '" time="0">\\n      <error message="' + escapeXml(aborted) + '" type="Error"/>\\n    </testcase>');
+  }
+  const suiteAttributes = 'name="' + escapeXml(task.name) + '" tests="' + total + '" failures="' + failed.length + '" errors="' + (aborted ? 1 : 0) + '" time="' + seconds(stoppedAt - startedAt) + '"';
+  const junit = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<testsuites ' + suiteAttributes + '>',
+    '  <testsuite ' + suiteAttributes + ' skipped="0" timestamp="' + new Date(startedAt).toISOString() + '">',
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\\n') + '\\n';
+
+  const runUrl = env.GITHUB_RUN_ID ? (env.GITHUB_SERVER_URL || 'https://github.com') + '/' + env.GITHUB_REPOSITORY + '/actions/runs/' + env.GITHUB_RUN_ID : undefined;
+  const ctrf = {
+    results: {
+      tool: { name: 'web-automation-bot' },
+      summary: {
+        tests: total,
+        passed: cases.length - failed.length,
+        failed: failed.length + (aborted ? 1 : 0),
+        pending: 0,
+        skipped: 0,
+        other: 0,
+        start: startedAt,
+        stop: stoppedAt,
+      },
+      tests: [
+        ...cases.map(item => ({
+          name: item.name,
+          status: item.status,
+          duration: item.duration,
+          ...(item.status === 'failed' ? { message: describe(item) } : {}),
+          extra: { stepId: item.stepId, assertion: item.assertion, expected: item.expected, actual: item.actual },
+        })),
+        ...(aborted ? [{ name: '${ABORTED_TEST_NAME}', status: 'failed', duration: 0, message: aborted }] : []),
+      ],
+      environment: { appName: task.name, buildName: env.GITHUB_RUN_NUMBER, buildUrl: runUrl },
+    },
+  };
+
+  await fs.mkdir('${REPORTS_DIR}', { recursive: true });
+  await fs.writeFile('${REPORTS_DIR}/' + task.id + '-junit.xml', junit);
+  await fs.writeFile('${REPORTS_DIR}/' + task.id + '-ctrf.json', JSON.stringify(ctrf, null, 2));
+  console.log('🧪 تقرير الاختبار:', (cases.length - failed.length) + '/' + total, 'ناجح');
+
+  if (env.GITHUB_STEP_SUMMARY) {
+    const cell = (value) => String(value ?? '-').replace(/\\|/g, '\\\\|').replace(/\\n/g, ' ');
+    const rows = cases.map(item => '| ' + (item.status === 'passed' ? '✅' : '❌') + ' | ' + cell(item.name) + ' | ' + cell(item.expected) + ' | ' + cell(item.error || item.actual) + ' | ' + seconds(item.duration) + 's |');
+    if (aborted) rows.push('| 💥 | ${ABORTED_TEST_NAME} | - | ' + cell(aborted) + ' | - |');
+    const summary = [
+      '### 🧪 ' + task.name + ': ' + (cases.length - failed.length) + '/' + total + ' ناجح',
+      '',
+      '| | التحقق | المتوقع | الفعلي | المدة |',
+      '|---|---|---|---|---|',
+      ...rows,
+      '',
+    ].join('\\n');
+    await fs.appendFile(env.GITHUB_STEP_SUMMARY, summary + '\\n');
+  }
+};`;
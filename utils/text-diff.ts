@@ -0,0 +1,182 @@
+/**
+ * مقارنة نصوص سطراً بسطر وإخراجها بصيغة unified diff
+ * تُستخدم في معاينة النشر لعرض ما سيتغير في كل ملف قبل رفعه
+ */
+
+export type DiffLine = {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+};
+
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+};
+
+// حد جدول LCS - الملفات الأكبر تُعرض كاستبدال كامل للجزء المختلف
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // السطر الأخير الفارغ بعد \n النهائية ليس سطراً حقيقياً
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * مقارنة سطور نصين - يحذف البداية والنهاية المشتركة ثم يطبق LCS على الوسط
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'context', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  let oldLine = prefix + 1;
+  let newLine = prefix + 1;
+
+  if (n * m > MAX_LCS_CELLS) {
+    oldMiddle.forEach(text => result.push({ type: 'remove', text, oldLine: oldLine++ }));
+    newMiddle.forEach(text => result.push({ type: 'add', text, newLine: newLine++ }));
+  } else {
+    // lcs[i][j] = طول أطول تتابع مشترك بين oldMiddle[i..] و newMiddle[j..]
+    const width = m + 1;
+    const lcs = new Uint16Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'context', text: oldMiddle[i], oldLine: oldLine++, newLine: newLine++ });
+        i++;
+        j++;
+      } else if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        result.push({ type: 'add', text: newMiddle[j], newLine: newLine++ });
+        j++;
+      } else {
+        result.push({ type: 'remove', text: oldMiddle[i], oldLine: oldLine++ });
+        i++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    result.push({ type: 'context', text: a[a.length - k], oldLine: oldLine++, newLine: newLine++ });
+  }
+
+  return result;
+}
+
+/**
+ * تجميع التغييرات في مقاطع (hunks) مع عدد من سطور السياق حول كل تغيير
+ */
+export function createDiffHunks(oldText: string, newText: string, context: number = 3): DiffHunk[] {
+  const lines = diffLines(oldText, newText);
+  const hunks: DiffHunk[] = [];
+
+  // عدد سطور كل جانب قبل الموضع i - لحساب بداية المقطع حتى لو كان جانب منه فارغاً
+  const oldBefore = new Array<number>(lines.length + 1).fill(0);
+  const newBefore = new Array<number>(lines.length + 1).fill(0);
+  lines.forEach((line, i) => {
+    oldBefore[i + 1] = oldBefore[i] + (line.type !== 'add' ? 1 : 0);
+    newBefore[i + 1] = newBefore[i] + (line.type !== 'remove' ? 1 : 0);
+  });
+
+  const pushHunk = (start: number, end: number) => {
+    const hunkLines = lines.slice(start, end);
+    const oldLines = oldBefore[end] - oldBefore[start];
+    const newLines = newBefore[end] - newBefore[start];
+    hunks.push({
+      oldStart: oldLines === 0 ? oldBefore[start] : oldBefore[start] + 1,
+      oldLines,
+      newStart: newLines === 0 ? newBefore[start] : newBefore[start] + 1,
+      newLines,
+      lines: hunkLines,
+    });
+  };
+
+  let hunkStart = -1;
+  let lastChange = -1;
+  lines.forEach((line, index) => {
+    if (line.type === 'context') return;
+
+    if (hunkStart >= 0 && index - lastChange > context * 2 + 1) {
+      pushHunk(hunkStart, lastChange + 1 + context);
+      hunkStart = -1;
+    }
+    if (hunkStart < 0) {
+      hunkStart = Math.max(0, index - context);
+    }
+    lastChange = index;
+  });
+
+  if (hunkStart >= 0) {
+    pushHunk(hunkStart, Math.min(lines.length, lastChange + 1 + context));
+  }
+
+  return hunks;
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * نص unified diff كامل لملف - oldText = null للملف الجديد و newText = null للمحذوف
+ */
+export function formatUnifiedDiff(path: string, oldText: string | null, newText: string | null, context: number = 3): string {
+  const hunks = createDiffHunks(oldText ?? '', newText ?? '', context);
+  if (hunks.length === 0) return '';
+
+  const header = [
+    `--- ${oldText === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${newText === null ? '/dev/null' : `b/${path}`}`,
+  ];
+  const body = hunks.flatMap(hunk => [
+    formatHunkHeader(hunk),
+    ...hunk.lines.map(line => `${line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}${line.text}`),
+  ]);
+  return [...header, ...body].join('\n') + '\n';
+}
+
+export function countDiffChanges(hunks: DiffHunk[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  hunks.forEach(hunk => hunk.lines.forEach(line => {
+    if (line.type === 'add') added++;
+    if (line.type === 'remove') removed++;
+  }));
+  return { added, removed };
+}
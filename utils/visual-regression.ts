@@ -0,0 +1,293 @@
+/**
+ * اختبار الانحدار البصري لمهام اللقطات - كل تشغيل يلتقط صفحة كاملة لكل مقاس
+ * ويقارنها بكسلياً بخط الأساس المعتمد في المستودع (baselines/<taskId>/<viewport>.png)
+ * اللقطة وخط الأساس وصورة الفرق والتقرير تُحفظ في screenshots/ فتصل مع artifact التشغيل
+ */
+
+import type { GitHubAPI } from './github';
+
+export type VisualViewport = {
+  name: string; // يُستخدم في أسماء الملفات - حروف وأرقام و _ فقط
+  width: number;
+  height: number;
+};
+
+export type IgnoreRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type VisualConfig = {
+  enabled: boolean;
+  viewports: VisualViewport[];
+  threshold: number; // أقصى نسبة % من البكسلات المختلفة قبل اعتبار اللقطة فاشلة
+  pixelThreshold: number; // حساسية pixelmatch للون البكسل الواحد (0 - 1)
+  ignoreRegions: IgnoreRegion[]; // مستطيلات بإحداثيات الصفحة تُستبعد من المقارنة
+  ignoreSelectors: string[]; // عناصر تُغطّى عند الالتقاط (إعلانات، تواريخ...)
+};
+
+export type VisualCheckStatus = 'passed' | 'failed' | 'no-baseline';
+
+export type VisualCheckResult = {
+  viewport: string;
+  status: VisualCheckStatus;
+  width: number;
+  height: number;
+  diffPixels: number;
+  diffPercent: number;
+  threshold: number;
+  sizeChanged: boolean; // أبعاد اللقطة تختلف عن خط الأساس
+};
+
+export type VisualReport = {
+  taskId: string;
+  generatedAt: string;
+  results: VisualCheckResult[];
+};
+
+export type VisualScreenshotKind = 'current' | 'baseline' | 'diff';
+
+export type Baseline = {
+  viewport: string;
+  path: string;
+  sha: string;
+  size: number;
+};
+
+export const DEFAULT_VISUAL_CONFIG: VisualConfig = {
+  enabled: false,
+  viewports: [{ name: 'desktop', width: 1280, height: 720 }],
+  threshold: 0.1,
+  pixelThreshold: 0.1,
+  ignoreRegions: [],
+  ignoreSelectors: [],
+};
+
+export const VIEWPORT_PRESETS: VisualViewport[] = [
+  { name: 'desktop', width: 1280, height: 720 },
+  { name: 'tablet', width: 768, height: 1024 },
+  { name: 'mobile', width: 375, height: 667 },
+];
+
+export const BASELINES_DIR = 'baselines';
+
+// مكتبات المقارنة في package.json المنشور - تُضاف فقط إذا كانت هناك مهمة بصرية
+export const VISUAL_DEPENDENCIES: Record<string, string> = {
+  pixelmatch: '^7.2.0',
+  pngjs: '^7.0.0',
+};
+
+const VIEWPORT_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+// <taskId>-visual-<viewport>[-baseline|-diff].png
+const VISUAL_FILE_PATTERN = /^(.+)-visual-([A-Za-z0-9_]+)(?:-(baseline|diff))?\.png$/;
+
+export class VisualConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VisualConfigError';
+  }
+}
+
+export function getVisualConfig(task: any): VisualConfig {
+  return { ...DEFAULT_VISUAL_CONFIG, ...(task?.metadata?.visual || {}) };
+}
+
+export function taskUsesVisualRegression(task: any): boolean {
+  const config = getVisualConfig(task);
+  return config.enabled && config.viewports.length > 0;
+}
+
+// المهام التي تلتقط صوراً - الوضع البصري يظهر في إعداداتها فقط
+export function supportsVisualRegression(task: any): boolean {
+  return task?.type === 'screenshot' || task?.type === 'testing';
+}
+
+export function sanitizeViewportName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+export function validateVisualConfig(config: VisualConfig): void {
+  if (config.viewports.length === 0) {
+    throw new VisualConfigError('أضف مقاساً واحداً على الأقل');
+  }
+  const names = new Set<string>();
+  for (const viewport of config.viewports) {
+    if (!VIEWPORT_NAME_PATTERN.test(viewport.name)) {
+      throw new VisualConfigError(`اسم المقاس غير صالح: ${viewport.name || '(فارغ)'}`);
+    }
+    if (names.has(viewport.name)) {
+      throw new VisualConfigError(`اسم المقاس مكرر: ${viewport.name}`);
+    }
+    names.add(viewport.name);
+    if (!(viewport.width > 0) || !(viewport.height > 0)) {
+      throw new VisualConfigError(`أبعاد المقاس ${viewport.name} غير صالحة`);
+    }
+  }
+  if (!(config.threshold >= 0 && config.threshold <= 100)) {
+    throw new VisualConfigError('نسبة الاختلاف المسموحة يجب أن تكون بين 0 و 100');
+  }
+  if (!(config.pixelThreshold >= 0 && config.pixelThreshold <= 1)) {
+    throw new VisualConfigError('حساسية البكسل يجب أن تكون بين 0 و 1');
+  }
+}
+
+export function getBaselinePath(taskId: string, viewport: string): string {
+  return `${BASELINES_DIR}/${taskId}/${viewport}.png`;
+}
+
+/**
+ * تحليل اسم ملف لقطة بصرية من artifact - null للقطات العادية
+ */
+export function parseVisualScreenshotName(fileName: string): { taskId: string; viewport: string; kind: VisualScreenshotKind } | null {
+  const match = fileName.match(VISUAL_FILE_PATTERN);
+  if (!match) return null;
+  return { taskId: match[1], viewport: match[2], kind: (match[3] as VisualScreenshotKind) || 'current' };
+}
+
+export function isVisualReportFile(fileName: string): boolean {
+  return /-visual\.json$/.test(fileName);
+}
+
+// ========== خطوط الأساس في المستودع ==========
+
+export async function listBaselines(api: GitHubAPI, taskId: string): Promise<Baseline[]> {
+  const entries = await api.listDirectory(`${BASELINES_DIR}/${taskId}`);
+  return entries
+    .filter(entry => entry.name.endsWith('.png'))
+    .map(entry => ({ viewport: entry.name.replace(/\.png$/, ''), path: entry.path, sha: entry.sha, size: entry.size }));
+}
+
+/**
+ * اعتماد لقطة كخط أساس - التشغيلات التالية تقارن بها بعد أن يسحبها actions/checkout
+ */
+export async function approveBaseline(api: GitHubAPI, taskId: string, viewport: string, image: Blob): Promise<void> {
+  if (!VIEWPORT_NAME_PATTERN.test(viewport)) {
+    throw new VisualConfigError(`اسم المقاس غير صالح: ${viewport}`);
+  }
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  await api.uploadBinaryFile(getBaselinePath(taskId, viewport), bytes, `📸 Approve visual baseline: ${taskId}/${viewport}`);
+}
+
+export async function deleteBaseline(api: GitHubAPI, baseline: Baseline): Promise<void> {
+  await api.deleteFile(baseline.path, `🗑️ Remove visual baseline: ${baseline.path}`, baseline.sha);
+}
+
+/**
+ * وقت تشغيل المقارنة البصرية - يُضاف لسكريبت المهمة فقط عند تفعيل الوضع البصري
+ * الصورتان تُمدّان لأكبر أبعاد بلون صارخ حتى يُحسب تغيّر الطول كاختلاف،
+ * والمناطق المتجاهلة تُطلى بلون واحد في الصورتين قبل المقارنة
+ */
+export const VISUAL_RUNTIME = `// الانحدار البصري - مقارنة لقطة كل مقاس بخط الأساس في ${BASELINES_DIR}/
+const runVisualChecks = async (page, taskId, config) => {
+  const fs = await import('fs/promises');
+  const { PNG } = await import('pngjs');
+  const pixelmatch = (await import('pixelmatch')).default;
+
+  const padImage = (png, width, height) => {
+    if (png.width === width && png.height === height) return png.data;
+    const padded = new PNG({ width, height });
+    for (let i = 0; i < padded.data.length; i += 4) {
+      padded.data[i] = 255; padded.data[i + 1] = 0; padded.data[i + 2] = 255; padded.data[i + 3] = 255;
+    }
+    PNG.bitblt(png, padded, 0, 0, png.width, png.height, 0, 0);
+    return padded.data;
+  };
+  const blankRegion = (data, width, height, region) => {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const i = (y * width + x) * 4;
+        data[i] = 0; data[i + 1] = 0; data[i + 2] = 0; data[i + 3] = 255;
+      }
+    }
+  };
+
+  await fs.mkdir('screenshots', { recursive: true });
+  const originalViewport = page.viewportSize();
+  const results = [];
+
+  for (const viewport of config.viewports) {
+    console.log('🖼️ لقطة بصرية:', viewport.name, viewport.width + 'x' + viewport.height);
+    await page.setViewportSize({ width: viewport.width, height: viewport.height });
+    await page.waitForTimeout(500);
+    const prefix = 'screenshots/' + taskId + '-visual-' + viewport.name;
+    const buffer = await page.screenshot({
+      path: prefix + '.png',
+      fullPage: true,
+      animations: 'disabled',
+      mask: (config.ignoreSelectors || []).map(selector => page.locator(selector)),
+    });
+
+    const current = PNG.sync.read(buffer);
+    const result = {
+      viewport: viewport.name,
+      status: 'no-baseline',
+      width: current.width,
+      height: current.height,
+      diffPixels: 0,
+      diffPercent: 0,
+      threshold: config.threshold,
+      sizeChanged: false,
+    };
+
+    let baselineBuffer = null;
+    try {
+      baselineBuffer = await fs.readFile('${BASELINES_DIR}/' + taskId + '/' + viewport.name + '.png');
+    } catch {
+      console.warn('⚠️ لا يوجد خط أساس لمقاس ' + viewport.name + ' - اعتمد هذه اللقطة من معاينة النتائج');
+    }
+
+    if (baselineBuffer) {
+      await fs.writeFile(prefix + '-baseline.png', baselineBuffer);
+      const baseline = PNG.sync.read(baselineBuffer);
+      const width = Math.max(current.width, baseline.width);
+      const height = Math.max(current.height, baseline.height);
+      const before = padImage(baseline, width, height);
+      const after = padImage(current, width, height);
+      for (const region of config.ignoreRegions || []) {
+        blankRegion(before, width, height, region);
+        blankRegion(after, width, height, region);
+      }
+      const diff = new PNG({ width, height });
+      const diffPixels = pixelmatch(before, after, diff.data, width, height, {
+        threshold: config.pixelThreshold,
+        alpha: 0.2,
+        diffColor: [255, 0, 0],
+      });
+      await fs.writeFile(prefix + '-diff.png', PNG.sync.write(diff));
+
+      result.diffPixels = diffPixels;
+      result.diffPercent = Number(((diffPixels / (width * height)) * 100).toFixed(3));
+      result.sizeChanged = current.width !== baseline.width || current.height !== baseline.height;
+      result.status = result.diffPercent <= config.threshold ? 'passed' : 'failed';
+      console.log((result.status === 'passed' ? '✅ ' : '❌ ') + viewport.name + ': ' + result.diffPercent + '% مختلف (المسموح ' + config.threshold + '%)');
+    }
+    results.push(result);
+  }
+
+  if (originalViewport) await page.setViewportSize(originalViewport);
+  await fs.writeFile(
+    'screenshots/' + taskId + '-visual.json',
+    JSON.stringify({ taskId, generatedAt: new Date().toISOString(), results }, null, 2)
+  );
+
+  const failed = results.filter(result => result.status === 'failed');
+  if (failed.length > 0) {
+    throw new Error('فشل الاختبار البصري: ' + failed.map(result => result.viewport + ' ' + result.diffPercent + '%').join('، '));
+  }
+  return results;
+};`;
+
+/**
+ * إعدادات المقارنة كـ literal في السكريبت - فقط ما يحتاجه وقت التشغيل
+ */
+export function compileVisualConfig(config: VisualConfig): string {
+  const { viewports, threshold, pixelThreshold, ignoreRegions, ignoreSelectors } = config;
+  return JSON.stringify({ viewports, threshold, pixelThreshold, ignoreRegions, ignoreSelectors }, null, 2);
+}